@@ -0,0 +1,19 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface AddTagsInput {
+  incident_id: string;
+  tags: string[];
+}
+
+export async function addTags<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: AddTagsInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'add_tags',
+    args,
+  });
+}
@@ -0,0 +1,29 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface AddTimelineEventInput {
+  incident_id: string;
+  event_type: 'note' | 'status_change' | 'severity_change' | 'solution_added' | 'lesson_extracted' | 'action_taken';
+  message: string;
+  from_value?: string;
+  to_value?: string;
+  occurred_at?: string;
+}
+
+export interface AddTimelineEventOutput {
+  id: string;
+  incident_id: string;
+  event: Record<string, unknown>;
+}
+
+export async function addTimelineEvent<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: AddTimelineEventInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'add_timeline_event',
+    args,
+  });
+}
@@ -0,0 +1,49 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export type ActionItemStatus = 'open' | 'in_progress' | 'done' | 'cancelled';
+export type ActionItemPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface NewActionItem {
+  title: string;
+  description?: string;
+  owner?: string;
+  due_date?: string;
+  priority?: ActionItemPriority;
+}
+
+export interface ActionItem {
+  id: string;
+  incident_id: string;
+  lesson_id: string;
+  title: string;
+  description: string;
+  owner: string;
+  due_date: string;
+  status: ActionItemStatus;
+  priority: ActionItemPriority;
+  completed_at: string;
+}
+
+export interface CreateActionItemInput extends NewActionItem {
+  incident_id: string;
+  lesson_id?: string;
+}
+
+export interface CreateActionItemOutput {
+  id: string;
+  incident_id: string;
+  action_item: ActionItem;
+}
+
+export async function createActionItem<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: CreateActionItemInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'create_action_item',
+    args,
+  });
+}
@@ -5,6 +5,7 @@ export type IncidentCategory = 'Backend' | 'Frontend' | 'DevOps' | 'Health' | 'F
 export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
 export type IncidentVisibility = 'private' | 'team' | 'public';
 export type IncidentFrequency = 'one-time' | 'occasional' | 'frequent' | 'recurring';
+export type DedupeMode = 'warn' | 'block' | 'merge';
 
 export interface CreateIncidentInput {
   title: string;
@@ -16,6 +17,7 @@ export interface CreateIncidentInput {
   environment?: string;
   visibility?: IncidentVisibility;
   frequency?: IncidentFrequency;
+  dedupe?: DedupeMode;
 }
 
 export async function createIncident<TResponse = unknown>(
@@ -0,0 +1,20 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface DeleteIncidentInput {
+  incident_id: string;
+  confirm: true;
+  cascade?: boolean;
+}
+
+export async function deleteIncident<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: DeleteIncidentInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'delete_incident',
+    args,
+  });
+}
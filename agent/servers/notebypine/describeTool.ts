@@ -0,0 +1,18 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface DescribeToolInput {
+  name: string;
+}
+
+export async function describeTool<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: DescribeToolInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'describe_tool',
+    args,
+  });
+}
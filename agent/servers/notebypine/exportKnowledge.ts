@@ -9,6 +9,7 @@ export interface ExportKnowledgeFilter {
   category?: IncidentCategory;
   severity?: IncidentSeverity;
   status?: IncidentStatus;
+  tag?: string;
 }
 
 export interface ExportKnowledgeInput {
@@ -1,5 +1,6 @@
 import type { ToolInvoker, WrapperOptions } from './types.js';
 import { NOTEBYPINE_SERVER_ID } from './types.js';
+import type { NewActionItem } from './createActionItem.js';
 
 export type LessonType = 'prevention' | 'detection' | 'response' | 'recovery' | 'general';
 
@@ -9,6 +10,8 @@ export interface ExtractLessonsInput {
   root_cause: string;
   prevention: string;
   lesson_type?: LessonType;
+  // Created as action items linked to the new lesson
+  action_items?: NewActionItem[];
 }
 
 export async function extractLessons<TResponse = unknown>(
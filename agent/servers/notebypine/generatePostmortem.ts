@@ -0,0 +1,44 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface GeneratePostmortemInput {
+  incident_id: string;
+}
+
+export interface GeneratePostmortemOutput {
+  incident_id: string;
+  markdown: string;
+  postmortem: {
+    title: string;
+    status: string;
+    generated_at: string;
+    summary: string;
+    impact: {
+      severity: string;
+      category: string;
+      frequency: string;
+      environment: string;
+      symptoms: string[];
+      duration_minutes: number | null;
+      time_to_acknowledge_minutes: number | null;
+    };
+    timeline: Array<{ at: string; event: string }>;
+    root_cause: string | null;
+    went_well: string[];
+    went_badly: string[];
+    action_items: string[];
+    sections: Array<{ heading: string; markdown: string }>;
+  };
+}
+
+export async function generatePostmortem<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: GeneratePostmortemInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'generate_postmortem',
+    args,
+  });
+}
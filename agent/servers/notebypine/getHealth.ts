@@ -0,0 +1,35 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unavailable';
+
+export interface GetHealthInput {
+  probe?: boolean;
+}
+
+export interface GetHealthOutput {
+  status: HealthStatus;
+  pocketbase: {
+    circuit_state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+    consecutive_failures: number;
+    authenticated: boolean;
+    token_refreshes: number;
+    last_success_at: string | null;
+    last_failure_at: string | null;
+    last_error: string | null;
+    probe: { reachable: boolean; latency_ms: number; error?: string } | null;
+  };
+  uptime_seconds: number;
+}
+
+export async function getHealth<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: GetHealthInput = {},
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'get_health',
+    args,
+  });
+}
@@ -0,0 +1,18 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface GetIncidentInput {
+  incident_id: string;
+}
+
+export async function getIncident<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: GetIncidentInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'get_incident',
+    args,
+  });
+}
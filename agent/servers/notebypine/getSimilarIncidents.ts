@@ -1,10 +1,12 @@
-/**
- * Wrapper for get_similar_incidents MCP tool
- */
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+import type { SearchMode } from './searchIncidents.js';
 
 export interface GetSimilarIncidentsInput {
   incident_id: string;
   limit?: number;
+  cross_category?: boolean;
+  mode?: SearchMode;
 }
 
 export interface SimilarIncident {
@@ -12,38 +14,28 @@ export interface SimilarIncident {
   title: string;
   category: string;
   severity: string;
+  status: string;
   similarity_score: number;
-  matching_signals: string[];
+  matched_terms: string[];
+  // Most effective first
+  top_solutions: Array<{ id: string; solution_title: string; effectiveness_score: number }>;
 }
 
 export interface GetSimilarIncidentsOutput {
+  source_incident_id: string;
   items: SimilarIncident[];
   total: number;
-  query_id: string;
+  mode: SearchMode;
 }
 
-/**
- * Get similar incidents based on content analysis
- */
-export async function getSimilarIncidents(
-  input: GetSimilarIncidentsInput
-): Promise<GetSimilarIncidentsOutput> {
-  // This would call the actual MCP tool
-  // For now, return a mock response that matches the expected structure
-  return {
-    items: [
-      {
-        id: 'sample_1',
-        title: 'Similar database timeout issue',
-        category: 'Backend',
-        severity: 'high',
-        similarity_score: 0.85,
-        matching_signals: ['database', 'timeout', 'connection']
-      }
-    ],
-    total: 1,
-    query_id: `similar_${Date.now()}`
-  };
+export async function getSimilarIncidents<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: GetSimilarIncidentsInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'get_similar_incidents',
+    args,
+  });
 }
-
-export type { GetSimilarIncidentsInput, SimilarIncident, GetSimilarIncidentsOutput };
\ No newline at end of file
@@ -0,0 +1,28 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+import type { FeedbackSummary } from './rateSolution.js';
+
+export interface GetSolutionFeedbackInput {
+  solution_id: string;
+  limit?: number;
+}
+
+export interface GetSolutionFeedbackOutput {
+  solution_id: string;
+  incident_id: string;
+  // Newest first
+  feedback: Array<Record<string, unknown>>;
+  summary: FeedbackSummary;
+}
+
+export async function getSolutionFeedback<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: GetSolutionFeedbackInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'get_solution_feedback',
+    args,
+  });
+}
@@ -0,0 +1,41 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface GetTimelineInput {
+  incident_id: string;
+}
+
+export interface TimelineEvent {
+  id: string;
+  event_type: string;
+  message: string;
+  from_value: string;
+  to_value: string;
+  data: Record<string, unknown>;
+  occurred_at: string;
+  created_by?: string;
+}
+
+export interface GetTimelineOutput {
+  incident_id: string;
+  events: TimelineEvent[];
+  metrics: {
+    reported_at: string;
+    acknowledged_at: string | null;
+    resolved_at: string | null;
+    time_to_acknowledge_minutes: number | null;
+    time_to_resolve_minutes: number | null;
+  };
+}
+
+export async function getTimeline<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: GetTimelineInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'get_timeline',
+    args,
+  });
+}
@@ -4,6 +4,7 @@ export type { ToolInvoker, WrapperOptions } from './types.js';
 export { createIncident } from './createIncident.js';
 export type {
   CreateIncidentInput,
+  DedupeMode,
   IncidentCategory,
   IncidentFrequency,
   IncidentSeverity,
@@ -11,7 +12,14 @@ export type {
 } from './createIncident.js';
 
 export { searchIncidents } from './searchIncidents.js';
-export type { SearchIncidentsInput, IncidentStatus } from './searchIncidents.js';
+export type {
+  SearchIncidentsInput,
+  SearchIncidentsOutput,
+  SearchHit,
+  SearchHitType,
+  SearchMode,
+  IncidentStatus,
+} from './searchIncidents.js';
 
 export { addSolution } from './addSolution.js';
 export type { AddSolutionInput } from './addSolution.js';
@@ -20,7 +28,7 @@ export { extractLessons } from './extractLessons.js';
 export type { ExtractLessonsInput, LessonType } from './extractLessons.js';
 
 export { getSimilarIncidents } from './getSimilarIncidents.js';
-export type { GetSimilarIncidentsInput, SimilarIncident } from './getSimilarIncidents.js';
+export type { GetSimilarIncidentsInput, SimilarIncident, GetSimilarIncidentsOutput } from './getSimilarIncidents.js';
 
 export { updateIncidentStatus } from './updateIncidentStatus.js';
 export type { UpdateIncidentStatusInput } from './updateIncidentStatus.js';
@@ -32,3 +40,58 @@ export type {
   ExportFormat,
 } from './exportKnowledge.js';
 
+
+export { getIncident } from './getIncident.js';
+export type { GetIncidentInput } from './getIncident.js';
+
+export { updateIncident } from './updateIncident.js';
+export type { UpdateIncidentInput } from './updateIncident.js';
+
+export { deleteIncident } from './deleteIncident.js';
+export type { DeleteIncidentInput } from './deleteIncident.js';
+
+export { addTags } from './addTags.js';
+export type { AddTagsInput } from './addTags.js';
+
+export { removeTags } from './removeTags.js';
+export type { RemoveTagsInput } from './removeTags.js';
+
+export { mergeIncidents } from './mergeIncidents.js';
+export type { MergeIncidentsInput } from './mergeIncidents.js';
+
+export { getHealth } from './getHealth.js';
+export type { GetHealthInput, GetHealthOutput, HealthStatus } from './getHealth.js';
+
+export { generatePostmortem } from './generatePostmortem.js';
+export type { GeneratePostmortemInput, GeneratePostmortemOutput } from './generatePostmortem.js';
+
+export { addTimelineEvent } from './addTimelineEvent.js';
+export type { AddTimelineEventInput, AddTimelineEventOutput } from './addTimelineEvent.js';
+
+export { getTimeline } from './getTimeline.js';
+export type { GetTimelineInput, GetTimelineOutput, TimelineEvent } from './getTimeline.js';
+
+export { createActionItem } from './createActionItem.js';
+export type {
+  CreateActionItemInput,
+  CreateActionItemOutput,
+  ActionItem,
+  ActionItemStatus,
+  ActionItemPriority,
+  NewActionItem,
+} from './createActionItem.js';
+
+export { updateActionItem } from './updateActionItem.js';
+export type { UpdateActionItemInput, UpdateActionItemOutput } from './updateActionItem.js';
+
+export { listActionItems } from './listActionItems.js';
+export type { ListActionItemsInput, ListActionItemsOutput } from './listActionItems.js';
+
+export { rateSolution } from './rateSolution.js';
+export type { RateSolutionInput, RateSolutionOutput, FeedbackSummary } from './rateSolution.js';
+
+export { getSolutionFeedback } from './getSolutionFeedback.js';
+export type { GetSolutionFeedbackInput, GetSolutionFeedbackOutput } from './getSolutionFeedback.js';
+
+export { describeTool } from './describeTool.js';
+export type { DescribeToolInput } from './describeTool.js';
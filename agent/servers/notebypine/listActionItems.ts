@@ -0,0 +1,29 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+import type { ActionItem, ActionItemStatus } from './createActionItem.js';
+
+export interface ListActionItemsInput {
+  incident_id?: string;
+  owner?: string;
+  status?: ActionItemStatus;
+  overdue?: boolean;
+  limit?: number;
+}
+
+export interface ListActionItemsOutput {
+  items: Array<ActionItem & { overdue: boolean }>;
+  total: number;
+  overdue: number;
+}
+
+export async function listActionItems<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: ListActionItemsInput = {},
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'list_action_items',
+    args,
+  });
+}
@@ -0,0 +1,19 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface MergeIncidentsInput {
+  target_id: string;
+  source_ids: string[];
+}
+
+export async function mergeIncidents<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: MergeIncidentsInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'merge_incidents',
+    args,
+  });
+}
@@ -0,0 +1,39 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface RateSolutionInput {
+  solution_id: string;
+  // Whole number from 1 to 5
+  rating: number;
+  worked: boolean;
+  comment?: string;
+  time_spent?: string;
+}
+
+export interface FeedbackSummary {
+  ratings: number;
+  average_rating: number | null;
+  worked_ratio: number | null;
+  // 0-1, 0.5 when unrated
+  effectiveness_score: number;
+}
+
+export interface RateSolutionOutput {
+  id: string;
+  solution_id: string;
+  incident_id: string;
+  feedback: Record<string, unknown>;
+  summary: FeedbackSummary;
+}
+
+export async function rateSolution<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: RateSolutionInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'rate_solution',
+    args,
+  });
+}
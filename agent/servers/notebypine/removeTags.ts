@@ -0,0 +1,19 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+
+export interface RemoveTagsInput {
+  incident_id: string;
+  tags: string[];
+}
+
+export async function removeTags<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: RemoveTagsInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'remove_tags',
+    args,
+  });
+}
@@ -4,12 +4,45 @@ import type { IncidentCategory, IncidentSeverity } from './createIncident.js';
 
 export type IncidentStatus = 'open' | 'investigating' | 'resolved' | 'archived';
 
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
 export interface SearchIncidentsInput {
   query: string;
   category?: IncidentCategory;
   severity?: IncidentSeverity;
   status?: IncidentStatus;
+  tag?: string;
   limit?: number;
+  cursor?: string;
+  mode?: SearchMode;
+}
+
+export type SearchHitType = 'incident' | 'solution' | 'lesson' | 'knowledge';
+
+export interface SearchHit {
+  type: SearchHitType;
+  id: string;
+  incident_id: string | null;
+  title: string;
+  category: string | null;
+  severity: string | null;
+  status: string | null;
+  tags: string[];
+  created: string;
+  score: number;
+  snippet: string;
+  matched_terms: string[];
+  // Solutions only
+  effectiveness_score?: number;
+}
+
+export interface SearchIncidentsOutput {
+  items: SearchHit[];
+  total: number;
+  page: number;
+  per_page: number;
+  next_cursor: string | null;
+  mode: SearchMode;
 }
 
 export async function searchIncidents<TResponse = unknown>(
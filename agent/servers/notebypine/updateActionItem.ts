@@ -0,0 +1,33 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+import type { ActionItem, ActionItemPriority, ActionItemStatus } from './createActionItem.js';
+
+export interface UpdateActionItemInput {
+  id: string;
+  title?: string;
+  description?: string;
+  owner?: string;
+  // null clears the due date
+  due_date?: string | null;
+  status?: ActionItemStatus;
+  priority?: ActionItemPriority;
+}
+
+export interface UpdateActionItemOutput {
+  id: string;
+  incident_id: string;
+  previous_status: ActionItemStatus;
+  action_item: ActionItem;
+}
+
+export async function updateActionItem<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: UpdateActionItemInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'update_action_item',
+    args,
+  });
+}
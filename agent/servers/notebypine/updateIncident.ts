@@ -0,0 +1,36 @@
+import type { ToolInvoker, WrapperOptions } from './types.js';
+import { NOTEBYPINE_SERVER_ID } from './types.js';
+import type {
+  IncidentCategory,
+  IncidentFrequency,
+  IncidentSeverity,
+  IncidentVisibility,
+} from './createIncident.js';
+import type { IncidentStatus } from './searchIncidents.js';
+
+export interface UpdateIncidentInput {
+  incident_id: string;
+  title?: string;
+  category?: IncidentCategory;
+  description?: string;
+  severity?: IncidentSeverity;
+  status?: IncidentStatus;
+  symptoms?: string;
+  context?: string;
+  environment?: string;
+  frequency?: IncidentFrequency;
+  visibility?: IncidentVisibility;
+  root_cause?: string;
+}
+
+export async function updateIncident<TResponse = unknown>(
+  invoke: ToolInvoker,
+  args: UpdateIncidentInput,
+  options: WrapperOptions = {}
+): Promise<TResponse> {
+  return invoke({
+    serverId: options.serverId ?? NOTEBYPINE_SERVER_ID,
+    tool: 'update_incident',
+    args,
+  });
+}
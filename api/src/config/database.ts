@@ -1,4 +1,32 @@
-import PocketBase from 'pocketbase';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import PocketBase, { type RecordModel } from 'pocketbase';
+import { effectivenessOf, summarizeFeedback, type EffectivenessSummary, type FeedbackEntry } from '@shared/solutionEffectiveness.js';
+import {
+  API_KEY_PREFIX,
+  API_KEY_SECRET_BYTES,
+  apiKeyDisplayPrefix,
+  apiKeyStatus,
+  shouldTouchLastUsed,
+  type ApiKeyDates,
+  type ApiKeyStatus
+} from '@shared/apiKeys.js';
+import {
+  WEBHOOK_SECRET_BYTES,
+  WEBHOOK_SECRET_PREFIX,
+  WEBHOOK_TEST_EVENT,
+  matchesEvent,
+  type WebhookEvent,
+  type WebhookPayload
+} from '@shared/webhooks.js';
+import { canView, type VisibleRecord } from '@shared/visibility.js';
+
+// Everything about a key but its hash
+const API_KEY_FIELDS = 'id,name,user,key_prefix,scopes,expires_at,last_used_at,revoked_at,created,updated';
+
+// API keys and refresh tokens are stored as hashes only
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
 
 export interface DatabaseConfig {
   url: string;
@@ -99,6 +127,27 @@ export class DatabaseService {
     return await this.client.collection('incidents').create(data);
   }
 
+  /**
+   * Whether an incident exists and the reader may see it, by the visibility rule of the MCP tools.
+   * `id` is the reader's users record; their team is looked up here.
+   */
+  async canViewIncident(incidentId: string, reader: { id: string; admin: boolean }): Promise<boolean> {
+    let incident: VisibleRecord & RecordModel;
+    try {
+      incident = await this.client.collection('incidents').getOne<VisibleRecord & RecordModel>(incidentId, { fields: 'id,visibility,created_by,team' });
+    } catch (error) {
+      return false;
+    }
+    if (reader.admin) {
+      return true;
+    }
+
+    const user = reader.id
+      ? await this.client.collection('users').getOne(reader.id, { fields: 'id,team' }).catch(() => null)
+      : null;
+    return canView({ id: reader.id, team: user?.team || '', admin: false }, incident);
+  }
+
   async getIncidents(filter = '', page = 1, limit = 20) {
     // Ensure we're authenticated before making the query
     // Re-authenticate if token is invalid or expired
@@ -163,6 +212,21 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Append an event to an incident's timeline; best-effort, a failure never fails the change it describes
+   */
+  async recordTimelineEvent(incidentId: string, event: Record<string, unknown>) {
+    try {
+      await this.client.collection('timeline_events').create({
+        incident_id: incidentId,
+        occurred_at: new Date().toISOString(),
+        ...event
+      });
+    } catch (error: any) {
+      console.warn('Failed to record timeline event:', error?.message || error);
+    }
+  }
+
   async deleteIncident(id: string) {
     return await this.client.collection('incidents').delete(id);
   }
@@ -186,6 +250,33 @@ export class DatabaseService {
     return await this.client.collection('solutions').delete(id);
   }
 
+  /**
+   * Store feedback on a solution and recompute the solution's effectiveness_score from all of its feedback
+   */
+  async createFeedback(solutionId: string, data: any): Promise<{ feedback: any; solution: any; summary: EffectivenessSummary }> {
+    const feedback = await this.client.collection('feedback').create({ ...data, solution_id: solutionId });
+    const summary = summarizeFeedback(await this.getAllFeedback(solutionId));
+    const solution = await this.client.collection('solutions').update(solutionId, {
+      effectiveness_score: summary.effectiveness_score
+    });
+    return { feedback, solution, summary };
+  }
+
+  /**
+   * The newest feedback of a solution, with a summary over all of it
+   */
+  async getFeedbackBySolution(solutionId: string, limit = 20): Promise<{ items: any[]; summary: EffectivenessSummary }> {
+    const feedback = await this.getAllFeedback(solutionId);
+    return { items: feedback.slice(0, limit), summary: summarizeFeedback(feedback) };
+  }
+
+  private async getAllFeedback(solutionId: string) {
+    return await this.client.collection('feedback').getFullList<FeedbackEntry & RecordModel>(500, {
+      filter: this.client.filter('solution_id = {:id}', { id: solutionId }),
+      sort: '-created'
+    });
+  }
+
   async getKnowledgeItems(filter = '', page = 1, limit = 50) {
     return await this.client.collection('knowledge_base').getList(page, limit, {
       filter,
@@ -205,6 +296,286 @@ export class DatabaseService {
     return await this.client.collection('knowledge_base').delete(id);
   }
 
+  /**
+   * Create a users record for a CI job or bot. Its random password is never shown: it signs in with API keys only.
+   */
+  async createServiceAccount(data: { name: string; role: string; team?: string }) {
+    const password = randomBytes(24).toString('base64url');
+    return await this.client.collection('users').create({
+      name: data.name,
+      role: data.role,
+      team: data.team ?? '',
+      service_account: true,
+      password,
+      passwordConfirm: password
+    });
+  }
+
+  async getServiceAccounts() {
+    return await this.client.collection('users').getFullList(200, {
+      filter: 'service_account = true',
+      sort: 'name'
+    });
+  }
+
+  /**
+   * A service account by ID, or null when the ID names no service account
+   */
+  async getServiceAccount(id: string): Promise<RecordModel | null> {
+    try {
+      const user = await this.client.collection('users').getOne(id);
+      return user.service_account ? user : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Issue a key for a service account; the plaintext key is only ever returned here
+   */
+  async createApiKey(userId: string, data: { name: string; scopes: string[]; expires_at?: string }): Promise<{ key: string; apiKey: RecordModel }> {
+    const key = `${API_KEY_PREFIX}${randomBytes(API_KEY_SECRET_BYTES).toString('base64url')}`;
+    const apiKey = await this.client.collection('api_keys').create({
+      name: data.name,
+      user: userId,
+      key_prefix: apiKeyDisplayPrefix(key),
+      key_hash: hashToken(key),
+      scopes: data.scopes,
+      expires_at: data.expires_at ?? ''
+    }, { fields: API_KEY_FIELDS });
+    return { key, apiKey };
+  }
+
+  async getApiKeys(userId: string) {
+    return await this.client.collection('api_keys').getFullList(200, {
+      filter: this.client.filter('user = {:userId}', { userId }),
+      sort: '-created',
+      fields: API_KEY_FIELDS
+    });
+  }
+
+  /**
+   * Revoke a key of a service account; null when the account has no such key. Revoking twice keeps the first date.
+   */
+  async revokeApiKey(userId: string, keyId: string): Promise<RecordModel | null> {
+    let apiKey: RecordModel;
+    try {
+      apiKey = await this.client.collection('api_keys').getFirstListItem(
+        this.client.filter('id = {:keyId} && user = {:userId}', { keyId, userId }),
+        { fields: API_KEY_FIELDS }
+      );
+    } catch (error) {
+      return null;
+    }
+    if (apiKey.revoked_at) {
+      return apiKey;
+    }
+    return await this.client.collection('api_keys').update(apiKey.id, {
+      revoked_at: new Date().toISOString()
+    }, { fields: API_KEY_FIELDS });
+  }
+
+  /**
+   * Look up a presented key with its service account. Unknown keys resolve to null; expired and revoked ones
+   * come back with their status so callers can say why they were refused.
+   */
+  async verifyApiKey(key: string, now: Date = new Date()): Promise<{ apiKey: RecordModel; user: RecordModel; status: ApiKeyStatus } | null> {
+    let apiKey: RecordModel & ApiKeyDates;
+    try {
+      apiKey = await this.client.collection('api_keys').getFirstListItem<RecordModel & ApiKeyDates>(
+        this.client.filter('key_hash = {:hash}', { hash: hashToken(key) }),
+        { expand: 'user' }
+      );
+    } catch (error) {
+      return null;
+    }
+
+    const user = apiKey.expand?.user;
+    if (!user) {
+      return null;
+    }
+    const status = apiKeyStatus(apiKey, now);
+    if (status === 'active' && shouldTouchLastUsed(apiKey, now)) {
+      void this.touchApiKey(apiKey.id, now);
+    }
+    return { apiKey, user, status };
+  }
+
+  /**
+   * Record when a key was last used. Runs in the background and only logs failures, since the key was valid either way.
+   */
+  private async touchApiKey(id: string, now: Date): Promise<void> {
+    await this.client.collection('api_keys').update(id, { last_used_at: now.toISOString() }).catch(error => {
+      console.warn('Failed to record API key use:', error);
+    });
+  }
+
+  async createAuthSession(data: { subject_id: string; subject_source: string; email: string; refresh_hash: string; expires_at: string }) {
+    return await this.client.collection('auth_sessions').create({
+      ...data,
+      last_used_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * The session a refresh token belongs to. `current` is false when the token was already exchanged for a newer one.
+   */
+  async findAuthSession(refreshHash: string): Promise<{ session: RecordModel; current: boolean } | null> {
+    try {
+      const session = await this.client.collection('auth_sessions').getFirstListItem(
+        this.client.filter('refresh_hash = {:hash} || previous_hash = {:hash}', { hash: refreshHash })
+      );
+      return { session, current: session.refresh_hash === refreshHash };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async rotateAuthSession(id: string, refreshHash: string, previousHash: string) {
+    return await this.client.collection('auth_sessions').update(id, {
+      refresh_hash: refreshHash,
+      previous_hash: previousHash,
+      last_used_at: new Date().toISOString()
+    });
+  }
+
+  async revokeAuthSession(id: string, revokedAt: Date = new Date()) {
+    return await this.client.collection('auth_sessions').update(id, {
+      revoked_at: revokedAt.toISOString()
+    });
+  }
+
+  /**
+   * Revoke every live session of a user or admin; returns the IDs of the sessions it revoked
+   */
+  async revokeAuthSessions(subjectId: string, revokedAt: Date = new Date()): Promise<string[]> {
+    const sessions = await this.client.collection('auth_sessions').getFullList(200, {
+      filter: this.client.filter('subject_id = {:subjectId} && revoked_at = "" && expires_at > {:now}', {
+        subjectId,
+        now: revokedAt
+      }),
+      fields: 'id'
+    });
+    await Promise.all(sessions.map(session => this.revokeAuthSession(session.id, revokedAt)));
+    return sessions.map(session => session.id);
+  }
+
+  async getRevokedAuthSessions(since: Date) {
+    return await this.client.collection('auth_sessions').getFullList(500, {
+      filter: this.client.filter('revoked_at >= {:since}', { since }),
+      fields: 'id,revoked_at'
+    });
+  }
+
+  async createWebhook(data: { url: string; events: string[]; description?: string; active?: boolean; created_by?: string }) {
+    return await this.client.collection('webhooks').create({
+      url: data.url,
+      events: data.events,
+      description: data.description ?? '',
+      active: data.active ?? true,
+      secret: `${WEBHOOK_SECRET_PREFIX}${randomBytes(WEBHOOK_SECRET_BYTES).toString('hex')}`,
+      created_by: data.created_by ?? ''
+    });
+  }
+
+  async getWebhooks() {
+    return await this.client.collection('webhooks').getFullList(200, { sort: '-created' });
+  }
+
+  /**
+   * A webhook by ID, or null when there is none
+   */
+  async getWebhook(id: string): Promise<RecordModel | null> {
+    try {
+      return await this.client.collection('webhooks').getOne(id);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async updateWebhook(id: string, data: { url?: string; events?: string[]; description?: string; active?: boolean }) {
+    return await this.client.collection('webhooks').update(id, data);
+  }
+
+  async deleteWebhook(id: string) {
+    return await this.client.collection('webhooks').delete(id);
+  }
+
+  /**
+   * Queue an event for every active webhook subscribed to it; the MCP server's delivery worker sends them.
+   * Best effort: a failure is logged and never fails the change that caused the event.
+   */
+  async emitWebhookEvent(event: WebhookEvent, data: unknown): Promise<number> {
+    try {
+      const webhooks = (await this.client.collection('webhooks').getFullList(200, { filter: 'active = true' }))
+        .filter(webhook => matchesEvent(webhook.events, event));
+      const payload: WebhookPayload = { id: randomUUID(), event, created: new Date().toISOString(), data };
+      await Promise.all(webhooks.map(webhook => this.enqueueWebhookDelivery(webhook.id, payload)));
+      return webhooks.length;
+    } catch (error) {
+      console.warn(`Failed to queue webhook event ${event}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Queue a test event for one webhook, whatever events it subscribes to
+   */
+  async sendTestWebhookEvent(webhookId: string, data: unknown) {
+    return await this.enqueueWebhookDelivery(webhookId, {
+      id: randomUUID(),
+      event: WEBHOOK_TEST_EVENT,
+      created: new Date().toISOString(),
+      data
+    });
+  }
+
+  async getWebhookDeliveries(webhookId: string, options: { status?: string; page?: number; perPage?: number } = {}) {
+    const filter = options.status
+      ? this.client.filter('webhook = {:webhookId} && status = {:status}', { webhookId, status: options.status })
+      : this.client.filter('webhook = {:webhookId}', { webhookId });
+    return await this.client.collection('webhook_deliveries').getList(options.page ?? 1, options.perPage ?? 50, {
+      filter,
+      sort: '-created'
+    });
+  }
+
+  async getDeadWebhookDeliveries(options: { page?: number; perPage?: number } = {}) {
+    return await this.client.collection('webhook_deliveries').getList(options.page ?? 1, options.perPage ?? 50, {
+      filter: 'status = "dead"',
+      sort: '-last_attempt_at',
+      expand: 'webhook',
+      fields: '*,expand.webhook.id,expand.webhook.url'
+    });
+  }
+
+  /**
+   * Put a delivery back in the queue with a fresh set of attempts; null when there is no such delivery
+   */
+  async retryWebhookDelivery(id: string): Promise<RecordModel | null> {
+    try {
+      return await this.client.collection('webhook_deliveries').update(id, {
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString()
+      });
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async enqueueWebhookDelivery(webhookId: string, payload: WebhookPayload) {
+    return await this.client.collection('webhook_deliveries').create({
+      webhook: webhookId,
+      event: payload.event,
+      event_id: payload.id,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: payload.created
+    });
+  }
+
   async searchIncidents(query: string) {
     return await this.client.collection('incidents').getFullList(200, {
       filter: `title ~ '${query}' || description ~ '${query}' || tags ~ '${query}'`,
@@ -213,10 +584,12 @@ export class DatabaseService {
   }
 
   async searchSolutions(query: string) {
-    return await this.client.collection('solutions').getFullList(200, {
+    const solutions = await this.client.collection('solutions').getFullList<RecordModel & { effectiveness_score?: number }>(200, {
       filter: `title ~ '${query}' || description ~ '${query}' || tags ~ '${query}'`,
       sort: '-created'
     });
+    // Best-rated first; the sort is stable, so equally rated solutions stay newest first
+    return solutions.sort((a, b) => effectivenessOf(b) - effectivenessOf(a));
   }
 
   async searchKnowledge(query: string) {
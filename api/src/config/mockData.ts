@@ -16,7 +16,7 @@ export const mockIncidents = [
     title: 'API Response Time Degradation',
     description: 'API endpoints are responding slower than usual, average response time increased by 300%.',
     severity: 'high',
-    status: 'new',
+    status: 'open',
     tags: ['api', 'performance'],
     created: '2025-11-07T08:00:00Z',
     updated: '2025-11-07T08:00:00Z'
@@ -1,16 +1,69 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { DatabaseService } from '../config/database.js';
+import { randomBytes } from 'node:crypto';
+import { DatabaseService, hashToken } from '../config/database.js';
+import { RevocationList } from '../services/revocations.js';
+import { normalizeRole } from '@shared/permissions.js';
+import { isApiKey } from '@shared/apiKeys.js';
 
 export interface AuthenticatedRequest extends Request {
   user?: any;
 }
 
+/**
+ * The users record behind a token, for created_by/updated_by; empty for PocketBase admins, which are
+ * not records of the users collection. Tokens issued before `source` existed only carry the role.
+ */
+export function userRecordId(user: any): string {
+  if (!user?.id || (user.role === 'admin' && user.source !== 'users')) {
+    return '';
+  }
+  return user.id;
+}
+
+export interface SessionOptions {
+  accessTokenTtlSeconds?: number;
+  refreshTokenTtlDays?: number;
+}
+
+// Who a session signs in: a PocketBase admin or a users record
+interface SessionSubject {
+  id: string;
+  email: string;
+  role: string;
+  source: 'admins' | 'users';
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+// Two tabs refreshing with the same token at once is a race, not a stolen token
+const REFRESH_REUSE_GRACE_MS = 10_000;
+
 export class AuthMiddleware {
   private jwtSecret: string;
+  private accessTokenTtlSeconds: number;
+  private refreshTokenTtlMs: number;
+  private revocations: RevocationList;
 
-  constructor(jwtSecret: string) {
+  constructor(jwtSecret: string, options: SessionOptions = {}) {
     this.jwtSecret = jwtSecret;
+    this.accessTokenTtlSeconds = options.accessTokenTtlSeconds || DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+    this.refreshTokenTtlMs = (options.refreshTokenTtlDays || DEFAULT_REFRESH_TOKEN_TTL_DAYS) * 24 * 60 * 60 * 1000;
+    this.revocations = new RevocationList(this.accessTokenTtlSeconds * 1000);
+  }
+
+  /**
+   * Decode an access token and check its session has not been revoked; throws otherwise.
+   * Used by authenticate and by the WebSocket `authenticate` message.
+   */
+  verifyAccessToken(token: string): any {
+    const decoded = jwt.verify(token, this.jwtSecret) as any;
+    // Tokens issued before sessions existed cannot be revoked, so they are no longer accepted
+    if (!decoded.sid || this.revocations.isRevoked(decoded.sid)) {
+      throw new Error('Session has been revoked');
+    }
+    // Tokens issued before the role matrix may carry legacy or missing roles
+    return { ...decoded, role: normalizeRole(decoded.role) };
   }
 
   authenticate = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -25,9 +78,12 @@ export class AuthMiddleware {
 
     const token = authHeader.substring(7);
 
+    if (isApiKey(token)) {
+      return this.authenticateApiKey(token, req, res, next);
+    }
+
     try {
-      const decoded = jwt.verify(token, this.jwtSecret) as any;
-      req.user = decoded;
+      req.user = this.verifyAccessToken(token);
       next();
     } catch (error) {
       return res.status(401).json({
@@ -37,6 +93,34 @@ export class AuthMiddleware {
     }
   };
 
+  /**
+   * Sign a service account in with one of its API keys; requirePermission then also checks the key's scopes
+   */
+  private async authenticateApiKey(key: string, req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const result = await req.app.locals.dbService.verifyApiKey(key);
+      if (!result || result.status !== 'active') {
+        return res.status(401).json({
+          success: false,
+          error: result ? `API key is ${result.status}` : 'Invalid API key'
+        });
+      }
+
+      const { apiKey, user } = result;
+      req.user = {
+        id: user.id,
+        email: user.email,
+        role: normalizeRole(user.role),
+        source: 'users',
+        scopes: Array.isArray(apiKey.scopes) ? apiKey.scopes : [],
+        apiKeyId: apiKey.id
+      };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }
+
   static createInstance(jwtSecret: string): AuthMiddleware {
     return new AuthMiddleware(jwtSecret);
   }
@@ -81,20 +165,17 @@ export class AuthMiddleware {
 
         if (adminAuthResponse.ok) {
           const adminAuth = await adminAuthResponse.json();
-          const token = jwt.sign(
-            {
-              id: adminAuth.admin.id,
-              email: adminAuth.admin.email,
-              role: 'admin'
-            },
-            this.jwtSecret,
-            { expiresIn: '7d' }
-          );
+          const tokens = await this.startSession({
+            id: adminAuth.admin.id,
+            email: adminAuth.admin.email,
+            role: 'admin',
+            source: 'admins'
+          }, dbService);
 
           return {
             success: true,
             data: {
-              token,
+              ...tokens,
               user: {
                 id: adminAuth.admin.id,
                 email: adminAuth.admin.email,
@@ -126,25 +207,22 @@ export class AuthMiddleware {
 
           if (userAuthResponse.ok) {
             const userAuth = await userAuthResponse.json();
-            
-            const token = jwt.sign(
-              {
-                id: userAuth.record.id,
-                email: userAuth.record.email,
-                role: userAuth.record.role || 'user'
-              },
-              this.jwtSecret,
-              { expiresIn: '7d' }
-            );
+            const role = normalizeRole(userAuth.record.role);
+            const tokens = await this.startSession({
+              id: userAuth.record.id,
+              email: userAuth.record.email,
+              role,
+              source: 'users'
+            }, dbService);
 
             return {
               success: true,
               data: {
-                token,
+                ...tokens,
                 user: {
                   id: userAuth.record.id,
                   email: userAuth.record.email,
-                  role: userAuth.record.role || 'user',
+                  role,
                   name: userAuth.record.name || userAuth.record.email
                 }
               }
@@ -174,4 +252,127 @@ export class AuthMiddleware {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token. The old refresh token stops
+   * working; presenting it again later means it was copied, so the whole session is revoked.
+   */
+  async refresh(refreshToken: string, dbService: DatabaseService) {
+    const hash = hashToken(refreshToken);
+    const found = await dbService.findAuthSession(hash);
+    if (!found) {
+      return { success: false, error: 'Invalid refresh token' };
+    }
+
+    const { session, current } = found;
+    const now = new Date();
+    if (session.revoked_at) {
+      return { success: false, error: 'Session has been revoked' };
+    }
+    if (!current) {
+      if (now.getTime() - new Date(session.last_used_at).getTime() < REFRESH_REUSE_GRACE_MS) {
+        return { success: false, error: 'Refresh token already used' };
+      }
+      await this.revokeSession(session.id, dbService, now);
+      console.warn(`Refresh token reuse detected, revoked session ${session.id} of ${session.email}`);
+      return { success: false, error: 'Refresh token reuse detected; the session has been revoked' };
+    }
+    if (new Date(session.expires_at).getTime() <= now.getTime()) {
+      return { success: false, error: 'Session expired' };
+    }
+
+    // Role changes take effect on the next refresh
+    let subject: SessionSubject;
+    if (session.subject_source === 'users') {
+      try {
+        const user = await dbService.getClient().collection('users').getOne(session.subject_id);
+        subject = { id: user.id, email: user.email, role: normalizeRole(user.role), source: 'users' };
+      } catch (error) {
+        await this.revokeSession(session.id, dbService, now);
+        return { success: false, error: 'User no longer exists' };
+      }
+    } else {
+      subject = { id: session.subject_id, email: session.email, role: 'admin', source: 'admins' };
+    }
+
+    const next = this.newRefreshToken();
+    await dbService.rotateAuthSession(session.id, hashToken(next), hash);
+
+    return {
+      success: true,
+      data: {
+        token: this.signAccessToken(subject, session.id),
+        refreshToken: next,
+        expiresIn: this.accessTokenTtlSeconds
+      }
+    };
+  }
+
+  /**
+   * End the session an access token belongs to
+   */
+  async logout(user: any, dbService: DatabaseService) {
+    if (user?.sid) {
+      await this.revokeSession(user.sid, dbService);
+    }
+  }
+
+  /**
+   * End every session of the user, on every device; returns how many were ended
+   */
+  async logoutAll(user: any, dbService: DatabaseService): Promise<number> {
+    const now = new Date();
+    const revoked = await dbService.revokeAuthSessions(user.id, now);
+    revoked.forEach(sessionId => this.revocations.revoke(sessionId, now));
+    // The current session is in the list too, unless it already expired
+    if (user.sid && !revoked.includes(user.sid)) {
+      this.revocations.revoke(user.sid, now);
+    }
+    return revoked.length;
+  }
+
+  /**
+   * Reload sessions revoked recently enough that their access tokens may still be presented
+   */
+  async loadRevocations(dbService: DatabaseService) {
+    const since = new Date(Date.now() - this.accessTokenTtlSeconds * 1000);
+    const sessions = await dbService.getRevokedAuthSessions(since);
+    sessions.forEach(session => this.revocations.revoke(session.id, new Date(session.revoked_at)));
+    return sessions.length;
+  }
+
+  private async revokeSession(sessionId: string, dbService: DatabaseService, now: Date = new Date()) {
+    this.revocations.revoke(sessionId, now);
+    this.revocations.prune(now.getTime());
+    await dbService.revokeAuthSession(sessionId, now);
+  }
+
+  private async startSession(subject: SessionSubject, dbService: DatabaseService) {
+    const refreshToken = this.newRefreshToken();
+    const session = await dbService.createAuthSession({
+      subject_id: subject.id,
+      subject_source: subject.source,
+      email: subject.email,
+      refresh_hash: hashToken(refreshToken),
+      expires_at: new Date(Date.now() + this.refreshTokenTtlMs).toISOString()
+    });
+
+    return {
+      token: this.signAccessToken(subject, session.id),
+      refreshToken,
+      expiresIn: this.accessTokenTtlSeconds
+    };
+  }
+
+  private signAccessToken(subject: SessionSubject, sessionId: string): string {
+    return jwt.sign(
+      { id: subject.id, email: subject.email, role: subject.role, source: subject.source, sid: sessionId },
+      this.jwtSecret,
+      { expiresIn: this.accessTokenTtlSeconds }
+    );
+  }
+
+  private newRefreshToken(): string {
+    return randomBytes(48).toString('base64url');
+  }
+}
@@ -0,0 +1,52 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { ErrorHandler, AppException } from './errorHandler.js';
+import { accessFor, scopeAllows, type Permission } from '@shared/permissions.js';
+
+/**
+ * Finds who created the record a request targets, for rules that let a role change only its own records
+ */
+export type OwnerLookup = (req: AuthenticatedRequest) => Promise<string | undefined>;
+
+/**
+ * Reject the request unless the user's role grants the permission (see src/shared/permissions.ts).
+ * When the role may only act on its own records, ownerOf decides; without it the request is rejected.
+ * Requests made with an API key also need a scope of the key that covers the permission.
+ */
+export const requirePermission = (permission: Permission, ownerOf?: OwnerLookup) =>
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      throw new AppException('Authentication required', 401);
+    }
+    if (!scopeAllows(req.user.scopes, permission)) {
+      throw new AppException(`This API key may not be used for ${permission}`, 403);
+    }
+
+    const access = accessFor(req.user.role, permission);
+    if (access === 'any') {
+      return next();
+    }
+    if (access === 'own' && ownerOf) {
+      const owner = await ownerOf(req);
+      if (owner && owner === req.user.id) {
+        return next();
+      }
+      throw new AppException('You can only change records you created', 403);
+    }
+    throw new AppException('Insufficient permissions', 403);
+  });
+
+/**
+ * Owner of the PocketBase record named by the :id route parameter
+ */
+export const recordOwner = (collection: string, field: string = 'created_by'): OwnerLookup =>
+  async (req: AuthenticatedRequest) => {
+    try {
+      const record = await req.app.locals.dbService.getClient().collection(collection).getOne(req.params.id, {
+        fields: `id,${field}`
+      });
+      return record[field] || undefined;
+    } catch (error) {
+      throw new AppException('Record not found', 404);
+    }
+  };
@@ -1,5 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { INCIDENT_STATUSES, LEGACY_STATUSES } from '@shared/incidentStatus.js';
+import { MAX_RATING, MIN_RATING } from '@shared/solutionEffectiveness.js';
+import { API_KEY_SCOPES, ROLES } from '@shared/permissions.js';
+import { WEBHOOK_DELIVERY_STATUSES, isEventFilter } from '@shared/webhooks.js';
+
+// Legacy names (new, closed) are still accepted and mapped by the routes
+const STATUS_VALUES = [...INCIDENT_STATUSES, ...Object.keys(LEGACY_STATUSES)];
+
+// An event name, a resource wildcard such as incident.*, or *
+const webhookEventFilter = Joi.string().custom((value, helpers) => isEventFilter(value) ? value : helpers.error('any.invalid'));
 
 export const validateRequest = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -45,7 +55,7 @@ export const schemas = {
     title: Joi.string().required().min(3).max(200),
     description: Joi.string().required().min(10),
     severity: Joi.string().valid('low', 'medium', 'high', 'critical').required(),
-    status: Joi.string().valid('new', 'open', 'investigating', 'resolved', 'closed').default('new'),
+    status: Joi.string().valid(...STATUS_VALUES).default('open'),
     tags: Joi.array().items(Joi.string()).default([]),
     assignedTo: Joi.string().optional(),
     source: Joi.string().optional(),
@@ -57,7 +67,9 @@ export const schemas = {
     title: Joi.string().min(3).max(200).optional(),
     description: Joi.string().min(3).optional(), // Reduced from 10 to 3 for updates
     severity: Joi.string().valid('low', 'medium', 'high', 'critical').optional(),
-    status: Joi.string().valid('new', 'open', 'investigating', 'resolved', 'closed').optional(),
+    status: Joi.string().valid(...STATUS_VALUES).optional(),
+    resolution_summary: Joi.string().optional(),
+    reason: Joi.string().optional(), // Why the status changed; not stored on the incident
     tags: Joi.array().items(Joi.string()).optional(),
     assignedTo: Joi.string().optional(),
     assigned_to: Joi.string().optional(), // Support both camelCase and snake_case
@@ -75,6 +87,17 @@ export const schemas = {
     metadata: Joi.object().optional()
   }),
 
+  feedback: Joi.object({
+    rating: Joi.number().integer().min(MIN_RATING).max(MAX_RATING).required(),
+    worked: Joi.boolean().required(),
+    comment: Joi.string().allow('').optional(),
+    time_spent: Joi.string().allow('').optional()
+  }),
+
+  feedbackQuery: Joi.object({
+    limit: Joi.number().integer().min(1).max(100).default(20)
+  }),
+
   knowledgeItem: Joi.object({
     title: Joi.string().required().min(3).max(200),
     content: Joi.string().required().min(10),
@@ -99,8 +122,44 @@ export const schemas = {
     limit: Joi.number().integer().min(1).max(100).default(20)
   }),
 
+  serviceAccount: Joi.object({
+    name: Joi.string().required().min(3).max(100),
+    role: Joi.string().valid(...ROLES).default('responder'),
+    team: Joi.string().allow('').optional()
+  }),
+
+  apiKey: Joi.object({
+    name: Joi.string().required().min(3).max(100),
+    scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique().required(),
+    expires_at: Joi.date().iso().greater('now').optional()
+  }),
+
+  webhook: Joi.object({
+    url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+    events: Joi.array().items(webhookEventFilter).min(1).unique().required(),
+    description: Joi.string().allow('').max(500).optional(),
+    active: Joi.boolean().optional()
+  }),
+
+  webhookUpdate: Joi.object({
+    url: Joi.string().uri({ scheme: ['http', 'https'] }).optional(),
+    events: Joi.array().items(webhookEventFilter).min(1).unique().optional(),
+    description: Joi.string().allow('').max(500).optional(),
+    active: Joi.boolean().optional()
+  }).min(1),
+
+  webhookDeliveries: Joi.object({
+    status: Joi.string().valid(...WEBHOOK_DELIVERY_STATUSES).optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50)
+  }),
+
   login: Joi.object({
     email: Joi.string().email().required(),
     password: Joi.string().required().min(6)
+  }),
+
+  refresh: Joi.object({
+    refreshToken: Joi.string().required()
   })
 };
\ No newline at end of file
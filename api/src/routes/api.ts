@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { incidentRoutes } from './incidents.js';
 import { solutionRoutes } from './solutions.js';
 import { knowledgeRoutes } from './knowledge.js';
@@ -6,19 +6,29 @@ import { chatRoutes } from './chat.js';
 import { uploadRoutes } from './upload.js';
 import { searchRoutes } from './search.js';
 import { healthRoutes } from './health.js';
+import { serviceAccountRoutes } from './serviceAccounts.js';
+import { webhookRoutes } from './webhooks.js';
+import { authRoutes } from './auth.js';
 
 const router = Router();
 
 // API version prefix
 const API_VERSION = '/api/v1';
 
+// Every group but health needs a token; the routes check the role's permissions
+const authenticate = (req: Request, res: Response, next: NextFunction) =>
+  req.app.locals.authMiddleware.authenticate(req, res, next);
+
 // Route groups
-router.use(`${API_VERSION}/incidents`, incidentRoutes);
-router.use(`${API_VERSION}/solutions`, solutionRoutes);
-router.use(`${API_VERSION}/knowledge`, knowledgeRoutes);
-router.use(`${API_VERSION}/chat`, chatRoutes);
-router.use(`${API_VERSION}/upload`, uploadRoutes);
-router.use(`${API_VERSION}/search`, searchRoutes);
+router.use('/api/auth', authRoutes);
+router.use(`${API_VERSION}/incidents`, authenticate, incidentRoutes);
+router.use(`${API_VERSION}/solutions`, authenticate, solutionRoutes);
+router.use(`${API_VERSION}/knowledge`, authenticate, knowledgeRoutes);
+router.use(`${API_VERSION}/chat`, authenticate, chatRoutes);
+router.use(`${API_VERSION}/upload`, authenticate, uploadRoutes);
+router.use(`${API_VERSION}/search`, authenticate, searchRoutes);
+router.use(`${API_VERSION}/service-accounts`, authenticate, serviceAccountRoutes);
+router.use(`${API_VERSION}/webhooks`, authenticate, webhookRoutes);
 router.use(`${API_VERSION}/health`, healthRoutes);
 
 // API documentation endpoint
@@ -34,6 +44,8 @@ router.get(`${API_VERSION}`, (req, res) => {
       chat: `${API_VERSION}/chat`,
       upload: `${API_VERSION}/upload`,
       search: `${API_VERSION}/search`,
+      serviceAccounts: `${API_VERSION}/service-accounts`,
+      webhooks: `${API_VERSION}/webhooks`,
       health: `${API_VERSION}/health`
     },
     documentation: '/api/docs'
@@ -0,0 +1,48 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { validateRequest, schemas } from '../middleware/validation.js';
+import { ErrorHandler } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// Login lives in server.ts, next to the database availability check it needs
+const authenticate = (req: Request, res: Response, next: NextFunction) =>
+  req.app.locals.authMiddleware.authenticate(req, res, next);
+
+// Exchange a refresh token for a new access token and refresh token
+router.post(
+  '/refresh',
+  validateRequest(schemas.refresh),
+  ErrorHandler.asyncHandler(async (req: Request, res: Response) => {
+    const result = await req.app.locals.authMiddleware.refresh(req.body.refreshToken, req.app.locals.dbService);
+    res.status(result.success ? 200 : 401).json(result);
+  })
+);
+
+// End the current session
+router.post(
+  '/logout',
+  authenticate,
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await req.app.locals.authMiddleware.logout(req.user, req.app.locals.dbService);
+    res.json({
+      success: true,
+      data: { message: 'Logged out' }
+    });
+  })
+);
+
+// End every session of the signed-in user
+router.post(
+  '/logout-all',
+  authenticate,
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const sessions = await req.app.locals.authMiddleware.logoutAll(req.user, req.app.locals.dbService);
+    res.json({
+      success: true,
+      data: { message: `Logged out of ${sessions} session(s)`, sessions }
+    });
+  })
+);
+
+export { router as authRoutes };
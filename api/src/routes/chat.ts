@@ -1,23 +1,15 @@
 import { Router, Request, Response } from 'express';
-import { AuthMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest, userRecordId } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
 import { ErrorHandler, AppException } from '../middleware/errorHandler.js';
+import { userChannel } from '../services/channels.js';
 
 const router = Router();
 
 // Chat endpoint for ChatOps functionality
 router.post(
   '/message',
-  (req, res, next) => {
-    // Simple authentication middleware inline
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        error: 'Authentication required'
-      });
-    }
-    next();
-  },
+  requirePermission('chat:use'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { message, context } = req.body;
 
@@ -51,10 +43,10 @@ router.post(
           response = await handleGeneralQuery(message, context);
       }
 
-      // Broadcast the chat message for real-time updates
+      // Echo the exchange to the user's other connections
       const wsServer = req.app.locals.wsServer;
       if (wsServer) {
-        wsServer.broadcast({
+        wsServer.publish([userChannel(req.user.id)], {
           type: 'chat_message',
           data: {
             user: req.user,
@@ -84,17 +76,7 @@ router.post(
 // Get chat history
 router.get(
   '/history',
-  (req, res, next) => {
-    // Simple authentication middleware inline
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        error: 'Authentication required'
-      });
-    }
-    next();
-  },
+  requirePermission('chat:use'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     // This would typically fetch from a chat history collection
     // For now, return a placeholder response
@@ -230,8 +212,8 @@ async function handleCreateIncident(data: any, user: any, dbService: any) {
       title: data.title,
       description: data.description,
       severity: data.severity || 'medium',
-      status: 'new',
-      createdBy: user.id,
+      status: 'open',
+      created_by: userRecordId(user),
       created: new Date().toISOString()
     });
 
@@ -292,7 +274,7 @@ async function handleCreateSolution(data: any, user: any, dbService: any) {
       description: data.description,
       steps: data.steps,
       category: 'troubleshooting',
-      createdBy: user.id,
+      created_by: userRecordId(user),
       created: new Date().toISOString()
     });
 
@@ -1,14 +1,24 @@
 import { Router, Response } from 'express';
-import { AuthMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest, userRecordId } from '../middleware/auth.js';
+import { requirePermission, recordOwner } from '../middleware/permissions.js';
 import { validateRequest, validateQuery, schemas } from '../middleware/validation.js';
 import { RateLimitMiddleware } from '../middleware/rateLimiter.js';
 import { ErrorHandler, AppException } from '../middleware/errorHandler.js';
+import { incidentChannels } from '../services/channels.js';
+import {
+  INITIAL_STATUSES,
+  StatusTransitionError,
+  normalizeStatus,
+  planTransition,
+  type TransitionPlan
+} from '@shared/incidentStatus.js';
 
 const router = Router();
 
 // Get all incidents with pagination and filtering
 router.get(
   '/',
+  requirePermission('incidents:read'),
   validateQuery(schemas.pagination),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const page = parseInt(req.query.page as string) || 1;
@@ -52,6 +62,7 @@ router.get(
 // Get specific incident
 router.get(
   '/:id',
+  requirePermission('incidents:read'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const dbService = req.app.locals.dbService;
@@ -79,6 +90,7 @@ router.get(
 // Create new incident
 router.post(
   '/',
+  requirePermission('incidents:create'),
   RateLimitMiddleware.general,
   validateRequest(schemas.incident),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
@@ -92,9 +104,15 @@ router.post(
       });
     }
 
+    const status = normalizeStatus(req.body.status) ?? 'open';
+    if (!INITIAL_STATUSES.includes(status)) {
+      throw new AppException(`New incidents must start as ${INITIAL_STATUSES.join(' or ')}`, 400);
+    }
+
     const incidentData = {
       ...req.body,
-      createdBy: req.user?.id,
+      status,
+      created_by: userRecordId(req.user),
       created: new Date().toISOString()
     };
 
@@ -103,11 +121,12 @@ router.post(
     // Emit WebSocket event for real-time updates
     const wsServer = req.app.locals.wsServer;
     if (wsServer) {
-      wsServer.broadcast({
+      wsServer.publish(incidentChannels(incident), {
         type: 'incident_created',
         data: incident
       });
     }
+    void dbService.emitWebhookEvent('incident.created', { incident });
 
     res.status(201).json({
       success: true,
@@ -119,6 +138,7 @@ router.post(
 // Update incident
 router.put(
   '/:id',
+  requirePermission('incidents:update', recordOwner('incidents')),
   validateRequest(schemas.incidentUpdate),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
@@ -138,12 +158,41 @@ router.put(
       });
     }
 
+    const { reason, ...fields } = req.body;
     const updateData = {
-      ...req.body,
+      ...fields,
       updated: new Date().toISOString(),
-      updatedBy: req.user?.id
+      updated_by: userRecordId(req.user)
     };
 
+    // Status changes follow the shared state machine, like update_incident_status in the MCP server
+    let plan: TransitionPlan | null = null;
+    if (fields.status !== undefined) {
+      let current: any;
+      try {
+        current = await dbService.getClient().collection('incidents').getOne(id);
+      } catch (error) {
+        throw new AppException('Incident not found', 404);
+      }
+
+      if (normalizeStatus(fields.status) === normalizeStatus(current.status)) {
+        delete updateData.status;
+      } else {
+        try {
+          plan = planTransition(current.status, fields.status, {
+            resolution_summary: fields.resolution_summary,
+            reason
+          });
+        } catch (error) {
+          if (error instanceof StatusTransitionError) {
+            throw new AppException(error.message, error.code === 'not_allowed' ? 409 : 400);
+          }
+          throw error;
+        }
+        Object.assign(updateData, plan.changes);
+      }
+    }
+
     // Normalize field names (support both camelCase and snake_case)
     if (updateData.assignedTo && !updateData.assigned_to) {
       updateData.assigned_to = updateData.assignedTo;
@@ -156,14 +205,31 @@ router.put(
       const incident = await dbService.updateIncident(id, updateData);
       console.log('✅ Update successful:', incident);
 
+      if (plan) {
+        await dbService.recordTimelineEvent(id, {
+          event_type: 'status_change',
+          message: plan.note || `Status changed from ${plan.from} to ${plan.to}`,
+          from_value: plan.from,
+          to_value: plan.to
+        });
+      }
+
       // Emit WebSocket event
       const wsServer = req.app.locals.wsServer;
       if (wsServer) {
-        wsServer.broadcast({
+        wsServer.publish(incidentChannels(incident), {
           type: 'incident_updated',
           data: incident
         });
       }
+      if (plan) {
+        void dbService.emitWebhookEvent('incident.status_changed', {
+          incident,
+          from: plan.from,
+          to: plan.to,
+          reason: plan.note || null
+        });
+      }
 
       res.json({
         success: true,
@@ -188,6 +254,7 @@ router.put(
 // Delete incident
 router.delete(
   '/:id',
+  requirePermission('incidents:delete', recordOwner('incidents')),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const dbService = req.app.locals.dbService;
@@ -201,12 +268,14 @@ router.delete(
     }
 
     try {
+      // Read first: subscribers of the incident's category hear about the deletion too
+      const incident = await dbService.getClient().collection('incidents').getOne(id, { fields: 'id,category' });
       await dbService.deleteIncident(id);
 
       // Emit WebSocket event
       const wsServer = req.app.locals.wsServer;
       if (wsServer) {
-        wsServer.broadcast({
+        wsServer.publish(incidentChannels(incident), {
           type: 'incident_deleted',
           data: { id }
         });
@@ -225,6 +294,7 @@ router.delete(
 // Get incident statistics
 router.get(
   '/stats/summary',
+  requirePermission('incidents:read'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const dbService = req.app.locals.dbService;
 
@@ -1,13 +1,16 @@
 import { Router, Response } from 'express';
-import { AuthMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest, userRecordId } from '../middleware/auth.js';
+import { requirePermission, recordOwner } from '../middleware/permissions.js';
 import { validateRequest, validateQuery, schemas } from '../middleware/validation.js';
 import { ErrorHandler, AppException } from '../middleware/errorHandler.js';
+import { knowledgeChannels } from '../services/channels.js';
 
 const router = Router();
 
 // Get all knowledge base items
 router.get(
   '/',
+  requirePermission('knowledge:read'),
   validateQuery(schemas.pagination),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { page = 1, limit = 50 } = req.query as any;
@@ -42,6 +45,7 @@ router.get(
 // Get specific knowledge item
 router.get(
   '/:id',
+  requirePermission('knowledge:read'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const dbService = req.app.locals.dbService;
@@ -69,6 +73,7 @@ router.get(
 // Create new knowledge item
 router.post(
   '/',
+  requirePermission('knowledge:create'),
   validateRequest(schemas.knowledgeItem),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const dbService = req.app.locals.dbService;
@@ -83,7 +88,7 @@ router.post(
 
     const itemData = {
       ...req.body,
-      createdBy: req.user?.id,
+      created_by: userRecordId(req.user),
       created: new Date().toISOString()
     };
 
@@ -92,11 +97,12 @@ router.post(
     // Emit WebSocket event
     const wsServer = req.app.locals.wsServer;
     if (wsServer) {
-      wsServer.broadcast({
+      wsServer.publish(knowledgeChannels(), {
         type: 'knowledge_created',
         data: item
       });
     }
+    void dbService.emitWebhookEvent('knowledge.updated', { action: 'created', entry: item });
 
     res.status(201).json({
       success: true,
@@ -108,6 +114,7 @@ router.post(
 // Update knowledge item
 router.put(
   '/:id',
+  requirePermission('knowledge:update', recordOwner('knowledge_base')),
   validateRequest(schemas.knowledgeItem),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
@@ -124,7 +131,7 @@ router.put(
     const updateData = {
       ...req.body,
       updated: new Date().toISOString(),
-      updatedBy: req.user?.id
+      updated_by: userRecordId(req.user)
     };
 
     try {
@@ -133,11 +140,12 @@ router.put(
       // Emit WebSocket event
       const wsServer = req.app.locals.wsServer;
       if (wsServer) {
-        wsServer.broadcast({
+        wsServer.publish(knowledgeChannels(), {
           type: 'knowledge_updated',
           data: item
         });
       }
+      void dbService.emitWebhookEvent('knowledge.updated', { action: 'updated', entry: item });
 
       res.json({
         success: true,
@@ -152,6 +160,7 @@ router.put(
 // Delete knowledge item
 router.delete(
   '/:id',
+  requirePermission('knowledge:delete', recordOwner('knowledge_base')),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const dbService = req.app.locals.dbService;
@@ -170,11 +179,12 @@ router.delete(
       // Emit WebSocket event
       const wsServer = req.app.locals.wsServer;
       if (wsServer) {
-        wsServer.broadcast({
+        wsServer.publish(knowledgeChannels(), {
           type: 'knowledge_deleted',
           data: { id }
         });
       }
+      void dbService.emitWebhookEvent('knowledge.updated', { action: 'deleted', entry: { id } });
 
       res.json({
         success: true,
@@ -1,10 +1,13 @@
 import { Router } from 'express';
-import { AuthMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
 import { validateQuery, schemas } from '../middleware/validation.js';
 import { ErrorHandler } from '../middleware/errorHandler.js';
 
 const router = Router();
 
+router.use(requirePermission('search:read'));
+
 // Global search across all content types
 router.get(
   '/',
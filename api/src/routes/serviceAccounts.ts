@@ -0,0 +1,128 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
+import { validateRequest, schemas } from '../middleware/validation.js';
+import { ErrorHandler, AppException } from '../middleware/errorHandler.js';
+import { DEFAULT_ROLE, normalizeRole } from '@shared/permissions.js';
+import { apiKeyStatus } from '@shared/apiKeys.js';
+
+const router = Router();
+
+// Only admins signed in as themselves manage service accounts
+router.use(requirePermission('service_accounts:manage'));
+
+const transformServiceAccount = (user: any) => ({
+  id: user.id,
+  name: user.name || '',
+  role: normalizeRole(user.role),
+  team: user.team || '',
+  created: user.created,
+});
+
+const transformApiKey = (apiKey: any) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.key_prefix,
+  scopes: apiKey.scopes || [],
+  status: apiKeyStatus(apiKey),
+  expires_at: apiKey.expires_at || null,
+  last_used_at: apiKey.last_used_at || null,
+  revoked_at: apiKey.revoked_at || null,
+  created: apiKey.created,
+});
+
+const findServiceAccount = async (req: AuthenticatedRequest) => {
+  const account = await req.app.locals.dbService.getServiceAccount(req.params.id);
+  if (!account) {
+    throw new AppException('Service account not found', 404);
+  }
+  return account;
+};
+
+// List service accounts with their keys
+router.get(
+  '/',
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const dbService = req.app.locals.dbService;
+    const accounts = await dbService.getServiceAccounts();
+
+    const items = await Promise.all(accounts.map(async (account: any) => ({
+      ...transformServiceAccount(account),
+      keys: (await dbService.getApiKeys(account.id)).map(transformApiKey)
+    })));
+
+    res.json({
+      success: true,
+      data: { items, total: items.length }
+    });
+  })
+);
+
+// Create a service account
+router.post(
+  '/',
+  validateRequest(schemas.serviceAccount),
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { name, role = DEFAULT_ROLE, team } = req.body;
+    const account = await req.app.locals.dbService.createServiceAccount({ name, role, team });
+
+    res.status(201).json({
+      success: true,
+      data: { ...transformServiceAccount(account), keys: [] }
+    });
+  })
+);
+
+// List the keys of a service account
+router.get(
+  '/:id/keys',
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const account = await findServiceAccount(req);
+    const keys = await req.app.locals.dbService.getApiKeys(account.id);
+
+    res.json({
+      success: true,
+      data: { items: keys.map(transformApiKey), total: keys.length }
+    });
+  })
+);
+
+// Issue a key; the response is the only time the key itself is shown
+router.post(
+  '/:id/keys',
+  validateRequest(schemas.apiKey),
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const account = await findServiceAccount(req);
+    const { name, scopes, expires_at } = req.body;
+
+    const { key, apiKey } = await req.app.locals.dbService.createApiKey(account.id, {
+      name,
+      scopes,
+      expires_at: expires_at ? new Date(expires_at).toISOString() : undefined
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { ...transformApiKey(apiKey), key }
+    });
+  })
+);
+
+// Revoke a key; it stops working on the next request
+router.delete(
+  '/:id/keys/:keyId',
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const account = await findServiceAccount(req);
+    const apiKey = await req.app.locals.dbService.revokeApiKey(account.id, req.params.keyId);
+    if (!apiKey) {
+      throw new AppException('API key not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: transformApiKey(apiKey)
+    });
+  })
+);
+
+export { router as serviceAccountRoutes };
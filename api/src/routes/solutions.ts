@@ -1,7 +1,10 @@
 import { Router, Response } from 'express';
-import { AuthMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest, userRecordId } from '../middleware/auth.js';
+import { requirePermission, recordOwner } from '../middleware/permissions.js';
 import { validateRequest, validateQuery, schemas } from '../middleware/validation.js';
 import { ErrorHandler, AppException } from '../middleware/errorHandler.js';
+import { solutionChannels } from '../services/channels.js';
+import { effectivenessOf } from '@shared/solutionEffectiveness.js';
 
 const router = Router();
 
@@ -14,6 +17,7 @@ const transformSolution = (item: any) => ({
   category: item.category || 'troubleshooting',
   tags: item.tags || [],
   verified: item.verified || false,
+  effectiveness_score: effectivenessOf(item),
   incidentId: item.incident_id,
   incident_id: item.incident_id,
   created: item.created || item.created_at,
@@ -36,6 +40,7 @@ const transformToPocketBase = (data: any) => ({
 // Get all solutions
 router.get(
   '/',
+  requirePermission('solutions:read'),
   validateQuery(schemas.pagination),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { page = 1, limit = 20 } = req.query as any;
@@ -71,6 +76,7 @@ router.get(
 // Get specific solution
 router.get(
   '/:id',
+  requirePermission('solutions:read'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const dbService = req.app.locals.dbService;
@@ -91,12 +97,13 @@ router.get(
 // Create new solution
 router.post(
   '/',
+  requirePermission('solutions:create'),
   validateRequest(schemas.solution),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const dbService = req.app.locals.dbService;
     const solutionData = {
       ...transformToPocketBase(req.body),
-      createdBy: req.user?.id,
+      created_by: userRecordId(req.user),
       created: new Date().toISOString()
     };
 
@@ -105,11 +112,12 @@ router.post(
     // Emit WebSocket event
     const wsServer = req.app.locals.wsServer;
     if (wsServer) {
-      wsServer.broadcast({
+      wsServer.publish(solutionChannels(solution), {
         type: 'solution_created',
         data: transformSolution(solution)
       });
     }
+    void dbService.emitWebhookEvent('solution.added', { incident_id: solution.incident_id, solution });
 
     res.status(201).json({
       success: true,
@@ -121,6 +129,7 @@ router.post(
 // Update solution
 router.put(
   '/:id',
+  requirePermission('solutions:update', recordOwner('solutions')),
   validateRequest(schemas.solution),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
@@ -128,7 +137,7 @@ router.put(
     const updateData = {
       ...transformToPocketBase(req.body),
       updated: new Date().toISOString(),
-      updatedBy: req.user?.id
+      updated_by: userRecordId(req.user)
     };
 
     try {
@@ -137,7 +146,7 @@ router.put(
       // Emit WebSocket event
       const wsServer = req.app.locals.wsServer;
       if (wsServer) {
-        wsServer.broadcast({
+        wsServer.publish(solutionChannels(solution), {
           type: 'solution_updated',
           data: transformSolution(solution)
         });
@@ -153,20 +162,84 @@ router.put(
   })
 );
 
+// Rate a solution; recomputes its effectiveness score
+router.post(
+  '/:id/feedback',
+  requirePermission('solutions:rate'),
+  validateRequest(schemas.feedback),
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const dbService = req.app.locals.dbService;
+
+    try {
+      await dbService.getClient().collection('solutions').getOne(id);
+    } catch (error) {
+      throw new AppException('Solution not found', 404);
+    }
+
+    const { feedback, solution, summary } = await dbService.createFeedback(id, {
+      ...req.body,
+      created_by: userRecordId(req.user)
+    });
+
+    // Emit WebSocket event
+    const wsServer = req.app.locals.wsServer;
+    if (wsServer) {
+      wsServer.publish(solutionChannels(solution), {
+        type: 'solution_updated',
+        data: transformSolution(solution)
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { feedback, summary }
+    });
+  })
+);
+
+// Get the feedback of a solution with its effectiveness summary
+router.get(
+  '/:id/feedback',
+  requirePermission('solutions:read'),
+  validateQuery(schemas.feedbackQuery),
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { limit = 20 } = req.query as any;
+    const dbService = req.app.locals.dbService;
+
+    try {
+      await dbService.getClient().collection('solutions').getOne(id);
+    } catch (error) {
+      throw new AppException('Solution not found', 404);
+    }
+
+    const { items, summary } = await dbService.getFeedbackBySolution(id, parseInt(limit));
+
+    res.json({
+      success: true,
+      data: { items, summary }
+    });
+  })
+);
+
 // Delete solution
 router.delete(
   '/:id',
+  requirePermission('solutions:delete', recordOwner('solutions')),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const dbService = req.app.locals.dbService;
 
     try {
+      // Read first: subscribers of the solution's incident hear about the deletion too
+      const solution = await dbService.getClient().collection('solutions').getOne(id, { fields: 'id,incident_id' });
       await dbService.deleteSolution(id);
 
       // Emit WebSocket event
       const wsServer = req.app.locals.wsServer;
       if (wsServer) {
-        wsServer.broadcast({
+        wsServer.publish(solutionChannels(solution), {
           type: 'solution_deleted',
           data: { id }
         });
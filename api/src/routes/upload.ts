@@ -2,7 +2,8 @@ import { Router } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { AuthMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
 import { RateLimitMiddleware } from '../middleware/rateLimiter.js';
 import { ErrorHandler, AppException } from '../middleware/errorHandler.js';
 
@@ -53,6 +54,7 @@ const upload = multer({
 // Single file upload
 router.post(
   '/single',
+  requirePermission('uploads:create'),
   RateLimitMiddleware.upload,
   upload.single('file'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
@@ -80,6 +82,7 @@ router.post(
 // Multiple files upload
 router.post(
   '/multiple',
+  requirePermission('uploads:create'),
   RateLimitMiddleware.upload,
   upload.array('files', 5),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
@@ -109,6 +112,7 @@ router.post(
 // Get file info
 router.get(
   '/:filename',
+  requirePermission('uploads:read'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { filename } = req.params;
     const uploadDir = process.env.UPLOAD_DIR || './uploads';
@@ -136,6 +140,7 @@ router.get(
 // Download file
 router.get(
   '/:filename/download',
+  requirePermission('uploads:read'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { filename } = req.params;
     const uploadDir = process.env.UPLOAD_DIR || './uploads';
@@ -162,6 +167,7 @@ router.get(
 // Delete file
 router.delete(
   '/:filename',
+  requirePermission('uploads:delete'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { filename } = req.params;
     const uploadDir = process.env.UPLOAD_DIR || './uploads';
@@ -183,6 +189,7 @@ router.delete(
 // List all uploaded files
 router.get(
   '/',
+  requirePermission('uploads:read'),
   ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const uploadDir = process.env.UPLOAD_DIR || './uploads';
 
@@ -0,0 +1,211 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, userRecordId } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/permissions.js';
+import { validateRequest, validateQuery, schemas } from '../middleware/validation.js';
+import { ErrorHandler, AppException } from '../middleware/errorHandler.js';
+import { WEBHOOK_SECRET_PREFIX } from '@shared/webhooks.js';
+
+const router = Router();
+
+router.use(requirePermission('webhooks:manage'));
+
+// The secret is only shown in full when the webhook is created
+const transformWebhook = (webhook: any) => ({
+  id: webhook.id,
+  url: webhook.url,
+  description: webhook.description || '',
+  events: webhook.events || [],
+  active: !!webhook.active,
+  secret_hint: `${webhook.secret.slice(0, WEBHOOK_SECRET_PREFIX.length + 4)}…`,
+  created: webhook.created,
+  updated: webhook.updated,
+});
+
+const transformDelivery = (delivery: any) => ({
+  id: delivery.id,
+  webhook: delivery.expand?.webhook
+    ? { id: delivery.expand.webhook.id, url: delivery.expand.webhook.url }
+    : delivery.webhook,
+  event: delivery.event,
+  event_id: delivery.event_id,
+  status: delivery.status,
+  attempts: delivery.attempts || 0,
+  next_attempt_at: delivery.next_attempt_at || null,
+  last_attempt_at: delivery.last_attempt_at || null,
+  last_status_code: delivery.last_status_code || null,
+  last_error: delivery.last_error || null,
+  delivered_at: delivery.delivered_at || null,
+  payload: delivery.payload,
+  created: delivery.created,
+});
+
+const findWebhook = async (req: AuthenticatedRequest) => {
+  const webhook = await req.app.locals.dbService.getWebhook(req.params.id);
+  if (!webhook) {
+    throw new AppException('Webhook not found', 404);
+  }
+  return webhook;
+};
+
+// List webhooks
+router.get(
+  '/',
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const webhooks = await req.app.locals.dbService.getWebhooks();
+
+    res.json({
+      success: true,
+      data: { items: webhooks.map(transformWebhook), total: webhooks.length }
+    });
+  })
+);
+
+// Register a webhook; the response is the only time its signing secret is shown
+router.post(
+  '/',
+  validateRequest(schemas.webhook),
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { url, events, description, active } = req.body;
+    const webhook = await req.app.locals.dbService.createWebhook({
+      url,
+      events,
+      description,
+      active,
+      created_by: userRecordId(req.user)
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { ...transformWebhook(webhook), secret: webhook.secret }
+    });
+  })
+);
+
+// Deliveries that ran out of attempts, across all webhooks
+router.get(
+  '/dead-letters',
+  validateQuery(schemas.pagination),
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const result = await req.app.locals.dbService.getDeadWebhookDeliveries({ page, perPage: limit });
+
+    res.json({
+      success: true,
+      data: {
+        items: result.items.map(transformDelivery),
+        total: result.totalItems,
+        page,
+        limit
+      }
+    });
+  })
+);
+
+// Queue a delivery again with a fresh set of attempts, e.g. a dead letter once the receiver is fixed
+router.post(
+  '/deliveries/:deliveryId/retry',
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const delivery = await req.app.locals.dbService.retryWebhookDelivery(req.params.deliveryId);
+    if (!delivery) {
+      throw new AppException('Webhook delivery not found', 404);
+    }
+
+    res.status(202).json({
+      success: true,
+      data: transformDelivery(delivery)
+    });
+  })
+);
+
+// Get one webhook
+router.get(
+  '/:id',
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: transformWebhook(await findWebhook(req))
+    });
+  })
+);
+
+// Change the URL, events, description or whether the webhook is active
+router.put(
+  '/:id',
+  validateRequest(schemas.webhookUpdate),
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await findWebhook(req);
+    const { url, events, description, active } = req.body;
+    const webhook = await req.app.locals.dbService.updateWebhook(req.params.id, {
+      ...(url !== undefined && { url }),
+      ...(events !== undefined && { events }),
+      ...(description !== undefined && { description }),
+      ...(active !== undefined && { active })
+    });
+
+    res.json({
+      success: true,
+      data: transformWebhook(webhook)
+    });
+  })
+);
+
+// Delete a webhook together with its delivery log
+router.delete(
+  '/:id',
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await findWebhook(req);
+    await req.app.locals.dbService.deleteWebhook(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Webhook deleted successfully'
+    });
+  })
+);
+
+// Delivery log of a webhook, newest first
+router.get(
+  '/:id/deliveries',
+  validateQuery(schemas.webhookDeliveries),
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const webhook = await findWebhook(req);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const result = await req.app.locals.dbService.getWebhookDeliveries(webhook.id, {
+      status: req.query.status as string | undefined,
+      page,
+      perPage: limit
+    });
+
+    res.json({
+      success: true,
+      data: {
+        items: result.items.map(transformDelivery),
+        total: result.totalItems,
+        page,
+        limit
+      }
+    });
+  })
+);
+
+// Queue a webhook.test event for this webhook only; its outcome shows up in the delivery log
+router.post(
+  '/:id/test',
+  ErrorHandler.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const webhook = await findWebhook(req);
+    const delivery = await req.app.locals.dbService.sendTestWebhookEvent(webhook.id, {
+      message: 'Test event from NoteByPine',
+      webhook_id: webhook.id,
+      requested_by: req.user?.email ?? null
+    });
+
+    res.status(202).json({
+      success: true,
+      data: transformDelivery(delivery)
+    });
+  })
+);
+
+export { router as webhookRoutes };
@@ -38,7 +38,10 @@ class NoteByPineServer {
       adminPassword: process.env.POCKETBASE_ADMIN_PASSWORD || 'admin123456'
     });
 
-    this.authMiddleware = new AuthMiddleware(process.env.JWT_SECRET || 'default-secret');
+    this.authMiddleware = new AuthMiddleware(process.env.JWT_SECRET || 'default-secret', {
+      accessTokenTtlSeconds: parseInt(process.env.JWT_ACCESS_TTL_SECONDS || '', 10) || undefined,
+      refreshTokenTtlDays: parseInt(process.env.JWT_REFRESH_TTL_DAYS || '', 10) || undefined
+    });
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -216,6 +219,17 @@ class NoteByPineServer {
         process.exit(1);
       }
 
+      // Sessions revoked before a restart must stay revoked, so the server does not start without the list
+      try {
+        const revoked = await this.authMiddleware.loadRevocations(this.dbService);
+        console.log(`✅ Loaded ${revoked} recently revoked session(s)`);
+      } catch (error: any) {
+        console.error('❌ Failed to load revoked sessions:', error.message || error);
+        console.error('   Check that the auth_sessions collection exists: run the PocketBase migrations (pb_migrations/).');
+        console.error('   Revoked sessions would be accepted again, so the server will not start.');
+        process.exit(1);
+      }
+
       // Setup WebSocket
       console.log('🌐 Setting up WebSocket server...');
       setupWebSocket(this.app, this.server);
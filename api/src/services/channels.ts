@@ -0,0 +1,82 @@
+import { isAllowed, type Permission } from '@shared/permissions.js';
+
+/**
+ * WebSocket channels. Clients subscribe to topics scoped to a resource, and routes publish each event to
+ * every channel it concerns:
+ *
+ *   incidents, solutions, knowledge   every event of that kind
+ *   incident:{id}                     one incident, its solutions and who is viewing it
+ *   category:{name}                   incidents of one category
+ *   user:{id}                         messages for one user; only that user may subscribe
+ */
+
+export type ChannelKind = 'incidents' | 'solutions' | 'knowledge' | 'incident' | 'category' | 'user';
+
+export interface Channel {
+  name: string;
+  kind: ChannelKind;
+  id?: string;
+}
+
+const COLLECTION_PERMISSIONS: Record<string, Permission> = {
+  incidents: 'incidents:read',
+  solutions: 'solutions:read',
+  knowledge: 'knowledge:read'
+};
+
+// PocketBase record IDs, and the admin IDs used as user channels
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+const CATEGORY_PATTERN = /^[\w .&-]{1,50}$/;
+
+export function parseChannel(name: unknown): Channel | null {
+  if (typeof name !== 'string') {
+    return null;
+  }
+  if (COLLECTION_PERMISSIONS[name]) {
+    return { name, kind: name as ChannelKind };
+  }
+
+  const separator = name.indexOf(':');
+  const kind = name.slice(0, separator);
+  const id = name.slice(separator + 1);
+  if (separator <= 0) {
+    return null;
+  }
+  if ((kind === 'incident' || kind === 'user') && ID_PATTERN.test(id)) {
+    return { name, kind, id };
+  }
+  if (kind === 'category' && CATEGORY_PATTERN.test(id)) {
+    return { name, kind, id };
+  }
+  return null;
+}
+
+/**
+ * Why the user's role may not subscribe to a channel, or null when it may. Whether an incident exists and the
+ * user may see it is up to the caller.
+ */
+export function channelDenial(channel: Channel, user: { id: string; role: string }): string | null {
+  if (channel.kind === 'user') {
+    return channel.id === user.id ? null : 'Only the user may subscribe to their own channel';
+  }
+
+  const permission = channel.kind === 'incident' || channel.kind === 'category'
+    ? 'incidents:read'
+    : COLLECTION_PERMISSIONS[channel.kind];
+  return isAllowed(user.role, permission) ? null : 'Insufficient permissions';
+}
+
+export const userChannel = (userId: string) => `user:${userId}`;
+
+export const incidentChannels = (incident: { id: string; category?: string }) => [
+  'incidents',
+  `incident:${incident.id}`,
+  ...(incident.category ? [`category:${incident.category}`] : [])
+];
+
+export const solutionChannels = (solution: { incident_id?: string }) => [
+  'solutions',
+  ...(solution.incident_id ? [`incident:${solution.incident_id}`] : [])
+];
+
+export const knowledgeChannels = () => ['knowledge'];
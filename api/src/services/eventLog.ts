@@ -0,0 +1,74 @@
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Recent WebSocket events, numbered so a client that reconnects can ask for what it missed.
+ *
+ * Sequence numbers restart with the server; the epoch changes with them, so a client holding a number
+ * from an earlier epoch knows to refetch instead of asking for a replay.
+ */
+
+export interface LoggedEvent {
+  seq: number;
+  channels: string[];
+  // Serialized once, sent as is to every subscriber and on replay
+  payload: string;
+  at: number;
+}
+
+const DEFAULT_CAPACITY = 1000;
+const DEFAULT_MAX_AGE_MS = 10 * 60 * 1000;
+
+export class EventLog {
+  readonly epoch: string = randomUUID();
+  private events: LoggedEvent[] = [];
+  private seq = 0;
+  private capacity: number;
+  private maxAgeMs: number;
+
+  constructor(capacity: number = DEFAULT_CAPACITY, maxAgeMs: number = DEFAULT_MAX_AGE_MS) {
+    this.capacity = capacity;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * Number an event and keep it; `build` serializes the event once its number is known
+   */
+  append(channels: string[], build: (seq: number) => string, now: number = Date.now()): LoggedEvent {
+    const event = { seq: ++this.seq, channels, payload: build(this.seq), at: now };
+    this.events.push(event);
+    if (this.events.length > this.capacity) {
+      this.events.shift();
+    }
+    return event;
+  }
+
+  /**
+   * Events numbered after `since`, or null when some of them are no longer kept and the client must refetch
+   */
+  since(since: number, now: number = Date.now()): LoggedEvent[] | null {
+    this.prune(now);
+    if (since > this.seq) {
+      return null;
+    }
+    if (since === this.seq) {
+      return [];
+    }
+
+    const oldest = this.events.length > 0 ? this.events[0].seq : this.seq + 1;
+    if (since < oldest - 1) {
+      return null;
+    }
+    return this.events.filter(event => event.seq > since);
+  }
+
+  private prune(now: number) {
+    const cutoff = now - this.maxAgeMs;
+    while (this.events.length > 0 && this.events[0].at < cutoff) {
+      this.events.shift();
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Sign-in sessions revoked by logout, "log out all sessions" or refresh token reuse.
+ *
+ * Access tokens name their session and stay valid until they expire, so a revoked session only has
+ * to be remembered for one access token lifetime; after that jwt.verify rejects its tokens anyway.
+ * The list lives in memory and is reloaded from the auth_sessions collection at startup.
+ */
+export class RevocationList {
+  // Session ID -> when it can be forgotten (ms)
+  private revoked = new Map<string, number>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  revoke(sessionId: string, revokedAt: Date = new Date()) {
+    this.revoked.set(sessionId, revokedAt.getTime() + this.ttlMs);
+  }
+
+  isRevoked(sessionId: string, now: number = Date.now()): boolean {
+    const forgetAt = this.revoked.get(sessionId);
+    if (forgetAt === undefined) {
+      return false;
+    }
+    if (forgetAt <= now) {
+      this.revoked.delete(sessionId);
+      return false;
+    }
+    return true;
+  }
+
+  prune(now: number = Date.now()) {
+    this.revoked.forEach((forgetAt, sessionId) => {
+      if (forgetAt <= now) {
+        this.revoked.delete(sessionId);
+      }
+    });
+  }
+
+  get size(): number {
+    return this.revoked.size;
+  }
+}
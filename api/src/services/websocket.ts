@@ -1,5 +1,8 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import http from 'http';
+import { parseChannel, channelDenial, userChannel } from './channels.js';
+import { EventLog } from './eventLog.js';
+import { userRecordId } from '../middleware/auth.js';
 
 export interface WebSocketMessage {
   type: string;
@@ -13,40 +16,83 @@ export interface WebSocketClient extends WebSocket {
   isAlive?: boolean;
 }
 
+// Decodes an access token, throwing when it is invalid, expired or its session was revoked
+export type TokenVerifier = (token: string) => any;
+
+// The signed-in user of a connection
+export interface ConnectionUser {
+  id: string;
+  email: string;
+  role: string;
+  source?: string;
+  sid?: string;
+}
+
+export interface WebSocketOptions {
+  verifyToken: TokenVerifier;
+  // False for incidents that do not exist as well as for those the user may not see
+  canViewIncident: (id: string, user: ConnectionUser) => Promise<boolean>;
+}
+
+export interface Viewer {
+  id: string;
+  email: string;
+}
+
+interface ClientState {
+  lastPing: number;
+  authenticated: boolean;
+  user?: ConnectionUser;
+  // Re-verified on every heartbeat, so expired tokens and revoked sessions are disconnected
+  token?: string;
+  subscriptions: Set<string>;
+  authTimer?: NodeJS.Timeout;
+}
+
+// Close codes in the range reserved for applications
+const CLOSE_UNAUTHORIZED = 4401;
+// Clients that connect without a token must send one this soon
+const AUTH_TIMEOUT_MS = 10_000;
+
 export class WebSocketService {
   private wss: WebSocketServer;
-  private clients: Map<WebSocketClient, any> = new Map();
+  private clients: Map<WebSocketClient, ClientState> = new Map();
   private heartbeatInterval: NodeJS.Timeout;
+  private options: WebSocketOptions;
+  private events = new EventLog();
 
-  constructor(server: http.Server) {
+  constructor(server: http.Server, options: WebSocketOptions) {
+    this.options = options;
     this.wss = new WebSocketServer({
       server,
       path: '/ws'
     });
 
     this.setupWebSocketServer();
-    this.startHeartbeat();
+    this.heartbeatInterval = this.startHeartbeat();
   }
 
   private setupWebSocketServer() {
     this.wss.on('connection', (ws: WebSocketClient, req) => {
       console.log('New WebSocket connection established');
 
-      // Add client to the clients map
-      this.clients.set(ws, { lastPing: Date.now() });
+      ws.isAlive = true;
+      this.clients.set(ws, { lastPing: Date.now(), authenticated: false, subscriptions: new Set() });
 
       // Setup client event handlers
       ws.on('message', (data) => {
+        let message: WebSocketMessage;
         try {
-          const message: WebSocketMessage = JSON.parse(data.toString());
-          this.handleMessage(ws, message);
+          message = JSON.parse(data.toString());
         } catch (error) {
           console.error('Invalid WebSocket message:', error);
-          ws.send(JSON.stringify({
-            type: 'error',
-            data: { message: 'Invalid message format' }
-          }));
+          this.sendError(ws, 'Invalid message format');
+          return;
         }
+        this.handleMessage(ws, message).catch((error) => {
+          console.error('WebSocket message failed:', error);
+          this.sendError(ws, 'Message handling failed');
+        });
       });
 
       ws.on('pong', () => {
@@ -55,176 +101,313 @@ export class WebSocketService {
 
       ws.on('close', () => {
         console.log('WebSocket connection closed');
-        this.clients.delete(ws);
+        this.removeClient(ws);
       });
 
       ws.on('error', (error) => {
         console.error('WebSocket error:', error);
-        this.clients.delete(ws);
+        this.removeClient(ws);
       });
 
       // Send welcome message
-      ws.send(JSON.stringify({
+      this.send(ws, {
         type: 'connected',
         data: {
           message: 'Connected to NoteByPine WebSocket server',
+          epoch: this.events.epoch,
+          seq: this.events.lastSeq,
           timestamp: new Date().toISOString()
         }
-      }));
+      });
+
+      // A token in the query string authenticates right away; otherwise the first message must
+      const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+      if (token) {
+        if (!this.authenticate(ws, token)) {
+          ws.close(CLOSE_UNAUTHORIZED, 'Invalid or expired token');
+        }
+        return;
+      }
+
+      const state = this.clients.get(ws);
+      if (state) {
+        state.authTimer = setTimeout(() => {
+          if (!this.clients.get(ws)?.authenticated) {
+            ws.close(CLOSE_UNAUTHORIZED, 'Authentication required');
+          }
+        }, AUTH_TIMEOUT_MS);
+      }
     });
 
     console.log('WebSocket server initialized on path: /ws');
   }
 
-  private handleMessage(client: WebSocketClient, message: WebSocketMessage) {
-    const clientData = this.clients.get(client);
+  private async handleMessage(client: WebSocketClient, message: WebSocketMessage) {
+    const state = this.clients.get(client);
+    if (!state) {
+      return;
+    }
 
     switch (message.type) {
       case 'ping':
-        client.send(JSON.stringify({
+        this.send(client, {
           type: 'pong',
           data: { timestamp: new Date().toISOString() }
-        }));
-        break;
+        });
+        return;
 
       case 'authenticate':
-        // Handle WebSocket authentication
-        if (message.data.token) {
-          // In a real implementation, verify the JWT token
-          client.userId = message.data.userId;
-          this.clients.set(client, {
-            ...clientData,
-            userId: message.data.userId,
-            authenticated: true
-          });
-
-          client.send(JSON.stringify({
-            type: 'authenticated',
-            data: { message: 'Successfully authenticated' }
-          }));
-        }
-        break;
+        // Also how a connection keeps going with a refreshed access token
+        this.authenticate(client, message.data?.token);
+        return;
+    }
 
+    if (!state.authenticated || !state.user) {
+      this.sendError(client, 'Authenticate first');
+      return;
+    }
+
+    switch (message.type) {
       case 'subscribe':
-        // Handle subscription to specific events
-        if (clientData && clientData.authenticated) {
-          this.clients.set(client, {
-            ...clientData,
-            subscriptions: message.data.channels || []
-          });
-
-          client.send(JSON.stringify({
-            type: 'subscribed',
-            data: {
-              channels: message.data.channels || [],
-              message: 'Successfully subscribed to channels'
-            }
-          }));
-        }
+        await this.subscribe(client, state, message.data || {});
         break;
 
-      case 'unsubscribe':
-        // Handle unsubscription from specific events
-        if (clientData && clientData.authenticated) {
-          const currentSubs = clientData.subscriptions || [];
-          const newSubs = currentSubs.filter((channel: string) =>
-            !message.data.channels.includes(channel)
-          );
-
-          this.clients.set(client, {
-            ...clientData,
-            subscriptions: newSubs
-          });
-
-          client.send(JSON.stringify({
-            type: 'unsubscribed',
-            data: {
-              channels: message.data.channels,
-              message: 'Successfully unsubscribed from channels'
-            }
-          }));
+      case 'unsubscribe': {
+        const channels: string[] = Array.isArray(message.data?.channels) ? message.data.channels : [];
+        channels.forEach(channel => state.subscriptions.delete(channel));
+        // Everyone gets messages for themselves
+        state.subscriptions.add(userChannel(state.user.id));
+
+        this.send(client, {
+          type: 'unsubscribed',
+          data: {
+            channels,
+            message: 'Successfully unsubscribed from channels'
+          }
+        });
+        this.publishPresence(channels);
+        break;
+      }
+
+      case 'presence': {
+        const channel = parseChannel(message.data?.channel);
+        if (channel?.kind !== 'incident') {
+          this.sendError(client, 'Presence is only tracked for incident channels');
+          break;
         }
+        if (!state.subscriptions.has(channel.name)) {
+          this.sendError(client, `Subscribe to ${channel.name} to see who is viewing it`);
+          break;
+        }
+        this.send(client, { type: 'presence', data: { channel: channel.name, viewers: this.getViewers(channel.name) } });
         break;
+      }
 
       default:
         console.log('Unknown message type:', message.type);
     }
   }
 
-  private startHeartbeat() {
-    this.heartbeatInterval = setInterval(() => {
-      this.clients.forEach((clientData, ws) => {
+  /**
+   * Verify an access token and bind the connection to its user; a connection cannot switch users
+   */
+  private authenticate(client: WebSocketClient, token: unknown): boolean {
+    const state = this.clients.get(client);
+    if (!state) {
+      return false;
+    }
+
+    let user: any;
+    try {
+      user = this.options.verifyToken(String(token || ''));
+    } catch (error) {
+      this.sendError(client, 'Invalid or expired token');
+      return false;
+    }
+    if (state.user && state.user.id !== user.id) {
+      this.sendError(client, 'Connection is already authenticated as another user');
+      return false;
+    }
+
+    clearTimeout(state.authTimer);
+    client.userId = user.id;
+    state.authenticated = true;
+    state.user = { id: user.id, email: user.email || '', role: user.role, source: user.source, sid: user.sid };
+    state.token = String(token);
+    state.subscriptions.add(userChannel(user.id));
+
+    this.send(client, {
+      type: 'authenticated',
+      data: {
+        message: 'Successfully authenticated',
+        userId: user.id,
+        epoch: this.events.epoch,
+        seq: this.events.lastSeq
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Subscribe to the channels the user may see. With `since` (and the `epoch` it came from), events
+   * missed on all subscribed channels are replayed; when they cannot be, the client is told to refetch.
+   */
+  private async subscribe(client: WebSocketClient, state: ClientState, data: any) {
+    const requested: unknown[] = Array.isArray(data.channels) ? data.channels : [];
+    const accepted: string[] = [];
+    const denied: Array<{ channel: unknown; reason: string }> = [];
+
+    for (const name of requested) {
+      const channel = parseChannel(name);
+      if (!channel) {
+        denied.push({ channel: name, reason: 'Unknown channel' });
+        continue;
+      }
+      const reason = channelDenial(channel, state.user!);
+      if (reason) {
+        denied.push({ channel: name, reason });
+        continue;
+      }
+      // Hidden incidents look exactly like missing ones, as they do in the MCP tools
+      if (channel.kind === 'incident' && !(await this.options.canViewIncident(channel.id!, state.user!))) {
+        denied.push({ channel: name, reason: 'Incident not found' });
+        continue;
+      }
+      accepted.push(channel.name);
+    }
+
+    // The connection may have closed or lost its user while the lookups ran
+    if (this.clients.get(client) !== state || !state.authenticated) {
+      return;
+    }
+    accepted.forEach(channel => state.subscriptions.add(channel));
+
+    this.send(client, {
+      type: 'subscribed',
+      data: {
+        channels: accepted,
+        denied,
+        message: 'Successfully subscribed to channels'
+      }
+    });
+    this.publishPresence(accepted);
+
+    if (typeof data.since === 'number') {
+      this.replay(client, state, data.since, data.epoch);
+    }
+  }
+
+  private replay(client: WebSocketClient, state: ClientState, since: number, epoch?: string) {
+    const events = epoch && epoch !== this.events.epoch ? null : this.events.since(since);
+    if (!events) {
+      this.send(client, {
+        type: 'resync_required',
+        data: {
+          reason: epoch && epoch !== this.events.epoch ? 'Server restarted' : 'Missed events are no longer available',
+          epoch: this.events.epoch,
+          seq: this.events.lastSeq
+        }
+      });
+      return;
+    }
+
+    let count = 0;
+    for (const event of events) {
+      if (event.channels.some(channel => state.subscriptions.has(channel))) {
+        client.send(event.payload);
+        count++;
+      }
+    }
+    this.send(client, {
+      type: 'replayed',
+      data: { since, seq: this.events.lastSeq, count }
+    });
+  }
+
+  private startHeartbeat(): NodeJS.Timeout {
+    return setInterval(() => {
+      this.clients.forEach((state, ws) => {
         if (!ws.isAlive) {
           console.log('Terminating inactive WebSocket connection');
           ws.terminate();
-          this.clients.delete(ws);
+          this.removeClient(ws);
           return;
         }
 
+        if (state.authenticated && state.token) {
+          try {
+            this.options.verifyToken(state.token);
+          } catch (error) {
+            ws.close(CLOSE_UNAUTHORIZED, 'Token expired or session revoked');
+            this.removeClient(ws);
+            return;
+          }
+        }
+
         ws.isAlive = false;
         ws.ping();
       });
     }, 30000); // 30 seconds
   }
 
-  public broadcast(message: WebSocketMessage, filter?: (client: WebSocketClient, data: any) => boolean) {
-    const messageString = JSON.stringify({
-      ...message,
-      timestamp: message.timestamp || new Date().toISOString()
-    });
+  /**
+   * Number an event, keep it for replay and send it to every client subscribed to one of its channels
+   */
+  public publish(channels: string[], message: WebSocketMessage) {
+    const timestamp = message.timestamp || new Date().toISOString();
+    const event = this.events.append(channels, seq => JSON.stringify({ ...message, channels, seq, timestamp }));
 
     let sentCount = 0;
+    this.clients.forEach((state, ws) => {
+      if (ws.readyState !== WebSocket.OPEN || !state.authenticated) {
+        return;
+      }
+      if (!channels.some(channel => state.subscriptions.has(channel))) {
+        return;
+      }
 
-    this.clients.forEach((clientData, ws) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        // Apply filter if provided
-        if (filter && !filter(ws, clientData)) {
-          return;
-        }
-
-        // Check if client is subscribed to this message type
-        if (clientData.subscriptions &&
-            clientData.subscriptions.length > 0 &&
-            !clientData.subscriptions.includes(message.type)) {
-          return;
-        }
-
-        try {
-          ws.send(messageString);
-          sentCount++;
-        } catch (error) {
-          console.error('Failed to send WebSocket message:', error);
-          this.clients.delete(ws);
-        }
+      try {
+        ws.send(event.payload);
+        sentCount++;
+      } catch (error) {
+        console.error('Failed to send WebSocket message:', error);
+        this.removeClient(ws);
       }
     });
 
-    console.log(`Broadcasted message "${message.type}" to ${sentCount} clients`);
+    console.log(`Published "${message.type}" #${event.seq} on ${channels.join(', ')} to ${sentCount} clients`);
     return sentCount;
   }
 
-  public sendToUser(userId: string, message: WebSocketMessage) {
-    const messageString = JSON.stringify({
-      ...message,
-      timestamp: message.timestamp || new Date().toISOString()
+  /**
+   * Send to every authenticated client, whatever it subscribed to; not numbered or replayed
+   */
+  public broadcast(message: WebSocketMessage) {
+    let sentCount = 0;
+    this.clients.forEach((state, ws) => {
+      if (state.authenticated && ws.readyState === WebSocket.OPEN) {
+        this.send(ws, message);
+        sentCount++;
+      }
     });
+    return sentCount;
+  }
 
-    let sentCount = 0;
+  public sendToUser(userId: string, message: WebSocketMessage) {
+    return this.publish([userChannel(userId)], message);
+  }
 
-    this.clients.forEach((clientData, ws) => {
-      if (ws.readyState === WebSocket.OPEN && clientData.userId === userId) {
-        try {
-          ws.send(messageString);
-          sentCount++;
-        } catch (error) {
-          console.error('Failed to send WebSocket message to user:', error);
-          this.clients.delete(ws);
-        }
+  /**
+   * Users subscribed to an incident channel, once each
+   */
+  public getViewers(channel: string): Viewer[] {
+    const viewers = new Map<string, Viewer>();
+    this.clients.forEach((state) => {
+      if (state.authenticated && state.user && state.subscriptions.has(channel)) {
+        viewers.set(state.user.id, { id: state.user.id, email: state.user.email });
       }
     });
-
-    console.log(`Sent message "${message.type}" to user ${userId} (${sentCount} connections)`);
-    return sentCount;
+    return [...viewers.values()];
   }
 
   public getConnectedClients(): number {
@@ -233,8 +416,8 @@ export class WebSocketService {
 
   public getAuthenticatedClients(): number {
     let count = 0;
-    this.clients.forEach((clientData) => {
-      if (clientData.authenticated) {
+    this.clients.forEach((state) => {
+      if (state.authenticated) {
         count++;
       }
     });
@@ -246,23 +429,70 @@ export class WebSocketService {
       clearInterval(this.heartbeatInterval);
     }
 
-    this.clients.forEach((clientData, ws) => {
+    this.clients.forEach((state, ws) => {
+      clearTimeout(state.authTimer);
       ws.close();
     });
 
     this.wss.close();
     console.log('WebSocket server closed');
   }
+
+  private removeClient(ws: WebSocketClient) {
+    const state = this.clients.get(ws);
+    if (!state) {
+      return;
+    }
+    clearTimeout(state.authTimer);
+    this.clients.delete(ws);
+    this.publishPresence([...state.subscriptions]);
+  }
+
+  // Presence changes are not numbered: a reconnecting client asks for the current viewers instead
+  private publishPresence(channels: string[]) {
+    for (const channel of channels) {
+      if (parseChannel(channel)?.kind !== 'incident') {
+        continue;
+      }
+      const payload = { type: 'presence', data: { channel, viewers: this.getViewers(channel) } };
+      this.clients.forEach((state, ws) => {
+        if (state.authenticated && state.subscriptions.has(channel)) {
+          this.send(ws, payload);
+        }
+      });
+    }
+  }
+
+  private send(ws: WebSocketClient, message: WebSocketMessage) {
+    if (ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    ws.send(JSON.stringify({
+      ...message,
+      timestamp: message.timestamp || new Date().toISOString()
+    }));
+  }
+
+  private sendError(ws: WebSocketClient, message: string) {
+    this.send(ws, { type: 'error', data: { message } });
+  }
 }
 
 // Convenience function to create and attach WebSocket service to Express app
 export function setupWebSocket(app: any, server: http.Server) {
-  const wsService = new WebSocketService(server);
+  const wsService = new WebSocketService(server, {
+    verifyToken: (token: string) => app.locals.authMiddleware.verifyAccessToken(token),
+    canViewIncident: (id: string, user: ConnectionUser) => app.locals.dbService.canViewIncident(id, {
+      id: userRecordId(user),
+      admin: user.role === 'admin'
+    })
+  });
 
   // Make WebSocket service available to routes
   app.locals.wsServer = {
-    broadcast: (message: WebSocketMessage) => wsService.broadcast(message),
+    publish: (channels: string[], message: WebSocketMessage) => wsService.publish(channels, message),
     sendToUser: (userId: string, message: WebSocketMessage) => wsService.sendToUser(userId, message),
+    getViewers: (channel: string) => wsService.getViewers(channel),
     getStats: () => ({
       connected: wsService.getConnectedClients(),
       authenticated: wsService.getAuthenticatedClients()
@@ -270,4 +500,4 @@ export function setupWebSocket(app: any, server: http.Server) {
   };
 
   return wsService;
-}
\ No newline at end of file
+}
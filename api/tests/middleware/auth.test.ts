@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { AuthMiddleware } from '../../src/middleware/auth.js';
+import { DatabaseService, hashToken } from '../../src/config/database.js';
+
+// In-memory stand-in for the auth_sessions calls AuthMiddleware makes
+class SessionStore {
+  sessions = new Map<string, any>();
+
+  add(id: string, refreshToken: string, overrides: Record<string, unknown> = {}) {
+    this.sessions.set(id, {
+      id,
+      subject_id: 'admin1',
+      subject_source: 'admins',
+      email: 'admin@example.com',
+      refresh_hash: hashToken(refreshToken),
+      previous_hash: '',
+      last_used_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      revoked_at: '',
+      ...overrides
+    });
+    return this.sessions.get(id);
+  }
+
+  async findAuthSession(refreshHash: string) {
+    const session = [...this.sessions.values()].find(item => item.refresh_hash === refreshHash || item.previous_hash === refreshHash);
+    return session ? { session, current: session.refresh_hash === refreshHash } : null;
+  }
+
+  async rotateAuthSession(id: string, refreshHash: string, previousHash: string) {
+    return Object.assign(this.sessions.get(id), { refresh_hash: refreshHash, previous_hash: previousHash, last_used_at: new Date().toISOString() });
+  }
+
+  async revokeAuthSession(id: string, revokedAt: Date = new Date()) {
+    return Object.assign(this.sessions.get(id), { revoked_at: revokedAt.toISOString() });
+  }
+
+  async revokeAuthSessions(subjectId: string, revokedAt: Date = new Date()) {
+    const live = [...this.sessions.values()].filter(session => session.subject_id === subjectId && !session.revoked_at);
+    await Promise.all(live.map(session => this.revokeAuthSession(session.id, revokedAt)));
+    return live.map(session => session.id);
+  }
+}
+
+describe('AuthMiddleware sessions', () => {
+  let auth: AuthMiddleware;
+  let store: SessionStore;
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    auth = new AuthMiddleware('test-secret');
+    store = new SessionStore();
+    db = store as unknown as DatabaseService;
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const session = store.add('s1', 'first');
+
+    const result = await auth.refresh('first', db);
+
+    expect(result.success).toBe(true);
+    const { token, refreshToken } = result.data!;
+    expect(refreshToken).not.toBe('first');
+    expect(session.refresh_hash).toBe(hashToken(refreshToken));
+    expect(session.previous_hash).toBe(hashToken('first'));
+    expect(auth.verifyAccessToken(token).sid).toBe('s1');
+
+    expect((await auth.refresh(refreshToken, db)).success).toBe(true);
+  });
+
+  it('revokes the session when a used refresh token comes back', async () => {
+    const session = store.add('s1', 'first');
+    const { token, refreshToken } = (await auth.refresh('first', db)).data!;
+    session.last_used_at = new Date(Date.now() - 60_000).toISOString();
+
+    const reuse = await auth.refresh('first', db);
+
+    expect(reuse).toEqual({ success: false, error: 'Refresh token reuse detected; the session has been revoked' });
+    expect(session.revoked_at).not.toBe('');
+    expect(() => auth.verifyAccessToken(token)).toThrow('Session has been revoked');
+    expect(await auth.refresh(refreshToken, db)).toEqual({ success: false, error: 'Session has been revoked' });
+  });
+
+  it('refuses but does not revoke a reuse within the grace window', async () => {
+    const session = store.add('s1', 'first');
+    const { token, refreshToken } = (await auth.refresh('first', db)).data!;
+
+    expect(await auth.refresh('first', db)).toEqual({ success: false, error: 'Refresh token already used' });
+    expect(session.revoked_at).toBe('');
+    expect(auth.verifyAccessToken(token).sid).toBe('s1');
+    expect((await auth.refresh(refreshToken, db)).success).toBe(true);
+  });
+
+  it('refuses expired sessions and unknown tokens', async () => {
+    store.add('s1', 'first', { expires_at: new Date(Date.now() - 1000).toISOString() });
+
+    expect(await auth.refresh('first', db)).toEqual({ success: false, error: 'Session expired' });
+    expect(await auth.refresh('unknown', db)).toEqual({ success: false, error: 'Invalid refresh token' });
+  });
+
+  it('ends every session of the user on logout-all', async () => {
+    store.add('s1', 'laptop');
+    store.add('s2', 'phone');
+    store.add('s3', 'other', { subject_id: 'admin2' });
+    const laptop = (await auth.refresh('laptop', db)).data!;
+    const phone = (await auth.refresh('phone', db)).data!;
+    const other = (await auth.refresh('other', db)).data!;
+
+    const ended = await auth.logoutAll(auth.verifyAccessToken(laptop.token), db);
+
+    expect(ended).toBe(2);
+    expect(() => auth.verifyAccessToken(laptop.token)).toThrow('Session has been revoked');
+    expect(() => auth.verifyAccessToken(phone.token)).toThrow('Session has been revoked');
+    expect(auth.verifyAccessToken(other.token).sid).toBe('s3');
+    expect((await auth.refresh(phone.refreshToken, db)).success).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'bun:test';
+import { channelDenial, incidentChannels, parseChannel } from '../../src/services/channels.js';
+
+describe('WebSocket channels', () => {
+  describe('parseChannel', () => {
+    it('parses collection, incident, category and user channels', () => {
+      expect(parseChannel('incidents')).toEqual({ name: 'incidents', kind: 'incidents' });
+      expect(parseChannel('incident:rec123')).toEqual({ name: 'incident:rec123', kind: 'incident', id: 'rec123' });
+      expect(parseChannel('category:Database & Storage')).toEqual({ name: 'category:Database & Storage', kind: 'category', id: 'Database & Storage' });
+      expect(parseChannel('user:u_1')).toEqual({ name: 'user:u_1', kind: 'user', id: 'u_1' });
+    });
+
+    it('rejects malformed names', () => {
+      expect(parseChannel(42)).toBeNull();
+      expect(parseChannel('')).toBeNull();
+      expect(parseChannel('users')).toBeNull();
+      expect(parseChannel(':rec123')).toBeNull();
+      expect(parseChannel('incident:')).toBeNull();
+      expect(parseChannel('incident:a/b')).toBeNull();
+      expect(parseChannel('user:u1:extra')).toBeNull();
+      expect(parseChannel(`incident:${'a'.repeat(51)}`)).toBeNull();
+      expect(parseChannel('category:<script>')).toBeNull();
+      expect(parseChannel('team:payments')).toBeNull();
+    });
+  });
+
+  describe('channelDenial', () => {
+    const viewer = { id: 'u1', role: 'viewer' };
+
+    it('only lets users subscribe to their own user channel', () => {
+      expect(channelDenial(parseChannel('user:u1')!, viewer)).toBeNull();
+      expect(channelDenial(parseChannel('user:u2')!, viewer)).toBe('Only the user may subscribe to their own channel');
+      expect(channelDenial(parseChannel('user:u2')!, { id: 'admin1', role: 'admin' })).not.toBeNull();
+    });
+
+    it('lets readers subscribe to resource channels', () => {
+      for (const name of ['incidents', 'solutions', 'knowledge', 'incident:rec123', 'category:network']) {
+        expect(channelDenial(parseChannel(name)!, viewer)).toBeNull();
+      }
+    });
+  });
+
+  it('publishes incidents to their own and their category channel', () => {
+    expect(incidentChannels({ id: 'rec123', category: 'network' })).toEqual(['incidents', 'incident:rec123', 'category:network']);
+    expect(incidentChannels({ id: 'rec123' })).toEqual(['incidents', 'incident:rec123']);
+  });
+});
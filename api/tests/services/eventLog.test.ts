@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'bun:test';
+import { EventLog } from '../../src/services/eventLog.js';
+
+describe('EventLog', () => {
+  const start = Date.parse('2026-03-01T12:00:00Z');
+
+  function logWith(count: number, capacity = 1000, maxAgeMs = 60_000): EventLog {
+    const log = new EventLog(capacity, maxAgeMs);
+    for (let i = 0; i < count; i++) {
+      log.append(['incidents'], seq => JSON.stringify({ seq }), start + i * 1000);
+    }
+    return log;
+  }
+
+  const seqs = (events: { seq: number }[] | null) => events && events.map(event => event.seq);
+
+  it('numbers events and replays the ones after since', () => {
+    const log = logWith(3);
+
+    expect(log.lastSeq).toBe(3);
+    expect(seqs(log.since(1, start))).toEqual([2, 3]);
+    expect(seqs(log.since(0, start))).toEqual([1, 2, 3]);
+    expect(log.since(3, start)).toEqual([]);
+  });
+
+  it('replays from the event just before the oldest one kept, but no further back', () => {
+    const log = logWith(5, 3);
+
+    expect(seqs(log.since(2, start))).toEqual([3, 4, 5]);
+    expect(log.since(1, start)).toBeNull();
+  });
+
+  it('asks for a refetch once the missed events have aged out', () => {
+    const log = logWith(3);
+    const later = start + 2000 + 60_001;
+
+    expect(log.since(2, later)).toBeNull();
+    // Nothing was missed, so there is nothing to refetch
+    expect(log.since(3, later)).toEqual([]);
+  });
+
+  it('asks for a refetch when since is ahead of the log', () => {
+    expect(logWith(3).since(4, start)).toBeNull();
+    expect(new EventLog().since(1, start)).toBeNull();
+  });
+
+  it('starts a new epoch with every log, so numbers from an old one are not replayed', () => {
+    const previous = logWith(10);
+    const restarted = logWith(2);
+
+    expect(restarted.epoch).not.toBe(previous.epoch);
+    expect(restarted.since(previous.lastSeq, start)).toBeNull();
+  });
+});
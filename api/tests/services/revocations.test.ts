@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'bun:test';
+import { RevocationList } from '../../src/services/revocations.js';
+
+describe('RevocationList', () => {
+  const ttlMs = 15 * 60 * 1000;
+  const revokedAt = new Date('2026-03-01T12:00:00Z');
+
+  it('reports revoked sessions and nothing else', () => {
+    const list = new RevocationList(ttlMs);
+    list.revoke('s1', revokedAt);
+
+    expect(list.isRevoked('s1', revokedAt.getTime())).toBe(true);
+    expect(list.isRevoked('s2', revokedAt.getTime())).toBe(false);
+  });
+
+  it('forgets a session once its access tokens have expired', () => {
+    const list = new RevocationList(ttlMs);
+    list.revoke('s1', revokedAt);
+
+    expect(list.isRevoked('s1', revokedAt.getTime() + ttlMs - 1)).toBe(true);
+    expect(list.isRevoked('s1', revokedAt.getTime() + ttlMs)).toBe(false);
+    expect(list.size).toBe(0);
+  });
+
+  it('prunes only the expired entries', () => {
+    const list = new RevocationList(ttlMs);
+    list.revoke('old', revokedAt);
+    list.revoke('recent', new Date(revokedAt.getTime() + 10 * 60 * 1000));
+
+    list.prune(revokedAt.getTime() + ttlMs);
+
+    expect(list.size).toBe(1);
+    expect(list.isRevoked('recent', revokedAt.getTime() + ttlMs)).toBe(true);
+  });
+
+  it('restarts the clock when a session is revoked again', () => {
+    const list = new RevocationList(ttlMs);
+    list.revoke('s1', revokedAt);
+    list.revoke('s1', new Date(revokedAt.getTime() + ttlMs));
+
+    expect(list.isRevoked('s1', revokedAt.getTime() + ttlMs + 1)).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { WebSocketService, type ConnectionUser } from '../../src/services/websocket.js';
+
+// Incidents by ID, with the users who may see them
+const INCIDENTS: Record<string, string[]> = {
+  shared: ['u1', 'u2'],
+  private: ['u2']
+};
+
+describe('WebSocketService incident channels', () => {
+  let server: http.Server;
+  let service: WebSocketService;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer();
+    service = new WebSocketService(server, {
+      verifyToken: (token: string) => ({ id: token, email: `${token}@example.com`, role: 'viewer', source: 'users' }),
+      canViewIncident: async (id: string, user: ConnectionUser) => (INCIDENTS[id] || []).includes(user.id)
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `ws://localhost:${(server.address() as AddressInfo).port}/ws`;
+  });
+
+  afterAll(() => {
+    service.close();
+    server.close();
+  });
+
+  // Connects as `token`, subscribes to `channels` and resolves with the reply
+  async function subscribe(token: string, channels: string[]): Promise<any> {
+    const ws = new WebSocket(`${url}?token=${token}`);
+    try {
+      return await new Promise((resolve, reject) => {
+        ws.on('error', reject);
+        ws.on('message', (raw) => {
+          const message = JSON.parse(raw.toString());
+          if (message.type === 'authenticated') {
+            ws.send(JSON.stringify({ type: 'subscribe', data: { channels } }));
+          } else if (message.type === 'subscribed') {
+            resolve(message.data);
+          }
+        });
+      });
+    } finally {
+      ws.close();
+    }
+  }
+
+  it('denies incidents the user may not see as if they did not exist', async () => {
+    const reply = await subscribe('u1', ['incident:shared', 'incident:private', 'incident:missing']);
+
+    expect(reply.channels).toEqual(['incident:shared']);
+    expect(reply.denied).toEqual([
+      { channel: 'incident:private', reason: 'Incident not found' },
+      { channel: 'incident:missing', reason: 'Incident not found' }
+    ]);
+  });
+
+  it('lets users who may see an incident join its channel', async () => {
+    const reply = await subscribe('u2', ['incident:private']);
+
+    expect(reply.channels).toEqual(['incident:private']);
+    expect(reply.denied).toEqual([]);
+  });
+});
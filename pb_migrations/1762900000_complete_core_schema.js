@@ -0,0 +1,140 @@
+/// <reference path="../pb_data/types.d.ts" />
+// Completes the core collections created by the earlier migrations: typed incident
+// fields, relation foreign keys and query indexes. Field definitions mirror
+// src/db/schema.ts, which scripts/setup-pocketbase.ts applies over REST.
+//
+// Existing data is kept: plain-text foreign keys are copied into the new relation
+// fields before the old columns are dropped. There is no down migration.
+migrate((db) => {
+  const dao = new Dao(db);
+
+  const select = (name, values, required = true) => ({
+    name,
+    type: "select",
+    required,
+    options: { maxSelect: 1, values },
+  });
+
+  const addMissingFields = (collectionName, fields) => {
+    const collection = dao.findCollectionByNameOrId(collectionName);
+    for (const field of fields) {
+      if (!collection.schema.getFieldByName(field.name)) {
+        collection.schema.addField(new SchemaField(field));
+      }
+    }
+    dao.saveCollection(collection);
+  };
+
+  const convertToRelation = (collectionName, fieldName, targetName) => {
+    const target = dao.findCollectionByNameOrId(targetName);
+    let collection = dao.findCollectionByNameOrId(collectionName);
+    const current = collection.schema.getFieldByName(fieldName);
+    if (current && current.type === "relation") {
+      return;
+    }
+
+    const tempName = fieldName + "_relation";
+    collection.schema.addField(new SchemaField({
+      name: tempName,
+      type: "relation",
+      required: false,
+      options: {
+        collectionId: target.id,
+        cascadeDelete: true,
+        minSelect: null,
+        maxSelect: 1,
+        displayFields: null,
+      },
+    }));
+    dao.saveCollection(collection);
+
+    if (current) {
+      // Values pointing at missing records are left empty
+      db.newQuery(
+        "UPDATE {{" + collectionName + "}} SET [[" + tempName + "]] = [[" + fieldName + "]] " +
+        "WHERE [[" + fieldName + "]] IN (SELECT [[id]] FROM {{" + targetName + "}})"
+      ).execute();
+
+      collection = dao.findCollectionByNameOrId(collectionName);
+      collection.schema.removeField(current.id);
+      dao.saveCollection(collection);
+    }
+
+    collection = dao.findCollectionByNameOrId(collectionName);
+    const relation = collection.schema.getFieldByName(tempName);
+    relation.name = fieldName;
+    relation.required = true;
+    dao.saveCollection(collection);
+  };
+
+  const addIndexes = (collectionName, indexes) => {
+    const collection = dao.findCollectionByNameOrId(collectionName);
+    const existing = collection.indexes || [];
+    const missing = indexes.filter((index) => !existing.some((current) => current.includes(index.split("`")[1])));
+    if (missing.length > 0) {
+      collection.indexes = existing.concat(missing);
+      dao.saveCollection(collection);
+    }
+  };
+
+  const index = (collectionName, column) =>
+    "CREATE INDEX `idx_" + collectionName + "_" + column + "` ON `" + collectionName + "` (`" + column + "`)";
+
+  addMissingFields("incidents", [
+    select("category", ["Backend", "Frontend", "DevOps", "Health", "Finance", "Mobile"]),
+    { name: "description", type: "text", required: true, options: {} },
+    { name: "symptoms", type: "json", required: false, options: {} },
+    { name: "context", type: "json", required: false, options: {} },
+    { name: "environment", type: "json", required: false, options: {} },
+    select("severity", ["low", "medium", "high", "critical"]),
+    select("status", ["open", "investigating", "resolved", "archived"]),
+    { name: "root_cause", type: "text", required: false, options: {} },
+    select("frequency", ["one-time", "occasional", "frequent", "recurring"]),
+    select("visibility", ["private", "team", "public"]),
+    { name: "resolved_at", type: "date", required: false, options: {} },
+  ]);
+
+  addMissingFields("tags", [
+    select("tag_type", ["symptom", "technology", "skill", "emotion", "context"]),
+  ]);
+
+  addMissingFields("solutions", [
+    { name: "steps", type: "json", required: true, options: {} },
+    { name: "resources_needed", type: "json", required: false, options: {} },
+    { name: "time_estimate", type: "text", required: false, options: {} },
+    { name: "effectiveness_score", type: "number", required: false, options: {} },
+    { name: "warnings", type: "json", required: false, options: {} },
+    { name: "alternatives", type: "json", required: false, options: {} },
+    { name: "is_verified", type: "bool", required: false, options: {} },
+  ]);
+
+  addMissingFields("lessons_learned", [
+    select("lesson_type", ["prevention", "detection", "response", "recovery", "general"]),
+    { name: "applies_to", type: "json", required: false, options: {} },
+    { name: "importance", type: "number", required: false, options: {} },
+  ]);
+
+  addMissingFields("feedback", [
+    { name: "time_spent", type: "text", required: false, options: {} },
+  ]);
+
+  convertToRelation("solutions", "incident_id", "incidents");
+  convertToRelation("lessons_learned", "incident_id", "incidents");
+  convertToRelation("feedback", "solution_id", "solutions");
+
+  addIndexes("incidents", [
+    index("incidents", "status"),
+    index("incidents", "category"),
+    index("incidents", "severity"),
+    index("incidents", "created"),
+  ]);
+  addIndexes("tags", ["CREATE UNIQUE INDEX `idx_tags_tag_name` ON `tags` (`tag_name`)"]);
+  addIndexes("solutions", [index("solutions", "incident_id"), index("solutions", "created")]);
+  addIndexes("lessons_learned", [
+    index("lessons_learned", "incident_id"),
+    index("lessons_learned", "lesson_type"),
+    index("lessons_learned", "created"),
+  ]);
+  addIndexes("feedback", [index("feedback", "solution_id"), index("feedback", "created")]);
+  addIndexes("knowledge_base", [index("knowledge_base", "created")]);
+})
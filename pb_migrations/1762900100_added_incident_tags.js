@@ -0,0 +1,33 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const tags = dao.findCollectionByNameOrId("tags");
+  const collection = dao.findCollectionByNameOrId("incidents");
+
+  if (!collection.schema.getFieldByName("tags")) {
+    collection.schema.addField(new SchemaField({
+      name: "tags",
+      type: "relation",
+      required: false,
+      options: {
+        collectionId: tags.id,
+        cascadeDelete: false,
+        minSelect: null,
+        maxSelect: null,
+        displayFields: ["tag_name"],
+      },
+    }));
+  }
+
+  return dao.saveCollection(collection);
+}, (db) => {
+  const dao = new Dao(db);
+  const collection = dao.findCollectionByNameOrId("incidents");
+  const field = collection.schema.getFieldByName("tags");
+
+  if (field) {
+    collection.schema.removeField(field.id);
+  }
+
+  return dao.saveCollection(collection);
+})
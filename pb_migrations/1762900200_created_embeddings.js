@@ -0,0 +1,59 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const collection = new Collection({
+    "name": "embeddings",
+    "type": "base",
+    "system": false,
+    "schema": [
+      {
+        "name": "record_type",
+        "type": "select",
+        "required": true,
+        "options": {
+          "maxSelect": 1,
+          "values": ["incident", "solution", "lesson", "knowledge"]
+        }
+      },
+      {
+        "name": "record_id",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "provider",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "content_hash",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "vector",
+        "type": "json",
+        "required": true,
+        "options": {}
+      }
+    ],
+    "indexes": [
+      "CREATE UNIQUE INDEX `idx_embeddings_provider_record` ON `embeddings` (`provider`, `record_type`, `record_id`)"
+    ],
+    "listRule": null,
+    "viewRule": null,
+    "createRule": null,
+    "updateRule": null,
+    "deleteRule": null,
+    "options": {}
+  });
+
+  return Dao(db).saveCollection(collection);
+}, (db) => {
+  const dao = new Dao(db);
+  const collection = dao.findCollectionByNameOrId("embeddings");
+
+  return dao.deleteCollection(collection);
+})
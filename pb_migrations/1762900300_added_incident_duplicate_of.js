@@ -0,0 +1,32 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const collection = dao.findCollectionByNameOrId("incidents");
+
+  if (!collection.schema.getFieldByName("duplicate_of")) {
+    collection.schema.addField(new SchemaField({
+      name: "duplicate_of",
+      type: "relation",
+      required: false,
+      options: {
+        collectionId: collection.id,
+        cascadeDelete: false,
+        minSelect: null,
+        maxSelect: 1,
+        displayFields: ["title"],
+      },
+    }));
+  }
+
+  return dao.saveCollection(collection);
+}, (db) => {
+  const dao = new Dao(db);
+  const collection = dao.findCollectionByNameOrId("incidents");
+  const field = collection.schema.getFieldByName("duplicate_of");
+
+  if (field) {
+    collection.schema.removeField(field.id);
+  }
+
+  return dao.saveCollection(collection);
+})
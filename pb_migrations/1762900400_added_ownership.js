@@ -0,0 +1,67 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const users = dao.findCollectionByNameOrId("users");
+
+  if (!users.schema.getFieldByName("team")) {
+    users.schema.addField(new SchemaField({ name: "team", type: "text", required: false, options: {} }));
+    dao.saveCollection(users);
+  }
+
+  for (const name of ["incidents", "solutions", "lessons_learned"]) {
+    const collection = dao.findCollectionByNameOrId(name);
+
+    if (!collection.schema.getFieldByName("created_by")) {
+      collection.schema.addField(new SchemaField({
+        name: "created_by",
+        type: "relation",
+        required: false,
+        options: {
+          collectionId: users.id,
+          cascadeDelete: false,
+          minSelect: null,
+          maxSelect: 1,
+          displayFields: ["email"],
+        },
+      }));
+    }
+
+    if (name === "incidents") {
+      if (!collection.schema.getFieldByName("team")) {
+        collection.schema.addField(new SchemaField({ name: "team", type: "text", required: false, options: {} }));
+      }
+      collection.indexes = [
+        ...collection.indexes.filter((index) => !/idx_incidents_(created_by|visibility_team)/.test(index)),
+        "CREATE INDEX `idx_incidents_created_by` ON `incidents` (`created_by`)",
+        "CREATE INDEX `idx_incidents_visibility_team` ON `incidents` (`visibility`, `team`)",
+      ];
+    }
+
+    dao.saveCollection(collection);
+  }
+}, (db) => {
+  const dao = new Dao(db);
+
+  for (const name of ["incidents", "solutions", "lessons_learned"]) {
+    const collection = dao.findCollectionByNameOrId(name);
+
+    for (const fieldName of ["created_by", "team"]) {
+      const field = collection.schema.getFieldByName(fieldName);
+      if (field) {
+        collection.schema.removeField(field.id);
+      }
+    }
+    if (name === "incidents") {
+      collection.indexes = collection.indexes.filter((index) => !/idx_incidents_(created_by|visibility_team)/.test(index));
+    }
+
+    dao.saveCollection(collection);
+  }
+
+  const users = dao.findCollectionByNameOrId("users");
+  const team = users.schema.getFieldByName("team");
+  if (team) {
+    users.schema.removeField(team.id);
+    dao.saveCollection(users);
+  }
+})
@@ -0,0 +1,96 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const incidents = dao.findCollectionByNameOrId("incidents");
+  const users = dao.findCollectionByNameOrId("users");
+
+  const collection = new Collection({
+    "name": "timeline_events",
+    "type": "base",
+    "system": false,
+    "schema": [
+      {
+        "name": "incident_id",
+        "type": "relation",
+        "required": true,
+        "options": {
+          "collectionId": incidents.id,
+          "cascadeDelete": true,
+          "minSelect": null,
+          "maxSelect": 1,
+          "displayFields": ["title"]
+        }
+      },
+      {
+        "name": "event_type",
+        "type": "select",
+        "required": true,
+        "options": {
+          "maxSelect": 1,
+          "values": [
+            "created", "note", "status_change", "severity_change", "updated",
+            "solution_added", "lesson_extracted", "tags_changed", "merged", "action_taken"
+          ]
+        }
+      },
+      {
+        "name": "message",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "from_value",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "to_value",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "data",
+        "type": "json",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "occurred_at",
+        "type": "date",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "created_by",
+        "type": "relation",
+        "required": false,
+        "options": {
+          "collectionId": users.id,
+          "cascadeDelete": false,
+          "minSelect": null,
+          "maxSelect": 1,
+          "displayFields": ["email"]
+        }
+      }
+    ],
+    "indexes": [
+      "CREATE INDEX `idx_timeline_events_incident_id_occurred_at` ON `timeline_events` (`incident_id`, `occurred_at`)"
+    ],
+    "listRule": null,
+    "viewRule": null,
+    "createRule": null,
+    "updateRule": null,
+    "deleteRule": null,
+    "options": {}
+  });
+
+  return dao.saveCollection(collection);
+}, (db) => {
+  const dao = new Dao(db);
+  const collection = dao.findCollectionByNameOrId("timeline_events");
+
+  return dao.deleteCollection(collection);
+})
@@ -0,0 +1,31 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const incidents = dao.findCollectionByNameOrId("incidents");
+
+  // Statuses written by older versions of the REST API and web admin
+  db.newQuery("UPDATE incidents SET status = 'archived' WHERE status = 'closed'").execute();
+  db.newQuery(
+    "UPDATE incidents SET status = 'open' WHERE status IS NULL OR status NOT IN ('open', 'investigating', 'resolved', 'archived')"
+  ).execute();
+
+  const status = incidents.schema.getFieldByName("status");
+  if (status && status.type === "select") {
+    status.options.values = ["open", "investigating", "resolved", "archived"];
+  }
+
+  if (!incidents.schema.getFieldByName("resolution_summary")) {
+    incidents.schema.addField(new SchemaField({ name: "resolution_summary", type: "text", required: false, options: {} }));
+  }
+
+  dao.saveCollection(incidents);
+}, (db) => {
+  const dao = new Dao(db);
+  const incidents = dao.findCollectionByNameOrId("incidents");
+
+  const field = incidents.schema.getFieldByName("resolution_summary");
+  if (field) {
+    incidents.schema.removeField(field.id);
+    dao.saveCollection(incidents);
+  }
+})
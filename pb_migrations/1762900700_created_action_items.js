@@ -0,0 +1,117 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const incidents = dao.findCollectionByNameOrId("incidents");
+  const lessons = dao.findCollectionByNameOrId("lessons_learned");
+  const users = dao.findCollectionByNameOrId("users");
+
+  const collection = new Collection({
+    "name": "action_items",
+    "type": "base",
+    "system": false,
+    "schema": [
+      {
+        "name": "incident_id",
+        "type": "relation",
+        "required": true,
+        "options": {
+          "collectionId": incidents.id,
+          "cascadeDelete": true,
+          "minSelect": null,
+          "maxSelect": 1,
+          "displayFields": ["title"]
+        }
+      },
+      {
+        "name": "lesson_id",
+        "type": "relation",
+        "required": false,
+        "options": {
+          "collectionId": lessons.id,
+          "cascadeDelete": false,
+          "minSelect": null,
+          "maxSelect": 1,
+          "displayFields": ["lesson_type"]
+        }
+      },
+      {
+        "name": "title",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "description",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "owner",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "due_date",
+        "type": "date",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "status",
+        "type": "select",
+        "required": true,
+        "options": {
+          "maxSelect": 1,
+          "values": ["open", "in_progress", "done", "cancelled"]
+        }
+      },
+      {
+        "name": "priority",
+        "type": "select",
+        "required": true,
+        "options": {
+          "maxSelect": 1,
+          "values": ["low", "medium", "high", "critical"]
+        }
+      },
+      {
+        "name": "completed_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "created_by",
+        "type": "relation",
+        "required": false,
+        "options": {
+          "collectionId": users.id,
+          "cascadeDelete": false,
+          "minSelect": null,
+          "maxSelect": 1,
+          "displayFields": ["email"]
+        }
+      }
+    ],
+    "indexes": [
+      "CREATE INDEX `idx_action_items_incident_id` ON `action_items` (`incident_id`)",
+      "CREATE INDEX `idx_action_items_status_due_date` ON `action_items` (`status`, `due_date`)",
+      "CREATE INDEX `idx_action_items_owner` ON `action_items` (`owner`)"
+    ],
+    "listRule": null,
+    "viewRule": null,
+    "createRule": null,
+    "updateRule": null,
+    "deleteRule": null,
+    "options": {}
+  });
+
+  return dao.saveCollection(collection);
+}, (db) => {
+  const dao = new Dao(db);
+  const collection = dao.findCollectionByNameOrId("action_items");
+
+  return dao.deleteCollection(collection);
+})
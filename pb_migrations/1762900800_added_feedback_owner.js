@@ -0,0 +1,31 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const users = dao.findCollectionByNameOrId("users");
+  const collection = dao.findCollectionByNameOrId("feedback");
+
+  if (!collection.schema.getFieldByName("created_by")) {
+    collection.schema.addField(new SchemaField({
+      name: "created_by",
+      type: "relation",
+      required: false,
+      options: {
+        collectionId: users.id,
+        cascadeDelete: false,
+        minSelect: null,
+        maxSelect: 1,
+        displayFields: ["email"],
+      },
+    }));
+    dao.saveCollection(collection);
+  }
+}, (db) => {
+  const dao = new Dao(db);
+  const collection = dao.findCollectionByNameOrId("feedback");
+  const field = collection.schema.getFieldByName("created_by");
+
+  if (field) {
+    collection.schema.removeField(field.id);
+    dao.saveCollection(collection);
+  }
+})
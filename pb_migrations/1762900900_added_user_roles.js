@@ -0,0 +1,53 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const users = dao.findCollectionByNameOrId("users");
+
+  if (!users.schema.getFieldByName("role")) {
+    users.schema.addField(new SchemaField({
+      name: "role",
+      type: "select",
+      required: false,
+      options: { maxSelect: 1, values: ["viewer", "responder", "editor", "admin"] },
+    }));
+    dao.saveCollection(users);
+  }
+
+  for (const name of ["incidents", "solutions"]) {
+    const collection = dao.findCollectionByNameOrId(name);
+
+    if (!collection.schema.getFieldByName("updated_by")) {
+      collection.schema.addField(new SchemaField({
+        name: "updated_by",
+        type: "relation",
+        required: false,
+        options: {
+          collectionId: users.id,
+          cascadeDelete: false,
+          minSelect: null,
+          maxSelect: 1,
+          displayFields: ["email"],
+        },
+      }));
+      dao.saveCollection(collection);
+    }
+  }
+}, (db) => {
+  const dao = new Dao(db);
+
+  for (const name of ["incidents", "solutions"]) {
+    const collection = dao.findCollectionByNameOrId(name);
+    const field = collection.schema.getFieldByName("updated_by");
+    if (field) {
+      collection.schema.removeField(field.id);
+      dao.saveCollection(collection);
+    }
+  }
+
+  const users = dao.findCollectionByNameOrId("users");
+  const role = users.schema.getFieldByName("role");
+  if (role) {
+    users.schema.removeField(role.id);
+    dao.saveCollection(users);
+  }
+})
@@ -0,0 +1,99 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const users = dao.findCollectionByNameOrId("users");
+
+  if (!users.schema.getFieldByName("service_account")) {
+    users.schema.addField(new SchemaField({
+      name: "service_account",
+      type: "bool",
+      required: false,
+      options: {},
+    }));
+    dao.saveCollection(users);
+  }
+
+  const collection = new Collection({
+    "name": "api_keys",
+    "type": "base",
+    "system": false,
+    "schema": [
+      {
+        "name": "name",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "user",
+        "type": "relation",
+        "required": true,
+        "options": {
+          "collectionId": users.id,
+          "cascadeDelete": true,
+          "minSelect": null,
+          "maxSelect": 1,
+          "displayFields": ["email"]
+        }
+      },
+      {
+        "name": "key_prefix",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "key_hash",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "scopes",
+        "type": "json",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "expires_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "last_used_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "revoked_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      }
+    ],
+    "indexes": [
+      "CREATE UNIQUE INDEX `idx_api_keys_key_hash` ON `api_keys` (`key_hash`)",
+      "CREATE INDEX `idx_api_keys_user` ON `api_keys` (`user`)"
+    ],
+    "listRule": null,
+    "viewRule": null,
+    "createRule": null,
+    "updateRule": null,
+    "deleteRule": null,
+    "options": {}
+  });
+
+  return dao.saveCollection(collection);
+}, (db) => {
+  const dao = new Dao(db);
+  dao.deleteCollection(dao.findCollectionByNameOrId("api_keys"));
+
+  const users = dao.findCollectionByNameOrId("users");
+  const field = users.schema.getFieldByName("service_account");
+  if (field) {
+    users.schema.removeField(field.id);
+    dao.saveCollection(users);
+  }
+})
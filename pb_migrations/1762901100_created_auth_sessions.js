@@ -0,0 +1,82 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+
+  const collection = new Collection({
+    "name": "auth_sessions",
+    "type": "base",
+    "system": false,
+    "schema": [
+      {
+        "name": "subject_id",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "subject_source",
+        "type": "select",
+        "required": true,
+        "options": {
+          "maxSelect": 1,
+          "values": ["admins", "users"]
+        }
+      },
+      {
+        "name": "email",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "refresh_hash",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "previous_hash",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "expires_at",
+        "type": "date",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "last_used_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "revoked_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      }
+    ],
+    "indexes": [
+      "CREATE UNIQUE INDEX `idx_auth_sessions_refresh_hash` ON `auth_sessions` (`refresh_hash`)",
+      "CREATE INDEX `idx_auth_sessions_previous_hash` ON `auth_sessions` (`previous_hash`)",
+      "CREATE INDEX `idx_auth_sessions_subject_id` ON `auth_sessions` (`subject_id`)",
+      "CREATE INDEX `idx_auth_sessions_revoked_at` ON `auth_sessions` (`revoked_at`)"
+    ],
+    "listRule": null,
+    "viewRule": null,
+    "createRule": null,
+    "updateRule": null,
+    "deleteRule": null,
+    "options": {}
+  });
+
+  return dao.saveCollection(collection);
+}, (db) => {
+  const dao = new Dao(db);
+  const collection = dao.findCollectionByNameOrId("auth_sessions");
+
+  return dao.deleteCollection(collection);
+})
@@ -0,0 +1,165 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const users = dao.findCollectionByNameOrId("users");
+
+  const webhooks = new Collection({
+    "name": "webhooks",
+    "type": "base",
+    "system": false,
+    "schema": [
+      {
+        "name": "url",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "description",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "events",
+        "type": "json",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "secret",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "active",
+        "type": "bool",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "created_by",
+        "type": "relation",
+        "required": false,
+        "options": {
+          "collectionId": users.id,
+          "cascadeDelete": false,
+          "minSelect": null,
+          "maxSelect": 1,
+          "displayFields": ["email"]
+        }
+      }
+    ],
+    "indexes": [
+      "CREATE INDEX `idx_webhooks_active` ON `webhooks` (`active`)"
+    ],
+    "listRule": null,
+    "viewRule": null,
+    "createRule": null,
+    "updateRule": null,
+    "deleteRule": null,
+    "options": {}
+  });
+  dao.saveCollection(webhooks);
+
+  const deliveries = new Collection({
+    "name": "webhook_deliveries",
+    "type": "base",
+    "system": false,
+    "schema": [
+      {
+        "name": "webhook",
+        "type": "relation",
+        "required": true,
+        "options": {
+          "collectionId": webhooks.id,
+          "cascadeDelete": true,
+          "minSelect": null,
+          "maxSelect": 1,
+          "displayFields": ["url"]
+        }
+      },
+      {
+        "name": "event",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "event_id",
+        "type": "text",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "payload",
+        "type": "json",
+        "required": true,
+        "options": {}
+      },
+      {
+        "name": "status",
+        "type": "select",
+        "required": true,
+        "options": {
+          "maxSelect": 1,
+          "values": ["pending", "delivered", "dead"]
+        }
+      },
+      {
+        "name": "attempts",
+        "type": "number",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "next_attempt_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "last_attempt_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "last_status_code",
+        "type": "number",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "last_error",
+        "type": "text",
+        "required": false,
+        "options": {}
+      },
+      {
+        "name": "delivered_at",
+        "type": "date",
+        "required": false,
+        "options": {}
+      }
+    ],
+    "indexes": [
+      "CREATE INDEX `idx_webhook_deliveries_status_next_attempt_at` ON `webhook_deliveries` (`status`, `next_attempt_at`)",
+      "CREATE INDEX `idx_webhook_deliveries_webhook_created` ON `webhook_deliveries` (`webhook`, `created`)"
+    ],
+    "listRule": null,
+    "viewRule": null,
+    "createRule": null,
+    "updateRule": null,
+    "deleteRule": null,
+    "options": {}
+  });
+
+  return dao.saveCollection(deliveries);
+}, (db) => {
+  const dao = new Dao(db);
+  dao.deleteCollection(dao.findCollectionByNameOrId("webhook_deliveries"));
+
+  return dao.deleteCollection(dao.findCollectionByNameOrId("webhooks"));
+})
@@ -0,0 +1,61 @@
+/// <reference path="../pb_data/types.d.ts" />
+migrate((db) => {
+  const dao = new Dao(db);
+  const users = dao.findCollectionByNameOrId("users");
+  let knowledge = dao.findCollectionByNameOrId("knowledge_base");
+
+  // The same owner and editor relations as incidents and solutions, instead of the createdBy/updatedBy text fields
+  for (const name of ["created_by", "updated_by"]) {
+    if (!knowledge.schema.getFieldByName(name)) {
+      knowledge.schema.addField(new SchemaField({
+        name,
+        type: "relation",
+        required: false,
+        options: {
+          collectionId: users.id,
+          cascadeDelete: false,
+          minSelect: null,
+          maxSelect: 1,
+          displayFields: ["email"],
+        },
+      }));
+    }
+  }
+  knowledge.indexes = [
+    ...knowledge.indexes.filter((index) => !/idx_knowledge_base_created_by/.test(index)),
+    "CREATE INDEX `idx_knowledge_base_created_by` ON `knowledge_base` (`created_by`)",
+  ];
+  dao.saveCollection(knowledge);
+
+  // Only IDs of users records carry over; PocketBase admins are not users, so their items have no owner
+  knowledge = dao.findCollectionByNameOrId("knowledge_base");
+  for (const [from, to] of [["createdBy", "created_by"], ["updatedBy", "updated_by"]]) {
+    const field = knowledge.schema.getFieldByName(from);
+    if (field) {
+      db.newQuery(`UPDATE knowledge_base SET ${to} = ${from} WHERE ${from} IN (SELECT id FROM users)`).execute();
+      knowledge.schema.removeField(field.id);
+    }
+  }
+  dao.saveCollection(knowledge);
+}, (db) => {
+  const dao = new Dao(db);
+  let knowledge = dao.findCollectionByNameOrId("knowledge_base");
+
+  for (const name of ["createdBy", "updatedBy"]) {
+    if (!knowledge.schema.getFieldByName(name)) {
+      knowledge.schema.addField(new SchemaField({ name, type: "text", required: false, options: {} }));
+    }
+  }
+  dao.saveCollection(knowledge);
+
+  knowledge = dao.findCollectionByNameOrId("knowledge_base");
+  for (const [from, to] of [["created_by", "createdBy"], ["updated_by", "updatedBy"]]) {
+    const field = knowledge.schema.getFieldByName(from);
+    if (field) {
+      db.newQuery(`UPDATE knowledge_base SET ${to} = ${from}`).execute();
+      knowledge.schema.removeField(field.id);
+    }
+  }
+  knowledge.indexes = knowledge.indexes.filter((index) => !/idx_knowledge_base_created_by/.test(index));
+  dao.saveCollection(knowledge);
+})
@@ -1,176 +1,478 @@
 #!/usr/bin/env bun
+/**
+ * Versioned PocketBase schema setup
+ *
+ * Collection definitions live in src/db/schema.ts. Each migration below runs once and is
+ * recorded in the `schema_migrations` collection, so the script can be re-run against a
+ * fresh database or one created by an older version of this script or pb_migrations.
+ *
+ * Usage:
+ *   bun scripts/setup-pocketbase.ts           Apply pending migrations
+ *   bun scripts/setup-pocketbase.ts --status  List applied and pending migrations
+ */
 import { config } from '../src/config.js';
+import { COLLECTIONS, getCollectionDefinition, type FieldDefinition } from '../src/db/schema.js';
+import { INCIDENT_STATUSES, normalizeStatus } from '../src/shared/incidentStatus.js';
 
-async function setupDatabase() {
-  const baseUrl = config.pocketbase.url;
-  let adminToken: string;
+const MIGRATIONS_COLLECTION = 'schema_migrations';
 
-  try {
-    // Check if PocketBase is running
-    const healthResponse = await fetch(`${baseUrl}/api/health`);
-    if (!healthResponse.ok) {
-      throw new Error('PocketBase is not running');
-    }
-    console.log('✅ PocketBase is running');
+interface Migration {
+  version: number;
+  name: string;
+  up: (admin: PocketBaseAdmin) => Promise<void>;
+}
 
-    // Authenticate as admin
-    const authResponse = await fetch(`${baseUrl}/api/admins/auth-with-password`, {
-      method: 'POST',
+/**
+ * Thin wrapper around the PocketBase admin REST API
+ */
+class PocketBaseAdmin {
+  constructor(private baseUrl: string, private token: string) {}
+
+  async request(path: string, init: RequestInit = {}): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.token}`,
+        ...init.headers,
       },
-      body: JSON.stringify({
-        identity: config.pocketbase.adminEmail,
-        password: config.pocketbase.adminPassword,
-      }),
     });
 
-    if (!authResponse.ok) {
-      throw new Error(`Admin authentication failed: ${authResponse.status}`);
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`${init.method || 'GET'} ${path} failed: ${response.status} ${body}`);
+    }
+
+    return response.status === 204 ? null : response.json();
+  }
+
+  async getCollection(name: string): Promise<any | null> {
+    try {
+      return await this.request(`/api/collections/${encodeURIComponent(name)}`);
+    } catch (error: any) {
+      if (error.message.includes(' 404 ')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async requireCollection(name: string): Promise<any> {
+    const collection = await this.getCollection(name);
+    if (!collection) {
+      throw new Error(`Collection "${name}" does not exist`);
     }
+    return collection;
+  }
+
+  createCollection(body: Record<string, any>): Promise<any> {
+    return this.request('/api/collections', { method: 'POST', body: JSON.stringify({ type: 'base', ...body }) });
+  }
 
-    const authData = await authResponse.json();
-    adminToken = authData.token;
-    console.log('✅ Admin authentication successful');
-
-    console.log('🔧 Setting up database collections...');
-
-    // Helper function to create collections
-    async function createCollection(name: string, schema: any[]) {
-      try {
-        const response = await fetch(`${baseUrl}/api/collections`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${adminToken}`,
-          },
-          body: JSON.stringify({
-            name,
-            type: 'base',
-            schema,
-          }),
-        });
-
-        if (response.ok) {
-          console.log(`✅ Created collection: ${name}`);
-          return await response.json();
-        } else {
-          const error = await response.json();
-          if (response.status === 400 && error.data?.name?.code === 'validation_invalid_collection_name') {
-            console.log(`⏭️  Collection "${name}" already exists, skipping`);
-            // Get existing collection
-            const existingResponse = await fetch(`${baseUrl}/api/collections?filter=(name='${name}')`, {
-              headers: {
-                'Authorization': `Bearer ${adminToken}`,
-              },
-            });
-            const existingData = await existingResponse.json();
-            return existingData.items[0];
-          } else {
-            console.warn(`⚠️ Could not create collection ${name}:`, error.message || error);
-            // Try to get existing collection
-            try {
-              const existingResponse = await fetch(`${baseUrl}/api/collections?filter=(name='${name}')`, {
-                headers: {
-                  'Authorization': `Bearer ${adminToken}`,
-                },
-              });
-              const existingData = await existingResponse.json();
-              if (existingData.items && existingData.items.length > 0) {
-                console.log(`✅ Found existing collection: ${name}`);
-                return existingData.items[0];
-              }
-            } catch (existingError) {
-              console.warn(`Could not find existing collection ${name}`);
-            }
-            throw new Error(`Failed to create ${name}: ${error.message || JSON.stringify(error)}`);
-          }
+  updateCollection(id: string, body: Record<string, any>): Promise<any> {
+    return this.request(`/api/collections/${id}`, { method: 'PATCH', body: JSON.stringify(body) });
+  }
+
+  async listAll(collection: string, fields: string[]): Promise<any[]> {
+    const items: any[] = [];
+    for (let page = 1; ; page++) {
+      const data = await this.request(
+        `/api/collections/${collection}/records?page=${page}&perPage=500&fields=${fields.join(',')}&skipTotal=1`
+      );
+      items.push(...data.items);
+      if (data.items.length < 500) {
+        return items;
+      }
+    }
+  }
+
+  createRecord(collection: string, body: Record<string, any>): Promise<any> {
+    return this.request(`/api/collections/${collection}/records`, { method: 'POST', body: JSON.stringify(body) });
+  }
+
+  updateRecord(collection: string, id: string, body: Record<string, any>): Promise<any> {
+    return this.request(`/api/collections/${collection}/records/${id}`, { method: 'PATCH', body: JSON.stringify(body) });
+  }
+}
+
+async function toSchemaField(admin: PocketBaseAdmin, field: FieldDefinition): Promise<Record<string, any>> {
+  if (!field.relation) {
+    return { name: field.name, type: field.type, required: field.required ?? false, options: field.options ?? {} };
+  }
+
+  const target = await admin.requireCollection(field.relation.collection);
+  return {
+    name: field.name,
+    type: 'relation',
+    required: field.required ?? false,
+    options: {
+      collectionId: target.id,
+      cascadeDelete: field.relation.cascadeDelete,
+      minSelect: null,
+      maxSelect: field.relation.multiple ? null : 1,
+      displayFields: null,
+    },
+  };
+}
+
+function indexName(index: string): string {
+  return index.match(/INDEX\s+`?(\w+)`?/i)?.[1] ?? index;
+}
+
+/**
+ * Create missing collections and fields, and bring select values up to date.
+ * Plain-text foreign keys are left alone here; convertToRelation upgrades them.
+ */
+async function syncCollections(admin: PocketBaseAdmin): Promise<void> {
+  for (const definition of COLLECTIONS) {
+    const existing = await admin.getCollection(definition.name);
+
+    if (!existing) {
+      // Self-relations need the collection ID, so they are added once the collection exists
+      const selfRelations = definition.fields.filter(field => field.relation?.collection === definition.name);
+      const schema = [];
+      for (const field of definition.fields.filter(field => !selfRelations.includes(field))) {
+        schema.push(await toSchemaField(admin, field));
+      }
+      const created = await admin.createCollection({ name: definition.name, schema });
+      if (selfRelations.length > 0) {
+        const relationFields = [];
+        for (const field of selfRelations) {
+          relationFields.push(await toSchemaField(admin, field));
         }
-      } catch (error: any) {
-        console.warn(`⚠️ Could not create ${name} collection:`, error.message);
-        throw error;
+        await admin.updateCollection(created.id, { schema: [...created.schema, ...relationFields] });
       }
+      console.log(`✅ Created collection: ${definition.name}`);
+      continue;
     }
 
-    // Create incidents collection first (no dependencies) - simplified schema
-    const incidentsCollection = await createCollection("incidents", [
-      { name: "title", type: "text", required: true },
-      { name: "category", type: "select", required: true, options: { values: ["Backend", "Frontend", "DevOps", "Health", "Finance", "Mobile"] } },
-      { name: "description", type: "text", required: true },
-      { name: "symptoms", type: "json" },
-      { name: "context", type: "json" },
-      { name: "environment", type: "json" },
-      { name: "severity", type: "select", required: true, options: { values: ["low", "medium", "high", "critical"] } },
-      { name: "status", type: "select", required: true, options: { values: ["open", "investigating", "resolved", "archived"] } },
-      { name: "root_cause", type: "text" },
-      { name: "frequency", type: "select", required: true, options: { values: ["one-time", "occasional", "frequent", "recurring"] } },
-      { name: "visibility", type: "select", required: true, options: { values: ["private", "team", "public"] } },
-      { name: "resolved_at", type: "date" },
-    ]);
-
-    // Create tags collection
-    await createCollection("tags", [
-      { name: "tag_name", type: "text", required: true },
-      { name: "tag_type", type: "select", required: true, options: { values: ["symptom", "technology", "skill", "emotion", "context"] } },
-      { name: "usage_count", type: "number" },
-    ]);
-
-    // Create solutions collection (references incidents)
-    await createCollection("solutions", [
-      { name: "incident_id", type: "relation", required: true, options: { collectionId: incidentsCollection.id } },
-      { name: "solution_title", type: "text", required: true },
-      { name: "solution_description", type: "text", required: true },
-      { name: "steps", type: "json", required: true },
-      { name: "resources_needed", type: "json" },
-      { name: "time_estimate", type: "text" },
-      { name: "effectiveness_score", type: "number" },
-      { name: "warnings", type: "json" },
-      { name: "alternatives", type: "json" },
-      { name: "is_verified", type: "bool" },
-    ]);
-
-    // Create lessons_learned collection (references incidents)
-    await createCollection("lessons_learned", [
-      { name: "incident_id", type: "relation", required: true, options: { collectionId: incidentsCollection.id } },
-      { name: "lesson_text", type: "text", required: true },
-      { name: "lesson_type", type: "select", required: true, options: { values: ["prevention", "detection", "response", "recovery", "general"] } },
-      { name: "applies_to", type: "json" },
-      { name: "importance", type: "number" },
-    ]);
-
-    // Get solutions collection for feedback relation
-    const solutionsResponse = await fetch(`${baseUrl}/api/collections?filter=(name='solutions')`, {
-      headers: {
-        'Authorization': `Bearer ${adminToken}`,
-      },
+    const schema = [...existing.schema];
+    const changes: string[] = [];
+
+    for (const field of definition.fields) {
+      const current = schema.find((candidate: any) => candidate.name === field.name);
+
+      if (!current) {
+        schema.push(await toSchemaField(admin, field));
+        changes.push(`+${field.name}`);
+      } else if (field.type === 'select' && current.type === 'select') {
+        const values = field.options?.values ?? [];
+        if (JSON.stringify(current.options?.values) !== JSON.stringify(values)) {
+          current.options = { ...current.options, values };
+          changes.push(`~${field.name}`);
+        }
+      }
+    }
+
+    if (changes.length > 0) {
+      await admin.updateCollection(existing.id, { schema });
+      console.log(`✅ Updated collection ${definition.name}: ${changes.join(', ')}`);
+    } else {
+      console.log(`⏭️  Collection "${definition.name}" is up to date`);
+    }
+  }
+}
+
+/**
+ * Upgrade a plain-text foreign key to a relation field without losing data.
+ *
+ * The relation is added under a temporary name, existing values are copied over, and
+ * the old column is dropped before the relation takes its name. Values that point at
+ * missing records are reported and left empty.
+ */
+async function convertToRelation(admin: PocketBaseAdmin, collectionName: string, fieldName: string): Promise<void> {
+  const definition = getCollectionDefinition(collectionName).fields.find(field => field.name === fieldName);
+  if (!definition?.relation) {
+    throw new Error(`${collectionName}.${fieldName} is not defined as a relation`);
+  }
+
+  const collection = await admin.requireCollection(collectionName);
+  const current = collection.schema.find((field: any) => field.name === fieldName);
+  if (current?.type === 'relation') {
+    console.log(`⏭️  ${collectionName}.${fieldName} is already a relation`);
+    return;
+  }
+
+  const tempName = `${fieldName}_relation`;
+  const relationField = await toSchemaField(admin, { ...definition, name: tempName, required: false });
+  await admin.updateCollection(collection.id, { schema: [...collection.schema, relationField] });
+
+  const targetIds = new Set((await admin.listAll(definition.relation.collection, ['id'])).map(record => record.id));
+  const records = current ? await admin.listAll(collectionName, ['id', fieldName]) : [];
+  const unlinked: string[] = [];
+
+  for (const record of records) {
+    const value = record[fieldName];
+    if (!value || !targetIds.has(value)) {
+      unlinked.push(record.id);
+      continue;
+    }
+
+    try {
+      await admin.updateRecord(collectionName, record.id, { [tempName]: value });
+    } catch (error: any) {
+      console.warn(`⚠️  Could not link ${collectionName}/${record.id}:`, error.message);
+      unlinked.push(record.id);
+    }
+  }
+
+  // Drop the text column first so the relation can take over its name
+  let updated = await admin.requireCollection(collectionName);
+  if (current) {
+    await admin.updateCollection(updated.id, {
+      schema: updated.schema.filter((field: any) => field.name !== fieldName),
     });
-    const solutionsData = await solutionsResponse.json();
-    const solutionsCollection = solutionsData.items[0];
-
-    // Create feedback collection (references solutions)
-    await createCollection("feedback", [
-      { name: "solution_id", type: "relation", required: true, options: { collectionId: solutionsCollection.id } },
-      { name: "rating", type: "number", required: true },
-      { name: "worked", type: "bool", required: true },
-      { name: "comment", type: "text" },
-      { name: "time_spent", type: "text" },
-    ]);
-
-    // Create knowledge_base collection
-    await createCollection("knowledge_base", [
-      { name: "title", type: "text", required: true },
-      { name: "content", type: "text", required: true },
-      { name: "tags", type: "json" },
-      { name: "createdBy", type: "text" },
-      { name: "updatedBy", type: "text" },
-    ]);
-
-    console.log('🎉 Database setup complete!');
+    updated = await admin.requireCollection(collectionName);
+  }
+
+  await admin.updateCollection(updated.id, {
+    schema: updated.schema.map((field: any) =>
+      field.name === tempName ? { ...field, name: fieldName, required: definition.required ?? false } : field
+    ),
+  });
+
+  console.log(`✅ Converted ${collectionName}.${fieldName} to a relation (${records.length - unlinked.length}/${records.length} linked)`);
+  if (unlinked.length > 0) {
+    console.warn(`⚠️  ${unlinked.length} ${collectionName} record(s) reference a missing ${definition.relation.collection} record: ${unlinked.join(', ')}`);
+  }
+}
+
+/**
+ * Add any indexes from the schema definitions that the collections are missing
+ */
+async function syncIndexes(admin: PocketBaseAdmin): Promise<void> {
+  for (const definition of COLLECTIONS) {
+    const collection = await admin.requireCollection(definition.name);
+    const existing: string[] = collection.indexes ?? [];
+    const existingNames = new Set(existing.map(indexName));
+    const missing = definition.indexes.filter(index => !existingNames.has(indexName(index)));
+
+    if (missing.length === 0) {
+      continue;
+    }
+
+    await admin.updateCollection(collection.id, { indexes: [...existing, ...missing] });
+    console.log(`✅ Added ${missing.length} index(es) to ${definition.name}`);
+  }
+}
+
+/**
+ * Move incidents onto the shared status vocabulary (src/shared/incidentStatus.ts).
+ *
+ * The REST API and web admin used to write "new" and "closed". Those values are widened into
+ * the select first so the records stay valid while they are rewritten; anything unrecognised
+ * becomes open. syncCollections then narrows the select back to the shared statuses.
+ */
+async function reconcileIncidentStatuses(admin: PocketBaseAdmin): Promise<void> {
+  const collection = await admin.requireCollection('incidents');
+  const schema = [...collection.schema];
+  const field = schema.find((candidate: any) => candidate.name === 'status');
+
+  const records = await admin.listAll('incidents', ['id', 'status']);
+  if (field?.type === 'select') {
+    const stored = records.map(record => record.status).filter(Boolean);
+    const values = [...new Set([...INCIDENT_STATUSES, ...(field.options?.values ?? []), ...stored])];
+    field.options = { ...field.options, values };
+    await admin.updateCollection(collection.id, { schema });
+  } else if (field) {
+    console.warn(`⚠️  incidents.status is a ${field.type} field; values are rewritten but not constrained`);
+  }
+
+  let rewritten = 0;
+  for (const record of records) {
+    const status = normalizeStatus(record.status) ?? 'open';
+    if (status !== record.status) {
+      await admin.updateRecord('incidents', record.id, { status });
+      rewritten++;
+    }
+  }
+  console.log(`✅ Reconciled incident statuses: ${rewritten} of ${records.length} rewritten`);
+
+  await syncCollections(admin);
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'sync_collections',
+    up: syncCollections,
+  },
+  {
+    version: 2,
+    name: 'convert_foreign_keys_to_relations',
+    up: async admin => {
+      await convertToRelation(admin, 'solutions', 'incident_id');
+      await convertToRelation(admin, 'lessons_learned', 'incident_id');
+      await convertToRelation(admin, 'feedback', 'solution_id');
+    },
+  },
+  {
+    version: 3,
+    name: 'add_indexes',
+    up: syncIndexes,
+  },
+  {
+    version: 4,
+    name: 'add_incident_tags',
+    up: syncCollections,
+  },
+  {
+    version: 5,
+    name: 'add_embeddings',
+    up: async admin => {
+      await syncCollections(admin);
+      await syncIndexes(admin);
+    },
+  },
+  {
+    version: 6,
+    name: 'add_incident_duplicate_of',
+    up: syncCollections,
+  },
+  {
+    version: 7,
+    name: 'add_ownership',
+    up: async admin => {
+      await syncCollections(admin);
+      await syncIndexes(admin);
+    },
+  },
+  {
+    version: 8,
+    name: 'add_timeline_events',
+    up: async admin => {
+      await syncCollections(admin);
+      await syncIndexes(admin);
+    },
+  },
+  {
+    version: 9,
+    name: 'reconcile_incident_statuses',
+    up: reconcileIncidentStatuses,
+  },
+  {
+    version: 10,
+    name: 'add_action_items',
+    up: async admin => {
+      await syncCollections(admin);
+      await syncIndexes(admin);
+    },
+  },
+  {
+    version: 11,
+    name: 'add_feedback_owner',
+    up: syncCollections,
+  },
+  {
+    version: 12,
+    name: 'add_user_roles',
+    up: syncCollections,
+  },
+  {
+    version: 13,
+    name: 'add_api_keys',
+    up: async admin => {
+      await syncCollections(admin);
+      await syncIndexes(admin);
+    },
+  },
+  {
+    version: 14,
+    name: 'add_auth_sessions',
+    up: async admin => {
+      await syncCollections(admin);
+      await syncIndexes(admin);
+    },
+  },
+  {
+    version: 15,
+    name: 'add_webhooks',
+    up: async admin => {
+      await syncCollections(admin);
+      await syncIndexes(admin);
+    },
+  },
+];
+
+async function ensureMigrationsCollection(admin: PocketBaseAdmin): Promise<void> {
+  if (await admin.getCollection(MIGRATIONS_COLLECTION)) {
+    return;
+  }
+
+  await admin.createCollection({
+    name: MIGRATIONS_COLLECTION,
+    schema: [
+      { name: 'version', type: 'number', required: true, options: { noDecimal: true } },
+      { name: 'name', type: 'text', required: true },
+    ],
+    indexes: [`CREATE UNIQUE INDEX \`idx_${MIGRATIONS_COLLECTION}_version\` ON \`${MIGRATIONS_COLLECTION}\` (\`version\`)`],
+  });
+  console.log(`✅ Created collection: ${MIGRATIONS_COLLECTION}`);
+}
+
+async function authenticate(baseUrl: string): Promise<string> {
+  const healthResponse = await fetch(`${baseUrl}/api/health`);
+  if (!healthResponse.ok) {
+    throw new Error('PocketBase is not running');
+  }
+  console.log('✅ PocketBase is running');
+
+  const authResponse = await fetch(`${baseUrl}/api/admins/auth-with-password`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      identity: config.pocketbase.adminEmail,
+      password: config.pocketbase.adminPassword,
+    }),
+  });
+
+  if (!authResponse.ok) {
+    throw new Error(`Admin authentication failed: ${authResponse.status}`);
+  }
+
+  const authData = await authResponse.json();
+  console.log('✅ Admin authentication successful');
+  return authData.token;
+}
+
+async function setupDatabase() {
+  const statusOnly = process.argv.includes('--status');
+
+  try {
+    const baseUrl = config.pocketbase.url;
+    const admin = new PocketBaseAdmin(baseUrl, await authenticate(baseUrl));
+
+    await ensureMigrationsCollection(admin);
+    const applied = new Set(
+      (await admin.listAll(MIGRATIONS_COLLECTION, ['version'])).map(record => record.version)
+    );
+    const pending = MIGRATIONS.filter(migration => !applied.has(migration.version));
+
+    if (statusOnly) {
+      for (const migration of MIGRATIONS) {
+        console.log(`${applied.has(migration.version) ? '✅' : '⏳'} ${migration.version} ${migration.name}`);
+      }
+      return;
+    }
+
+    if (pending.length === 0) {
+      console.log('✅ Database schema is up to date');
+      return;
+    }
+
+    for (const migration of pending) {
+      console.log(`🔧 Applying migration ${migration.version}: ${migration.name}`);
+      await migration.up(admin);
+      await admin.createRecord(MIGRATIONS_COLLECTION, { version: migration.version, name: migration.name });
+    }
 
+    console.log(`🎉 Database setup complete! Applied ${pending.length} migration(s)`);
   } catch (error: any) {
     console.error('❌ Setup failed:', error.message || error);
     process.exit(1);
   }
 }
 
-setupDatabase();
\ No newline at end of file
+setupDatabase();
@@ -0,0 +1,58 @@
+#!/usr/bin/env bun
+/**
+ * Local webhook receiver for trying out deliveries: prints each request and checks its signature.
+ *
+ *   bun scripts/webhook-stub.ts [--port 4010] [--secret whsec_...] [--fail 2]
+ *
+ * --fail answers the first N requests with 500 to exercise retries.
+ */
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import {
+  SIGNATURE_TOLERANCE_SECONDS,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  formatSignature,
+  signedContent,
+} from '../src/shared/webhooks.js';
+
+function option(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = parseInt(option('port', '4010'), 10);
+const secret = option('secret', process.env.WEBHOOK_SECRET || '');
+let failures = parseInt(option('fail', '0'), 10);
+
+function checkSignature(body: string, timestamp: string, signature: string): string {
+  if (!secret) {
+    return 'not checked (no --secret)';
+  }
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+    return '❌ timestamp too old';
+  }
+  const expected = Buffer.from(formatSignature(createHmac('sha256', secret).update(signedContent(timestamp, body)).digest('hex')));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? '✅ valid' : '❌ invalid';
+}
+
+createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const header = (name: string) => String(req.headers[name.toLowerCase()] ?? '');
+    const status = failures > 0 ? 500 : 200;
+    failures = Math.max(failures - 1, 0);
+
+    console.log(`\n📨 ${req.method} ${req.url} ${header(WEBHOOK_EVENT_HEADER)} -> ${status}`);
+    console.log(`   Signature: ${checkSignature(body, header(WEBHOOK_TIMESTAMP_HEADER), header(WEBHOOK_SIGNATURE_HEADER))}`);
+    console.log(`   ${body}`);
+
+    res.statusCode = status;
+    res.end(status === 200 ? 'ok' : 'failing on purpose');
+  });
+}).listen(port, '127.0.0.1', () => {
+  console.log(`🎯 Webhook stub listening on http://127.0.0.1:${port}/`);
+});
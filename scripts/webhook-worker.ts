@@ -0,0 +1,19 @@
+#!/usr/bin/env bun
+/**
+ * Deliver queued webhooks without running the MCP server; use this or WEBHOOK_WORKER=true, not both
+ */
+import { initPocketBase, ensurePocketBaseReady } from '../src/db/pocketbase.js';
+import { webhookService } from '../src/services/webhooks.js';
+import { config } from '../src/config.js';
+
+await ensurePocketBaseReady();
+await initPocketBase();
+webhookService.start();
+console.log(`📬 Delivering webhooks every ${config.webhooks.pollIntervalMs} ms (Ctrl+C to stop)`);
+
+const stop = () => {
+  webhookService.stop();
+  process.exit(0);
+};
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
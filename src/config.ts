@@ -5,10 +5,59 @@ const ConfigSchema = z.object({
     url: z.string().url().default('http://localhost:8090'),
     adminEmail: z.string().email(),
     adminPassword: z.string().min(8),
+    // Per-request timeout for calls to PocketBase
+    timeoutMs: z.number().int().positive().default(10000),
+    // Extra attempts for reads that fail with a network error, timeout or 502/503/504
+    maxRetries: z.number().int().min(0).max(10).default(2),
+    // Consecutive failures that open the circuit, and how long it stays open
+    circuitFailureThreshold: z.number().int().positive().default(5),
+    circuitRecoveryMs: z.number().int().positive().default(30000),
   }),
   mcp: z.object({
     port: z.number().int().positive().default(3000),
     host: z.string().default('localhost'),
+    // 'stdio' serves a single local client; 'http' serves Streamable HTTP (plus legacy SSE) on host:port
+    transport: z.enum(['stdio', 'http']).default('stdio'),
+    // Comma-separated bearer tokens for the HTTP transport, optionally named as name:token
+    authTokens: z.string().default(''),
+    sessionIdleMinutes: z.number().positive().default(60),
+    // 'full' advertises every input/output schema in tools/list; 'compact' lists
+    // summaries only and leaves clients to call describe_tool on demand
+    toolListMode: z.enum(['full', 'compact']).default('full'),
+  }),
+  identity: z.object({
+    // PocketBase user the server acts as when a session brings no credentials of its own:
+    // either an auth token, or an email and password to sign in with
+    userToken: z.string().default(''),
+    userEmail: z.string().default(''),
+    userPassword: z.string().default(''),
+    // Reject stdio calls that resolve to no user instead of running them as admin with full visibility; HTTP always rejects them
+    requireUser: z.boolean().default(false),
+  }),
+  search: z.object({
+    // Default ranking for search_incidents and get_similar_incidents when no mode is passed
+    mode: z.enum(['keyword', 'semantic', 'hybrid']).default('keyword'),
+    // Name of a registered embedding provider; 'hashing' runs fully offline
+    embeddingProvider: z.string().default('hashing'),
+  }),
+  dedupe: z.object({
+    // What create_incident does when it finds likely duplicates and no dedupe argument is passed
+    mode: z.enum(['warn', 'block', 'merge']).default('warn'),
+    // Minimum BM25 similarity (0-1, relative to the new report) for an incident to count as a duplicate
+    threshold: z.number().min(0).max(1).default(0.5),
+    // Only incidents created this recently are considered
+    windowHours: z.number().positive().default(72),
+  }),
+  postmortem: z.object({
+    // JSON file with the postmortem title and sections, relative to the project root; the built-in template is used when it is missing
+    templatePath: z.string().default('postmortem.template.json'),
+  }),
+  webhooks: z.object({
+    // Run the webhook delivery worker in this process; enable it in exactly one process per PocketBase
+    worker: z.boolean().default(false),
+    pollIntervalMs: z.number().int().positive().default(5000),
+    // How long a receiver has to answer before the attempt counts as failed
+    timeoutMs: z.number().int().positive().default(10000),
   }),
   env: z.enum(['development', 'production', 'test']).default('development'),
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
@@ -22,10 +71,41 @@ export function loadConfig(): Config {
       url: process.env.POCKETBASE_URL || 'http://localhost:8090',
       adminEmail: process.env.POCKETBASE_ADMIN_EMAIL || 'admin@example.com',
       adminPassword: process.env.POCKETBASE_ADMIN_PASSWORD || 'admin123456',
+      timeoutMs: parseInt(process.env.POCKETBASE_TIMEOUT_MS || '10000', 10),
+      maxRetries: parseInt(process.env.POCKETBASE_MAX_RETRIES || '2', 10),
+      circuitFailureThreshold: parseInt(process.env.POCKETBASE_CIRCUIT_THRESHOLD || '5', 10),
+      circuitRecoveryMs: parseInt(process.env.POCKETBASE_CIRCUIT_RECOVERY_MS || '30000', 10),
     },
     mcp: {
       port: parseInt(process.env.MCP_PORT || '3000', 10),
       host: process.env.MCP_HOST || 'localhost',
+      transport: (process.env.MCP_TRANSPORT as any) || 'stdio',
+      authTokens: process.env.MCP_AUTH_TOKENS || '',
+      sessionIdleMinutes: parseFloat(process.env.MCP_SESSION_IDLE_MINUTES || '60'),
+      toolListMode: (process.env.MCP_TOOL_LIST_MODE as any) || 'full',
+    },
+    identity: {
+      userToken: process.env.POCKETBASE_USER_TOKEN || '',
+      userEmail: process.env.POCKETBASE_USER_EMAIL || '',
+      userPassword: process.env.POCKETBASE_USER_PASSWORD || '',
+      requireUser: process.env.MCP_REQUIRE_USER === 'true',
+    },
+    search: {
+      mode: (process.env.SEARCH_MODE as any) || 'keyword',
+      embeddingProvider: process.env.EMBEDDING_PROVIDER || 'hashing',
+    },
+    dedupe: {
+      mode: (process.env.DEDUPE_MODE as any) || 'warn',
+      threshold: parseFloat(process.env.DEDUPE_THRESHOLD || '0.5'),
+      windowHours: parseFloat(process.env.DEDUPE_WINDOW_HOURS || '72'),
+    },
+    postmortem: {
+      templatePath: process.env.POSTMORTEM_TEMPLATE || 'postmortem.template.json',
+    },
+    webhooks: {
+      worker: process.env.WEBHOOK_WORKER === 'true',
+      pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '5000', 10),
+      timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
     },
     env: (process.env.NODE_ENV as any) || 'development',
     logLevel: (process.env.LOG_LEVEL as any) || 'info',
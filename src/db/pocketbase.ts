@@ -1,8 +1,56 @@
 import PocketBase from 'pocketbase';
 import { config } from '../config.js';
+import { AppError, CircuitBreaker, ErrorFactory, RetryHandler } from '../utils/errors.js';
+
+export interface PocketBaseHealth {
+  status: 'healthy' | 'degraded' | 'unavailable';
+  circuitState: string;
+  consecutiveFailures: number;
+  authenticated: boolean;
+  tokenRefreshes: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+export interface PocketBaseProbe {
+  reachable: boolean;
+  latencyMs: number;
+  error?: string;
+}
 
 let pb: PocketBase | null = null;
 let adminToken: string | null = null;
+let reauthentication: Promise<string> | null = null;
+
+const health = {
+  tokenRefreshes: 0,
+  lastSuccessAt: null as string | null,
+  lastFailureAt: null as string | null,
+  lastError: null as string | null,
+};
+
+const circuitBreaker = new CircuitBreaker({
+  name: 'PocketBase circuit breaker',
+  failureThreshold: config.pocketbase.circuitFailureThreshold,
+  recoveryTime: config.pocketbase.circuitRecoveryMs,
+  monitoringPeriod: 60000,
+});
+
+// Gateway errors are worth another attempt; anything else from PocketBase is a real answer
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+// PATCH is not safe to replay: field+ / field- modifiers would apply twice
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Carries a gateway error response through RetryHandler and CircuitBreaker,
+ * which only see thrown errors; the last response is handed back to the caller.
+ */
+class RetryableStatusError extends Error {
+  constructor(public readonly response: Response) {
+    super(`PocketBase responded with ${response.status}`);
+  }
+}
 
 export function getPocketBase(): PocketBase {
   if (!pb) {
@@ -13,6 +61,27 @@ export function getPocketBase(): PocketBase {
   return pb;
 }
 
+async function authenticateAdmin(): Promise<string> {
+  const authResponse = await fetch(`${config.pocketbase.url}/api/admins/auth-with-password`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      identity: config.pocketbase.adminEmail,
+      password: config.pocketbase.adminPassword,
+    }),
+    signal: AbortSignal.timeout(config.pocketbase.timeoutMs),
+  });
+
+  if (!authResponse.ok) {
+    throw new Error(`Admin authentication failed: ${authResponse.status}`);
+  }
+
+  const authData = await authResponse.json();
+  return authData.token;
+}
+
 export async function initPocketBase(): Promise<void> {
   const pb = getPocketBase();
 
@@ -22,23 +91,7 @@ export async function initPocketBase(): Promise<void> {
     console.info('PocketBase health check passed');
 
     // Authenticate as admin using REST API
-    const authResponse = await fetch(`${config.pocketbase.url}/api/admins/auth-with-password`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        identity: config.pocketbase.adminEmail,
-        password: config.pocketbase.adminPassword,
-      }),
-    });
-
-    if (!authResponse.ok) {
-      throw new Error(`Admin authentication failed: ${authResponse.status}`);
-    }
-
-    const authData = await authResponse.json();
-    adminToken = authData.token;
+    adminToken = await authenticateAdmin();
     console.info('PocketBase authenticated successfully');
   } catch (error: any) {
     const message = error.message || 'Unknown error';
@@ -63,17 +116,142 @@ export function getAdminToken(): string {
   return adminToken;
 }
 
+/**
+ * Get a new admin token after a 401. Concurrent callers share one re-authentication,
+ * and a caller holding a token that was already replaced just gets the new one.
+ */
+async function refreshAdminToken(staleToken: string): Promise<string> {
+  if (adminToken && adminToken !== staleToken) {
+    return adminToken;
+  }
+
+  reauthentication ??= authenticateAdmin()
+    .then(token => {
+      adminToken = token;
+      health.tokenRefreshes++;
+      console.info('PocketBase admin token refreshed');
+      return token;
+    })
+    .finally(() => {
+      reauthentication = null;
+    });
+
+  return reauthentication;
+}
+
+async function send(url: string, options: RequestInit, token: string): Promise<Response> {
+  const timeoutMs = config.pocketbase.timeoutMs;
+  const timeout = AbortSignal.timeout(timeoutMs);
+
+  try {
+    return await fetch(url, {
+      ...options,
+      signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        ...options.headers,
+      },
+    });
+  } catch (error) {
+    const method = (options.method ?? 'GET').toUpperCase();
+    const path = new URL(url).pathname;
+
+    if (timeout.aborted) {
+      throw ErrorFactory.timeout(`PocketBase ${method} ${path}`, timeoutMs);
+    }
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    throw ErrorFactory.network(
+      `PocketBase ${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+async function sendWithReauth(url: string, options: RequestInit): Promise<Response> {
+  const token = getAdminToken();
+  let response = await send(url, options, token);
+
+  // The admin token expired or PocketBase restarted: authenticate again and replay once
+  if (response.status === 401) {
+    await response.body?.cancel();
+    response = await send(url, options, await refreshAdminToken(token));
+  }
+
+  if (RETRYABLE_STATUSES.has(response.status)) {
+    throw new RetryableStatusError(response);
+  }
+  return response;
+}
+
 // Helper function for authenticated API calls
 export async function makeAuthenticatedRequest(url: string, options: RequestInit = {}): Promise<Response> {
-  const token = getAdminToken();
-  const authOptions = {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-      ...options.headers,
-    },
+  const method = (options.method ?? 'GET').toUpperCase();
+
+  try {
+    const response = await circuitBreaker.execute(() =>
+      RetryHandler.execute(() => sendWithReauth(url, options), {
+        maxRetries: IDEMPOTENT_METHODS.has(method) ? config.pocketbase.maxRetries : 0,
+        baseDelay: 200,
+        maxDelay: 2000,
+        shouldRetry: error => error instanceof RetryableStatusError || (error instanceof AppError && error.retryable),
+      })
+    );
+    health.lastSuccessAt = new Date().toISOString();
+    return response;
+  } catch (error) {
+    health.lastFailureAt = new Date().toISOString();
+    health.lastError = error instanceof Error ? error.message : String(error);
+
+    // Callers already handle non-2xx responses, so a gateway error stays a response
+    if (error instanceof RetryableStatusError) {
+      return error.response;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Connection state as seen by makeAuthenticatedRequest, without touching the network
+ */
+export function getPocketBaseHealth(): PocketBaseHealth {
+  const { state, failures } = circuitBreaker.getStats();
+
+  return {
+    status: state === 'OPEN' ? 'unavailable' : state === 'HALF_OPEN' || failures > 0 ? 'degraded' : 'healthy',
+    circuitState: state,
+    consecutiveFailures: failures,
+    authenticated: adminToken !== null,
+    tokenRefreshes: health.tokenRefreshes,
+    lastSuccessAt: health.lastSuccessAt,
+    lastFailureAt: health.lastFailureAt,
+    lastError: health.lastError,
   };
+}
 
-  return fetch(url, authOptions);
-}
\ No newline at end of file
+/**
+ * Live check of /api/health; bypasses the circuit breaker so it still answers while the circuit is open
+ */
+export async function probePocketBase(): Promise<PocketBaseProbe> {
+  const started = Date.now();
+
+  try {
+    const response = await fetch(`${config.pocketbase.url}/api/health`, {
+      signal: AbortSignal.timeout(config.pocketbase.timeoutMs),
+    });
+    await response.body?.cancel();
+    return {
+      reachable: response.ok,
+      latencyMs: Date.now() - started,
+      ...(!response.ok && { error: `Health check returned ${response.status}` }),
+    };
+  } catch (error) {
+    return {
+      reachable: false,
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
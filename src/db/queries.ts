@@ -85,6 +85,155 @@ class QueryCache {
 
 export const queryCache = new QueryCache();
 
+/**
+ * Typed PocketBase filter expressions
+ *
+ * Values never get spliced into a filter string directly: they are bound to
+ * `{:param}` placeholders and escaped as PocketBase string/number literals.
+ */
+export type FilterValue = string | number | boolean | null | Date;
+export type FilterParams = Record<string, FilterValue>;
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~' | '?=' | '?~';
+
+export type FilterNode =
+  | { kind: 'compare'; field: string; operator: FilterOperator; value: FilterValue }
+  | { kind: 'and' | 'or'; nodes: FilterNode[] }
+  | { kind: 'expression'; expression: string; params: FilterParams };
+
+// Falsy clauses are dropped, so optional filters can be written as `value && Filter.eq(...)`
+export type OptionalFilter = FilterNode | null | undefined | false | '';
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+const PLACEHOLDER_PATTERN = /\{:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Render a value as a PocketBase filter literal
+ */
+export function escapeFilterValue(value: FilterValue): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Filter value must be a finite number, got ${value}`);
+    }
+    return String(value);
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+
+  // Backslashes first, so a trailing one cannot escape the closing quote
+  const text = value instanceof Date ? value.toISOString().replace('T', ' ') : String(value);
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Replace `{:name}` placeholders with escaped literals
+ */
+export function bindFilter(expression: string, params: FilterParams = {}): string {
+  return expression.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(params, name)) {
+      throw new Error(`Missing filter parameter: ${name}`);
+    }
+    return escapeFilterValue(params[name]);
+  });
+}
+
+function assertFieldName(field: string): string {
+  if (!FIELD_NAME_PATTERN.test(field)) {
+    throw new Error(`Invalid filter field name: ${field}`);
+  }
+  return field;
+}
+
+function compare(field: string, operator: FilterOperator, value: FilterValue): FilterNode {
+  return { kind: 'compare', field: assertFieldName(field), operator, value };
+}
+
+function group(kind: 'and' | 'or', nodes: OptionalFilter[]): FilterNode {
+  return { kind, nodes: nodes.filter((node): node is FilterNode => Boolean(node)) };
+}
+
+/**
+ * Filter node constructors
+ */
+export const Filter = {
+  eq: (field: string, value: FilterValue) => compare(field, '=', value),
+  neq: (field: string, value: FilterValue) => compare(field, '!=', value),
+  gt: (field: string, value: FilterValue) => compare(field, '>', value),
+  gte: (field: string, value: FilterValue) => compare(field, '>=', value),
+  lt: (field: string, value: FilterValue) => compare(field, '<', value),
+  lte: (field: string, value: FilterValue) => compare(field, '<=', value),
+  like: (field: string, value: string) => compare(field, '~', value),
+  notLike: (field: string, value: string) => compare(field, '!~', value),
+
+  /**
+   * Match when any value of a multi-value field (e.g. `tags.tag_name`) equals the given value
+   */
+  anyEq: (field: string, value: FilterValue) => compare(field, '?=', value),
+
+  /**
+   * Match any of the given values. An empty list matches nothing.
+   */
+  in(field: string, values: FilterValue[]): FilterNode {
+    assertFieldName(field);
+    if (values.length === 0) {
+      return compare('id', '=', '');
+    }
+    return group('or', values.map(value => compare(field, '=', value)));
+  },
+
+  /**
+   * Match the same text against several fields
+   */
+  search(fields: string[], text: string): FilterNode {
+    return group('or', fields.map(field => compare(field, '~', text)));
+  },
+
+  and: (...nodes: OptionalFilter[]) => group('and', nodes),
+  or: (...nodes: OptionalFilter[]) => group('or', nodes),
+
+  /**
+   * Hand-written expression with `{:param}` placeholders
+   */
+  expression(expression: string, params: FilterParams = {}): FilterNode {
+    return { kind: 'expression', expression, params };
+  },
+};
+
+/**
+ * Compile a filter node into a PocketBase filter string. Empty groups compile to ''.
+ */
+export function compileFilter(node: FilterNode): string {
+  switch (node.kind) {
+    case 'compare':
+      return `${node.field} ${node.operator} ${escapeFilterValue(node.value)}`;
+
+    case 'expression':
+      return bindFilter(node.expression, node.params);
+
+    case 'and':
+    case 'or': {
+      const parts = node.nodes.map(compileFilter).filter(Boolean);
+      if (parts.length <= 1) {
+        return parts[0] ?? '';
+      }
+      return parts.map(part => `(${part})`).join(node.kind === 'and' ? ' && ' : ' || ');
+    }
+  }
+}
+
+/**
+ * Build a `filter=` query string fragment, or '' when the filter is empty
+ */
+export function filterParam(node: FilterNode): string {
+  const filter = compileFilter(node);
+  return filter ? `filter=${encodeURIComponent(filter)}` : '';
+}
+
 /**
  * Database query builder with optimizations
  */
@@ -92,6 +241,7 @@ export class QueryBuilder {
   private baseUrl: string;
   private endpoint: string;
   private params: URLSearchParams = new URLSearchParams();
+  private filters: FilterNode[] = [];
   private useCache: boolean = true;
   private cacheTTL: number = 5 * 60 * 1000; // 5 minutes
 
@@ -101,11 +251,17 @@ export class QueryBuilder {
   }
 
   /**
-   * Add filter parameter
+   * Add filter parameter. Multiple calls are combined with &&.
    */
-  filter(filter: string): QueryBuilder {
-    const existing = this.params.get('filter') || '';
-    this.params.set('filter', existing ? `${existing} && ${filter}` : filter);
+  filter(filter: FilterNode | string, params: FilterParams = {}): QueryBuilder {
+    this.filters.push(typeof filter === 'string' ? Filter.expression(filter, params) : filter);
+
+    const compiled = compileFilter(Filter.and(...this.filters));
+    if (compiled) {
+      this.params.set('filter', compiled);
+    } else {
+      this.params.delete('filter');
+    }
     return this;
   }
 
@@ -142,6 +298,14 @@ export class QueryBuilder {
     return this;
   }
 
+  /**
+   * Expand relation fields
+   */
+  expand(relations: string[]): QueryBuilder {
+    this.params.set('expand', relations.join(','));
+    return this;
+  }
+
   /**
    * Disable caching for this query
    */
@@ -233,20 +397,20 @@ export class IncidentQueries {
     const { query, category, severity, status, limit = 20, page = 1, includeFields } = options;
 
     let builder = new QueryBuilder('/api/collections/incidents/records')
-      .filter(`title ~ "${query}" || description ~ "${query}"`)
+      .filter(Filter.search(['title', 'description'], query))
       .sort('created', 'desc')
       .paginate(page, Math.min(limit, 100));
 
     if (category) {
-      builder.filter(`category = "${category}"`);
+      builder.filter(Filter.eq('category', category));
     }
 
     if (severity) {
-      builder.filter(`severity = "${severity}"`);
+      builder.filter(Filter.eq('severity', severity));
     }
 
     if (status) {
-      builder.filter(`status = "${status}"`);
+      builder.filter(Filter.eq('status', status));
     }
 
     if (includeFields) {
@@ -261,7 +425,7 @@ export class IncidentQueries {
    * Get incident by ID with related data
    */
   static getIncidentById(id: string, includeRelations: boolean = false) {
-    let builder = new QueryBuilder(`/api/collections/incidents/records/${id}`);
+    let builder = new QueryBuilder(`/api/collections/incidents/records/${encodeURIComponent(id)}`);
 
     if (includeRelations) {
       builder.select([
@@ -277,11 +441,18 @@ export class IncidentQueries {
         'frequency',
         'visibility',
         'root_cause',
+        'tags',
+        'duplicate_of',
+        'created_by',
+        'team',
+        'expand',
         'created',
         'updated'
       ]);
     }
 
+    builder.expand(['tags']);
+
     return builder.cacheFor(10 * 60 * 1000); // 10 minutes
   }
 
@@ -289,12 +460,10 @@ export class IncidentQueries {
    * Get similar incidents based on content similarity
    */
   static getSimilarIncidents(incidentId: string, category: string, searchTerms: string[], limit: number = 5) {
-    const searchFilter = searchTerms
-      .map(term => `title ~ "${term}" || description ~ "${term}"`)
-      .join(' || ');
+    const searchFilter = Filter.or(...searchTerms.map(term => Filter.search(['title', 'description'], term)));
 
     return new QueryBuilder('/api/collections/incidents/records')
-      .filter(`(${searchFilter}) && category = "${category}" && id != "${incidentId}"`)
+      .filter(Filter.and(searchFilter, Filter.eq('category', category), Filter.neq('id', incidentId)))
       .sort('created', 'desc')
       .limit(limit)
       .cacheFor(15 * 60 * 1000); // 15 minutes
@@ -305,7 +474,7 @@ export class IncidentQueries {
    */
   static getIncidentsByStatus(status: string, limit: number = 50) {
     return new QueryBuilder('/api/collections/incidents/records')
-      .filter(`status = "${status}"`)
+      .filter(Filter.eq('status', status))
       .sort('created', 'desc')
       .limit(limit)
       .select(['id', 'title', 'category', 'severity', 'status', 'created'])
@@ -325,15 +494,15 @@ export class IncidentQueries {
       .paginate(page, perPage);
 
     if (filters.category) {
-      builder.filter(`category = "${filters.category}"`);
+      builder.filter(Filter.eq('category', filters.category));
     }
 
     if (filters.severity) {
-      builder.filter(`severity = "${filters.severity}"`);
+      builder.filter(Filter.eq('severity', filters.severity));
     }
 
     if (filters.status) {
-      builder.filter(`status = "${filters.status}"`);
+      builder.filter(Filter.eq('status', filters.status));
     }
 
     return builder.cacheFor(3 * 60 * 1000); // 3 minutes
@@ -349,7 +518,7 @@ export class SolutionQueries {
    */
   static getSolutionsByIncident(incidentId: string) {
     return new QueryBuilder('/api/collections/solutions/records')
-      .filter(`incident_id = "${incidentId}"`)
+      .filter(Filter.eq('incident_id', incidentId))
       .sort('created', 'desc')
       .limit(10) // Reasonable limit per incident
       .cacheFor(10 * 60 * 1000); // 10 minutes
@@ -360,7 +529,7 @@ export class SolutionQueries {
    */
   static searchSolutions(query: string, limit: number = 20) {
     return new QueryBuilder('/api/collections/solutions/records')
-      .filter(`solution_title ~ "${query}" || solution_description ~ "${query}"`)
+      .filter(Filter.search(['solution_title', 'solution_description'], query))
       .sort('created', 'desc')
       .limit(limit)
       .cacheFor(5 * 60 * 1000); // 5 minutes
@@ -376,7 +545,7 @@ export class LessonQueries {
    */
   static getLessonsByIncident(incidentId: string) {
     return new QueryBuilder('/api/collections/lessons_learned/records')
-      .filter(`incident_id = "${incidentId}"`)
+      .filter(Filter.eq('incident_id', incidentId))
       .sort('created', 'desc')
       .limit(5) // Reasonable limit per incident
       .cacheFor(15 * 60 * 1000); // 15 minutes
@@ -387,13 +556,61 @@ export class LessonQueries {
    */
   static getLessonsByType(lessonType: string, limit: number = 50) {
     return new QueryBuilder('/api/collections/lessons_learned/records')
-      .filter(`lesson_type = "${lessonType}"`)
+      .filter(Filter.eq('lesson_type', lessonType))
       .sort('created', 'desc')
       .limit(limit)
       .cacheFor(20 * 60 * 1000); // 20 minutes
   }
 }
 
+/**
+ * Optimized feedback queries
+ */
+export class FeedbackQueries {
+  /**
+   * Get feedback for a set of solutions
+   */
+  static getFeedbackBySolutions(solutionIds: string[], limit: number = 50) {
+    return new QueryBuilder('/api/collections/feedback/records')
+      .filter(Filter.in('solution_id', solutionIds))
+      .sort('created', 'desc')
+      .limit(limit)
+      .cacheFor(5 * 60 * 1000); // 5 minutes
+  }
+}
+
+/**
+ * Incident timeline queries
+ */
+export class TimelineQueries {
+  /**
+   * Get the events of an incident, oldest first; never cached because events are appended as they happen
+   */
+  static getEventsByIncident(incidentId: string, limit: number = 200) {
+    return new QueryBuilder('/api/collections/timeline_events/records')
+      .filter(Filter.eq('incident_id', incidentId))
+      .sort('occurred_at', 'asc')
+      .limit(limit)
+      .noCache();
+  }
+}
+
+/**
+ * Action item queries
+ */
+export class ActionItemQueries {
+  /**
+   * Get the action items of an incident, soonest due first
+   */
+  static getItemsByIncident(incidentId: string, limit: number = 100) {
+    return new QueryBuilder('/api/collections/action_items/records')
+      .filter(Filter.eq('incident_id', incidentId))
+      .sort('due_date', 'asc')
+      .limit(limit)
+      .noCache();
+  }
+}
+
 /**
  * Cache management utilities
  */
@@ -0,0 +1,331 @@
+/**
+ * PocketBase collection schema shared by the migration runner and the MCP handlers
+ */
+
+import { INCIDENT_STATUSES as SHARED_INCIDENT_STATUSES } from '../shared/incidentStatus.js';
+import { ROLES } from '../shared/permissions.js';
+import { WEBHOOK_DELIVERY_STATUSES as SHARED_WEBHOOK_DELIVERY_STATUSES } from '../shared/webhooks.js';
+
+export const INCIDENT_CATEGORIES = ['Backend', 'Frontend', 'DevOps', 'Health', 'Finance', 'Mobile'];
+export const INCIDENT_SEVERITIES = ['low', 'medium', 'high', 'critical'];
+export const INCIDENT_STATUSES: string[] = [...SHARED_INCIDENT_STATUSES];
+export const INCIDENT_FREQUENCIES = ['one-time', 'occasional', 'frequent', 'recurring'];
+export const INCIDENT_VISIBILITIES = ['private', 'team', 'public'];
+export const LESSON_TYPES = ['prevention', 'detection', 'response', 'recovery', 'general'];
+export const TAG_TYPES = ['symptom', 'technology', 'skill', 'emotion', 'context'];
+export const EMBEDDING_RECORD_TYPES = ['incident', 'solution', 'lesson', 'knowledge'];
+export const ACTION_ITEM_STATUSES = ['open', 'in_progress', 'done', 'cancelled'];
+export const ACTION_ITEM_PRIORITIES = ['low', 'medium', 'high', 'critical'];
+export const USER_ROLES: string[] = [...ROLES];
+export const AUTH_SESSION_SOURCES = ['admins', 'users'];
+export const WEBHOOK_DELIVERY_STATUSES: string[] = [...SHARED_WEBHOOK_DELIVERY_STATUSES];
+export const TIMELINE_EVENT_TYPES = [
+  'created', 'note', 'status_change', 'severity_change', 'updated',
+  'solution_added', 'lesson_extracted', 'tags_changed', 'merged', 'action_taken',
+];
+
+export type FieldType = 'text' | 'number' | 'bool' | 'date' | 'select' | 'json' | 'relation';
+
+export interface FieldDefinition {
+  name: string;
+  type: FieldType;
+  required?: boolean;
+  options?: Record<string, any>;
+  /**
+   * Target collection name for relation fields; resolved to a collection ID at migration time
+   */
+  relation?: {
+    collection: string;
+    cascadeDelete: boolean;
+    multiple?: boolean;
+  };
+}
+
+export interface CollectionDefinition {
+  name: string;
+  fields: FieldDefinition[];
+  indexes: string[];
+}
+
+function select(name: string, values: string[], required: boolean = true): FieldDefinition {
+  return { name, type: 'select', required, options: { maxSelect: 1, values } };
+}
+
+function relation(name: string, collection: string): FieldDefinition {
+  return { name, type: 'relation', required: true, relation: { collection, cascadeDelete: true } };
+}
+
+function owner(): FieldDefinition {
+  return { name: 'created_by', type: 'relation', relation: { collection: 'users', cascadeDelete: false } };
+}
+
+// Last user to edit the record through the REST API
+function lastEditor(): FieldDefinition {
+  return { name: 'updated_by', type: 'relation', relation: { collection: 'users', cascadeDelete: false } };
+}
+
+function index(collection: string, ...columns: string[]): string {
+  return `CREATE INDEX \`idx_${collection}_${columns.join('_')}\` ON \`${collection}\` (${columns.map(column => `\`${column}\``).join(', ')})`;
+}
+
+export const COLLECTIONS: CollectionDefinition[] = [
+  {
+    // PocketBase's built-in auth collection; only the fields this server adds are listed
+    name: 'users',
+    fields: [
+      { name: 'team', type: 'text' },
+      // What the user may do through the REST API, see src/shared/permissions.ts; empty means the default role
+      select('role', USER_ROLES, false),
+      // Accounts of CI jobs and bots, which sign in with API keys rather than a password
+      { name: 'service_account', type: 'bool' },
+    ],
+    indexes: [],
+  },
+  {
+    name: 'tags',
+    fields: [
+      { name: 'tag_name', type: 'text', required: true },
+      select('tag_type', TAG_TYPES),
+      { name: 'usage_count', type: 'number' },
+    ],
+    indexes: [
+      'CREATE UNIQUE INDEX `idx_tags_tag_name` ON `tags` (`tag_name`)',
+    ],
+  },
+  {
+    name: 'incidents',
+    fields: [
+      { name: 'title', type: 'text', required: true },
+      select('category', INCIDENT_CATEGORIES),
+      { name: 'description', type: 'text', required: true },
+      { name: 'symptoms', type: 'json' },
+      { name: 'context', type: 'json' },
+      { name: 'environment', type: 'json' },
+      select('severity', INCIDENT_SEVERITIES),
+      select('status', INCIDENT_STATUSES),
+      { name: 'root_cause', type: 'text' },
+      // How the incident was resolved; required by the resolve transition
+      { name: 'resolution_summary', type: 'text' },
+      select('frequency', INCIDENT_FREQUENCIES),
+      select('visibility', INCIDENT_VISIBILITIES),
+      { name: 'resolved_at', type: 'date' },
+      { name: 'tags', type: 'relation', relation: { collection: 'tags', cascadeDelete: false, multiple: true } },
+      // Set when merge_incidents folds this incident into another one
+      { name: 'duplicate_of', type: 'relation', relation: { collection: 'incidents', cascadeDelete: false } },
+      owner(),
+      lastEditor(),
+      // Team of the creator when the incident was reported; decides who sees 'team' incidents
+      { name: 'team', type: 'text' },
+    ],
+    indexes: [
+      index('incidents', 'status'),
+      index('incidents', 'category'),
+      index('incidents', 'severity'),
+      index('incidents', 'created'),
+      index('incidents', 'created_by'),
+      index('incidents', 'visibility', 'team'),
+    ],
+  },
+  {
+    name: 'solutions',
+    fields: [
+      relation('incident_id', 'incidents'),
+      { name: 'solution_title', type: 'text', required: true },
+      { name: 'solution_description', type: 'text', required: true },
+      { name: 'steps', type: 'json', required: true },
+      { name: 'resources_needed', type: 'json' },
+      { name: 'time_estimate', type: 'text' },
+      { name: 'effectiveness_score', type: 'number' },
+      { name: 'warnings', type: 'json' },
+      { name: 'alternatives', type: 'json' },
+      { name: 'is_verified', type: 'bool' },
+      owner(),
+      lastEditor(),
+    ],
+    indexes: [
+      index('solutions', 'incident_id'),
+      index('solutions', 'created'),
+    ],
+  },
+  {
+    name: 'lessons_learned',
+    fields: [
+      relation('incident_id', 'incidents'),
+      { name: 'lesson_text', type: 'text', required: true },
+      select('lesson_type', LESSON_TYPES),
+      { name: 'applies_to', type: 'json' },
+      { name: 'importance', type: 'number' },
+      owner(),
+    ],
+    indexes: [
+      index('lessons_learned', 'incident_id'),
+      index('lessons_learned', 'lesson_type'),
+      index('lessons_learned', 'created'),
+    ],
+  },
+  {
+    name: 'feedback',
+    fields: [
+      relation('solution_id', 'solutions'),
+      { name: 'rating', type: 'number', required: true },
+      { name: 'worked', type: 'bool' },
+      { name: 'comment', type: 'text' },
+      { name: 'time_spent', type: 'text' },
+      owner(),
+    ],
+    indexes: [
+      index('feedback', 'solution_id'),
+      index('feedback', 'created'),
+    ],
+  },
+  {
+    // What happened to an incident and when; events go away with their incident
+    name: 'timeline_events',
+    fields: [
+      relation('incident_id', 'incidents'),
+      select('event_type', TIMELINE_EVENT_TYPES),
+      { name: 'message', type: 'text' },
+      { name: 'from_value', type: 'text' },
+      { name: 'to_value', type: 'text' },
+      { name: 'data', type: 'json' },
+      { name: 'occurred_at', type: 'date', required: true },
+      owner(),
+    ],
+    indexes: [
+      index('timeline_events', 'incident_id', 'occurred_at'),
+    ],
+  },
+  {
+    // Follow-up work from an incident, optionally traced back to the lesson that called for it
+    name: 'action_items',
+    fields: [
+      relation('incident_id', 'incidents'),
+      { name: 'lesson_id', type: 'relation', relation: { collection: 'lessons_learned', cascadeDelete: false } },
+      { name: 'title', type: 'text', required: true },
+      { name: 'description', type: 'text' },
+      { name: 'owner', type: 'text' },
+      { name: 'due_date', type: 'date' },
+      select('status', ACTION_ITEM_STATUSES),
+      select('priority', ACTION_ITEM_PRIORITIES),
+      { name: 'completed_at', type: 'date' },
+      owner(),
+    ],
+    indexes: [
+      index('action_items', 'incident_id'),
+      index('action_items', 'status', 'due_date'),
+      index('action_items', 'owner'),
+    ],
+  },
+  {
+    name: 'knowledge_base',
+    fields: [
+      { name: 'title', type: 'text', required: true },
+      { name: 'content', type: 'text', required: true },
+      { name: 'tags', type: 'json' },
+      owner(),
+      lastEditor(),
+    ],
+    indexes: [
+      index('knowledge_base', 'created'),
+      index('knowledge_base', 'created_by'),
+    ],
+  },
+  {
+    // Keys of service accounts, see src/shared/apiKeys.ts; only the hash of a key is stored
+    name: 'api_keys',
+    fields: [
+      { name: 'name', type: 'text', required: true },
+      relation('user', 'users'),
+      { name: 'key_prefix', type: 'text', required: true },
+      { name: 'key_hash', type: 'text', required: true },
+      { name: 'scopes', type: 'json', required: true },
+      { name: 'expires_at', type: 'date' },
+      { name: 'last_used_at', type: 'date' },
+      { name: 'revoked_at', type: 'date' },
+    ],
+    indexes: [
+      'CREATE UNIQUE INDEX `idx_api_keys_key_hash` ON `api_keys` (`key_hash`)',
+      index('api_keys', 'user'),
+    ],
+  },
+  {
+    // Web admin sign-ins; subject_id is plain text because PocketBase admins are not users records
+    name: 'auth_sessions',
+    fields: [
+      { name: 'subject_id', type: 'text', required: true },
+      select('subject_source', AUTH_SESSION_SOURCES),
+      { name: 'email', type: 'text' },
+      // SHA-256 of the current refresh token, and of the one it replaced to spot reuse
+      { name: 'refresh_hash', type: 'text', required: true },
+      { name: 'previous_hash', type: 'text' },
+      { name: 'expires_at', type: 'date', required: true },
+      { name: 'last_used_at', type: 'date' },
+      { name: 'revoked_at', type: 'date' },
+    ],
+    indexes: [
+      'CREATE UNIQUE INDEX `idx_auth_sessions_refresh_hash` ON `auth_sessions` (`refresh_hash`)',
+      index('auth_sessions', 'previous_hash'),
+      index('auth_sessions', 'subject_id'),
+      index('auth_sessions', 'revoked_at'),
+    ],
+  },
+  {
+    // Outbound webhook subscriptions, see src/shared/webhooks.ts
+    name: 'webhooks',
+    fields: [
+      { name: 'url', type: 'text', required: true },
+      { name: 'description', type: 'text' },
+      // Event names, resource wildcards such as incident.* or *
+      { name: 'events', type: 'json', required: true },
+      { name: 'secret', type: 'text', required: true },
+      { name: 'active', type: 'bool' },
+      owner(),
+    ],
+    indexes: [
+      index('webhooks', 'active'),
+    ],
+  },
+  {
+    // Delivery queue and log: one record per event and webhook, kept after delivery
+    name: 'webhook_deliveries',
+    fields: [
+      relation('webhook', 'webhooks'),
+      { name: 'event', type: 'text', required: true },
+      { name: 'event_id', type: 'text', required: true },
+      { name: 'payload', type: 'json', required: true },
+      select('status', WEBHOOK_DELIVERY_STATUSES),
+      { name: 'attempts', type: 'number' },
+      { name: 'next_attempt_at', type: 'date' },
+      { name: 'last_attempt_at', type: 'date' },
+      { name: 'last_status_code', type: 'number' },
+      { name: 'last_error', type: 'text' },
+      { name: 'delivered_at', type: 'date' },
+    ],
+    indexes: [
+      index('webhook_deliveries', 'status', 'next_attempt_at'),
+      index('webhook_deliveries', 'webhook', 'created'),
+    ],
+  },
+  {
+    // Cached semantic-search vectors; record_id is plain text because it may point at any searchable collection
+    name: 'embeddings',
+    fields: [
+      select('record_type', EMBEDDING_RECORD_TYPES),
+      { name: 'record_id', type: 'text', required: true },
+      { name: 'provider', type: 'text', required: true },
+      { name: 'content_hash', type: 'text', required: true },
+      { name: 'vector', type: 'json', required: true },
+    ],
+    indexes: [
+      'CREATE UNIQUE INDEX `idx_embeddings_provider_record` ON `embeddings` (`provider`, `record_type`, `record_id`)',
+    ],
+  },
+];
+
+export function getCollectionDefinition(name: string): CollectionDefinition {
+  const definition = COLLECTIONS.find(collection => collection.name === name);
+  if (!definition) {
+    throw new Error(`Unknown collection: ${name}`);
+  }
+  return definition;
+}
@@ -5,6 +5,13 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { registerTools } from './mcp/tools.js';
 import { registerResources } from './mcp/resources.js';
 import { registerPrompts } from './mcp/prompts.js';
+import { registerCompletions } from './mcp/completions.js';
+import { registerSubscriptions } from './mcp/subscriptions.js';
+import { startHttpTransport, parseAuthTokens, type HttpTransportHandle } from './mcp/http.js';
+import { identityService } from './services/identity.js';
+import { apiKeyService } from './services/apiKeys.js';
+import { realtimeService } from './services/realtime.js';
+import { webhookService } from './services/webhooks.js';
 import { initPocketBase, ensurePocketBaseReady } from './db/pocketbase.js';
 import { logger, LogLevel } from './utils/logger.js';
 import { memoryManager, memoryLeakDetector } from './utils/memory.js';
@@ -13,24 +20,60 @@ import { responseCache } from './utils/cache.js';
 import { CacheManager } from './db/queries.js';
 import { config } from './config.js';
 
-const server = new Server(
-  {
-    name: 'notebypine-mcp',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
-      prompts: {},
+type TransportKind = 'stdio' | 'http';
+
+let httpTransport: HttpTransportHandle | null = null;
+
+/**
+ * One Server per connection: stdio has a single one, the HTTP transport creates one per session
+ */
+function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'notebypine-mcp',
+      version: '1.0.0',
     },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+        completions: {},
+      },
+    }
+  );
+
+  registerTools(server);
+  registerResources(server);
+  registerPrompts(server);
+  registerCompletions(server);
+  registerSubscriptions(server);
+
+  return server;
+}
+
+/**
+ * `--transport stdio|http` (or `--transport=http`) overrides MCP_TRANSPORT
+ */
+function resolveTransport(argv: string[]): TransportKind {
+  const index = argv.findIndex(arg => arg === '--transport' || arg.startsWith('--transport='));
+  if (index === -1) {
+    return config.mcp.transport;
   }
-);
+
+  const value = argv[index].includes('=') ? argv[index].split('=')[1] : argv[index + 1];
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Invalid --transport value "${value ?? ''}", expected stdio or http`);
+  }
+  return value;
+}
 
 async function startServer() {
   const endTimer = logger.startTimer('server_startup');
 
   try {
+    const transportKind = resolveTransport(process.argv.slice(2));
+
     logger.info('Starting NoteByPine MCP Server', {
       version: '1.0.0',
       environment: config.env,
@@ -61,25 +104,45 @@ async function startServer() {
     await initPocketBase();
     logger.info('PocketBase initialized successfully');
 
+    // Resolve the PocketBase user the server acts as by default
+    const user = await identityService.init(transportKind);
+    logger.info('Acting PocketBase user resolved', {
+      user: user?.email ?? (transportKind === 'http' ? 'none (sessions must sign in)' : 'admin (no user configured)'),
+    });
+
     // Warm up caches
     logger.info('Warming up caches');
     await CacheManager.warmUp();
     logger.info('Cache warm-up completed');
 
-    // Register all MCP capabilities
-    logger.info('Registering MCP capabilities');
-    registerTools(server);
-    registerResources(server);
-    registerPrompts(server);
-    logger.info('MCP capabilities registered');
+    if (config.webhooks.worker) {
+      webhookService.start();
+    }
 
     // Start server
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    if (transportKind === 'http') {
+      httpTransport = await startHttpTransport({
+        host: config.mcp.host,
+        port: config.mcp.port,
+        authTokens: parseAuthTokens(config.mcp.authTokens),
+        sessionIdleMs: config.mcp.sessionIdleMinutes * 60 * 1000,
+        createServer: createMcpServer,
+        // Clients may sign in as their own PocketBase user instead of the configured one
+        resolveUser: async req => {
+          const token = req.headers['x-pocketbase-token'];
+          return typeof token === 'string' && token ? identityService.verifyToken(token) : undefined;
+        },
+        // Service accounts send an API key as the bearer token
+        verifyApiKey: key => apiKeyService.verify(key),
+      });
+    } else {
+      await createMcpServer().connect(new StdioServerTransport());
+    }
 
     endTimer();
     logger.info('NoteByPine MCP Server started successfully', {
-      transport: 'stdio',
+      transport: transportKind,
+      ...(httpTransport && { url: `${httpTransport.url}/mcp` }),
       memoryUsage: process.memoryUsage(),
     });
 
@@ -136,6 +199,13 @@ async function handleShutdown(signal: string): Promise<void> {
     // Cleanup resources
     logger.info('Cleaning up resources');
 
+    // Close MCP sessions once in-flight requests are done so their responses still reach clients
+    if (httpTransport) {
+      await httpTransport.close();
+    }
+    realtimeService.stop();
+    webhookService.stop();
+
     // Stop memory monitoring
     memoryManager.stopMonitoring();
     memoryLeakDetector.stopMonitoring();
@@ -0,0 +1,105 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CompleteRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Filter, QueryBuilder, type OptionalFilter } from '../db/queries.js';
+import { INCIDENT_CATEGORIES } from '../db/schema.js';
+import { identityService, visibilityFilter, type UserIdentity } from '../services/identity.js';
+
+type CompletionSource = 'incident' | 'category' | 'tag' | 'knowledge';
+
+interface Completion {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
+
+// MCP caps a completion response at 100 values; a short list is more useful while typing
+const MAX_VALUES = 20;
+const COMPLETION_CACHE_MS = 30 * 1000;
+
+// Which values each argument of a resource template or prompt completes to
+const RESOURCE_ARGUMENTS: Record<string, Record<string, CompletionSource>> = {
+  'incident://{id}': { id: 'incident' },
+  'incident://{id}/solutions': { id: 'incident' },
+  'incident://{id}/lessons': { id: 'incident' },
+  'incident://{id}/timeline': { id: 'incident' },
+  'category://{name}': { name: 'category' },
+  'tag://{name}': { name: 'tag' },
+  'knowledge://{id}': { id: 'knowledge' },
+};
+
+const PROMPT_ARGUMENTS: Record<string, Record<string, CompletionSource>> = {
+  document_solution: { incident_id: 'incident' },
+  generate_postmortem: { incident_id: 'incident' },
+  analyze_pattern: { category: 'category' },
+};
+
+async function completeRecords(
+  collection: string,
+  field: string,
+  filter: OptionalFilter,
+  sortBy: string
+): Promise<Completion> {
+  const data = await new QueryBuilder(`/api/collections/${collection}/records`)
+    .filter(Filter.and(filter))
+    .sort(sortBy)
+    .limit(MAX_VALUES)
+    .select([field])
+    .cacheFor(COMPLETION_CACHE_MS)
+    .execute();
+
+  return {
+    values: data.items.map((item: any) => item[field]),
+    total: data.totalItems,
+    hasMore: data.totalItems > data.items.length,
+  };
+}
+
+/**
+ * Suggest values for one source. Incident IDs also match on title, so typing part of
+ * the title finds the ID; only incidents the caller may see are suggested.
+ */
+export async function completeValues(source: CompletionSource, value: string, user: UserIdentity): Promise<Completion> {
+  const text = value.trim();
+
+  switch (source) {
+    case 'category': {
+      const values = INCIDENT_CATEGORIES.filter(category => category.toLowerCase().startsWith(text.toLowerCase()));
+      return { values, total: values.length, hasMore: false };
+    }
+
+    case 'incident':
+      return completeRecords(
+        'incidents',
+        'id',
+        Filter.and(visibilityFilter(user), text && Filter.search(['id', 'title'], text)),
+        'created'
+      );
+
+    case 'tag':
+      return completeRecords('tags', 'tag_name', text && Filter.like('tag_name', text.toLowerCase()), 'usage_count');
+
+    case 'knowledge':
+      return completeRecords('knowledge_base', 'id', text && Filter.search(['id', 'title'], text), 'updated');
+  }
+}
+
+export function registerCompletions(server: Server) {
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    const { ref, argument } = request.params;
+    const sources = ref.type === 'ref/resource' ? RESOURCE_ARGUMENTS[ref.uri] : PROMPT_ARGUMENTS[ref.name];
+    const source = sources?.[argument.name];
+
+    if (!source) {
+      return { completion: { values: [] } };
+    }
+
+    try {
+      const user = identityService.resolve(extra.authInfo?.extra?.user as UserIdentity | undefined, 'incidents:read');
+      return { completion: await completeValues(source, argument.value, user) };
+    } catch (error: any) {
+      // A failed lookup should not break the client's input box
+      console.error(`L Completion for ${argument.name} failed: ${error.message}`);
+      return { completion: { values: [] } };
+    }
+  });
+}
@@ -1,22 +1,142 @@
-import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { makeAuthenticatedRequest, getPocketBaseHealth, probePocketBase } from '../db/pocketbase.js';
+import { IncidentQueries, SolutionQueries, LessonQueries, FeedbackQueries, ActionItemQueries, Filter, filterParam } from '../db/queries.js';
+import {
+  INCIDENT_CATEGORIES,
+  INCIDENT_SEVERITIES,
+  INCIDENT_STATUSES,
+  INCIDENT_FREQUENCIES,
+  INCIDENT_VISIBILITIES,
+  ACTION_ITEM_STATUSES,
+  ACTION_ITEM_PRIORITIES,
+} from '../db/schema.js';
+import { taggingService, extractTags, normalizeTag, normalizeTags } from '../services/tagging.js';
+import {
+  searchService,
+  parseQuery,
+  SEARCH_MODES,
+  type DuplicateCandidate,
+  type SearchHitType,
+  type SearchMode,
+} from '../services/search.js';
+import { incidentService, MAX_MERGE_SOURCES } from '../services/incident.js';
+import { ADMIN_IDENTITY, canEdit, canView, isOwner, ownership, visibilityFilter, type UserIdentity } from '../services/identity.js';
+import { postmortemService } from '../services/postmortem.js';
+import { timelineService, MANUAL_EVENT_TYPES, type TimelineEventType } from '../services/timeline.js';
+import {
+  actionItemService,
+  isActionItemPriority,
+  isActionItemStatus,
+  isOverdue,
+  type ActionItemChanges,
+  type NewActionItem,
+} from '../services/actionItems.js';
+import { isIncidentStatus, planTransition, type TransitionPlan } from '../shared/incidentStatus.js';
+import { feedbackService } from '../services/feedback.js';
+import { webhookService } from '../services/webhooks.js';
+import {
+  MAX_RATING,
+  MIN_RATING,
+  effectivenessOf,
+  isValidRating,
+  type EffectivenessSummary,
+} from '../shared/solutionEffectiveness.js';
 import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+// Fields that update_incident may change, mapped to their allowed values (null = free text)
+const UPDATABLE_INCIDENT_FIELDS: Record<string, string[] | null> = {
+  title: null,
+  category: INCIDENT_CATEGORIES,
+  description: null,
+  severity: INCIDENT_SEVERITIES,
+  status: INCIDENT_STATUSES,
+  symptoms: null,
+  context: null,
+  environment: null,
+  frequency: INCIDENT_FREQUENCIES,
+  visibility: INCIDENT_VISIBILITIES,
+  root_cause: null,
+  resolution_summary: null,
+};
 
 // Validation helpers
 function validateIncidentData(args: any) {
   if (!args.title || typeof args.title !== 'string') {
     throw new Error('Title is required and must be a string');
   }
-  if (!args.category || !['Backend', 'Frontend', 'DevOps', 'Health', 'Finance', 'Mobile'].includes(args.category)) {
-    throw new Error('Category is required and must be one of: Backend, Frontend, DevOps, Health, Finance, Mobile');
+  if (!args.category || !INCIDENT_CATEGORIES.includes(args.category)) {
+    throw new Error(`Category is required and must be one of: ${INCIDENT_CATEGORIES.join(', ')}`);
   }
   if (!args.description || typeof args.description !== 'string') {
     throw new Error('Description is required and must be a string');
   }
-  if (!args.severity || !['low', 'medium', 'high', 'critical'].includes(args.severity)) {
-    throw new Error('Severity is required and must be one of: low, medium, high, critical');
+  if (!args.severity || !INCIDENT_SEVERITIES.includes(args.severity)) {
+    throw new Error(`Severity is required and must be one of: ${INCIDENT_SEVERITIES.join(', ')}`);
   }
 }
 
+const DEDUPE_MODES = ['warn', 'block', 'merge'];
+
+function validateDedupeMode(mode: unknown): 'warn' | 'block' | 'merge' {
+  if (mode === undefined) {
+    return config.dedupe.mode;
+  }
+  if (!DEDUPE_MODES.includes(mode as string)) {
+    throw new Error(`dedupe must be one of: ${DEDUPE_MODES.join(', ')}`);
+  }
+  return mode as 'warn' | 'block' | 'merge';
+}
+
+function validateIncidentUpdate(args: any): Record<string, string> {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+
+  const updates: Record<string, string> = {};
+
+  for (const [field, allowed] of Object.entries(UPDATABLE_INCIDENT_FIELDS)) {
+    if (args[field] === undefined) {
+      continue;
+    }
+    if (typeof args[field] !== 'string') {
+      throw new Error(`${field} must be a string`);
+    }
+    if (allowed && !allowed.includes(args[field])) {
+      throw new Error(`${field} must be one of: ${allowed.join(', ')}`);
+    }
+    if (field === 'title' && (!args.title.trim() || args.title.length > 200)) {
+      throw new Error('Title must be non-empty and less than 200 characters');
+    }
+    updates[field] = args[field];
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw new Error(`At least one field to update is required: ${Object.keys(UPDATABLE_INCIDENT_FIELDS).join(', ')}`);
+  }
+
+  return updates;
+}
+
+// Pagination cursors are opaque to clients; today they only carry the next page number
+function encodeCursor(page: number): string {
+  return Buffer.from(JSON.stringify({ page })).toString('base64url');
+}
+
+function decodeCursor(cursor: unknown): number {
+  if (cursor === undefined || cursor === null || cursor === '') {
+    return 1;
+  }
+  try {
+    const { page } = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (Number.isInteger(page) && page >= 1) {
+      return page;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error('Cursor is invalid; pass the next_cursor value from a previous search');
+}
+
 function validateSearchArgs(args: any) {
   if (!args.query || typeof args.query !== 'string') {
     throw new Error('Query is required and must be a string');
@@ -28,13 +148,244 @@ function validateSearchArgs(args: any) {
   return limit;
 }
 
+const SEARCH_HIT_ICONS: Record<SearchHitType, string> = {
+  incident: '🔍',
+  solution: '🛠️',
+  lesson: '🎓',
+  knowledge: '📚',
+};
+
+function validateSearchMode(mode: unknown): SearchMode {
+  if (mode === undefined) {
+    return config.search.mode;
+  }
+  if (!SEARCH_MODES.includes(mode as SearchMode)) {
+    throw new Error(`mode must be one of: ${SEARCH_MODES.join(', ')}`);
+  }
+  return mode as SearchMode;
+}
+
+function formatTags(record: any): string {
+  const tags = record.expand?.tags ?? [];
+  return tags.map((tag: any) => tag.tag_name).join(', ');
+}
+
+function formatDuplicates(duplicates: DuplicateCandidate[]): string {
+  return duplicates
+    .map(duplicate => `- **${duplicate.title}** (${duplicate.id}, ${duplicate.status}) — ${Math.round(duplicate.score * 100)}% similar`)
+    .join('\n');
+}
+
+const TOP_SOLUTIONS_PER_INCIDENT = 3;
+
+function formatEffectiveness(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+// Best-rated first; unrated solutions sit in the middle with the neutral score
+function sortByEffectiveness<T extends { effectiveness_score?: number | null }>(solutions: T[]): T[] {
+  return [...solutions].sort((a, b) => effectivenessOf(b) - effectivenessOf(a));
+}
+
+/**
+ * The solutions of several incidents, best-rated first, keyed by incident ID
+ */
+async function loadSolutionsByIncident(incidentIds: string[]): Promise<Map<string, any[]>> {
+  const byIncident = new Map<string, any[]>();
+  if (incidentIds.length === 0) {
+    return byIncident;
+  }
+
+  const response = await makeAuthenticatedRequest(
+    `${config.pocketbase.url}/api/collections/solutions/records?${filterParam(Filter.in('incident_id', incidentIds))}&perPage=200&fields=id,incident_id,solution_title,effectiveness_score`
+  );
+  if (!response.ok) {
+    throw new Error('Failed to load solutions');
+  }
+
+  const data = await response.json();
+  for (const solution of sortByEffectiveness<any>(data.items)) {
+    byIncident.set(solution.incident_id, [...(byIncident.get(solution.incident_id) ?? []), solution]);
+  }
+  return byIncident;
+}
+
+function toDuplicateOutput(duplicate: DuplicateCandidate) {
+  return {
+    id: duplicate.id,
+    title: duplicate.title,
+    status: duplicate.status,
+    created: duplicate.created,
+    similarity_score: duplicate.score,
+    matched_terms: duplicate.matched_terms,
+  };
+}
+
+/**
+ * Load an incident and check the caller may see it. Hidden incidents are reported as missing,
+ * so their existence does not leak either.
+ */
+async function loadVisibleIncident(incidentId: string, user: UserIdentity): Promise<any> {
+  const response = await makeAuthenticatedRequest(
+    `${config.pocketbase.url}/api/collections/incidents/records/${encodeURIComponent(incidentId)}`
+  );
+  const incident = response.ok ? await response.json() : null;
+  if (!incident || !canView(user, incident)) {
+    throw new Error('Incident not found');
+  }
+  return incident;
+}
+
+/**
+ * loadVisibleIncident for handlers that only need the check; admins skip the lookup and get null
+ */
+async function assertIncidentVisible(incidentId: string, user: UserIdentity): Promise<any | null> {
+  return user.admin ? null : loadVisibleIncident(incidentId, user);
+}
+
+/**
+ * loadVisibleIncident for changes: the caller must also be allowed to edit the incident
+ */
+async function loadEditableIncident(incidentId: string, user: UserIdentity): Promise<any> {
+  const incident = await loadVisibleIncident(incidentId, user);
+  if (!canEdit(user, incident)) {
+    throw new Error('Only the creator of an incident, their team or an admin can change it');
+  }
+  return incident;
+}
+
+/**
+ * loadEditableIncident for handlers that only need the check; admins skip the lookup and get null
+ */
+async function assertIncidentEditable(incidentId: string, user: UserIdentity): Promise<any | null> {
+  return user.admin ? null : loadEditableIncident(incidentId, user);
+}
+
+/**
+ * The closest duplicate the reporter may change, which a merge-mode report is folded into
+ */
+async function findEditableDuplicate(duplicates: DuplicateCandidate[], user: UserIdentity): Promise<DuplicateCandidate | null> {
+  for (const duplicate of duplicates) {
+    if (user.admin || canEdit(user, await loadVisibleIncident(duplicate.id, user).catch(() => ({})))) {
+      return duplicate;
+    }
+  }
+  return null;
+}
+
+// Search index maintenance must never fail the tool call
+async function reindexIncident(incidentId: string): Promise<void> {
+  await searchService.refreshIncident(incidentId).catch((error: any) => {
+    logger.warn('Failed to update search index', { incidentId, error: error.message });
+  });
+}
+
+async function recordStatusChange(incidentId: string, plan: TransitionPlan, user: UserIdentity, notes?: string): Promise<void> {
+  await timelineService.record(incidentId, {
+    event_type: 'status_change',
+    message: plan.note || notes || `Status changed from ${plan.from} to ${plan.to}`,
+    from_value: plan.from,
+    to_value: plan.to,
+    data: plan.note && notes ? { notes } : undefined,
+  }, user);
+}
+
+// Webhooks get the incident as it is after the change
+function notifyStatusChange(incident: any, plan: { from: string | null; to: string; note: string }): void {
+  void webhookService.emit('incident.status_changed', { incident, from: plan.from, to: plan.to, reason: plan.note || null });
+}
+
+// Status and severity changes get their own events; any other edited fields share one
+async function recordIncidentUpdate(
+  current: any,
+  updates: Record<string, string>,
+  plan: TransitionPlan | null,
+  user: UserIdentity
+): Promise<void> {
+  const changed = Object.keys(updates).filter(field => updates[field] !== current[field]);
+
+  if (plan) {
+    await recordStatusChange(current.id, plan, user);
+  }
+  if (changed.includes('severity')) {
+    await timelineService.record(current.id, {
+      event_type: 'severity_change',
+      message: `Severity changed from ${current.severity} to ${updates.severity}`,
+      from_value: current.severity,
+      to_value: updates.severity,
+    }, user);
+  }
+
+  const fields = changed.filter(field => field !== 'status' && field !== 'severity');
+  if (fields.length > 0) {
+    await timelineService.record(current.id, {
+      event_type: 'updated',
+      message: `Updated ${fields.join(', ')}`,
+      data: { fields },
+    }, user);
+  }
+}
+
 // Handlers
-export async function handleCreateIncident(args: any) {
+export async function handleCreateIncident(args: any, user: UserIdentity = ADMIN_IDENTITY) {
   validateIncidentData(args);
+  const dedupe = validateDedupeMode(args.dedupe);
 
   const baseUrl = config.pocketbase.url;
 
   try {
+    // Duplicate detection is best-effort: an unavailable index must not block new reports
+    let duplicates: DuplicateCandidate[] = [];
+    try {
+      duplicates = await searchService.findDuplicates(args, {
+        threshold: config.dedupe.threshold,
+        windowHours: config.dedupe.windowHours,
+        viewer: user,
+      });
+    } catch (error: any) {
+      logger.warn('Duplicate check failed', { error: error.message });
+    }
+
+    if (duplicates.length > 0 && dedupe === 'block') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Incident not created: it looks like a duplicate of ${duplicates.length} open incident(s):\n\n${formatDuplicates(duplicates)}\n\n💡 Add details to the existing incident, or retry with dedupe: "warn" if this is a different problem.`
+          }
+        ],
+        isError: true
+      };
+    }
+
+    // Without a duplicate the reporter may change, a merge-mode report is created like a warn-mode one
+    const mergeTarget = dedupe === 'merge' ? await findEditableDuplicate(duplicates, user) : null;
+    if (mergeTarget) {
+      const incident = await incidentService.foldReport(mergeTarget.id, args);
+      searchService.indexIncident(incident);
+      await timelineService.record(incident.id, {
+        event_type: 'merged',
+        message: `Duplicate report folded in: ${args.title}`,
+      }, user);
+      const tags = (incident.expand?.tags ?? []).map((tag: any) => tag.tag_name);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔁 Report merged into existing incident instead of creating a duplicate.\n\n📋 **Details:**\n- **ID:** ${incident.id}\n- **Title:** ${incident.title}\n- **Severity:** ${incident.severity}\n- **Status:** ${incident.status}\n\n**Possible duplicates:**\n${formatDuplicates(duplicates)}`
+          }
+        ],
+        structuredContent: {
+          id: incident.id,
+          incident,
+          tags,
+          merged_into: incident.id,
+          duplicates: duplicates.map(toDuplicateOutput)
+        }
+      };
+    }
+
     const response = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records`, {
       method: 'POST',
       body: JSON.stringify({
@@ -47,7 +398,8 @@ export async function handleCreateIncident(args: any) {
         context: args.context || '',
         environment: args.environment || '',
         frequency: args.frequency || 'one-time',
-        visibility: args.visibility || 'private'
+        visibility: args.visibility || 'private',
+        ...ownership(user, true)
       }),
     });
 
@@ -58,20 +410,49 @@ export async function handleCreateIncident(args: any) {
 
     const record = await response.json();
 
+    // Tagging is best-effort: the incident exists even if the tags collection is unavailable
+    let tags: string[] = [];
+    const suggested = extractTags(args);
+    if (suggested.length > 0) {
+      try {
+        const result = await taggingService.addTags(record.id, suggested);
+        tags = result.tags.map(tag => tag.tag_name);
+        record.tags = result.tags.map(tag => tag.id);
+        record.expand = { ...record.expand, tags: result.tags };
+      } catch (error: any) {
+        logger.warn('Automatic tagging failed', { incidentId: record.id, error: error.message });
+      }
+    }
+
+    searchService.indexIncident(record);
+    await timelineService.record(record.id, {
+      event_type: 'created',
+      message: `Incident reported (${record.severity}, ${record.category})`,
+      to_value: record.status,
+      occurred_at: record.created,
+    }, user);
+    void webhookService.emit('incident.created', { incident: record });
+
     return {
       content: [
         {
           type: 'text',
-          text: ` Incident created successfully!\n\n=� **Details:**\n- **ID:** ${record.id}\n- **Title:** ${record.title}\n- **Category:** ${record.category}\n- **Severity:** ${record.severity}\n- **Status:** ${record.status}\n\n=� You can now add solutions or extract lessons from this incident using the available tools.`
+          text: `✅ Incident created successfully!\n\n📋 **Details:**\n- **ID:** ${record.id}\n- **Title:** ${record.title}\n- **Category:** ${record.category}\n- **Severity:** ${record.severity}\n- **Status:** ${record.status}${tags.length > 0 ? `\n- **Tags:** ${tags.join(', ')}` : ''}${duplicates.length > 0 ? `\n\n⚠️ **Possible duplicates:**\n${formatDuplicates(duplicates)}\n\n💡 Use merge_incidents to fold this incident into one of them.` : '\n\n💡 You can now add solutions or extract lessons from this incident using the available tools.'}`
         }
-      ]
+      ],
+      structuredContent: {
+        id: record.id,
+        incident: record,
+        tags,
+        duplicates: duplicates.map(toDuplicateOutput)
+      }
     };
   } catch (error: any) {
     return {
       content: [
         {
           type: 'text',
-          text: `L Error creating incident: ${error.message}`
+          text: `❌ Error creating incident: ${error.message}`
         }
       ],
       isError: true
@@ -79,65 +460,66 @@ export async function handleCreateIncident(args: any) {
   }
 }
 
-export async function handleSearchIncidents(args: any) {
+export async function handleSearchIncidents(args: any, user: UserIdentity = ADMIN_IDENTITY) {
   const limit = validateSearchArgs(args);
-  const baseUrl = config.pocketbase.url;
+  const page = decodeCursor(args.cursor);
+  const mode = validateSearchMode(args.mode);
+  const query = parseQuery(args.query, {
+    category: args.category,
+    severity: args.severity,
+    status: args.status,
+    tag: args.tag,
+  });
 
   try {
-    // Build filter for search
-    let filter = `title ~ "${args.query}" || description ~ "${args.query}"`;
-
-    if (args.category) {
-      filter += ` && category = "${args.category}"`;
-    }
-
-    if (args.severity) {
-      filter += ` && severity = "${args.severity}"`;
-    }
-
-    if (args.status) {
-      filter += ` && status = "${args.status}"`;
-    }
-
-    const response = await makeAuthenticatedRequest(
-      `${baseUrl}/api/collections/incidents/records?filter=${encodeURIComponent(filter)}&perPage=${limit}&sort=-created`
-    );
-
-    if (!response.ok) {
-      throw new Error('Failed to search incidents');
-    }
-
-    const data = await response.json();
+    const { total, hits } = await searchService.search(query, { limit, page, mode, viewer: user });
+    const nextCursor = page * limit < total ? encodeCursor(page + 1) : null;
 
-    if (data.items.length === 0) {
+    if (hits.length === 0) {
       return {
         content: [
           {
             type: 'text',
-            text: `= No incidents found matching your search criteria.\n\n**Search query:** "${args.query}"\n**Filters:** Category: ${args.category || 'Any'}, Severity: ${args.severity || 'Any'}, Status: ${args.status || 'Any'}`
+            text: `🔍 No results found matching your search criteria.\n\n**Search query:** "${args.query}"\n**Filters:** Category: ${query.qualifiers.category || 'Any'}, Severity: ${query.qualifiers.severity || 'Any'}, Status: ${query.qualifiers.status || 'Any'}, Tag: ${query.qualifiers.tag || 'Any'}, Type: ${query.qualifiers.type || 'Any'}`
           }
-        ]
+        ],
+        structuredContent: {
+          items: [],
+          total,
+          page,
+          per_page: limit,
+          next_cursor: null,
+          mode
+        }
       };
     }
 
-    const results = data.items.map((incident: any) =>
-      `= **${incident.title}**\n   =� Category: ${incident.category} | =% Severity: ${incident.severity} | =� Status: ${incident.status}\n   =� Description: ${incident.description.substring(0, 200)}${incident.description.length > 200 ? '...' : ''}\n   <� ID: ${incident.id} | =� Created: ${new Date(incident.created).toLocaleDateString()}\n`
+    const results = hits.map(hit =>
+      `${SEARCH_HIT_ICONS[hit.type]} **${hit.title}** (${hit.type}, score ${hit.score}${hit.effectiveness_score !== undefined ? `, effectiveness ${formatEffectiveness(hit.effectiveness_score)}` : ''})\n${hit.category ? `   📂 Category: ${hit.category} | 🔥 Severity: ${hit.severity} | 📊 Status: ${hit.status}\n` : ''}${hit.tags.length > 0 ? `   🏷️ Tags: ${hit.tags.join(', ')}\n` : ''}   📝 ${hit.snippet}\n   🆔 ID: ${hit.id}${hit.incident_id ? ` | Incident: ${hit.incident_id}` : ''}${hit.created ? ` | 📅 Created: ${new Date(hit.created).toLocaleDateString()}` : ''}\n`
     ).join('\n');
 
     return {
       content: [
         {
           type: 'text',
-          text: `= Found ${data.totalItems} incident(s) matching your search:\n\n${results}\n=� Use the incident ID to view details or add solutions.`
+          text: `🔍 Found ${total} result(s) matching your search (page ${page}, ${mode} ranking):\n\n${results}\n💡 Use the incident ID to view details or add solutions.${nextCursor ? ` Pass cursor "${nextCursor}" for more results.` : ''}`
         }
-      ]
+      ],
+      structuredContent: {
+        items: hits,
+        total,
+        page,
+        per_page: limit,
+        next_cursor: nextCursor,
+        mode
+      }
     };
   } catch (error: any) {
     return {
       content: [
         {
           type: 'text',
-          text: `L Error searching incidents: ${error.message}`
+          text: `❌ Error searching incidents: ${error.message}`
         }
       ],
       isError: true
@@ -145,7 +527,7 @@ export async function handleSearchIncidents(args: any) {
   }
 }
 
-export async function handleAddSolution(args: any) {
+export async function handleAddSolution(args: any, user: UserIdentity = ADMIN_IDENTITY) {
   if (!args.incident_id || !args.solution_title || !args.solution_description || !args.steps) {
     throw new Error('incident_id, solution_title, solution_description, and steps are required');
   }
@@ -153,12 +535,7 @@ export async function handleAddSolution(args: any) {
   const baseUrl = config.pocketbase.url;
 
   try {
-    // Verify incident exists
-    const incidentResponse = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${args.incident_id}`);
-
-    if (!incidentResponse.ok) {
-      throw new Error('Incident not found');
-    }
+    await assertIncidentEditable(args.incident_id, user);
 
     // Create solution
     const response = await makeAuthenticatedRequest(`${baseUrl}/api/collections/solutions/records`, {
@@ -171,7 +548,8 @@ export async function handleAddSolution(args: any) {
         resources_needed: args.resources_needed || '',
         time_estimate: args.time_estimate || '',
         warnings: args.warnings || '',
-        alternatives: args.alternatives || ''
+        alternatives: args.alternatives || '',
+        ...ownership(user)
       }),
     });
 
@@ -181,21 +559,33 @@ export async function handleAddSolution(args: any) {
     }
 
     const solution = await response.json();
+    searchService.indexSolution(solution);
+    await timelineService.record(solution.incident_id, {
+      event_type: 'solution_added',
+      message: `Solution added: ${solution.solution_title}`,
+      data: { solution_id: solution.id },
+    }, user);
+    void webhookService.emit('solution.added', { incident_id: solution.incident_id, solution });
 
     return {
       content: [
         {
           type: 'text',
-          text: ` Solution added successfully!\n\n=� **Solution Details:**\n- **ID:** ${solution.id}\n- **Title:** ${solution.solution_title}\n- **Incident ID:** ${solution.incident_id}\n- **Description:** ${solution.solution_description}\n\n=� You can now add feedback to rate this solution's effectiveness.`
+          text: `✅ Solution added successfully!\n\n📋 **Solution Details:**\n- **ID:** ${solution.id}\n- **Title:** ${solution.solution_title}\n- **Incident ID:** ${solution.incident_id}\n- **Description:** ${solution.solution_description}\n\n💡 Once someone has tried it, record how it went with rate_solution.`
         }
-      ]
+      ],
+      structuredContent: {
+        id: solution.id,
+        incident_id: solution.incident_id,
+        solution
+      }
     };
   } catch (error: any) {
     return {
       content: [
         {
           type: 'text',
-          text: `L Error adding solution: ${error.message}`
+          text: `❌ Error adding solution: ${error.message}`
         }
       ],
       isError: true
@@ -203,20 +593,21 @@ export async function handleAddSolution(args: any) {
   }
 }
 
-export async function handleExtractLessons(args: any) {
+export async function handleExtractLessons(args: any, user: UserIdentity = ADMIN_IDENTITY) {
   if (!args.incident_id || !args.problem_summary || !args.root_cause || !args.prevention) {
     throw new Error('incident_id, problem_summary, root_cause, and prevention are required');
   }
+  if (args.action_items !== undefined && !Array.isArray(args.action_items)) {
+    throw new Error('action_items must be an array');
+  }
+  const actionItems: NewActionItem[] = (args.action_items ?? []).map((item: any, index: number) =>
+    validateNewActionItem(item, `action_items[${index}].`)
+  );
 
   const baseUrl = config.pocketbase.url;
 
   try {
-    // Verify incident exists
-    const incidentResponse = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${args.incident_id}`);
-
-    if (!incidentResponse.ok) {
-      throw new Error('Incident not found');
-    }
+    await assertIncidentEditable(args.incident_id, user);
 
     // Create lesson learned
     const response = await makeAuthenticatedRequest(`${baseUrl}/api/collections/lessons_learned/records`, {
@@ -224,7 +615,8 @@ export async function handleExtractLessons(args: any) {
       body: JSON.stringify({
         incident_id: args.incident_id,
         lesson_text: `Problem Summary: ${args.problem_summary}\n\nRoot Cause: ${args.root_cause}\n\nPrevention: ${args.prevention}`,
-        lesson_type: args.lesson_type || 'general'
+        lesson_type: args.lesson_type || 'general',
+        ...ownership(user)
       }),
     });
 
@@ -234,29 +626,58 @@ export async function handleExtractLessons(args: any) {
     }
 
     const lesson = await response.json();
+    searchService.indexLesson(lesson);
 
     // Update incident with root cause
-    await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${args.incident_id}`, {
+    await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${encodeURIComponent(args.incident_id)}`, {
       method: 'PATCH',
       body: JSON.stringify({
         root_cause: args.root_cause
       }),
     });
+    await reindexIncident(args.incident_id);
+    await timelineService.record(args.incident_id, {
+      event_type: 'lesson_extracted',
+      message: `Lesson extracted (${lesson.lesson_type}): ${args.problem_summary}`,
+      data: { lesson_id: lesson.id },
+    }, user);
+    void webhookService.emit('lesson.extracted', { incident_id: args.incident_id, lesson });
+
+    // The lesson is already saved, so an action item that fails is reported rather than failing the call
+    const createdItems: any[] = [];
+    const failedItems: string[] = [];
+    for (const item of actionItems) {
+      try {
+        createdItems.push(await actionItemService.create(args.incident_id, { ...item, lesson_id: lesson.id }, user));
+      } catch (error: any) {
+        logger.warn('Failed to create action item', { incidentId: args.incident_id, title: item.title, error: error.message });
+        failedItems.push(item.title);
+      }
+    }
+    const actionItemsText = actionItems.length > 0
+      ? `\n\n✅ **Action Items (${createdItems.length}):**\n${createdItems.map(item => formatActionItem(item)).join('\n') || 'None created.'}${failedItems.length > 0 ? `\n⚠️ Failed to create: ${failedItems.join(', ')}` : ''}`
+      : '';
 
     return {
       content: [
         {
           type: 'text',
-          text: ` Lesson extracted successfully!\n\n=� **Lesson Details:**\n- **ID:** ${lesson.id}\n- **Type:** ${lesson.lesson_type}\n- **Incident ID:** ${lesson.incident_id}\n\n=� **Content:**\n${lesson.lesson_text}\n\n=� This lesson will help prevent similar incidents in the future.`
+          text: `✅ Lesson extracted successfully!\n\n📋 **Lesson Details:**\n- **ID:** ${lesson.id}\n- **Type:** ${lesson.lesson_type}\n- **Incident ID:** ${lesson.incident_id}\n\n📝 **Content:**\n${lesson.lesson_text}${actionItemsText}\n\n💡 This lesson will help prevent similar incidents in the future.`
         }
-      ]
+      ],
+      structuredContent: {
+        id: lesson.id,
+        incident_id: lesson.incident_id,
+        lesson,
+        action_items: createdItems
+      }
     };
   } catch (error: any) {
     return {
       content: [
         {
           type: 'text',
-          text: `L Error extracting lesson: ${error.message}`
+          text: `❌ Error extracting lesson: ${error.message}`
         }
       ],
       isError: true
@@ -264,67 +685,108 @@ export async function handleExtractLessons(args: any) {
   }
 }
 
-export async function handleGetSimilarIncidents(args: any) {
+export async function handleGetSimilarIncidents(args: any, user: UserIdentity = ADMIN_IDENTITY) {
   if (!args.incident_id) {
     throw new Error('incident_id is required');
   }
 
   const limit = args.limit ? parseInt(args.limit) : 5;
+  const crossCategory = args.cross_category === true;
+  const mode = validateSearchMode(args.mode);
   const baseUrl = config.pocketbase.url;
 
   try {
     // Get the source incident
-    const incidentResponse = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${args.incident_id}`);
+    const incidentResponse = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${encodeURIComponent(args.incident_id)}?expand=tags`);
 
     if (!incidentResponse.ok) {
       throw new Error('Incident not found');
     }
 
     const sourceIncident = await incidentResponse.json();
+    if (!canView(user, sourceIncident)) {
+      throw new Error('Incident not found');
+    }
 
-    // Search for similar incidents based on title, description, and category
-    const searchTerms = [sourceIncident.title, sourceIncident.category].join(' ');
-    const filter = `(title ~ "${searchTerms}" || description ~ "${searchTerms}") && category = "${sourceIncident.category}" && id != "${args.incident_id}"`;
+    // Rank candidates by BM25 over title, description, symptoms and tags, embeddings, or both
+    const matches = await searchService.findSimilar(sourceIncident, { limit, crossCategory, mode, viewer: user });
 
-    const response = await makeAuthenticatedRequest(
-      `${baseUrl}/api/collections/incidents/records?filter=${encodeURIComponent(filter)}&perPage=${limit}&sort=-created`
-    );
+    let items: any[] = [];
+    if (matches.length > 0) {
+      const response = await makeAuthenticatedRequest(
+        `${baseUrl}/api/collections/incidents/records?${filterParam(Filter.in('id', matches.map(match => match.id)))}&perPage=${matches.length}&expand=tags`
+      );
 
-    if (!response.ok) {
-      throw new Error('Failed to find similar incidents');
-    }
+      if (!response.ok) {
+        throw new Error('Failed to find similar incidents');
+      }
 
-    const data = await response.json();
+      const data = await response.json();
+      const records = new Map<string, any>(data.items.map((incident: any) => [incident.id, incident]));
+
+      items = matches.flatMap(match => {
+        const incident = records.get(match.id);
+        if (!incident) {
+          // Deleted outside this server since the index was built
+          searchService.removeIncident(match.id);
+          return [];
+        }
+        return [{ ...incident, similarity_score: match.score, matched_terms: match.matched_terms }];
+      });
+
+      // The fixes that worked best for each similar incident come first
+      const solutions = await loadSolutionsByIncident(items.map(incident => incident.id));
+      items = items.map(incident => ({
+        ...incident,
+        top_solutions: (solutions.get(incident.id) ?? []).slice(0, TOP_SOLUTIONS_PER_INCIDENT).map((solution: any) => ({
+          id: solution.id,
+          solution_title: solution.solution_title,
+          effectiveness_score: effectivenessOf(solution),
+        })),
+      }));
+    }
 
-    if (data.items.length === 0) {
+    if (items.length === 0) {
       return {
         content: [
           {
             type: 'text',
-            text: `= No similar incidents found for "${sourceIncident.title}".\n\n=� Try broadening your search or check different categories.`
+            text: `🔍 No similar incidents found for "${sourceIncident.title}".\n\n💡 ${crossCategory ? 'Try adding more detail to the incident description or symptoms.' : 'Try again with cross_category: true to search every category.'}`
           }
-        ]
+        ],
+        structuredContent: {
+          source_incident_id: sourceIncident.id,
+          items: [],
+          total: 0,
+          mode
+        }
       };
     }
 
-    const results = data.items.map((incident: any) =>
-      `= **${incident.title}**\n   =� Category: ${incident.category} | =% Severity: ${incident.severity} | =� Status: ${incident.status}\n   =� Description: ${incident.description.substring(0, 150)}${incident.description.length > 150 ? '...' : ''}\n   <� ID: ${incident.id} | =� Created: ${new Date(incident.created).toLocaleDateString()}\n`
+    const results = items.map((incident: any) =>
+      `🔍 **${incident.title}**\n   🎯 Similarity: ${Math.round(incident.similarity_score * 100)}%${incident.matched_terms.length > 0 ? ` | Matched: ${incident.matched_terms.join(', ')}` : ''}\n   📂 Category: ${incident.category} | 🔥 Severity: ${incident.severity} | 📊 Status: ${incident.status}\n${formatTags(incident) ? `   🏷️ Tags: ${formatTags(incident)}\n` : ''}   📝 Description: ${incident.description.substring(0, 150)}${incident.description.length > 150 ? '...' : ''}\n   🆔 ID: ${incident.id} | 📅 Created: ${new Date(incident.created).toLocaleDateString()}\n${incident.top_solutions.length > 0 ? `   💡 Best solution: ${incident.top_solutions[0].solution_title} (ID: ${incident.top_solutions[0].id}, effectiveness ${formatEffectiveness(incident.top_solutions[0].effectiveness_score)})\n` : ''}`
     ).join('\n');
 
     return {
       content: [
         {
           type: 'text',
-          text: `= Found ${data.totalItems} similar incident(s) to "${sourceIncident.title}":\n\n${results}\n=� Review these incidents for potential solutions or patterns.`
+          text: `🔍 Found ${items.length} similar incident(s) to "${sourceIncident.title}":\n\n${results}\n💡 Review these incidents for potential solutions or patterns.`
         }
-      ]
+      ],
+      structuredContent: {
+        source_incident_id: sourceIncident.id,
+        items,
+        total: items.length,
+        mode
+      }
     };
   } catch (error: any) {
     return {
       content: [
         {
           type: 'text',
-          text: `L Error finding similar incidents: ${error.message}`
+          text: `❌ Error finding similar incidents: ${error.message}`
         }
       ],
       isError: true
@@ -332,27 +794,28 @@ export async function handleGetSimilarIncidents(args: any) {
   }
 }
 
-export async function handleUpdateIncidentStatus(args: any) {
+export async function handleUpdateIncidentStatus(args: any, user: UserIdentity = ADMIN_IDENTITY) {
   if (!args.incident_id || !args.status) {
     throw new Error('incident_id and status are required');
   }
 
-  if (!['open', 'investigating', 'resolved', 'archived'].includes(args.status)) {
-    throw new Error('Status must be one of: open, investigating, resolved, archived');
+  if (!isIncidentStatus(args.status)) {
+    throw new Error(`Status must be one of: ${INCIDENT_STATUSES.join(', ')}`);
   }
 
   const baseUrl = config.pocketbase.url;
 
   try {
-    const updateData: any = { status: args.status };
-
-    if (args.status === 'resolved') {
-      updateData.resolved_at = new Date().toISOString();
-    }
+    // The transition depends on the current status, which also goes into the timeline
+    const current = await loadEditableIncident(args.incident_id, user);
+    const plan = planTransition(current.status, args.status, {
+      resolution_summary: args.resolution_summary,
+      reason: args.reason,
+    });
 
-    const response = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${args.incident_id}`, {
+    const response = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${encodeURIComponent(args.incident_id)}?expand=tags`, {
       method: 'PATCH',
-      body: JSON.stringify(updateData),
+      body: JSON.stringify(plan.changes),
     });
 
     if (!response.ok) {
@@ -361,21 +824,32 @@ export async function handleUpdateIncidentStatus(args: any) {
     }
 
     const updated = await response.json();
+    searchService.indexIncident(updated);
+    await recordStatusChange(updated.id, plan, user, args.notes);
+    notifyStatusChange(updated, plan);
 
     return {
       content: [
         {
           type: 'text',
-          text: ` Incident status updated successfully!\n\n=� **Updated Details:**\n- **ID:** ${updated.id}\n- **New Status:** ${updated.status}\n- **Resolved At:** ${updated.resolved_at ? new Date(updated.resolved_at).toLocaleString() : 'N/A'}\n${args.notes ? `\n=� **Notes:** ${args.notes}` : ''}\n\n=� Consider adding a solution or extracting lessons from this incident.`
+          text: `✅ Incident status updated successfully!\n\n📋 **Updated Details:**\n- **ID:** ${updated.id}\n- **Status:** ${plan.from} → ${updated.status}\n- **Resolved At:** ${updated.resolved_at ? new Date(updated.resolved_at).toLocaleString() : 'N/A'}\n${plan.note ? `- **${plan.to === 'resolved' ? 'Resolution' : 'Reason'}:** ${plan.note}\n` : ''}${args.notes ? `\n📝 **Notes:** ${args.notes}` : ''}\n\n💡 Consider adding a solution or extracting lessons from this incident.`
         }
-      ]
+      ],
+      structuredContent: {
+        id: updated.id,
+        status: updated.status,
+        previous_status: plan.from,
+        resolved_at: updated.resolved_at || null,
+        notes: args.notes || null,
+        incident: updated
+      }
     };
   } catch (error: any) {
     return {
       content: [
         {
           type: 'text',
-          text: `L Error updating incident status: ${error.message}`
+          text: `❌ Error updating incident status: ${error.message}`
         }
       ],
       isError: true
@@ -383,7 +857,7 @@ export async function handleUpdateIncidentStatus(args: any) {
   }
 }
 
-export async function handleExportKnowledge(args: any) {
+export async function handleExportKnowledge(args: any, user: UserIdentity = ADMIN_IDENTITY) {
   if (!args.format || !['json', 'csv', 'markdown'].includes(args.format)) {
     throw new Error('Format is required and must be one of: json, csv, markdown');
   }
@@ -392,20 +866,17 @@ export async function handleExportKnowledge(args: any) {
 
   try {
     // Build filter
-    let filter = '';
-    if (args.filter?.category) {
-      filter += `category = "${args.filter.category}"`;
-    }
-    if (args.filter?.status) {
-      filter += (filter ? ' && ' : '') + `status = "${args.filter.status}"`;
-    }
-    if (args.filter?.severity) {
-      filter += (filter ? ' && ' : '') + `severity = "${args.filter.severity}"`;
-    }
+    const filter = filterParam(Filter.and(
+      visibilityFilter(user),
+      args.filter?.category && Filter.eq('category', args.filter.category),
+      args.filter?.status && Filter.eq('status', args.filter.status),
+      args.filter?.severity && Filter.eq('severity', args.filter.severity),
+      args.filter?.tag && Filter.anyEq('tags.tag_name', normalizeTag(args.filter.tag))
+    ));
 
     const url = filter
-      ? `${baseUrl}/api/collections/incidents/records?filter=${encodeURIComponent(filter)}&perPage=200`
-      : `${baseUrl}/api/collections/incidents/records?perPage=200`;
+      ? `${baseUrl}/api/collections/incidents/records?${filter}&perPage=200&expand=tags`
+      : `${baseUrl}/api/collections/incidents/records?perPage=200&expand=tags`;
 
     const response = await makeAuthenticatedRequest(url);
 
@@ -443,6 +914,7 @@ export async function handleExportKnowledge(args: any) {
         exportData = incidents.map((inc: any) =>
           `## ${inc.title}\n\n` +
           `**Category:** ${inc.category} | **Status:** ${inc.status} | **Severity:** ${inc.severity}\n\n` +
+          `${formatTags(inc) ? `**Tags:** ${formatTags(inc)}\n\n` : ''}` +
           `**Description:** ${inc.description}\n\n` +
           `${inc.root_cause ? `**Root Cause:** ${inc.root_cause}\n\n` : ''}` +
           `**Created:** ${new Date(inc.created).toLocaleDateString()}\n\n` +
@@ -458,19 +930,1018 @@ export async function handleExportKnowledge(args: any) {
       content: [
         {
           type: 'text',
-          text: `=� Exported ${incidents.length} incidents in ${args.format.toUpperCase()} format:\n\n\`\`\`${args.format}\n${exportData}\n\`\`\`\n\n=� You can save this export to a file for backup or analysis.`
+          text: `📤 Exported ${incidents.length} incidents in ${args.format.toUpperCase()} format:\n\n\`\`\`${args.format}\n${exportData}\n\`\`\`\n\n💡 You can save this export to a file for backup or analysis.`
+        }
+      ],
+      structuredContent: {
+        format: args.format,
+        total: incidents.length,
+        items: incidents,
+        export: exportData
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error exporting knowledge: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleGetIncident(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+
+  try {
+    const incident = await IncidentQueries.getIncidentById(args.incident_id, true).noCache().execute();
+    if (!canView(user, incident)) {
+      throw new Error('Incident not found');
+    }
+
+    const [solutionsData, lessonsData, actionItemsData] = await Promise.all([
+      SolutionQueries.getSolutionsByIncident(args.incident_id).noCache().execute(),
+      LessonQueries.getLessonsByIncident(args.incident_id).noCache().execute(),
+      ActionItemQueries.getItemsByIncident(args.incident_id).execute(),
+    ]);
+
+    const solutions = sortByEffectiveness(solutionsData.items || []);
+    const lessons = lessonsData.items || [];
+    const actionItems = actionItemsData.items || [];
+
+    let feedback: any[] = [];
+    if (solutions.length > 0) {
+      const feedbackData = await FeedbackQueries.getFeedbackBySolutions(solutions.map((sol: any) => sol.id))
+        .noCache()
+        .execute();
+      feedback = feedbackData.items || [];
+    }
+
+    const solutionsText = solutions.length > 0
+      ? solutions.map((sol: any) => {
+          const ratings = feedback.filter((fb: any) => fb.solution_id === sol.id);
+          const ratingText = ratings.length > 0
+            ? `${(ratings.reduce((sum: number, fb: any) => sum + (fb.rating || 0), 0) / ratings.length).toFixed(1)}/5 from ${ratings.length} rating(s), effectiveness ${formatEffectiveness(effectivenessOf(sol))}`
+            : 'Not rated yet';
+          return `- **${sol.solution_title}** (ID: ${sol.id})\n  ${sol.solution_description}\n  Feedback: ${ratingText}`;
+        }).join('\n')
+      : 'No solutions documented yet.';
+
+    const lessonsText = lessons.length > 0
+      ? lessons.map((lesson: any) => `- **${lesson.lesson_type || 'general'}** (ID: ${lesson.id})\n  ${lesson.lesson_text}`).join('\n')
+      : 'No lessons learned documented yet.';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📋 **${incident.title}**\n\n- **ID:** ${incident.id}\n- **Category:** ${incident.category}\n- **Severity:** ${incident.severity}\n- **Status:** ${incident.status}\n- **Visibility:** ${incident.visibility || 'private'}\n- **Frequency:** ${incident.frequency || 'one-time'}\n- **Tags:** ${formatTags(incident) || 'None'}${incident.duplicate_of ? `\n- **Duplicate of:** ${incident.duplicate_of}` : ''}\n- **Created:** ${new Date(incident.created).toLocaleString()}\n- **Updated:** ${new Date(incident.updated).toLocaleString()}\n\n**Description:** ${incident.description}\n${incident.symptoms ? `\n**Symptoms:** ${incident.symptoms}\n` : ''}${incident.context ? `\n**Context:** ${incident.context}\n` : ''}${incident.environment ? `\n**Environment:** ${incident.environment}\n` : ''}${incident.root_cause ? `\n**Root Cause:** ${incident.root_cause}\n` : ''}\n**Solutions (${solutions.length}):**\n${solutionsText}\n\n**Lessons Learned (${lessons.length}):**\n${lessonsText}\n\n**Action Items (${actionItems.length}):**\n${actionItems.map((item: any) => formatActionItem(item)).join('\n') || 'No action items yet.'}`
+        }
+      ],
+      structuredContent: {
+        incident,
+        solutions,
+        lessons_learned: lessons,
+        feedback,
+        action_items: actionItems
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error getting incident: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleUpdateIncident(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  const updates: Record<string, string> = validateIncidentUpdate(args);
+  const baseUrl = config.pocketbase.url;
+
+  try {
+    // The previous values go into the timeline
+    const current = await loadEditableIncident(args.incident_id, user);
+    // Team members may edit a shared incident, but only its creator decides who can see it
+    if (updates.visibility && !isOwner(user, current)) {
+      throw new Error('Only the creator of an incident can change its visibility');
+    }
+
+    // Status changes go through the same state machine as update_incident_status; repeating the current status is not a change
+    const plan = updates.status && updates.status !== current.status
+      ? planTransition(current.status, updates.status, { resolution_summary: updates.resolution_summary, reason: args.reason })
+      : null;
+    // Fields that already hold the requested value are left alone, so the PATCH carries only real changes
+    const changed = Object.keys(updates).filter(field => field === 'status' ? plan !== null : updates[field] !== current[field]);
+    if (changed.length === 0) {
+      throw new Error('Nothing to update: the incident already has these values');
+    }
+    const updateData: Record<string, unknown> = {
+      ...Object.fromEntries(changed.map(field => [field, updates[field]])),
+      ...plan?.changes
+    };
+
+    const response = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${encodeURIComponent(args.incident_id)}?expand=tags`, {
+      method: 'PATCH',
+      body: JSON.stringify(updateData),
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new Error('Incident not found');
+      }
+      const error = await response.json();
+      throw new Error(`Failed to update incident: ${error.message || 'Unknown error'}`);
+    }
+
+    const updated = await response.json();
+    searchService.indexIncident(updated);
+    await recordIncidentUpdate(current, updates, plan, user);
+    if (plan) {
+      notifyStatusChange(updated, plan);
+    }
+    const changes = changed.map(field => `- **${field}:** ${updated[field]}`).join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Incident updated successfully!\n\n📋 **${updated.title}** (ID: ${updated.id})\n\n**Changed fields:**\n${changes}`
         }
-      ]
+      ],
+      structuredContent: {
+        id: updated.id,
+        changed_fields: changed,
+        incident: updated
+      }
     };
   } catch (error: any) {
     return {
       content: [
         {
           type: 'text',
-          text: `L Error exporting knowledge: ${error.message}`
+          text: `❌ Error updating incident: ${error.message}`
         }
       ],
       isError: true
     };
   }
-}
\ No newline at end of file
+}
+
+export async function handleDeleteIncident(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+
+  if (args.confirm !== true) {
+    throw new Error('Deleting an incident is permanent; set confirm to true to proceed');
+  }
+
+  const baseUrl = config.pocketbase.url;
+
+  try {
+    const incidentResponse = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${encodeURIComponent(args.incident_id)}`);
+
+    if (!incidentResponse.ok) {
+      throw new Error('Incident not found');
+    }
+
+    const incident = await incidentResponse.json();
+    if (!canView(user, incident)) {
+      throw new Error('Incident not found');
+    }
+    // Deleting takes its solutions, lessons and timeline with it, so team members who may edit it still may not
+    if (!isOwner(user, incident)) {
+      throw new Error('Only the creator of an incident can delete it');
+    }
+
+    const [solutionsData, lessonsData] = await Promise.all([
+      SolutionQueries.getSolutionsByIncident(args.incident_id).noCache().execute(),
+      LessonQueries.getLessonsByIncident(args.incident_id).noCache().execute(),
+    ]);
+
+    const solutions = solutionsData.items || [];
+    const lessons = lessonsData.items || [];
+
+    if ((solutions.length > 0 || lessons.length > 0) && args.cascade !== true) {
+      throw new Error(
+        `Incident has ${solutions.length} solution(s) and ${lessons.length} lesson(s); set cascade to true to delete them as well`
+      );
+    }
+
+    // Delete dependent records first so nothing is left pointing at the incident
+    let feedback: any[] = [];
+    if (solutions.length > 0) {
+      const feedbackData = await FeedbackQueries.getFeedbackBySolutions(solutions.map((sol: any) => sol.id))
+        .noCache()
+        .execute();
+      feedback = feedbackData.items || [];
+    }
+
+    const dependents: Array<[string, any[]]> = [
+      ['feedback', feedback],
+      ['solutions', solutions],
+      ['lessons_learned', lessons],
+    ];
+
+    for (const [collection, records] of dependents) {
+      for (const record of records) {
+        const response = await makeAuthenticatedRequest(`${baseUrl}/api/collections/${collection}/records/${record.id}`, {
+          method: 'DELETE',
+        });
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`Failed to delete ${collection} record ${record.id}`);
+        }
+      }
+    }
+
+    const response = await makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records/${encodeURIComponent(args.incident_id)}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(`Failed to delete incident: ${error.message || 'Unknown error'}`);
+    }
+
+    searchService.removeIncident(incident.id);
+
+    if (incident.tags?.length > 0) {
+      await taggingService.recountUsage(incident.tags).catch((error: any) => {
+        logger.warn('Failed to recount tags of deleted incident', { incidentId: incident.id, error: error.message });
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🗑️ Incident deleted successfully!\n\n- **ID:** ${incident.id}\n- **Title:** ${incident.title}\n- **Solutions removed:** ${solutions.length}\n- **Lessons removed:** ${lessons.length}\n- **Feedback removed:** ${feedback.length}`
+        }
+      ],
+      structuredContent: {
+        id: incident.id,
+        deleted: true,
+        removed: {
+          solutions: solutions.length,
+          lessons_learned: lessons.length,
+          feedback: feedback.length
+        }
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error deleting incident: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleAddTags(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+  const names = normalizeTags(args.tags);
+
+  try {
+    await assertIncidentEditable(args.incident_id, user);
+    const result = await taggingService.addTags(args.incident_id, names);
+    const tagNames = result.tags.map(tag => tag.tag_name);
+    await reindexIncident(args.incident_id);
+    if (result.changed.length > 0) {
+      await timelineService.record(args.incident_id, {
+        event_type: 'tags_changed',
+        message: `Tags added: ${result.changed.map(tag => tag.tag_name).join(', ')}`,
+        data: { added: result.changed.map(tag => tag.tag_name) },
+      }, user);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🏷️ Tags updated for incident ${args.incident_id}\n\n- **Added:** ${result.changed.map(tag => tag.tag_name).join(', ') || 'None (already tagged)'}\n- **Current tags:** ${tagNames.join(', ') || 'None'}`
+        }
+      ],
+      structuredContent: {
+        incident_id: args.incident_id,
+        added: result.changed.map(tag => tag.tag_name),
+        tags: tagNames
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error adding tags: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleRemoveTags(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+  const names = normalizeTags(args.tags);
+
+  try {
+    await assertIncidentEditable(args.incident_id, user);
+    const result = await taggingService.removeTags(args.incident_id, names);
+    const tagNames = result.tags.map(tag => tag.tag_name);
+    await reindexIncident(args.incident_id);
+    if (result.changed.length > 0) {
+      await timelineService.record(args.incident_id, {
+        event_type: 'tags_changed',
+        message: `Tags removed: ${result.changed.map(tag => tag.tag_name).join(', ')}`,
+        data: { removed: result.changed.map(tag => tag.tag_name) },
+      }, user);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🏷️ Tags updated for incident ${args.incident_id}\n\n- **Removed:** ${result.changed.map(tag => tag.tag_name).join(', ') || 'None (not tagged)'}\n- **Current tags:** ${tagNames.join(', ') || 'None'}`
+        }
+      ],
+      structuredContent: {
+        incident_id: args.incident_id,
+        removed: result.changed.map(tag => tag.tag_name),
+        tags: tagNames
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error removing tags: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleMergeIncidents(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.target_id) {
+    throw new Error('target_id is required');
+  }
+  if (!Array.isArray(args.source_ids) || args.source_ids.length === 0 || args.source_ids.length > MAX_MERGE_SOURCES) {
+    throw new Error(`source_ids must be an array of 1-${MAX_MERGE_SOURCES} incident IDs`);
+  }
+  if (args.source_ids.some((id: unknown) => typeof id !== 'string' || !id)) {
+    throw new Error('source_ids must contain incident ID strings');
+  }
+  if (args.source_ids.includes(args.target_id)) {
+    throw new Error('target_id cannot also be a source');
+  }
+
+  const sourceIds: string[] = [...new Set<string>(args.source_ids)];
+
+  try {
+    for (const id of [args.target_id, ...sourceIds]) {
+      await assertIncidentEditable(id, user);
+    }
+
+    const result = await incidentService.mergeIncidents(args.target_id, sourceIds);
+
+    searchService.indexIncident(result.incident);
+    // PATCH responses carry no expanded tags, so archived sources are re-read
+    await Promise.all(sourceIds.map(reindexIncident));
+    result.solutions.forEach(solution => searchService.indexSolution(solution));
+    result.lessons.forEach(lesson => searchService.indexLesson(lesson));
+
+    const mergedIds = result.merged.map(incident => incident.id);
+    await timelineService.record(result.incident.id, {
+      event_type: 'merged',
+      message: `Merged duplicates ${mergedIds.join(', ')}`,
+      data: { merged_ids: mergedIds, moved_solutions: result.solutions.length, moved_lessons: result.lessons.length },
+    }, user);
+    for (const id of mergedIds) {
+      // Merging archives the duplicate, which counts as its resolution
+      await timelineService.record(id, {
+        event_type: 'status_change',
+        message: `Merged into ${result.incident.id} as a duplicate`,
+        to_value: 'archived',
+        data: { merged_into: result.incident.id },
+      }, user);
+    }
+    for (const incident of result.merged) {
+      notifyStatusChange(incident, { from: null, to: 'archived', note: `Duplicate of ${result.incident.id}` });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🔁 Merged ${result.merged.length} incident(s) into "${result.incident.title}".\n\n📋 **Summary:**\n- **Surviving incident:** ${result.incident.id}\n- **Archived duplicates:** ${result.merged.map(incident => incident.id).join(', ')}\n- **Solutions moved:** ${result.solutions.length}\n- **Lessons moved:** ${result.lessons.length}\n- **Severity:** ${result.incident.severity}${formatTags(result.incident) ? `\n- **Tags:** ${formatTags(result.incident)}` : ''}`
+        }
+      ],
+      structuredContent: {
+        incident_id: result.incident.id,
+        merged_ids: result.merged.map(incident => incident.id),
+        moved_solutions: result.solutions.length,
+        moved_lessons: result.lessons.length,
+        incident: result.incident
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error merging incidents: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleGetHealth(args: any) {
+  if (args.probe !== undefined && typeof args.probe !== 'boolean') {
+    throw new Error('probe must be a boolean');
+  }
+
+  try {
+    const state = getPocketBaseHealth();
+    const probe = args.probe === false ? null : await probePocketBase();
+    // A failed live probe overrides a circuit that has not noticed yet
+    const status = probe && !probe.reachable ? 'unavailable' : state.status;
+    const icon = status === 'healthy' ? '🟢' : status === 'degraded' ? '🟡' : '🔴';
+
+    const lines = [
+      `- **Circuit:** ${state.circuitState} (${state.consecutiveFailures} recent failure(s))`,
+      `- **Authenticated:** ${state.authenticated ? 'yes' : 'no'} (token refreshes: ${state.tokenRefreshes})`,
+      probe && `- **Probe:** ${probe.reachable ? `reachable in ${probe.latencyMs}ms` : `unreachable (${probe.error})`}`,
+      state.lastError && `- **Last error:** ${state.lastError} at ${state.lastFailureAt}`,
+    ].filter(Boolean);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${icon} PocketBase is ${status}.\n\n${lines.join('\n')}`
+        }
+      ],
+      structuredContent: {
+        status,
+        pocketbase: {
+          circuit_state: state.circuitState,
+          consecutive_failures: state.consecutiveFailures,
+          authenticated: state.authenticated,
+          token_refreshes: state.tokenRefreshes,
+          last_success_at: state.lastSuccessAt,
+          last_failure_at: state.lastFailureAt,
+          last_error: state.lastError,
+          probe: probe && {
+            reachable: probe.reachable,
+            latency_ms: probe.latencyMs,
+            ...(probe.error && { error: probe.error })
+          }
+        },
+        uptime_seconds: Math.round(process.uptime())
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error checking health: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleGeneratePostmortem(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+
+  try {
+    const { postmortem, markdown } = await postmortemService.generate(args.incident_id, user);
+    const draft = postmortem.status === 'resolved' || postmortem.status === 'archived'
+      ? ''
+      : `⚠️ The incident is still ${postmortem.status}; this is a draft.\n\n`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${draft}${markdown}`
+        }
+      ],
+      structuredContent: {
+        incident_id: postmortem.incident_id,
+        markdown,
+        postmortem
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error generating postmortem: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+function validateTimelineEvent(args: any) {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+  if (!MANUAL_EVENT_TYPES.includes(args.event_type)) {
+    throw new Error(`event_type must be one of: ${MANUAL_EVENT_TYPES.join(', ')}`);
+  }
+  if (!args.message || typeof args.message !== 'string' || !args.message.trim()) {
+    throw new Error('message is required and must be a non-empty string');
+  }
+  if (args.occurred_at !== undefined) {
+    const occurredAt = new Date(args.occurred_at);
+    if (typeof args.occurred_at !== 'string' || Number.isNaN(occurredAt.getTime())) {
+      throw new Error('occurred_at must be an ISO 8601 date');
+    }
+    if (occurredAt.getTime() > Date.now() + 60 * 1000) {
+      throw new Error('occurred_at cannot be in the future');
+    }
+  }
+}
+
+function formatMinutes(minutes: number | null): string {
+  return minutes === null ? 'n/a' : `${minutes} min`;
+}
+
+export async function handleAddTimelineEvent(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  validateTimelineEvent(args);
+
+  try {
+    await assertIncidentEditable(args.incident_id, user);
+
+    const event = await timelineService.add(args.incident_id, {
+      event_type: args.event_type as TimelineEventType,
+      message: args.message.trim(),
+      occurred_at: args.occurred_at ? new Date(args.occurred_at).toISOString() : undefined,
+    }, user);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🕒 Timeline event added to incident ${args.incident_id}
+
+- **Type:** ${event.event_type}
+- **At:** ${new Date(event.occurred_at).toLocaleString()}
+- **Message:** ${event.message}`
+        }
+      ],
+      structuredContent: {
+        id: event.id,
+        incident_id: args.incident_id,
+        event
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error adding timeline event: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleGetTimeline(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+
+  try {
+    const incident = await loadVisibleIncident(args.incident_id, user);
+    const { events, metrics } = await timelineService.get(incident);
+
+    const lines = events.map((event: any) =>
+      `- **${new Date(event.occurred_at).toISOString()}** [${event.event_type}] ${event.message}`
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🕒 **Timeline of ${incident.title}** (${incident.status})
+
+- **Time to acknowledge:** ${formatMinutes(metrics.time_to_acknowledge_minutes)}
+- **Time to resolve:** ${formatMinutes(metrics.time_to_resolve_minutes)}
+
+**Events (${events.length}):**
+${lines.join('\n') || 'No events recorded yet.'}`
+        }
+      ],
+      structuredContent: {
+        incident_id: incident.id,
+        events,
+        metrics
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error getting timeline: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+function validateDueDate(value: unknown, field: string): string {
+  if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) {
+    throw new Error(`${field} must be an ISO 8601 date`);
+  }
+  return new Date(value).toISOString();
+}
+
+// The fields create_action_item and extract_lessons take for a new action item; prefix names the item in errors
+function validateNewActionItem(args: any, prefix: string = ''): NewActionItem {
+  if (!args || typeof args !== 'object') {
+    throw new Error(`${prefix || 'action item '}must be an object`);
+  }
+  if (typeof args.title !== 'string' || !args.title.trim() || args.title.length > 200) {
+    throw new Error(`${prefix}title is required and must be less than 200 characters`);
+  }
+  for (const field of ['description', 'owner']) {
+    if (args[field] !== undefined && typeof args[field] !== 'string') {
+      throw new Error(`${prefix}${field} must be a string`);
+    }
+  }
+  if (args.priority !== undefined && !isActionItemPriority(args.priority)) {
+    throw new Error(`${prefix}priority must be one of: ${ACTION_ITEM_PRIORITIES.join(', ')}`);
+  }
+
+  return {
+    title: args.title.trim(),
+    description: args.description,
+    owner: args.owner?.trim(),
+    due_date: args.due_date === undefined || args.due_date === null ? undefined : validateDueDate(args.due_date, `${prefix}due_date`),
+    priority: args.priority,
+  };
+}
+
+function validateActionItemChanges(args: any): ActionItemChanges {
+  if (!args.id) {
+    throw new Error('id is required');
+  }
+
+  const changes: ActionItemChanges = {};
+  for (const field of ['title', 'description', 'owner'] as const) {
+    if (args[field] === undefined) {
+      continue;
+    }
+    if (typeof args[field] !== 'string') {
+      throw new Error(`${field} must be a string`);
+    }
+    changes[field] = args[field].trim();
+  }
+  if (changes.title !== undefined && (!changes.title || changes.title.length > 200)) {
+    throw new Error('title must be non-empty and less than 200 characters');
+  }
+  if (args.status !== undefined) {
+    if (!isActionItemStatus(args.status)) {
+      throw new Error(`status must be one of: ${ACTION_ITEM_STATUSES.join(', ')}`);
+    }
+    changes.status = args.status;
+  }
+  if (args.priority !== undefined) {
+    if (!isActionItemPriority(args.priority)) {
+      throw new Error(`priority must be one of: ${ACTION_ITEM_PRIORITIES.join(', ')}`);
+    }
+    changes.priority = args.priority;
+  }
+  if (args.due_date !== undefined) {
+    changes.due_date = args.due_date === null ? null : validateDueDate(args.due_date, 'due_date');
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new Error('At least one field to update is required: title, description, owner, due_date, status, priority');
+  }
+  return changes;
+}
+
+function formatActionItem(item: any, now: Date = new Date()): string {
+  const due = item.due_date ? `due ${new Date(item.due_date).toISOString().slice(0, 10)}` : 'no due date';
+  return `- **${item.title}** (ID: ${item.id}) — ${item.status}, ${item.priority}, ${item.owner || 'unassigned'}, ${due}${isOverdue(item, now) ? ' ⚠️ overdue' : ''}`;
+}
+
+/**
+ * Load an action item the user may see through its incident
+ */
+async function loadVisibleActionItem(id: string, user: UserIdentity): Promise<any> {
+  const item = await actionItemService.get(id);
+  if (!canView(user, item.expand?.incident_id ?? {})) {
+    throw new Error('Action item not found');
+  }
+  return item;
+}
+
+/**
+ * loadVisibleActionItem for changes, which need edit rights on the incident
+ */
+async function loadEditableActionItem(id: string, user: UserIdentity): Promise<any> {
+  const item = await loadVisibleActionItem(id, user);
+  if (!canEdit(user, item.expand?.incident_id ?? {})) {
+    throw new Error('Only the creator of an incident, their team or an admin can change its action items');
+  }
+  return item;
+}
+
+export async function handleCreateActionItem(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.incident_id) {
+    throw new Error('incident_id is required');
+  }
+  if (args.lesson_id !== undefined && typeof args.lesson_id !== 'string') {
+    throw new Error('lesson_id must be a string');
+  }
+  const item = validateNewActionItem(args);
+  const baseUrl = config.pocketbase.url;
+
+  try {
+    await assertIncidentEditable(args.incident_id, user);
+
+    if (args.lesson_id) {
+      const lessonResponse = await makeAuthenticatedRequest(`${baseUrl}/api/collections/lessons_learned/records/${encodeURIComponent(args.lesson_id)}`);
+      const lesson = lessonResponse.ok ? await lessonResponse.json() : null;
+      if (!lesson || lesson.incident_id !== args.incident_id) {
+        throw new Error(`Lesson ${args.lesson_id} does not belong to incident ${args.incident_id}`);
+      }
+    }
+
+    const created = await actionItemService.create(args.incident_id, { ...item, lesson_id: args.lesson_id }, user);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Action item created for incident ${args.incident_id}\n\n${formatActionItem(created)}`
+        }
+      ],
+      structuredContent: {
+        id: created.id,
+        incident_id: args.incident_id,
+        action_item: created
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error creating action item: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleUpdateActionItem(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  const changes = validateActionItemChanges(args);
+
+  try {
+    const current = await loadEditableActionItem(args.id, user);
+    const updated = await actionItemService.update(current, changes);
+    const statusText = changes.status && changes.status !== current.status ? ` (${current.status} → ${updated.status})` : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Action item updated${statusText}\n\n${formatActionItem(updated)}`
+        }
+      ],
+      structuredContent: {
+        id: updated.id,
+        incident_id: updated.incident_id,
+        previous_status: current.status,
+        action_item: updated
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error updating action item: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleListActionItems(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (args.status !== undefined && !isActionItemStatus(args.status)) {
+    throw new Error(`status must be one of: ${ACTION_ITEM_STATUSES.join(', ')}`);
+  }
+  if (args.overdue !== undefined && typeof args.overdue !== 'boolean') {
+    throw new Error('overdue must be a boolean');
+  }
+  for (const field of ['incident_id', 'owner']) {
+    if (args[field] !== undefined && typeof args[field] !== 'string') {
+      throw new Error(`${field} must be a string`);
+    }
+  }
+  const limit = args.limit !== undefined ? parseInt(args.limit) : 50;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw new Error('limit must be between 1 and 100');
+  }
+
+  try {
+    if (args.incident_id) {
+      await assertIncidentVisible(args.incident_id, user);
+    }
+
+    const now = new Date();
+    const { items, total } = await actionItemService.list({
+      incident_id: args.incident_id,
+      owner: args.owner,
+      status: args.status,
+      overdue: args.overdue,
+      limit,
+    }, user, now);
+    const overdue = items.filter((item: any) => isOverdue(item, now)).length;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📌 **Action Items** (${items.length} of ${total}${overdue > 0 ? `, ${overdue} overdue` : ''})\n\n${items.map((item: any) => `${formatActionItem(item, now)}\n  Incident: ${item.incident_id}`).join('\n') || 'No action items match.'}`
+        }
+      ],
+      structuredContent: {
+        items: items.map((item: any) => ({ ...item, overdue: isOverdue(item, now) })),
+        total,
+        overdue
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error listing action items: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Load a solution the user may see through its incident
+ */
+async function loadVisibleSolution(solutionId: string, user: UserIdentity): Promise<any> {
+  const response = await makeAuthenticatedRequest(
+    `${config.pocketbase.url}/api/collections/solutions/records/${encodeURIComponent(solutionId)}?expand=incident_id`
+  );
+  const solution = response.ok ? await response.json() : null;
+  if (!solution || !canView(user, solution.expand?.incident_id ?? {})) {
+    throw new Error('Solution not found');
+  }
+  return solution;
+}
+
+function formatFeedbackSummary(summary: EffectivenessSummary): string {
+  return `- **Effectiveness:** ${formatEffectiveness(summary.effectiveness_score)}
+- **Ratings:** ${summary.ratings}${summary.average_rating !== null ? ` (average ${summary.average_rating}/${MAX_RATING})` : ''}
+- **Worked:** ${summary.worked_ratio !== null ? `${Math.round(summary.worked_ratio * 100)}% of those who said` : 'nobody said yet'}`;
+}
+
+export async function handleRateSolution(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.solution_id) {
+    throw new Error('solution_id is required');
+  }
+  if (!isValidRating(args.rating)) {
+    throw new Error(`rating must be a whole number from ${MIN_RATING} to ${MAX_RATING}`);
+  }
+  // Required: PocketBase reads an unset bool as false, so "did not say" cannot be stored
+  if (typeof args.worked !== 'boolean') {
+    throw new Error('worked must be true or false');
+  }
+  for (const field of ['comment', 'time_spent']) {
+    if (args[field] !== undefined && typeof args[field] !== 'string') {
+      throw new Error(`${field} must be a string`);
+    }
+  }
+
+  try {
+    const solution = await loadVisibleSolution(args.solution_id, user);
+    const result = await feedbackService.rate(solution.id, {
+      rating: args.rating,
+      worked: args.worked,
+      comment: args.comment?.trim(),
+      time_spent: args.time_spent,
+    }, user);
+    // Search ranks solutions by their score
+    searchService.indexSolution(result.solution);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `⭐ Rated "${solution.solution_title}" ${args.rating}/${MAX_RATING}${args.worked ? ' (worked)' : " (didn't work)"}\n\n${formatFeedbackSummary(result.summary)}`
+        }
+      ],
+      structuredContent: {
+        id: result.feedback.id,
+        solution_id: solution.id,
+        incident_id: solution.incident_id,
+        feedback: result.feedback,
+        summary: result.summary
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error rating solution: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+export async function handleGetSolutionFeedback(args: any, user: UserIdentity = ADMIN_IDENTITY) {
+  if (!args.solution_id) {
+    throw new Error('solution_id is required');
+  }
+  const limit = args.limit !== undefined ? parseInt(args.limit) : 20;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw new Error('limit must be between 1 and 100');
+  }
+
+  try {
+    const solution = await loadVisibleSolution(args.solution_id, user);
+    const { feedback, summary } = await feedbackService.get(solution.id, limit);
+
+    const lines = feedback.map((entry: any) =>
+      `- ${entry.rating}/${MAX_RATING}${typeof entry.worked === 'boolean' ? (entry.worked ? ', worked' : ", didn't work") : ''}${entry.time_spent ? `, ${entry.time_spent}` : ''}${entry.comment ? ` — ${entry.comment}` : ''} (${new Date(entry.created).toLocaleDateString()})`
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `⭐ **Feedback on "${solution.solution_title}"**\n\n${formatFeedbackSummary(summary)}\n\n**Recent feedback:**\n${lines.join('\n') || 'No feedback yet.'}`
+        }
+      ],
+      structuredContent: {
+        solution_id: solution.id,
+        incident_id: solution.incident_id,
+        feedback,
+        summary
+      }
+    };
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Error getting solution feedback: ${error.message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
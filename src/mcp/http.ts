@@ -0,0 +1,353 @@
+/**
+ * HTTP transport so one MCP server can be shared by a whole team: Streamable HTTP on /mcp,
+ * the legacy HTTP+SSE transport on /sse + /messages for older clients, and /health for probes.
+ * Every session gets its own MCP Server instance, bound to the token that opened it.
+ * Service accounts authenticate with an API key as the bearer token instead of a static one.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { UserIdentity } from '../services/identity.js';
+import { isApiKey } from '../shared/apiKeys.js';
+import { logger } from '../utils/logger.js';
+
+export interface AuthToken {
+  name: string;
+  token: string;
+}
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authTokens: AuthToken[];
+  // Sessions with no request for this long are closed; clients re-initialize on the resulting 404
+  sessionIdleMs: number;
+  createServer: () => Server;
+  // Resolve the PocketBase user a client signs in with when it opens a session; throwing rejects it with 401
+  resolveUser?: (req: IncomingMessage) => Promise<UserIdentity | undefined>;
+  // Check an API key sent as the bearer token; throwing rejects it with 401. Without it API keys are not accepted.
+  verifyApiKey?: (key: string) => Promise<{ keyId: string; user: UserIdentity }>;
+}
+
+export interface HttpTransportHandle {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  id: string;
+  clientId: string;
+  user?: UserIdentity;
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastSeen: number;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const CLOSE_TIMEOUT_MS = 5000;
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1']);
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly code: number = -32000
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * MCP_AUTH_TOKENS is a comma-separated list of `name:token` pairs; a bare token is named by position
+ */
+export function parseAuthTokens(value: string | undefined): AuthToken[] {
+  return (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(':');
+      return separator > 0
+        ? { name: entry.slice(0, separator).trim(), token: entry.slice(separator + 1).trim() }
+        : { name: `token-${index + 1}`, token: entry };
+    })
+    .filter(entry => entry.token.length > 0);
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.has(host.toLowerCase());
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Resolve the bearer token of a request to the configured token it matches.
+ * With no tokens configured every caller is 'anonymous' (only allowed on loopback hosts).
+ */
+export function authenticate(header: string | undefined, tokens: AuthToken[]): AuthInfo | null {
+  if (tokens.length === 0) {
+    return { token: '', clientId: 'anonymous', scopes: [] };
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match) {
+    return null;
+  }
+
+  const presented = match[1].trim();
+  // Compare against every token so the response time does not reveal which one matched
+  let found: AuthToken | undefined;
+  for (const entry of tokens) {
+    if (tokensMatch(entry.token, presented)) {
+      found = entry;
+    }
+  }
+
+  return found ? { token: presented, clientId: found.name, scopes: [] } : null;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Parse error: body is not valid JSON', -32700);
+  }
+}
+
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransportHandle> {
+  // Without static tokens a public host still requires API keys, if they are accepted
+  const keysOnly = options.authTokens.length === 0 && !isLoopbackHost(options.host);
+  if (keysOnly && !options.verifyApiKey) {
+    throw new Error(`MCP_AUTH_TOKENS must be set to serve MCP over HTTP on ${options.host}`);
+  }
+
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (id: string, reason: string): Promise<void> => {
+    const session = sessions.get(id);
+    if (!session) {
+      return;
+    }
+    sessions.delete(id);
+    logger.info('MCP session closed', { sessionId: id, clientId: session.clientId, reason });
+
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warn('Failed to close MCP session', { sessionId: id, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const findSession = (id: string, auth: AuthInfo, kind: Function): Session => {
+    const session = sessions.get(id);
+    if (!session || !(session.transport instanceof kind)) {
+      throw new HttpError(404, 'Session not found', -32001);
+    }
+    if (session.clientId !== auth.clientId) {
+      throw new HttpError(403, 'Session belongs to another client');
+    }
+    session.lastSeen = Date.now();
+    // Handlers read the session's user from extra.authInfo
+    auth.extra = { ...auth.extra, user: session.user };
+    return session;
+  };
+
+  const authorize = async (header: string | undefined): Promise<AuthInfo | null> => {
+    const presented = /^Bearer\s+(.+)$/i.exec(header ?? '')?.[1].trim();
+    if (options.verifyApiKey && isApiKey(presented)) {
+      try {
+        const { keyId, user } = await options.verifyApiKey(presented);
+        // Sessions are bound to the key, and the key's service account is their user
+        return { token: presented, clientId: `api-key:${keyId}`, scopes: user.scopes ?? [], extra: { user } };
+      } catch (error) {
+        logger.warn('MCP API key rejected', { error: error instanceof Error ? error.message : String(error) });
+        return null;
+      }
+    }
+    return keysOnly ? null : authenticate(header, options.authTokens);
+  };
+
+  // API key sessions act as the key's service account rather than signing anyone in
+  const signIn = async (req: IncomingMessage, auth: AuthInfo): Promise<UserIdentity | undefined> => {
+    if (auth.extra?.user) {
+      return auth.extra.user as UserIdentity;
+    }
+    try {
+      return await options.resolveUser?.(req);
+    } catch (error) {
+      throw new HttpError(401, `Unauthorized: ${error instanceof Error ? error.message : String(error)}`, -32001);
+    }
+  };
+
+  const handleStreamable = async (req: AuthenticatedRequest, res: ServerResponse, auth: AuthInfo): Promise<void> => {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = findSession(sessionId, auth, StreamableHTTPServerTransport);
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpError(400, 'Bad Request: missing Mcp-Session-Id header or initialize request');
+    }
+
+    const user = await signIn(req, auth);
+    auth.extra = { ...auth.extra, user };
+    const server = options.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { id, clientId: auth.clientId, user, server, transport, lastSeen: Date.now() });
+        logger.info('MCP session opened', { sessionId: id, clientId: auth.clientId, transport: 'streamable-http' });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId, 'client');
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (req: IncomingMessage, res: ServerResponse, auth: AuthInfo): Promise<void> => {
+    const user = await signIn(req, auth);
+    const server = options.createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    const id = transport.sessionId;
+
+    sessions.set(id, { id, clientId: auth.clientId, user, server, transport, lastSeen: Date.now() });
+    res.on('close', () => void closeSession(id, 'client'));
+    logger.info('MCP session opened', { sessionId: id, clientId: auth.clientId, transport: 'sse' });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: AuthenticatedRequest, res: ServerResponse, url: URL, auth: AuthInfo): Promise<void> => {
+    const session = findSession(url.searchParams.get('sessionId') ?? '', auth, SSEServerTransport);
+    const body = await readJsonBody(req);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  };
+
+  const route = async (req: AuthenticatedRequest, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      return;
+    }
+
+    const auth = await authorize(req.headers.authorization);
+    if (!auth) {
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token', {
+        'WWW-Authenticate': 'Bearer realm="notebypine-mcp"',
+      });
+      return;
+    }
+    req.auth = auth;
+
+    if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method ?? '')) {
+      await handleStreamable(req, res, auth);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      await handleSseStream(req, res, auth);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await handleSseMessage(req, res, url, auth);
+    } else {
+      throw new HttpError(404, `No route for ${req.method} ${url.pathname}`, -32601);
+    }
+  };
+
+  const httpServer = createServer((req, res) => {
+    route(req, res).catch(error => {
+      if (error instanceof HttpError) {
+        sendJsonRpcError(res, error.status, error.code, error.message);
+        return;
+      }
+      logger.error('MCP HTTP request failed', error instanceof Error ? error : String(error), {
+        method: req.method,
+        url: req.url,
+      });
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const session of sessions.values()) {
+      if (session.lastSeen < cutoff) {
+        void closeSession(session.id, 'idle');
+      }
+    }
+  }, Math.min(SWEEP_INTERVAL_MS, options.sessionIdleMs));
+  sweep.unref?.();
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${options.host}:${port}`,
+
+    sessionCount: () => sessions.size,
+
+    async close(): Promise<void> {
+      clearInterval(sweep);
+
+      // Stop accepting connections first, then end every session so open SSE streams let go
+      const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      await Promise.all([...sessions.keys()].map(id => closeSession(id, 'shutdown')));
+      httpServer.closeAllConnections?.();
+
+      await Promise.race([closed, new Promise<void>(resolve => setTimeout(resolve, CLOSE_TIMEOUT_MS).unref?.())]);
+    },
+  };
+}
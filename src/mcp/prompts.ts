@@ -6,6 +6,9 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { makeAuthenticatedRequest } from '../db/pocketbase.js';
 import { config } from '../config.js';
+import { Filter, filterParam } from '../db/queries.js';
+import { identityService, canView, visibilityFilter, type UserIdentity } from '../services/identity.js';
+import { postmortemService } from '../services/postmortem.js';
 
 const PROMPTS: Prompt[] = [
   {
@@ -30,6 +33,17 @@ const PROMPTS: Prompt[] = [
       },
     ],
   },
+  {
+    name: 'generate_postmortem',
+    description: 'Write a blameless postmortem for an incident from its recorded history',
+    arguments: [
+      {
+        name: 'incident_id',
+        description: 'ID of the incident the postmortem is about',
+        required: true,
+      },
+    ],
+  },
   {
     name: 'analyze_pattern',
     description: 'Identify recurring issues and patterns in the knowledge base',
@@ -49,13 +63,17 @@ export function registerPrompts(server: Server) {
     return { prompts: PROMPTS };
   });
 
-  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
     console.error(`=� Getting prompt: ${name}`, args);
 
     const baseUrl = config.pocketbase.url;
 
     try {
+      // Prompts embed knowledge base content, so they only draw on incidents the caller may see
+      const user = identityService.resolve(extra.authInfo?.extra?.user as UserIdentity | undefined, 'incidents:read');
+      const visible = visibilityFilter(user);
+
       switch (name) {
         case 'troubleshoot': {
           const problemDesc = args?.problem_description as string;
@@ -65,7 +83,7 @@ export function registerPrompts(server: Server) {
 
           // Search for similar incidents in knowledge base
           const searchResponse = await makeAuthenticatedRequest(
-            `${baseUrl}/api/collections/incidents/records?filter=${encodeURIComponent(`title ~ "${problemDesc}" || description ~ "${problemDesc}"`)}&perPage=5&sort=-created`
+            `${baseUrl}/api/collections/incidents/records?${filterParam(Filter.and(visible, Filter.search(['title', 'description'], problemDesc)))}&perPage=5&sort=-created`
           );
 
           let similarIncidents = [];
@@ -77,9 +95,9 @@ export function registerPrompts(server: Server) {
           // Also search for solutions
           let relatedSolutions = [];
           if (similarIncidents.length > 0) {
-            const incidentIds = similarIncidents.map((inc: any) => inc.id).join('","');
+            const incidentIds = similarIncidents.map((inc: any) => inc.id);
             const solutionsResponse = await makeAuthenticatedRequest(
-              `${baseUrl}/api/collections/solutions/records?filter=${encodeURIComponent(`incident_id IN ("${incidentIds}")`)}&perPage=5`
+              `${baseUrl}/api/collections/solutions/records?${filterParam(Filter.in('incident_id', incidentIds))}&perPage=5`
             );
 
             if (solutionsResponse.ok) {
@@ -90,7 +108,8 @@ export function registerPrompts(server: Server) {
 
           const similarIncidentsText = similarIncidents.length > 0
             ? similarIncidents.map((inc: any) =>
-                `= **${inc.title}** (${inc.category}, ${inc.severity} severity)\n   ${inc.description.substring(0, 200)}${inc.description.length > 200 ? '...' : ''}\n   Status: ${inc.status} | ID: ${inc.id}\n`
+                `=
+ **${inc.title}** (${inc.category}, ${inc.severity} severity)\n   ${inc.description.substring(0, 200)}${inc.description.length > 200 ? '...' : ''}\n   Status: ${inc.status} | ID: ${inc.id}\n`
               ).join('\n')
             : 'No similar incidents found in knowledge base.';
 
@@ -158,18 +177,17 @@ Please guide the user through this troubleshooting process systematically.`;
 
           // Get incident details
           const incidentResponse = await makeAuthenticatedRequest(
-            `${baseUrl}/api/collections/incidents/records/${incidentId}`
+            `${baseUrl}/api/collections/incidents/records/${encodeURIComponent(incidentId)}`
           );
 
-          if (!incidentResponse.ok) {
+          const incident = incidentResponse.ok ? await incidentResponse.json() : null;
+          if (!incident || !canView(user, incident)) {
             throw new Error('Incident not found');
           }
 
-          const incident = await incidentResponse.json();
-
           // Get existing solutions for this incident
           const solutionsResponse = await makeAuthenticatedRequest(
-            `${baseUrl}/api/collections/solutions/records?filter=${encodeURIComponent(`incident_id = "${incidentId}"`)}&perPage=5`
+            `${baseUrl}/api/collections/solutions/records?${filterParam(Filter.eq('incident_id', incidentId))}&perPage=5`
           );
 
           let existingSolutions = [];
@@ -180,7 +198,7 @@ Please guide the user through this troubleshooting process systematically.`;
 
           // Get lessons learned for this incident
           const lessonsResponse = await makeAuthenticatedRequest(
-            `${baseUrl}/api/collections/lessons_learned/records?filter=${encodeURIComponent(`incident_id = "${incidentId}"`)}&perPage=5`
+            `${baseUrl}/api/collections/lessons_learned/records?${filterParam(Filter.eq('incident_id', incidentId))}&perPage=5`
           );
 
           let existingLessons = [];
@@ -260,15 +278,61 @@ Please guide the user through documenting this solution comprehensively, ensurin
           };
         }
 
+        case 'generate_postmortem': {
+          const incidentId = args?.incident_id as string;
+          if (!incidentId) {
+            throw new Error('incident_id is required');
+          }
+
+          const { postmortem, markdown } = await postmortemService.generate(incidentId, user);
+
+          const prompt = `You are writing a blameless postmortem for a technical incident. A draft was assembled from the knowledge base records below.
+
+**Draft Postmortem:**
+
+${markdown}
+
+**Guidelines:**
+1. **Stay Blameless**
+   - Describe what the system and the process allowed to happen, never who made a mistake
+   - Replace names with roles where they appear
+
+2. **Fill the Gaps**
+   - The draft only knows what was recorded; ask the user about impact on customers, detection and communication
+   - ${postmortem.root_cause ? 'Check that the root cause explains every symptom' : 'No root cause was recorded: work it out with the user before writing the rest'}
+${postmortem.status === 'resolved' || postmortem.status === 'archived' ? '' : `   - The incident is still ${postmortem.status}: mark the document as a draft\n`}
+3. **Make Action Items Actionable**
+   - Each item needs a clear outcome, an owner role and a priority
+   - Prefer items that prevent the whole class of incident over one-off fixes
+
+4. **Keep the Structure**
+   - Keep the section headings of the draft so postmortems stay comparable
+   - Keep the timeline factual and in UTC
+
+Please produce the final postmortem in markdown.`;
+
+          return {
+            messages: [
+              {
+                role: 'user',
+                content: {
+                  type: 'text',
+                  text: prompt,
+                },
+              },
+            ],
+          };
+        }
+
         case 'analyze_pattern': {
           const category = args?.category as string | undefined;
 
           // Build filter based on category
-          const filter = category ? `category = "${category}"` : '';
+          const filter = filterParam(Filter.and(visible, category && Filter.eq('category', category)));
 
           // Get incidents for analysis
           const incidentsResponse = await makeAuthenticatedRequest(
-            `${baseUrl}/api/collections/incidents/records${filter ? `?filter=${encodeURIComponent(filter)}` : ''}?perPage=100&sort=-created`
+            `${baseUrl}/api/collections/incidents/records?${filter ? `${filter}&` : ''}perPage=100&sort=-created`
           );
 
           if (!incidentsResponse.ok) {
@@ -279,9 +343,9 @@ Please guide the user through documenting this solution comprehensively, ensurin
           const incidents = incidentsData.items;
 
           // Get solutions for these incidents
-          const incidentIds = incidents.map((inc: any) => inc.id).join('","');
+          const incidentIds = incidents.map((inc: any) => inc.id);
           const solutionsResponse = await makeAuthenticatedRequest(
-            `${baseUrl}/api/collections/solutions/records?filter=${encodeURIComponent(`incident_id IN ("${incidentIds}")`)}&perPage=100`
+            `${baseUrl}/api/collections/solutions/records?${filterParam(Filter.in('incident_id', incidentIds))}&perPage=100`
           );
 
           let solutions = [];
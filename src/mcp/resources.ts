@@ -1,10 +1,19 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
   Resource,
+  ResourceTemplate,
 } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
 import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { Filter, filterParam, IncidentQueries, LessonQueries, QueryBuilder, SolutionQueries, type FilterNode } from '../db/queries.js';
+import { INCIDENT_CATEGORIES, INCIDENT_STATUSES } from '../db/schema.js';
+import { identityService, canView, visibilityFilter, type UserIdentity } from '../services/identity.js';
+import { normalizeTag } from '../services/tagging.js';
+import { timelineService } from '../services/timeline.js';
+import { actionItemService } from '../services/actionItems.js';
 import { config } from '../config.js';
 
 const RESOURCES: Resource[] = [
@@ -28,23 +37,256 @@ const RESOURCES: Resource[] = [
   },
 ];
 
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'incident://{id}',
+    name: 'Incident',
+    description: 'One incident with its tags, by record ID',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'incident://{id}/solutions',
+    name: 'Incident Solutions',
+    description: 'Solutions documented for one incident',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'incident://{id}/lessons',
+    name: 'Incident Lessons',
+    description: 'Lessons learned from one incident',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'incident://{id}/timeline',
+    name: 'Incident Timeline',
+    description: 'What happened to one incident and when, with time to acknowledge and time to resolve',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'category://{name}',
+    name: 'Incidents in Category',
+    description: 'Status counts and the most recent incidents of one category',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'tag://{name}',
+    name: 'Incidents with Tag',
+    description: 'The most recent incidents carrying one tag',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'knowledge://{id}',
+    name: 'Knowledge Base Article',
+    description: 'One knowledge base article, by record ID',
+    mimeType: 'application/json',
+  },
+];
+
+type TemplateReader = (params: Record<string, string>, user: UserIdentity) => Promise<unknown>;
+
+// `filter=...&`, or nothing when the filter is empty, to put in front of the other query parameters
+function filterPrefix(node: FilterNode): string {
+  const filter = filterParam(node);
+  return filter ? `${filter}&` : '';
+}
+
+async function loadVisibleIncident(id: string, user: UserIdentity): Promise<any> {
+  const incident = await IncidentQueries.getIncidentById(id, true)
+    .noCache()
+    .execute()
+    .catch(() => null);
+
+  // Hidden incidents look exactly like missing ones
+  if (!incident || !canView(user, incident)) {
+    throw new Error(`Incident not found: ${id}`);
+  }
+  return incident;
+}
+
+function incidentSummary(incident: any) {
+  return {
+    id: incident.id,
+    title: incident.title,
+    category: incident.category,
+    severity: incident.severity,
+    status: incident.status,
+    created: incident.created,
+    updated: incident.updated,
+  };
+}
+
+const TEMPLATE_READERS: Record<string, TemplateReader> = {
+  'incident://{id}': async ({ id }, user) => {
+    const incident = await loadVisibleIncident(id, user);
+    const { expand, ...record } = incident;
+    return { ...record, tags: (expand?.tags ?? []).map((tag: any) => tag.tag_name) };
+  },
+
+  'incident://{id}/solutions': async ({ id }, user) => {
+    await loadVisibleIncident(id, user);
+    const data = await SolutionQueries.getSolutionsByIncident(id).noCache().execute();
+    return { incident_id: id, total: data.totalItems, solutions: data.items };
+  },
+
+  'incident://{id}/lessons': async ({ id }, user) => {
+    await loadVisibleIncident(id, user);
+    const data = await LessonQueries.getLessonsByIncident(id).noCache().execute();
+    return { incident_id: id, total: data.totalItems, lessons: data.items };
+  },
+
+  'incident://{id}/timeline': async ({ id }, user) => {
+    const incident = await loadVisibleIncident(id, user);
+    const { events, metrics } = await timelineService.get(incident);
+    return { incident_id: id, status: incident.status, metrics, events };
+  },
+
+  'category://{name}': async ({ name }, user) => {
+    const category = INCIDENT_CATEGORIES.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    if (!category) {
+      throw new Error(`Unknown category: ${name}. Use one of ${INCIDENT_CATEGORIES.join(', ')}`);
+    }
+
+    const inCategory = Filter.and(visibilityFilter(user), Filter.eq('category', category));
+    const [recent, ...counts] = await Promise.all([
+      new QueryBuilder('/api/collections/incidents/records').filter(inCategory).sort('created').limit(20).noCache().execute(),
+      ...INCIDENT_STATUSES.map(status =>
+        new QueryBuilder('/api/collections/incidents/records')
+          .filter(Filter.and(inCategory, Filter.eq('status', status)))
+          .limit(1)
+          .select(['id'])
+          .noCache()
+          .execute()
+      ),
+    ]);
+
+    return {
+      category,
+      total: recent.totalItems,
+      by_status: Object.fromEntries(INCIDENT_STATUSES.map((status, index) => [status, counts[index].totalItems])),
+      incidents: recent.items.map(incidentSummary),
+    };
+  },
+
+  'tag://{name}': async ({ name }, user) => {
+    const tag = normalizeTag(name);
+    const data = await new QueryBuilder('/api/collections/incidents/records')
+      .filter(Filter.and(visibilityFilter(user), Filter.anyEq('tags.tag_name', tag)))
+      .sort('created')
+      .limit(20)
+      .noCache()
+      .execute();
+
+    return { tag, total: data.totalItems, incidents: data.items.map(incidentSummary) };
+  },
+
+  'knowledge://{id}': async ({ id }) => {
+    const article = await new QueryBuilder(`/api/collections/knowledge_base/records/${encodeURIComponent(id)}`)
+      .noCache()
+      .execute()
+      .catch(() => null);
+
+    if (!article) {
+      throw new Error(`Knowledge base article not found: ${id}`);
+    }
+    return article;
+  },
+};
+
+const TEMPLATE_MATCHERS = RESOURCE_TEMPLATES.map(template => ({
+  template: template.uriTemplate,
+  matcher: new UriTemplate(template.uriTemplate),
+}));
+
+/**
+ * Read a URI that matches one of the resource templates, or throw for unknown URIs
+ */
+async function readTemplate(uri: string, user: UserIdentity): Promise<unknown> {
+  for (const { template, matcher } of TEMPLATE_MATCHERS) {
+    const variables = matcher.match(uri);
+    if (!variables) {
+      continue;
+    }
+
+    const params = Object.fromEntries(
+      Object.entries(variables).map(([name, value]) => [name, decodeURIComponent(String(value))])
+    );
+    return TEMPLATE_READERS[template](params, user);
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+/**
+ * One category:// resource per category with incidents the caller may see, and one tag:// resource per tag in use
+ */
+async function listRecordResources(user: UserIdentity): Promise<Resource[]> {
+  const [counts, tags] = await Promise.all([
+    Promise.all(INCIDENT_CATEGORIES.map(category =>
+      new QueryBuilder('/api/collections/incidents/records')
+        .filter(Filter.and(visibilityFilter(user), Filter.eq('category', category)))
+        .limit(1)
+        .select(['id'])
+        .cacheFor(60 * 1000)
+        .execute()
+    )),
+    new QueryBuilder('/api/collections/tags/records')
+      .filter(Filter.gt('usage_count', 0))
+      .sort('usage_count')
+      .limit(100)
+      .select(['tag_name'])
+      .cacheFor(60 * 1000)
+      .execute(),
+  ]);
+
+  return [
+    ...INCIDENT_CATEGORIES.filter((_, index) => counts[index].totalItems > 0).map(category => ({
+      uri: `category://${category}`,
+      name: `${category} Incidents`,
+      mimeType: 'application/json',
+    })),
+    ...tags.items.map((tag: any) => ({
+      uri: `tag://${encodeURIComponent(tag.tag_name)}`,
+      name: `Incidents tagged ${tag.tag_name}`,
+      mimeType: 'application/json',
+    })),
+  ];
+}
+
 export function registerResources(server: Server) {
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
-    console.error(`=� Listing ${RESOURCES.length} resources`);
-    return { resources: RESOURCES };
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    let resources = RESOURCES;
+    try {
+      const user = identityService.resolve(extra.authInfo?.extra?.user as UserIdentity | undefined, 'incidents:read');
+      resources = [...RESOURCES, ...(await listRecordResources(user))];
+    } catch (error: any) {
+      console.error(`L Listing category and tag resources failed: ${error.message}`);
+    }
+
+    console.error(`=� Listing ${resources.length} resources`);
+    return { resources };
   });
 
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    console.error(`=� Listing ${RESOURCE_TEMPLATES.length} resource templates`);
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
     const { uri } = request.params;
     console.error(`=� Reading resource: ${uri}`);
 
     const baseUrl = config.pocketbase.url;
 
     try {
+      // Every resource only reflects the incidents the caller may see
+      const user = identityService.resolve(extra.authInfo?.extra?.user as UserIdentity | undefined, 'incidents:read');
+      const visible = visibilityFilter(user);
+      const visibleChildren = visibilityFilter(user, 'incident_id');
+
       switch (uri) {
         case 'incident://recent': {
           const response = await makeAuthenticatedRequest(
-            `${baseUrl}/api/collections/incidents/records?perPage=20&sort=-created`
+            `${baseUrl}/api/collections/incidents/records?${filterPrefix(Filter.and(visible))}perPage=20&sort=-created`
           );
 
           if (!response.ok) {
@@ -79,12 +321,12 @@ export function registerResources(server: Server) {
         }
 
         case 'incident://by-category': {
-          const categories = ['Backend', 'Frontend', 'DevOps', 'Health', 'Finance', 'Mobile'];
           const byCategory: Record<string, any[]> = {};
 
-          for (const category of categories) {
+          // One request per category, all at once
+          await Promise.all(INCIDENT_CATEGORIES.map(async category => {
             const response = await makeAuthenticatedRequest(
-              `${baseUrl}/api/collections/incidents/records?filter=category="${category}"&perPage=10&sort=-created`
+              `${baseUrl}/api/collections/incidents/records?${filterParam(Filter.and(visible, Filter.eq('category', category)))}&perPage=10&sort=-created`
             );
 
             if (response.ok) {
@@ -100,7 +342,7 @@ export function registerResources(server: Server) {
             } else {
               byCategory[category] = [];
             }
-          }
+          }));
 
           return {
             contents: [
@@ -120,9 +362,9 @@ export function registerResources(server: Server) {
         case 'incident://stats': {
           // Get basic counts
           const [incidentsResponse, solutionsResponse, lessonsResponse] = await Promise.all([
-            makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records?perPage=1`),
-            makeAuthenticatedRequest(`${baseUrl}/api/collections/solutions/records?perPage=1`),
-            makeAuthenticatedRequest(`${baseUrl}/api/collections/lessons_learned/records?perPage=1`),
+            makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records?${filterPrefix(Filter.and(visible))}perPage=1`),
+            makeAuthenticatedRequest(`${baseUrl}/api/collections/solutions/records?${filterPrefix(Filter.and(visibleChildren))}perPage=1`),
+            makeAuthenticatedRequest(`${baseUrl}/api/collections/lessons_learned/records?${filterPrefix(Filter.and(visibleChildren))}perPage=1`),
           ]);
 
           if (!incidentsResponse.ok || !solutionsResponse.ok || !lessonsResponse.ok) {
@@ -147,14 +389,16 @@ export function registerResources(server: Server) {
               incidents_this_week: 0,
               solutions_this_week: 0,
               lessons_this_week: 0
-            }
+            },
+            // Before the action_items migration has run there is nothing to count
+            action_items: await actionItemService.counts(user).catch(() => ({ open: 0, overdue: 0 }))
           };
 
           // Get status breakdown
           const statuses = ['open', 'investigating', 'resolved', 'archived'];
           for (const status of statuses) {
             const response = await makeAuthenticatedRequest(
-              `${baseUrl}/api/collections/incidents/records?filter=status="${status}"&perPage=1`
+              `${baseUrl}/api/collections/incidents/records?${filterParam(Filter.and(visible, Filter.eq('status', status)))}&perPage=1`
             );
             if (response.ok) {
               const data = await response.json();
@@ -166,7 +410,7 @@ export function registerResources(server: Server) {
           const categories = ['Backend', 'Frontend', 'DevOps', 'Health', 'Finance', 'Mobile'];
           for (const category of categories) {
             const response = await makeAuthenticatedRequest(
-              `${baseUrl}/api/collections/incidents/records?filter=category="${category}"&perPage=1`
+              `${baseUrl}/api/collections/incidents/records?${filterParam(Filter.and(visible, Filter.eq('category', category)))}&perPage=1`
             );
             if (response.ok) {
               const data = await response.json();
@@ -178,7 +422,7 @@ export function registerResources(server: Server) {
           const severities = ['low', 'medium', 'high', 'critical'];
           for (const severity of severities) {
             const response = await makeAuthenticatedRequest(
-              `${baseUrl}/api/collections/incidents/records?filter=severity="${severity}"&perPage=1`
+              `${baseUrl}/api/collections/incidents/records?${filterParam(Filter.and(visible, Filter.eq('severity', severity)))}&perPage=1`
             );
             if (response.ok) {
               const data = await response.json();
@@ -189,12 +433,12 @@ export function registerResources(server: Server) {
           // Calculate recent activity (last 7 days)
           const sevenDaysAgo = new Date();
           sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-          const dateFilter = `created >= "${sevenDaysAgo.toISOString()}"`;
+          const recent = Filter.gte('created', sevenDaysAgo);
 
           const [recentIncidents, recentSolutions, recentLessons] = await Promise.all([
-            makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records?filter=${encodeURIComponent(dateFilter)}&perPage=1`),
-            makeAuthenticatedRequest(`${baseUrl}/api/collections/solutions/records?filter=${encodeURIComponent(dateFilter)}&perPage=1`),
-            makeAuthenticatedRequest(`${baseUrl}/api/collections/lessons_learned/records?filter=${encodeURIComponent(dateFilter)}&perPage=1`),
+            makeAuthenticatedRequest(`${baseUrl}/api/collections/incidents/records?${filterParam(Filter.and(visible, recent))}&perPage=1`),
+            makeAuthenticatedRequest(`${baseUrl}/api/collections/solutions/records?${filterParam(Filter.and(visibleChildren, recent))}&perPage=1`),
+            makeAuthenticatedRequest(`${baseUrl}/api/collections/lessons_learned/records?${filterParam(Filter.and(visibleChildren, recent))}&perPage=1`),
           ]);
 
           if (recentIncidents.ok) {
@@ -222,7 +466,15 @@ export function registerResources(server: Server) {
         }
 
         default:
-          throw new Error(`Unknown resource: ${uri}`);
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(await readTemplate(uri, user), null, 2),
+              },
+            ],
+          };
       }
     } catch (error: any) {
       console.error(`L Resource ${uri} failed: ${error.message}`);
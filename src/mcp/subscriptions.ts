@@ -0,0 +1,209 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Filter, IncidentQueries, QueryBuilder } from '../db/queries.js';
+import { INCIDENT_CATEGORIES } from '../db/schema.js';
+import { identityService, canView, type UserIdentity, type VisibleRecord } from '../services/identity.js';
+import { realtimeService, type ChangeListener, type RecordChange } from '../services/realtime.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Where record changes come from; the PocketBase realtime feed in production
+ */
+export interface ChangeFeed {
+  subscribe(listener: ChangeListener): () => void;
+}
+
+export interface ResourceChange {
+  change: RecordChange;
+  // Resource URIs whose contents changed
+  uris: string[];
+  // Every subscribed URI with one of these prefixes changed too
+  prefixes: string[];
+  // The list of resources changed (a category got its first incident, or a tag was created)
+  listChanged: boolean;
+}
+
+/**
+ * The resources a record change touches
+ */
+export function changedResources(change: RecordChange): { uris: string[]; prefixes: string[] } {
+  const { collection, action, record } = change;
+
+  switch (collection) {
+    case 'incidents':
+      return {
+        uris: [
+          `incident://${record.id}`,
+          ...(action === 'delete'
+            ? [`incident://${record.id}/solutions`, `incident://${record.id}/lessons`, `incident://${record.id}/timeline`]
+            : []),
+          'incident://recent',
+          'incident://by-category',
+          'incident://stats',
+          `category://${record.category}`,
+        ],
+        // The previous category and tags are not part of the event, so every category and tag view may be stale
+        prefixes: action === 'update' ? ['category://', 'tag://'] : ['tag://'],
+      };
+
+    case 'solutions':
+      return { uris: [`incident://${record.incident_id}/solutions`, 'incident://stats'], prefixes: [] };
+
+    case 'lessons_learned':
+      return { uris: [`incident://${record.incident_id}/lessons`, 'incident://stats'], prefixes: [] };
+
+    case 'timeline_events':
+      return { uris: [`incident://${record.incident_id}/timeline`], prefixes: [] };
+
+    case 'action_items':
+      return { uris: ['incident://stats'], prefixes: [] };
+
+    case 'tags':
+      return { uris: [`tag://${record.tag_name}`], prefixes: [] };
+
+    case 'knowledge_base':
+      return { uris: [`knowledge://${record.id}`], prefixes: [] };
+
+    default:
+      return { uris: [], prefixes: [] };
+  }
+}
+
+// Collections whose records are only visible through the incident they belong to
+const INCIDENT_CHILDREN = new Set(['solutions', 'lessons_learned', 'timeline_events', 'action_items']);
+
+// Views of one incident, e.g. incident://{id} and incident://{id}/solutions, but not incident://recent
+const INCIDENT_URI = /^incident:\/\/(?!(?:recent|by-category|stats)$)([^/]+)(?:\/(?:solutions|lessons|timeline))?$/;
+
+async function loadIncident(id: string): Promise<VisibleRecord | null> {
+  return IncidentQueries.getIncidentById(id).noCache().execute().catch(() => null);
+}
+
+/**
+ * The incident whose visibility decides who hears about a change, or null when the change is not tied to one.
+ * Children of an incident that can no longer be loaded, e.g. one being deleted, are hidden from everyone but admins.
+ */
+async function owningIncident({ collection, record }: RecordChange): Promise<VisibleRecord | null> {
+  if (collection === 'incidents') {
+    return record;
+  }
+  if (!INCIDENT_CHILDREN.has(collection)) {
+    return null;
+  }
+  return (record.incident_id && await loadIncident(record.incident_id)) || {};
+}
+
+// Categories known to have incidents, so a category's first incident can announce a new resource
+const knownCategories = new Set<string>();
+const servers = new Set<(change: ResourceChange) => void>();
+let detachFeed: (() => void) | null = null;
+
+async function seedCategories(): Promise<void> {
+  await Promise.all(INCIDENT_CATEGORIES.map(async category => {
+    const data = await new QueryBuilder('/api/collections/incidents/records')
+      .filter(Filter.eq('category', category))
+      .limit(1)
+      .select(['id'])
+      .noCache()
+      .execute();
+    if (data.totalItems > 0) {
+      knownCategories.add(category);
+    }
+  }));
+}
+
+function isListChange({ collection, action, record }: RecordChange): boolean {
+  if (collection === 'tags') {
+    return action === 'create';
+  }
+  if (collection === 'incidents' && action !== 'delete' && record.category && !knownCategories.has(record.category)) {
+    knownCategories.add(record.category);
+    return true;
+  }
+  return false;
+}
+
+// Work out what a change means once, then hand it to every connected server
+function dispatch(change: RecordChange): void {
+  const resourceChange = { change, ...changedResources(change), listChanged: isListChange(change) };
+  for (const notify of servers) {
+    notify(resourceChange);
+  }
+}
+
+function attach(notify: (change: ResourceChange) => void, feed: ChangeFeed): () => void {
+  servers.add(notify);
+  if (!detachFeed) {
+    detachFeed = feed.subscribe(dispatch);
+    seedCategories().catch(error => logger.warn('Failed to load incident categories', { error: error.message }));
+  }
+
+  return () => {
+    servers.delete(notify);
+    if (servers.size === 0 && detachFeed) {
+      detachFeed();
+      detachFeed = null;
+      knownCategories.clear();
+    }
+  };
+}
+
+function affects(uri: string, change: ResourceChange): boolean {
+  return change.uris.includes(uri) || change.prefixes.some(prefix => uri.startsWith(prefix));
+}
+
+export function registerSubscriptions(server: Server, feed: ChangeFeed = realtimeService) {
+  // Subscribed URI -> the user who subscribed, so hidden incidents do not announce themselves
+  const subscriptions = new Map<string, UserIdentity>();
+
+  const notify = async (change: ResourceChange) => {
+    if (change.listChanged) {
+      server.sendResourceListChanged().catch(() => undefined);
+    }
+
+    const affected = [...subscriptions].filter(([uri]) => affects(uri, change));
+    if (affected.length === 0) {
+      return;
+    }
+
+    // Admins see everything, so only other subscribers need the incident looked up
+    const incident = affected.every(([, user]) => user.admin) ? null : await owningIncident(change.change);
+    for (const [uri, user] of affected) {
+      if (incident && !canView(user, incident)) {
+        continue;
+      }
+      server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+  };
+
+  const detach = attach(notify, feed);
+  const onclose = server.onclose;
+  server.onclose = () => {
+    detach();
+    onclose?.();
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const user = identityService.resolve(extra.authInfo?.extra?.user as UserIdentity | undefined, 'incidents:read');
+
+    // Hidden incidents look exactly like missing ones, as they do when read
+    const incidentId = INCIDENT_URI.exec(uri)?.[1];
+    if (incidentId && !user.admin) {
+      const incident = await loadIncident(incidentId);
+      if (!incident || !canView(user, incident)) {
+        throw new Error(`Incident not found: ${incidentId}`);
+      }
+    }
+
+    subscriptions.set(uri, user);
+    logger.info('Subscribed to resource', { uri });
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    logger.info('Unsubscribed from resource', { uri: request.params.uri });
+    return {};
+  });
+}
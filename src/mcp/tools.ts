@@ -2,6 +2,9 @@
  * Optimized MCP tools registration with performance enhancements
  */
 
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
@@ -17,15 +20,156 @@ import {
   handleGetSimilarIncidents,
   handleUpdateIncidentStatus,
   handleExportKnowledge,
+  handleGetIncident,
+  handleUpdateIncident,
+  handleDeleteIncident,
+  handleAddTags,
+  handleRemoveTags,
+  handleMergeIncidents,
+  handleGetHealth,
+  handleGeneratePostmortem,
+  handleAddTimelineEvent,
+  handleGetTimeline,
+  handleCreateActionItem,
+  handleUpdateActionItem,
+  handleListActionItems,
+  handleRateSolution,
+  handleGetSolutionFeedback,
 } from './handlers.js';
 import { logger, startTimer } from '../utils/logger.js';
 import { performanceMonitor } from '../utils/performance.js';
 import { responseCache } from '../utils/cache.js';
+import { identityService, canView, type UserIdentity } from '../services/identity.js';
+import type { ApiKeyScope } from '../shared/permissions.js';
+import { config } from '../config.js';
 
 type ToolDefinition = Tool & {
   specPath: string;
 };
 
+// Shared JSON Schema fragments for structured tool results. PocketBase records carry
+// extra system fields, so only the fields agents rely on are declared.
+const RECORD_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    created: { type: 'string' },
+    updated: { type: 'string' }
+  },
+  required: ['id']
+};
+
+const ACTION_ITEM_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    incident_id: { type: 'string' },
+    lesson_id: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    owner: { type: 'string' },
+    due_date: { type: 'string' },
+    status: { type: 'string', enum: ['open', 'in_progress', 'done', 'cancelled'] },
+    priority: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+    completed_at: { type: 'string' }
+  }
+};
+
+const NEW_ACTION_ITEM_PROPERTIES = {
+  title: {
+    type: 'string',
+    description: 'What needs to be done'
+  },
+  description: {
+    type: 'string',
+    description: 'Details or acceptance criteria'
+  },
+  owner: {
+    type: 'string',
+    description: 'Who is responsible, e.g. an email or team name'
+  },
+  due_date: {
+    type: 'string',
+    description: 'ISO 8601 due date'
+  },
+  priority: {
+    type: 'string',
+    enum: ['low', 'medium', 'high', 'critical'],
+    default: 'medium',
+    description: 'Priority of the action item'
+  }
+};
+
+const INCIDENT_RECORD_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    category: { type: 'string' },
+    severity: { type: 'string' },
+    status: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' }, description: 'Tag record IDs' },
+    created: { type: 'string' },
+    updated: { type: 'string' }
+  },
+  required: ['id', 'title']
+};
+
+const SEARCH_HIT_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['incident', 'solution', 'lesson', 'knowledge'] },
+    id: { type: 'string', description: 'ID of the matching record' },
+    incident_id: { type: ['string', 'null'], description: 'Parent incident for solutions and lessons' },
+    title: { type: 'string' },
+    category: { type: ['string', 'null'] },
+    severity: { type: ['string', 'null'] },
+    status: { type: ['string', 'null'] },
+    tags: { type: 'array', items: { type: 'string' }, description: 'Tag names' },
+    created: { type: 'string' },
+    score: { type: 'number', description: 'Relevance relative to the best hit (0-1)' },
+    snippet: { type: 'string', description: 'Excerpt with matches wrapped in **bold**' },
+    matched_terms: { type: 'array', items: { type: 'string' } },
+    effectiveness_score: { type: 'number', description: 'Solutions only: 0-1 score from ratings and feedback, 0.5 when unrated' }
+  },
+  required: ['type', 'id', 'title', 'score', 'snippet']
+};
+
+const FEEDBACK_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    ratings: { type: 'number', description: 'How many ratings the solution has' },
+    average_rating: { type: ['number', 'null'], description: 'Plain average of the ratings (1-5)' },
+    worked_ratio: { type: ['number', 'null'], description: 'Share of feedback saying the solution worked (0-1)' },
+    effectiveness_score: { type: 'number', description: '0-1 Bayesian blend of rating and worked ratio; 0.5 when unrated' }
+  },
+  required: ['ratings', 'average_rating', 'worked_ratio', 'effectiveness_score']
+};
+
+const SEARCH_MODE_INPUT_SCHEMA = {
+  type: 'string',
+  enum: ['keyword', 'semantic', 'hybrid'],
+  description: 'keyword = BM25 term matching, semantic = embedding similarity (catches different wording), hybrid = both combined. Defaults to the server SEARCH_MODE.'
+};
+
+const TAG_CHANGE_INPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    incident_id: {
+      type: 'string',
+      description: 'ID of the incident to tag'
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+      maxItems: 20,
+      description: 'Tag names, e.g. ["postgres", "oom"]. Names are lower-cased and spaces become dashes.'
+    }
+  },
+  required: ['incident_id', 'tags']
+};
+
 const TOOL_DEFINITIONS: ToolDefinition[] = [
   {
     name: 'create_incident',
@@ -75,21 +219,52 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
           enum: ['one-time', 'occasional', 'frequent', 'recurring'],
           default: 'one-time',
           description: 'How often this issue occurs'
+        },
+        dedupe: {
+          type: 'string',
+          enum: ['warn', 'block', 'merge'],
+          description: 'What to do when open incidents in the same category look like duplicates: warn = create and list them, block = refuse to create, merge = add symptoms to the closest match instead. Defaults to the server DEDUPE_MODE.'
         }
       },
       required: ['title', 'category', 'description', 'severity']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the new incident, or of the existing one when merged' },
+        incident: INCIDENT_RECORD_SCHEMA,
+        tags: { type: 'array', items: { type: 'string' }, description: 'Tag names extracted automatically' },
+        duplicates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              title: { type: 'string' },
+              status: { type: 'string' },
+              created: { type: 'string' },
+              similarity_score: { type: 'number', description: '0-1, relative to the new report matched against itself' },
+              matched_terms: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['id', 'title', 'similarity_score']
+          },
+          description: 'Open incidents that look like the same problem'
+        },
+        merged_into: { type: 'string', description: 'Set when dedupe=merge folded the report into an existing incident' }
+      },
+      required: ['id', 'incident']
     }
   },
   {
     name: 'search_incidents',
-    description: 'Search incidents with keyword and enum filters for rapid triage. Docs: docs/specs/tools/search_incidents.md',
+    description: 'Ranked full-text search across incidents, solutions, lessons and knowledge base articles, with highlighted snippets. Docs: docs/specs/tools/search_incidents.md',
     specPath: 'docs/specs/tools/search_incidents.md',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Search query - searches in title and description (max 500 characters)'
+          description: 'Search query (max 500 characters). Supports "quoted phrases", -exclusions and qualifiers such as severity:critical status:open category:Backend tag:postgres type:solution'
         },
         category: {
           type: 'string',
@@ -106,15 +281,39 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
           enum: ['open', 'investigating', 'resolved', 'archived'],
           description: 'Filter by status'
         },
+        tag: {
+          type: 'string',
+          description: 'Only return incidents with this tag, e.g. "postgres"'
+        },
         limit: {
           type: 'number',
           default: 10,
           minimum: 1,
           maximum: 100,
           description: 'Maximum results to return'
-        }
+        },
+        cursor: {
+          type: 'string',
+          description: 'Opaque cursor from a previous next_cursor to fetch the following page'
+        },
+        mode: SEARCH_MODE_INPUT_SCHEMA
       },
       required: ['query']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: SEARCH_HIT_SCHEMA },
+        total: { type: 'number', description: 'Total matches across all pages' },
+        page: { type: 'number' },
+        per_page: { type: 'number' },
+        next_cursor: {
+          type: ['string', 'null'],
+          description: 'Pass as cursor to fetch the next page; null on the last page'
+        },
+        mode: { type: 'string', description: 'Ranking mode that produced the results' }
+      },
+      required: ['items', 'total', 'next_cursor']
     }
   },
   {
@@ -158,11 +357,20 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
         }
       },
       required: ['incident_id', 'solution_title', 'solution_description', 'steps']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the new solution' },
+        incident_id: { type: 'string' },
+        solution: RECORD_SCHEMA
+      },
+      required: ['id', 'incident_id', 'solution']
     }
   },
   {
     name: 'extract_lessons',
-    description: 'Log a lessons-learned entry and update the source incident root cause. Docs: docs/specs/tools/extract_lessons.md',
+    description: 'Log a lessons-learned entry, update the source incident root cause and optionally create action items. Docs: docs/specs/tools/extract_lessons.md',
     specPath: 'docs/specs/tools/extract_lessons.md',
     inputSchema: {
       type: 'object',
@@ -188,9 +396,28 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
           enum: ['prevention', 'detection', 'response', 'recovery', 'general'],
           default: 'general',
           description: 'Type of lesson'
+        },
+        action_items: {
+          type: 'array',
+          description: 'Follow-up work to track, linked to the new lesson',
+          items: {
+            type: 'object',
+            properties: NEW_ACTION_ITEM_PROPERTIES,
+            required: ['title']
+          }
         }
       },
       required: ['incident_id', 'problem_summary', 'root_cause', 'prevention']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the new lesson' },
+        incident_id: { type: 'string' },
+        lesson: RECORD_SCHEMA,
+        action_items: { type: 'array', items: ACTION_ITEM_SCHEMA }
+      },
+      required: ['id', 'incident_id', 'lesson']
     }
   },
   {
@@ -210,14 +437,54 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
           minimum: 1,
           maximum: 20,
           description: 'Maximum number of similar incidents to return'
-        }
+        },
+        cross_category: {
+          type: 'boolean',
+          default: false,
+          description: 'Also consider incidents from other categories'
+        },
+        mode: SEARCH_MODE_INPUT_SCHEMA
       },
       required: ['incident_id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        source_incident_id: { type: 'string' },
+        items: {
+          type: 'array',
+          items: {
+            ...INCIDENT_RECORD_SCHEMA,
+            properties: {
+              ...INCIDENT_RECORD_SCHEMA.properties,
+              similarity_score: { type: 'number', description: '0-1; keyword scores are relative to the source incident matched against itself, semantic scores are cosine similarity' },
+              matched_terms: { type: 'array', items: { type: 'string' }, description: 'Shared terms that contributed most to the score' },
+              top_solutions: {
+                type: 'array',
+                description: 'Best-rated solutions of the incident, most effective first',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    solution_title: { type: 'string' },
+                    effectiveness_score: { type: 'number' }
+                  },
+                  required: ['id', 'solution_title', 'effectiveness_score']
+                }
+              }
+            },
+            required: ['id', 'title', 'similarity_score', 'matched_terms', 'top_solutions']
+          }
+        },
+        total: { type: 'number' },
+        mode: { type: 'string', description: 'Ranking mode that produced the results' }
+      },
+      required: ['source_incident_id', 'items', 'total']
     }
   },
   {
     name: 'update_incident_status',
-    description: 'Move an incident through its lifecycle and record resolution timestamps. Docs: docs/specs/tools/update_incident_status.md',
+    description: 'Move an incident through its lifecycle (open, investigating, resolved, archived) along the allowed transitions. Docs: docs/specs/tools/update_incident_status.md',
     specPath: 'docs/specs/tools/update_incident_status.md',
     inputSchema: {
       type: 'object',
@@ -229,7 +496,15 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
         status: {
           type: 'string',
           enum: ['open', 'investigating', 'resolved', 'archived'],
-          description: 'New status'
+          description: 'New status; must be reachable from the current one'
+        },
+        resolution_summary: {
+          type: 'string',
+          description: 'How the incident was resolved; required when resolving'
+        },
+        reason: {
+          type: 'string',
+          description: 'Why; required when reopening a resolved incident or archiving one that was never resolved'
         },
         notes: {
           type: 'string',
@@ -237,6 +512,18 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
         }
       },
       required: ['incident_id', 'status']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        status: { type: 'string' },
+        previous_status: { type: 'string' },
+        resolved_at: { type: ['string', 'null'] },
+        notes: { type: ['string', 'null'] },
+        incident: INCIDENT_RECORD_SCHEMA
+      },
+      required: ['id', 'status', 'incident']
     }
   },
   {
@@ -266,22 +553,741 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
             severity: {
               type: 'string',
               enum: ['low', 'medium', 'high', 'critical']
+            },
+            tag: {
+              type: 'string',
+              description: 'Only export incidents with this tag'
             }
           },
           description: 'Optional filters'
         }
       },
       required: ['format']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        format: { type: 'string' },
+        total: { type: 'number' },
+        items: { type: 'array', items: INCIDENT_RECORD_SCHEMA },
+        export: { type: 'string', description: 'Rendered export in the requested format' }
+      },
+      required: ['format', 'total', 'items', 'export']
+    }
+  },
+  {
+    name: 'get_incident',
+    description: 'Read one incident with its solutions, lessons learned and feedback. Docs: docs/specs/tools/get_incident.md',
+    specPath: 'docs/specs/tools/get_incident.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: {
+          type: 'string',
+          description: 'ID of the incident to read'
+        }
+      },
+      required: ['incident_id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        incident: INCIDENT_RECORD_SCHEMA,
+        solutions: { type: 'array', items: RECORD_SCHEMA, description: 'Most effective first' },
+        lessons_learned: { type: 'array', items: RECORD_SCHEMA },
+        feedback: { type: 'array', items: RECORD_SCHEMA },
+        action_items: { type: 'array', items: ACTION_ITEM_SCHEMA }
+      },
+      required: ['incident', 'solutions', 'lessons_learned', 'feedback']
+    }
+  },
+  {
+    name: 'update_incident',
+    description: 'Edit any subset of an incident\'s fields without touching the rest. Docs: docs/specs/tools/update_incident.md',
+    specPath: 'docs/specs/tools/update_incident.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: {
+          type: 'string',
+          description: 'ID of the incident to update'
+        },
+        title: {
+          type: 'string',
+          description: 'New title (max 200 characters)'
+        },
+        category: {
+          type: 'string',
+          enum: ['Backend', 'Frontend', 'DevOps', 'Health', 'Finance', 'Mobile'],
+          description: 'New category'
+        },
+        description: {
+          type: 'string',
+          description: 'New description'
+        },
+        severity: {
+          type: 'string',
+          enum: ['low', 'medium', 'high', 'critical'],
+          description: 'New severity level'
+        },
+        status: {
+          type: 'string',
+          enum: ['open', 'investigating', 'resolved', 'archived'],
+          description: 'New status; follows the same transitions as update_incident_status'
+        },
+        resolution_summary: {
+          type: 'string',
+          description: 'How the incident was resolved; required when changing status to resolved'
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the status changed; required when reopening or archiving an unresolved incident'
+        },
+        symptoms: {
+          type: 'string',
+          description: 'Updated symptoms'
+        },
+        context: {
+          type: 'string',
+          description: 'Updated context information'
+        },
+        environment: {
+          type: 'string',
+          description: 'Updated environment details'
+        },
+        frequency: {
+          type: 'string',
+          enum: ['one-time', 'occasional', 'frequent', 'recurring'],
+          description: 'How often this issue occurs'
+        },
+        visibility: {
+          type: 'string',
+          enum: ['private', 'team', 'public'],
+          description: 'Visibility level'
+        },
+        root_cause: {
+          type: 'string',
+          description: 'Root cause analysis'
+        }
+      },
+      required: ['incident_id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        changed_fields: { type: 'array', items: { type: 'string' } },
+        incident: INCIDENT_RECORD_SCHEMA
+      },
+      required: ['id', 'changed_fields', 'incident']
+    }
+  },
+  {
+    name: 'delete_incident',
+    description: 'Permanently delete an incident, optionally cascading to its solutions and lessons. Docs: docs/specs/tools/delete_incident.md',
+    specPath: 'docs/specs/tools/delete_incident.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: {
+          type: 'string',
+          description: 'ID of the incident to delete'
+        },
+        confirm: {
+          type: 'boolean',
+          description: 'Must be true; guards against accidental deletion'
+        },
+        cascade: {
+          type: 'boolean',
+          default: false,
+          description: 'Also delete the incident\'s solutions, lessons learned and feedback'
+        }
+      },
+      required: ['incident_id', 'confirm']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        deleted: { type: 'boolean' },
+        removed: {
+          type: 'object',
+          properties: {
+            solutions: { type: 'number' },
+            lessons_learned: { type: 'number' },
+            feedback: { type: 'number' }
+          }
+        }
+      },
+      required: ['id', 'deleted', 'removed']
+    }
+  },
+  {
+    name: 'add_tags',
+    description: 'Attach tags to an incident, creating tags that do not exist yet. Docs: docs/specs/tools/add_tags.md',
+    specPath: 'docs/specs/tools/add_tags.md',
+    inputSchema: TAG_CHANGE_INPUT_SCHEMA,
+    outputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: { type: 'string' },
+        added: { type: 'array', items: { type: 'string' }, description: 'Tags that were not attached before' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'All tags now on the incident' }
+      },
+      required: ['incident_id', 'added', 'tags']
+    }
+  },
+  {
+    name: 'remove_tags',
+    description: 'Detach tags from an incident. Docs: docs/specs/tools/remove_tags.md',
+    specPath: 'docs/specs/tools/remove_tags.md',
+    inputSchema: TAG_CHANGE_INPUT_SCHEMA,
+    outputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: { type: 'string' },
+        removed: { type: 'array', items: { type: 'string' }, description: 'Tags that were attached and are now gone' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'All tags still on the incident' }
+      },
+      required: ['incident_id', 'removed', 'tags']
+    }
+  },
+  {
+    name: 'merge_incidents',
+    description: 'Fold duplicate incidents into one surviving incident, moving their solutions, lessons, symptoms and tags. Docs: docs/specs/tools/merge_incidents.md',
+    specPath: 'docs/specs/tools/merge_incidents.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target_id: {
+          type: 'string',
+          description: 'ID of the incident that survives the merge'
+        },
+        source_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          minItems: 1,
+          maxItems: 10,
+          description: 'IDs of the duplicate incidents to fold into the target; they are archived afterwards'
+        }
+      },
+      required: ['target_id', 'source_ids']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: { type: 'string', description: 'ID of the surviving incident' },
+        merged_ids: { type: 'array', items: { type: 'string' }, description: 'Archived duplicates, now with duplicate_of set' },
+        moved_solutions: { type: 'number' },
+        moved_lessons: { type: 'number' },
+        incident: INCIDENT_RECORD_SCHEMA
+      },
+      required: ['incident_id', 'merged_ids', 'moved_solutions', 'moved_lessons', 'incident']
+    }
+  },
+  {
+    name: 'get_health',
+    description: 'Report whether PocketBase is reachable, the circuit breaker state and recent failures. Docs: docs/specs/tools/get_health.md',
+    specPath: 'docs/specs/tools/get_health.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        probe: {
+          type: 'boolean',
+          description: 'Also call PocketBase /api/health now (default true); false only reports the recorded state'
+        }
+      }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['healthy', 'degraded', 'unavailable'] },
+        pocketbase: {
+          type: 'object',
+          properties: {
+            circuit_state: { type: 'string', enum: ['CLOSED', 'OPEN', 'HALF_OPEN'] },
+            consecutive_failures: { type: 'number' },
+            authenticated: { type: 'boolean' },
+            token_refreshes: { type: 'number', description: 'Times the admin token was renewed after a 401' },
+            last_success_at: { type: ['string', 'null'] },
+            last_failure_at: { type: ['string', 'null'] },
+            last_error: { type: ['string', 'null'] },
+            probe: {
+              type: ['object', 'null'],
+              properties: {
+                reachable: { type: 'boolean' },
+                latency_ms: { type: 'number' },
+                error: { type: 'string' }
+              }
+            }
+          }
+        },
+        uptime_seconds: { type: 'number' }
+      },
+      required: ['status', 'pocketbase', 'uptime_seconds']
+    }
+  },
+  {
+    name: 'generate_postmortem',
+    description: 'Assemble a blameless postmortem (summary, impact, timeline, root cause, what went well or badly, action items) from an incident, its solutions, lessons and feedback. Docs: docs/specs/tools/generate_postmortem.md',
+    specPath: 'docs/specs/tools/generate_postmortem.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: {
+          type: 'string',
+          description: 'ID of the incident to write the postmortem for'
+        }
+      },
+      required: ['incident_id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: { type: 'string' },
+        markdown: { type: 'string', description: 'The postmortem rendered through the section template' },
+        postmortem: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            status: { type: 'string' },
+            generated_at: { type: 'string' },
+            summary: { type: 'string' },
+            impact: {
+              type: 'object',
+              properties: {
+                severity: { type: 'string' },
+                category: { type: 'string' },
+                frequency: { type: 'string' },
+                environment: { type: 'string' },
+                symptoms: { type: 'array', items: { type: 'string' } },
+                duration_minutes: { type: ['number', 'null'], description: 'From report to resolution; null while unresolved' },
+                time_to_acknowledge_minutes: { type: ['number', 'null'], description: 'From report to the first response on the timeline' }
+              }
+            },
+            timeline: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { at: { type: 'string' }, event: { type: 'string' } },
+                required: ['at', 'event']
+              }
+            },
+            root_cause: { type: ['string', 'null'] },
+            went_well: { type: 'array', items: { type: 'string' } },
+            went_badly: { type: 'array', items: { type: 'string' } },
+            action_items: { type: 'array', items: { type: 'string' } },
+            sections: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { heading: { type: 'string' }, markdown: { type: 'string' } },
+                required: ['heading', 'markdown']
+              }
+            }
+          },
+          required: ['title', 'summary', 'impact', 'timeline', 'root_cause', 'went_well', 'went_badly', 'action_items', 'sections']
+        }
+      },
+      required: ['incident_id', 'markdown', 'postmortem']
+    }
+  },
+  {
+    name: 'add_timeline_event',
+    description: 'Record a note, action or other event on an incident timeline, optionally backdated. Docs: docs/specs/tools/add_timeline_event.md',
+    specPath: 'docs/specs/tools/add_timeline_event.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: {
+          type: 'string',
+          description: 'ID of the incident the event belongs to'
+        },
+        event_type: {
+          type: 'string',
+          enum: ['note', 'solution_added', 'lesson_extracted', 'action_taken'],
+          description: 'Kind of event; status and severity changes are recorded by update_incident_status and update_incident'
+        },
+        message: {
+          type: 'string',
+          description: 'What happened'
+        },
+        occurred_at: {
+          type: 'string',
+          description: 'ISO 8601 time the event happened (default: now)'
+        }
+      },
+      required: ['incident_id', 'event_type', 'message']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        incident_id: { type: 'string' },
+        event: { type: 'object' }
+      },
+      required: ['id', 'incident_id', 'event']
+    }
+  },
+  {
+    name: 'get_timeline',
+    description: 'List the timeline of an incident in order, with time to acknowledge and time to resolve. Docs: docs/specs/tools/get_timeline.md',
+    specPath: 'docs/specs/tools/get_timeline.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: {
+          type: 'string',
+          description: 'ID of the incident'
+        }
+      },
+      required: ['incident_id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: { type: 'string' },
+        events: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              event_type: { type: 'string' },
+              message: { type: 'string' },
+              from_value: { type: 'string' },
+              to_value: { type: 'string' },
+              data: { type: 'object' },
+              occurred_at: { type: 'string' },
+              created_by: { type: 'string' }
+            },
+            required: ['id', 'event_type', 'occurred_at']
+          }
+        },
+        metrics: {
+          type: 'object',
+          properties: {
+            reported_at: { type: 'string' },
+            acknowledged_at: { type: ['string', 'null'] },
+            resolved_at: { type: ['string', 'null'] },
+            time_to_acknowledge_minutes: { type: ['number', 'null'] },
+            time_to_resolve_minutes: { type: ['number', 'null'] }
+          },
+          required: ['reported_at', 'time_to_acknowledge_minutes', 'time_to_resolve_minutes']
+        }
+      },
+      required: ['incident_id', 'events', 'metrics']
+    }
+  },
+  {
+    name: 'create_action_item',
+    description: 'Create a follow-up action item on an incident with an owner, due date and priority. Docs: docs/specs/tools/create_action_item.md',
+    specPath: 'docs/specs/tools/create_action_item.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: {
+          type: 'string',
+          description: 'ID of the incident the action item follows up on'
+        },
+        lesson_id: {
+          type: 'string',
+          description: 'ID of the lesson learned that called for it; must belong to the same incident'
+        },
+        ...NEW_ACTION_ITEM_PROPERTIES
+      },
+      required: ['incident_id', 'title']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        incident_id: { type: 'string' },
+        action_item: ACTION_ITEM_SCHEMA
+      },
+      required: ['id', 'incident_id', 'action_item']
+    }
+  },
+  {
+    name: 'update_action_item',
+    description: 'Change the status, owner, due date or other fields of an action item. Docs: docs/specs/tools/update_action_item.md',
+    specPath: 'docs/specs/tools/update_action_item.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'ID of the action item'
+        },
+        title: {
+          type: 'string',
+          description: 'New title'
+        },
+        description: {
+          type: 'string',
+          description: 'New details'
+        },
+        owner: {
+          type: 'string',
+          description: 'New owner'
+        },
+        due_date: {
+          type: ['string', 'null'],
+          description: 'New ISO 8601 due date, or null to clear it'
+        },
+        status: {
+          type: 'string',
+          enum: ['open', 'in_progress', 'done', 'cancelled'],
+          description: 'New status; done stamps completed_at'
+        },
+        priority: {
+          type: 'string',
+          enum: ['low', 'medium', 'high', 'critical'],
+          description: 'New priority'
+        }
+      },
+      required: ['id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        incident_id: { type: 'string' },
+        previous_status: { type: 'string' },
+        action_item: ACTION_ITEM_SCHEMA
+      },
+      required: ['id', 'incident_id', 'previous_status', 'action_item']
+    }
+  },
+  {
+    name: 'list_action_items',
+    description: 'List action items by incident, owner or status, or only the overdue ones. Docs: docs/specs/tools/list_action_items.md',
+    specPath: 'docs/specs/tools/list_action_items.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        incident_id: {
+          type: 'string',
+          description: 'Only action items of this incident'
+        },
+        owner: {
+          type: 'string',
+          description: 'Only action items with this owner'
+        },
+        status: {
+          type: 'string',
+          enum: ['open', 'in_progress', 'done', 'cancelled'],
+          description: 'Only action items with this status'
+        },
+        overdue: {
+          type: 'boolean',
+          description: 'Only open or in-progress items past their due date'
+        },
+        limit: {
+          type: 'number',
+          default: 50,
+          minimum: 1,
+          maximum: 100,
+          description: 'Maximum number of action items to return'
+        }
+      }
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            ...ACTION_ITEM_SCHEMA,
+            properties: { ...ACTION_ITEM_SCHEMA.properties, overdue: { type: 'boolean' } }
+          }
+        },
+        total: { type: 'number' },
+        overdue: { type: 'number', description: 'How many of the returned items are overdue' }
+      },
+      required: ['items', 'total', 'overdue']
+    }
+  },
+  {
+    name: 'rate_solution',
+    description: 'Rate a solution 1-5 and say whether it worked; updates the solution\'s effectiveness score used to rank search results. Docs: docs/specs/tools/rate_solution.md',
+    specPath: 'docs/specs/tools/rate_solution.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        solution_id: {
+          type: 'string',
+          description: 'ID of the solution to rate'
+        },
+        rating: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 5,
+          description: 'How useful the solution was, 1 (not at all) to 5 (fixed it right away)'
+        },
+        worked: {
+          type: 'boolean',
+          description: 'Whether the solution resolved the problem'
+        },
+        comment: {
+          type: 'string',
+          description: 'What went well or what was missing'
+        },
+        time_spent: {
+          type: 'string',
+          description: 'How long applying it took (e.g., "20 minutes")'
+        }
+      },
+      required: ['solution_id', 'rating', 'worked']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the new feedback' },
+        solution_id: { type: 'string' },
+        incident_id: { type: 'string' },
+        feedback: RECORD_SCHEMA,
+        summary: FEEDBACK_SUMMARY_SCHEMA
+      },
+      required: ['id', 'solution_id', 'incident_id', 'feedback', 'summary']
+    }
+  },
+  {
+    name: 'get_solution_feedback',
+    description: 'Read the ratings and comments of a solution with its effectiveness summary. Docs: docs/specs/tools/get_solution_feedback.md',
+    specPath: 'docs/specs/tools/get_solution_feedback.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        solution_id: {
+          type: 'string',
+          description: 'ID of the solution'
+        },
+        limit: {
+          type: 'number',
+          default: 20,
+          minimum: 1,
+          maximum: 100,
+          description: 'Maximum number of feedback entries to return, newest first'
+        }
+      },
+      required: ['solution_id']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        solution_id: { type: 'string' },
+        incident_id: { type: 'string' },
+        feedback: { type: 'array', items: RECORD_SCHEMA },
+        summary: FEEDBACK_SUMMARY_SCHEMA
+      },
+      required: ['solution_id', 'incident_id', 'feedback', 'summary']
+    }
+  },
+  {
+    name: 'describe_tool',
+    description: 'Return the full input/output schema and markdown spec for one tool. Docs: docs/specs/tools/describe_tool.md',
+    specPath: 'docs/specs/tools/describe_tool.md',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the tool to describe, e.g. "search_incidents"'
+        }
+      },
+      required: ['name']
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        inputSchema: { type: 'object' },
+        outputSchema: { type: 'object' },
+        specPath: { type: 'string' },
+        spec: { type: ['string', 'null'], description: 'Markdown spec, or null if the file is missing' }
+      },
+      required: ['name', 'description', 'inputSchema', 'specPath', 'spec']
     }
   },
 ];
 
-const TOOL_SUMMARIES = TOOL_DEFINITIONS.map(({ name, description, specPath }) => ({
+const PROJECT_ROOT = fileURLToPath(new URL('../../', import.meta.url));
+
+// API key scope each tool requires; tools left out need none
+const TOOL_SCOPES: Record<string, ApiKeyScope> = {
+  create_incident: 'incidents:write',
+  search_incidents: 'incidents:read',
+  add_solution: 'solutions:write',
+  extract_lessons: 'incidents:write',
+  get_similar_incidents: 'incidents:read',
+  update_incident_status: 'incidents:write',
+  export_knowledge: 'incidents:read',
+  get_incident: 'incidents:read',
+  update_incident: 'incidents:write',
+  delete_incident: 'incidents:write',
+  add_tags: 'incidents:write',
+  remove_tags: 'incidents:write',
+  merge_incidents: 'incidents:write',
+  generate_postmortem: 'incidents:read',
+  add_timeline_event: 'incidents:write',
+  get_timeline: 'incidents:read',
+  create_action_item: 'incidents:write',
+  update_action_item: 'incidents:write',
+  list_action_items: 'incidents:read',
+  rate_solution: 'solutions:write',
+  get_solution_feedback: 'solutions:read',
+};
+
+// Full listing: everything a client needs to validate arguments and show hints.
+// specPath is a server-side detail and is only exposed through describe_tool.
+const TOOL_LISTING: Tool[] = TOOL_DEFINITIONS.map(({ specPath, ...tool }) => tool);
+
+// Compact listing for progressive disclosure. Entries keep a permissive inputSchema so
+// they remain valid MCP tools; describe_tool itself is listed in full so clients can
+// fetch the real schemas on demand.
+const TOOL_SUMMARIES = TOOL_DEFINITIONS.map(({ name, description, specPath, inputSchema }) => ({
   name,
+  description,
   briefDescription: description,
   specPath,
+  inputSchema: name === 'describe_tool' ? inputSchema : { type: 'object' as const },
 }));
 
+/**
+ * Describe a single tool with its schemas and markdown spec
+ */
+async function handleDescribeTool(args: any) {
+  const definition = TOOL_DEFINITIONS.find(tool => tool.name === args.name);
+  if (!definition) {
+    throw new Error(`Unknown tool: ${args.name}. Available tools: ${TOOL_DEFINITIONS.map(tool => tool.name).join(', ')}`);
+  }
+
+  const { specPath, ...tool } = definition;
+
+  let spec: string | null = null;
+  try {
+    spec = await readFile(join(PROJECT_ROOT, specPath), 'utf8');
+  } catch (error) {
+    logger.warn('Tool spec not found', { tool: tool.name, specPath });
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `## ${tool.name}\n\n${tool.description}\n\n**Input schema:**\n\`\`\`json\n${JSON.stringify(tool.inputSchema, null, 2)}\n\`\`\`\n\n${spec ?? `_No spec found at ${specPath}_`}`
+      }
+    ],
+    structuredContent: {
+      ...tool,
+      specPath,
+      spec,
+    }
+  };
+}
+
 // Rate limiting for tool calls
 const rateLimiter = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
@@ -319,6 +1325,15 @@ function getClientId(request: any): string {
   return request.params?.meta?.clientId || 'anonymous';
 }
 
+/**
+ * Drop every cached view that may contain the given incident
+ */
+function invalidateIncidentEverywhere(incidentId: string): void {
+  responseCache.invalidateIncident(incidentId);
+  responseCache.invalidateType('searches');
+  responseCache.invalidateType('exports');
+}
+
 /**
  * Pre-validate tool arguments
  */
@@ -348,6 +1363,88 @@ function preValidateToolCall(name: string, args: any): { valid: boolean; error?:
       }
       break;
 
+    case 'describe_tool':
+      if (!args.name) {
+        return { valid: false, error: 'Tool name is required' };
+      }
+      break;
+
+    case 'add_tags':
+    case 'remove_tags':
+      if (!args.incident_id) {
+        return { valid: false, error: 'Incident ID is required' };
+      }
+      if (!Array.isArray(args.tags) || args.tags.length === 0) {
+        return { valid: false, error: 'At least one tag is required' };
+      }
+      break;
+
+    case 'merge_incidents':
+      if (!args.target_id) {
+        return { valid: false, error: 'Target incident ID is required' };
+      }
+      if (!Array.isArray(args.source_ids) || args.source_ids.length === 0) {
+        return { valid: false, error: 'At least one source incident ID is required' };
+      }
+      break;
+
+    case 'get_incident':
+    case 'update_incident':
+    case 'generate_postmortem':
+    case 'get_timeline':
+      if (!args.incident_id) {
+        return { valid: false, error: 'Incident ID is required' };
+      }
+      break;
+
+    case 'add_timeline_event':
+      if (!args.incident_id) {
+        return { valid: false, error: 'Incident ID is required' };
+      }
+      if (!args.event_type || !args.message) {
+        return { valid: false, error: 'Event type and message are required' };
+      }
+      break;
+
+    case 'create_action_item':
+      if (!args.incident_id) {
+        return { valid: false, error: 'Incident ID is required' };
+      }
+      if (!args.title) {
+        return { valid: false, error: 'Title is required' };
+      }
+      break;
+
+    case 'update_action_item':
+      if (!args.id) {
+        return { valid: false, error: 'Action item ID is required' };
+      }
+      break;
+
+    case 'rate_solution':
+      if (!args.solution_id) {
+        return { valid: false, error: 'Solution ID is required' };
+      }
+      if (args.rating === undefined || typeof args.worked !== 'boolean') {
+        return { valid: false, error: 'Rating and worked are required' };
+      }
+      break;
+
+    case 'get_solution_feedback':
+      if (!args.solution_id) {
+        return { valid: false, error: 'Solution ID is required' };
+      }
+      break;
+
+    case 'delete_incident':
+      if (!args.incident_id) {
+        return { valid: false, error: 'Incident ID is required' };
+      }
+      if (args.confirm !== true) {
+        return { valid: false, error: 'Deletion must be confirmed with confirm: true' };
+      }
+      break;
+
     case 'get_similar_incidents':
       if (!args.incident_id) {
         return { valid: false, error: 'Incident ID is required' };
@@ -365,10 +1462,11 @@ export function registerTools(server: Server) {
   // List available tools
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     const endTimer = startTimer('list_tools');
-    logger.info('Tools list requested', { toolCount: TOOL_DEFINITIONS.length });
+    const mode = config.mcp.toolListMode;
+    logger.info('Tools list requested', { toolCount: TOOL_DEFINITIONS.length, mode });
 
     try {
-      const result = { tools: TOOL_SUMMARIES } as any;
+      const result = { tools: mode === 'compact' ? TOOL_SUMMARIES : TOOL_LISTING };
       endTimer();
       return result;
     } catch (error) {
@@ -379,8 +1477,9 @@ export function registerTools(server: Server) {
   });
 
   // Handle tool calls with optimizations
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
+    const args: any = request.params.arguments ?? {};
     const clientId = getClientId(request);
     const requestId = `${name}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
@@ -411,54 +1510,139 @@ export function registerTools(server: Server) {
         throw new Error(validation.error);
       }
 
+      // The HTTP transport attaches the session's PocketBase user; stdio calls use the configured one
+      const user = identityService.resolve(extra.authInfo?.extra?.user as UserIdentity | undefined, TOOL_SCOPES[name]);
+      // Results depend on what the caller may see, so cached reads are kept per user
+      const viewer = user.admin ? 'admin' : user.id;
+
       // Check cache for read operations
       let result;
       if (['search_incidents', 'get_similar_incidents', 'export_knowledge'].includes(name)) {
-        const cacheKey = JSON.stringify({ name, args });
+        const cacheKey = JSON.stringify({ name, args, viewer });
         const cached = responseCache.getCachedSearchResults(cacheKey, {});
         if (cached) {
           logger.debug('Tool result from cache', { tool: name, requestId });
           result = cached;
         }
+      } else if (name === 'get_incident') {
+        const cached: any = responseCache.getCachedIncident(args.incident_id);
+        if (cached && canView(user, cached.structuredContent?.incident ?? {})) {
+          logger.debug('Tool result from cache', { tool: name, requestId });
+          result = cached;
+        }
       }
 
       if (!result) {
         // Execute the tool handler
         switch (name) {
           case 'create_incident':
-            result = await handleCreateIncident(args);
+            result = await handleCreateIncident(args, user);
+            // A new incident can show up in cached searches and similarity results
+            responseCache.invalidateType('searches');
+            if (result.structuredContent?.merged_into) {
+              invalidateIncidentEverywhere(result.structuredContent.merged_into);
+            }
             break;
           case 'search_incidents':
-            result = await handleSearchIncidents(args);
+            result = await handleSearchIncidents(args, user);
             // Cache search results
-            const searchKey = JSON.stringify({ name, args });
+            const searchKey = JSON.stringify({ name, args, viewer });
             responseCache.cacheSearchResults(searchKey, {}, result);
             break;
           case 'add_solution':
-            result = await handleAddSolution(args);
-            // Invalidate relevant caches
-            responseCache.invalidateIncident(args.incident_id);
+            result = await handleAddSolution(args, user);
+            // The change shows up in search results as well as the incident
+            invalidateIncidentEverywhere(args.incident_id);
             break;
           case 'extract_lessons':
-            result = await handleExtractLessons(args);
-            // Invalidate relevant caches
-            responseCache.invalidateIncident(args.incident_id);
+            result = await handleExtractLessons(args, user);
+            // The change shows up in search results as well as the incident
+            invalidateIncidentEverywhere(args.incident_id);
             break;
           case 'get_similar_incidents':
-            result = await handleGetSimilarIncidents(args);
+            result = await handleGetSimilarIncidents(args, user);
             // Cache similar incidents
             responseCache.cacheSimilarIncidents(args.incident_id, result);
             break;
           case 'update_incident_status':
-            result = await handleUpdateIncidentStatus(args);
-            // Invalidate relevant caches
+            result = await handleUpdateIncidentStatus(args, user);
+            // The change shows up in search results as well as the incident
+            invalidateIncidentEverywhere(args.incident_id);
+            break;
+          case 'get_incident':
+            result = await handleGetIncident(args, user);
+            // Cache incident details unless the lookup failed
+            if (!result.isError) {
+              responseCache.cacheIncident(args.incident_id, result);
+            }
+            break;
+          case 'update_incident':
+            result = await handleUpdateIncident(args, user);
+            // Edited fields may change search and export output too
+            invalidateIncidentEverywhere(args.incident_id);
+            break;
+          case 'delete_incident':
+            result = await handleDeleteIncident(args, user);
+            invalidateIncidentEverywhere(args.incident_id);
+            break;
+          case 'add_tags':
+            result = await handleAddTags(args, user);
+            invalidateIncidentEverywhere(args.incident_id);
+            break;
+          case 'remove_tags':
+            result = await handleRemoveTags(args, user);
+            invalidateIncidentEverywhere(args.incident_id);
+            break;
+          case 'merge_incidents':
+            result = await handleMergeIncidents(args, user);
+            invalidateIncidentEverywhere(args.target_id);
+            (args.source_ids ?? []).forEach(invalidateIncidentEverywhere);
+            break;
+          case 'get_health':
+            result = await handleGetHealth(args);
+            break;
+          case 'generate_postmortem':
+            result = await handleGeneratePostmortem(args, user);
+            break;
+          case 'add_timeline_event':
+            result = await handleAddTimelineEvent(args, user);
+            break;
+          case 'get_timeline':
+            result = await handleGetTimeline(args, user);
+            break;
+          case 'create_action_item':
+            result = await handleCreateActionItem(args, user);
+            // get_incident lists the action items
             responseCache.invalidateIncident(args.incident_id);
             break;
+          case 'update_action_item':
+            result = await handleUpdateActionItem(args, user);
+            if (result.structuredContent?.incident_id) {
+              responseCache.invalidateIncident(result.structuredContent.incident_id);
+            }
+            break;
+          case 'list_action_items':
+            result = await handleListActionItems(args, user);
+            break;
+          case 'rate_solution':
+            result = await handleRateSolution(args, user);
+            // The new score reorders solutions in get_incident, searches and similarity results
+            if (result.structuredContent?.incident_id) {
+              responseCache.invalidateIncident(result.structuredContent.incident_id);
+              responseCache.invalidateType('searches');
+              responseCache.invalidateType('similar');
+            }
+            break;
+          case 'get_solution_feedback':
+            result = await handleGetSolutionFeedback(args, user);
+            break;
+          case 'describe_tool':
+            result = await handleDescribeTool(args);
+            break;
           case 'export_knowledge':
-            result = await handleExportKnowledge(args);
-            // Cache export data
-            const exportKey = JSON.stringify({ name, args });
-            responseCache.cacheExportData(args.format || 'json', args.filter || {}, result);
+            result = await handleExportKnowledge(args, user);
+            // Cache export data per viewer
+            responseCache.cacheExportData(args.format || 'json', { filter: args.filter || {}, viewer }, result);
             break;
           default:
             throw new Error(`Unknown tool: ${name}`);
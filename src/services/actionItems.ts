@@ -0,0 +1,186 @@
+/**
+ * Action items: the follow-up work an incident leaves behind, with an owner, a due date and a
+ * status, so prevention advice from lessons learned does not stay free text nobody tracks.
+ */
+
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { Filter, QueryBuilder, type FilterNode, type OptionalFilter } from '../db/queries.js';
+import { ACTION_ITEM_PRIORITIES, ACTION_ITEM_STATUSES } from '../db/schema.js';
+import { ownership, visibilityFilter, type UserIdentity } from './identity.js';
+import { config } from '../config.js';
+
+export type ActionItemStatus = 'open' | 'in_progress' | 'done' | 'cancelled';
+export type ActionItemPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface NewActionItem {
+  title: string;
+  description?: string;
+  owner?: string;
+  due_date?: string;
+  priority?: ActionItemPriority;
+  lesson_id?: string;
+}
+
+export interface ActionItemChanges {
+  title?: string;
+  description?: string;
+  owner?: string;
+  // null clears the due date
+  due_date?: string | null;
+  status?: ActionItemStatus;
+  priority?: ActionItemPriority;
+}
+
+export interface ActionItemFilters {
+  incident_id?: string;
+  owner?: string;
+  status?: ActionItemStatus;
+  // Only unfinished items whose due date has passed
+  overdue?: boolean;
+  limit?: number;
+}
+
+export interface ActionItemCounts {
+  open: number;
+  overdue: number;
+}
+
+// Statuses that still need work
+export const PENDING_ACTION_STATUSES: ActionItemStatus[] = ['open', 'in_progress'];
+
+export function isActionItemStatus(value: unknown): value is ActionItemStatus {
+  return typeof value === 'string' && ACTION_ITEM_STATUSES.includes(value);
+}
+
+export function isActionItemPriority(value: unknown): value is ActionItemPriority {
+  return typeof value === 'string' && ACTION_ITEM_PRIORITIES.includes(value);
+}
+
+export function isOverdue(item: { status: string; due_date?: string | null }, now: Date = new Date()): boolean {
+  return PENDING_ACTION_STATUSES.includes(item.status as ActionItemStatus)
+    && !!item.due_date
+    && new Date(item.due_date).getTime() < now.getTime();
+}
+
+/**
+ * isOverdue as a PocketBase filter
+ */
+export function overdueFilter(now: Date = new Date()): FilterNode {
+  return Filter.and(
+    Filter.in('status', PENDING_ACTION_STATUSES),
+    Filter.neq('due_date', ''),
+    Filter.lt('due_date', now)
+  );
+}
+
+export class ActionItemService {
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  private get collectionUrl(): string {
+    return `${this.baseUrl}/api/collections/action_items/records`;
+  }
+
+  async create(incidentId: string, item: NewActionItem, user: UserIdentity): Promise<any> {
+    const response = await makeAuthenticatedRequest(this.collectionUrl, {
+      method: 'POST',
+      body: JSON.stringify({
+        incident_id: incidentId,
+        lesson_id: item.lesson_id ?? '',
+        title: item.title,
+        description: item.description ?? '',
+        owner: item.owner ?? '',
+        due_date: item.due_date ?? '',
+        status: 'open',
+        priority: item.priority ?? 'medium',
+        ...ownership(user),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create action item: ${response.status} ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Fetch one action item with its incident, so callers can check the incident's visibility
+   */
+  async get(id: string): Promise<any> {
+    const response = await makeAuthenticatedRequest(`${this.collectionUrl}/${encodeURIComponent(id)}?expand=incident_id`);
+    if (!response.ok) {
+      throw new Error('Action item not found');
+    }
+    return response.json();
+  }
+
+  /**
+   * Apply changes; finishing an item stamps completed_at and reopening it clears the stamp
+   */
+  async update(current: any, changes: ActionItemChanges, now: Date = new Date()): Promise<any> {
+    const body: Record<string, unknown> = { ...changes };
+    if (changes.due_date === null) {
+      body.due_date = '';
+    }
+    if (changes.status && changes.status !== current.status) {
+      body.completed_at = changes.status === 'done' ? now.toISOString() : '';
+    }
+
+    const response = await makeAuthenticatedRequest(`${this.collectionUrl}/${encodeURIComponent(current.id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update action item: ${response.status} ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Action items on incidents the user may see, soonest due first (items without a due date last)
+   */
+  async list(filters: ActionItemFilters, user: UserIdentity, now: Date = new Date()): Promise<{ items: any[]; total: number }> {
+    const data = await new QueryBuilder('/api/collections/action_items/records')
+      .filter(Filter.and(
+        visibilityFilter(user, 'incident_id'),
+        filters.incident_id && Filter.eq('incident_id', filters.incident_id),
+        filters.owner && Filter.eq('owner', filters.owner),
+        filters.status && Filter.eq('status', filters.status),
+        filters.overdue && overdueFilter(now)
+      ))
+      .sort('due_date', 'asc')
+      .limit(filters.limit ?? 50)
+      .noCache()
+      .execute();
+
+    const items = data.items || [];
+    const dated = items.filter((item: any) => item.due_date);
+    return { items: [...dated, ...items.filter((item: any) => !item.due_date)], total: data.totalItems ?? items.length };
+  }
+
+  /**
+   * How many visible action items are still pending, and how many of those are overdue
+   */
+  async counts(user: UserIdentity, now: Date = new Date()): Promise<ActionItemCounts> {
+    const visible = visibilityFilter(user, 'incident_id');
+    const count = async (filter: OptionalFilter) => {
+      const data = await new QueryBuilder('/api/collections/action_items/records')
+        .filter(Filter.and(visible, filter))
+        .limit(1)
+        .select(['id'])
+        .noCache()
+        .execute();
+      return data.totalItems ?? 0;
+    };
+
+    const [open, overdue] = await Promise.all([
+      count(Filter.in('status', PENDING_ACTION_STATUSES)),
+      count(overdueFilter(now)),
+    ]);
+    return { open, overdue };
+  }
+}
+
+export const actionItemService = new ActionItemService();
@@ -0,0 +1,80 @@
+/**
+ * API keys of service accounts, accepted by the HTTP transport in place of static MCP_AUTH_TOKENS.
+ * Keys are issued and revoked through the REST API (api/); this side only checks them.
+ */
+
+import { createHash } from 'node:crypto';
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { Filter, filterParam } from '../db/queries.js';
+import { toIdentity, type UserIdentity } from './identity.js';
+import { apiKeyStatus, shouldTouchLastUsed } from '../shared/apiKeys.js';
+import { logger } from '../utils/logger.js';
+import { config } from '../config.js';
+
+export interface VerifiedApiKey {
+  keyId: string;
+  name: string;
+  // The service account, limited to the key's scopes
+  user: UserIdentity;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export class ApiKeyService {
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * Resolve a presented key to its service account; throws for unknown, expired and revoked keys
+   */
+  async verify(key: string, now: Date = new Date()): Promise<VerifiedApiKey> {
+    const filter = filterParam(Filter.eq('key_hash', hashApiKey(key)));
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/api_keys/records?${filter}&expand=user&perPage=1&skipTotal=1`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to look up API key: ${response.status}`);
+    }
+
+    const record = (await response.json()).items?.[0];
+    if (!record || !record.expand?.user) {
+      throw new Error('Unknown API key');
+    }
+    const status = apiKeyStatus(record, now);
+    if (status !== 'active') {
+      throw new Error(`API key is ${status}`);
+    }
+
+    if (shouldTouchLastUsed(record, now)) {
+      void this.touch(record.id, now);
+    }
+
+    return {
+      keyId: record.id,
+      name: record.name,
+      user: { ...toIdentity(record.expand.user), scopes: Array.isArray(record.scopes) ? record.scopes : [] },
+    };
+  }
+
+  /**
+   * Record when the key was last used; failures are logged and never thrown
+   */
+  private async touch(id: string, now: Date): Promise<void> {
+    try {
+      const response = await makeAuthenticatedRequest(`${this.baseUrl}/api/collections/api_keys/records/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ last_used_at: now.toISOString() }),
+      });
+      if (!response.ok) {
+        logger.warn('Failed to record API key use', { keyId: id, status: response.status });
+      }
+    } catch (error) {
+      logger.warn('Failed to record API key use', { keyId: id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
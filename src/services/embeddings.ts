@@ -0,0 +1,226 @@
+/**
+ * Embedding providers for semantic search and the `embeddings` collection that caches their vectors
+ */
+
+import { createHash } from 'crypto';
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { Filter, filterParam } from '../db/queries.js';
+import { stem, tokenize } from './text.js';
+import { config } from '../config.js';
+
+export interface EmbeddingProvider {
+  /**
+   * Stored with each vector so switching providers re-embeds everything
+   */
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface StoredEmbedding {
+  id: string;
+  record_type: string;
+  record_id: string;
+  content_hash: string;
+  vector: number[];
+}
+
+const HASHING_DIMENSIONS = 512;
+
+// Words that describe the same failure in different terms. Each group adds a shared
+// feature, so "OOM killed" and "memory exhaustion" land near each other.
+const CONCEPT_GROUPS: Record<string, string[]> = {
+  memory: ['oom', 'oomkilled', 'outofmemory', 'memory', 'heap', 'rss', 'ram', 'swap', 'gc', 'leak'],
+  latency: ['slow', 'slowness', 'latency', 'lag', 'sluggish', 'delay', 'timeout', 'hang', 'hung', 'stall', 'unresponsive'],
+  crash: ['crash', 'panic', 'segfault', 'abort', 'killed', 'crashloop', 'restart', 'sigkill', 'exit'],
+  database: ['database', 'db', 'postgres', 'postgresql', 'mysql', 'mariadb', 'sql', 'query', 'mongo', 'mongodb', 'replica', 'deadlock'],
+  network: ['network', 'dns', 'tcp', 'connection', 'socket', 'refused', 'unreachable', 'packet', 'econnrefused', 'econnreset'],
+  auth: ['auth', 'authentication', 'login', 'token', 'jwt', 'password', 'unauthorized', 'forbidden', 'permission', 'credential', 'session', '401', '403'],
+  storage: ['disk', 'storage', 'volume', 'inode', 'enospc', 'filesystem', 'space'],
+  cpu: ['cpu', 'throttle', 'throttling', 'spike', 'saturation', 'saturated'],
+  deploy: ['deploy', 'deployment', 'release', 'rollout', 'rollback', 'migration'],
+  cache: ['cache', 'redis', 'memcached', 'eviction', 'evict'],
+  certificate: ['tls', 'ssl', 'cert', 'certificate', 'expired', 'https', 'handshake'],
+  queue: ['queue', 'kafka', 'rabbitmq', 'backlog', 'consumer', 'producer', 'offset'],
+  error: ['error', 'exception', 'failure', 'fail', '500', '502', '503', '5xx', 'fault'],
+};
+
+const CONCEPTS = new Map<string, string>(
+  Object.entries(CONCEPT_GROUPS).flatMap(([concept, words]) => words.map(word => [stem(word), concept] as [string, string]))
+);
+
+function hash32(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map(value => value / length);
+}
+
+/**
+ * Offline default: words, character trigrams and concept groups hashed into a fixed-size
+ * vector. Trigrams catch spelling variants ("postgres"/"postgresql"); concepts catch synonyms.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing-v1';
+
+  constructor(readonly dimensions: number = HASHING_DIMENSIONS) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = hash32(feature);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const token of tokenize(text)) {
+      const term = stem(token);
+      add(`w:${term}`, 1);
+
+      const concept = CONCEPTS.get(term);
+      if (concept) {
+        add(`c:${concept}`, 1.5);
+      }
+
+      const padded = `#${term}#`;
+      const trigrams = Math.max(padded.length - 2, 1);
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5 / Math.sqrt(trigrams));
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+const EMBEDDING_PROVIDERS = new Map<string, () => EmbeddingProvider>([
+  ['hashing', () => new HashingEmbeddingProvider()],
+]);
+
+/**
+ * Make a provider available under EMBEDDING_PROVIDER=<name>, e.g. a local model runtime
+ */
+export function registerEmbeddingProvider(name: string, factory: () => EmbeddingProvider): void {
+  EMBEDDING_PROVIDERS.set(name, factory);
+}
+
+export function createEmbeddingProvider(name: string = config.search.embeddingProvider): EmbeddingProvider {
+  const factory = EMBEDDING_PROVIDERS.get(name);
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${name}"; registered: ${[...EMBEDDING_PROVIDERS.keys()].join(', ')}`);
+  }
+  return factory();
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let lengthA = 0;
+  let lengthB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    lengthA += a[i] * a[i];
+    lengthB += b[i] * b[i];
+  }
+  return lengthA === 0 || lengthB === 0 ? 0 : dot / Math.sqrt(lengthA * lengthB);
+}
+
+/**
+ * Fingerprint of the embedded text, so unchanged records keep their stored vector
+ */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 32);
+}
+
+/**
+ * Persists vectors in the `embeddings` collection, one row per record and provider
+ */
+export class EmbeddingStore {
+  private available = true;
+
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * All stored vectors for a provider, keyed by `${record_type}:${record_id}`
+   */
+  async load(provider: string): Promise<Map<string, StoredEmbedding>> {
+    const stored = new Map<string, StoredEmbedding>();
+    const filter = filterParam(Filter.eq('provider', provider));
+
+    for (let page = 1; ; page++) {
+      const response = await makeAuthenticatedRequest(
+        `${this.baseUrl}/api/collections/embeddings/records?${filter}&page=${page}&perPage=500&skipTotal=1&fields=id,record_type,record_id,content_hash,vector`
+      );
+      if (response.status === 404) {
+        // Databases that predate the embeddings collection just skip persistence
+        this.available = false;
+        return stored;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load stored embeddings');
+      }
+
+      const data = await response.json();
+      for (const item of data.items) {
+        stored.set(`${item.record_type}:${item.record_id}`, item);
+      }
+      if (data.items.length < 500) {
+        return stored;
+      }
+    }
+  }
+
+  async save(
+    provider: string,
+    entry: Omit<StoredEmbedding, 'id'>,
+    existingId?: string
+  ): Promise<StoredEmbedding | null> {
+    if (!this.available) {
+      return null;
+    }
+
+    const url = existingId
+      ? `${this.baseUrl}/api/collections/embeddings/records/${encodeURIComponent(existingId)}`
+      : `${this.baseUrl}/api/collections/embeddings/records`;
+    const response = await makeAuthenticatedRequest(url, {
+      method: existingId ? 'PATCH' : 'POST',
+      body: JSON.stringify({ ...entry, provider }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to store embedding for ${entry.record_type} ${entry.record_id}`);
+    }
+    return response.json();
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (!this.available) {
+      return;
+    }
+
+    for (const id of ids) {
+      const response = await makeAuthenticatedRequest(
+        `${this.baseUrl}/api/collections/embeddings/records/${encodeURIComponent(id)}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to delete embedding ${id}`);
+      }
+    }
+  }
+}
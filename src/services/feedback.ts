@@ -0,0 +1,105 @@
+/**
+ * Solution feedback: ratings and "did it work" answers, rolled up into the solution's
+ * effectiveness_score (see src/shared/solutionEffectiveness.ts) whenever feedback arrives.
+ */
+
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { Filter, filterParam } from '../db/queries.js';
+import { ownership, type UserIdentity } from './identity.js';
+import { summarizeFeedback, type EffectivenessSummary } from '../shared/solutionEffectiveness.js';
+import { config } from '../config.js';
+
+export interface NewFeedback {
+  rating: number;
+  worked?: boolean;
+  comment?: string;
+  time_spent?: string;
+}
+
+export interface SolutionFeedback {
+  feedback: any[];
+  summary: EffectivenessSummary;
+}
+
+const PAGE_SIZE = 500;
+
+export class FeedbackService {
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * Store one piece of feedback and refresh the solution's score; returns the feedback,
+   * the updated solution and the new summary
+   */
+  async rate(solutionId: string, feedback: NewFeedback, user: UserIdentity): Promise<{ feedback: any; solution: any; summary: EffectivenessSummary }> {
+    const response = await makeAuthenticatedRequest(`${this.baseUrl}/api/collections/feedback/records`, {
+      method: 'POST',
+      body: JSON.stringify({
+        solution_id: solutionId,
+        rating: feedback.rating,
+        worked: feedback.worked,
+        comment: feedback.comment ?? '',
+        time_spent: feedback.time_spent ?? '',
+        ...ownership(user),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save feedback: ${response.status} ${await response.text()}`);
+    }
+    const stored = await response.json();
+    const { solution, summary } = await this.refreshScore(solutionId);
+    return { feedback: stored, solution, summary };
+  }
+
+  /**
+   * Recompute a solution's effectiveness_score from all of its feedback
+   */
+  async refreshScore(solutionId: string): Promise<{ solution: any; summary: EffectivenessSummary }> {
+    const summary = summarizeFeedback(await this.loadAll(solutionId, ['rating', 'worked']));
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/solutions/records/${encodeURIComponent(solutionId)}`,
+      { method: 'PATCH', body: JSON.stringify({ effectiveness_score: summary.effectiveness_score }) }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to update solution score: ${response.status} ${await response.text()}`);
+    }
+    return { solution: await response.json(), summary };
+  }
+
+  /**
+   * The most recent feedback of a solution, with a summary over all of it
+   */
+  async get(solutionId: string, limit: number = 20): Promise<SolutionFeedback> {
+    const feedback = await this.loadAll(solutionId);
+    return {
+      feedback: feedback.slice(0, limit),
+      summary: summarizeFeedback(feedback),
+    };
+  }
+
+  // Newest first
+  private async loadAll(solutionId: string, fields: string[] = []): Promise<any[]> {
+    const items: any[] = [];
+    const filter = filterParam(Filter.eq('solution_id', solutionId));
+
+    for (let page = 1; ; page++) {
+      const response = await makeAuthenticatedRequest(
+        `${this.baseUrl}/api/collections/feedback/records?${filter}&sort=-created&page=${page}&perPage=${PAGE_SIZE}&skipTotal=1${fields.length > 0 ? `&fields=${fields.join(',')}` : ''}`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to load feedback: ${response.status}`);
+      }
+
+      const data = await response.json();
+      items.push(...data.items);
+      if (data.items.length < PAGE_SIZE) {
+        return items;
+      }
+    }
+  }
+}
+
+export const feedbackService = new FeedbackService();
@@ -0,0 +1,165 @@
+/**
+ * Caller identity and incident visibility.
+ *
+ * Data access still goes through the admin token; the acting PocketBase user decides what
+ * is recorded as created_by and which incidents the tools, resources and prompts return.
+ */
+
+import { Filter, type FilterNode } from '../db/queries.js';
+import type { ApiKeyScope } from '../shared/permissions.js';
+import { canView, type VisibleRecord } from '../shared/visibility.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export { canView, type VisibleRecord };
+
+export interface UserIdentity {
+  // PocketBase users record ID; empty for the admin fallback
+  id: string;
+  email: string;
+  name: string;
+  team: string;
+  // Sees every incident. Only used when no user is configured and MCP_REQUIRE_USER is off.
+  admin: boolean;
+  // Set for service accounts signed in with an API key, which may only do what the key was issued for
+  scopes?: string[];
+}
+
+export const ADMIN_IDENTITY: UserIdentity = Object.freeze({ id: '', email: '', name: 'admin', team: '', admin: true });
+
+export function toIdentity(record: any): UserIdentity {
+  return {
+    id: record.id,
+    email: record.email || '',
+    name: record.name || record.username || record.email || record.id,
+    team: record.team || '',
+    admin: false,
+  };
+}
+
+/**
+ * Whether the user owns a record: its creator, or an admin. Owners alone change visibility and delete.
+ */
+export function isOwner(user: UserIdentity, record: VisibleRecord): boolean {
+  return user.admin || (!!record.created_by && record.created_by === user.id);
+}
+
+/**
+ * Whether the user may change an incident they can see: its owner, a member of its team, or an admin.
+ * Everyone else, e.g. readers of a public incident, only reads.
+ */
+export function canEdit(user: UserIdentity, record: VisibleRecord): boolean {
+  return canView(user, record) && (isOwner(user, record) || (user.team !== '' && record.team === user.team));
+}
+
+/**
+ * The same rule as canView as a PocketBase filter, or null when the caller sees everything.
+ * `via` names the relation to go through, e.g. 'incident_id' for solutions and lessons.
+ */
+export function visibilityFilter(user: UserIdentity, via?: string): FilterNode | null {
+  if (user.admin) {
+    return null;
+  }
+
+  const field = (name: string) => (via ? `${via}.${name}` : name);
+  return Filter.or(
+    Filter.eq(field('visibility'), 'public'),
+    Filter.eq(field('created_by'), user.id),
+    user.team !== '' && Filter.and(Filter.eq(field('visibility'), 'team'), Filter.eq(field('team'), user.team))
+  );
+}
+
+/**
+ * Fields a new incident, solution or lesson records about its creator
+ */
+export function ownership(user: UserIdentity, withTeam: boolean = false): Record<string, string> {
+  if (user.admin) {
+    return {};
+  }
+  return withTeam ? { created_by: user.id, team: user.team } : { created_by: user.id };
+}
+
+export class IdentityService {
+  private configured: UserIdentity | null = null;
+  // Only a local stdio client may fall back to the admin; HTTP sessions are shared and must name a user
+  private transport: 'stdio' | 'http' = 'stdio';
+
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * Resolve a PocketBase user auth token (sent by an HTTP client or set in POCKETBASE_USER_TOKEN)
+   */
+  async verifyToken(token: string): Promise<UserIdentity> {
+    const response = await fetch(`${this.baseUrl}/api/collections/users/auth-refresh`, {
+      method: 'POST',
+      headers: { 'Authorization': token },
+      signal: AbortSignal.timeout(config.pocketbase.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`PocketBase user token was rejected (${response.status})`);
+    }
+    return toIdentity((await response.json()).record);
+  }
+
+  async signIn(email: string, password: string): Promise<UserIdentity> {
+    const response = await fetch(`${this.baseUrl}/api/collections/users/auth-with-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ identity: email, password }),
+      signal: AbortSignal.timeout(config.pocketbase.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`PocketBase user sign-in failed for ${email} (${response.status})`);
+    }
+    return toIdentity((await response.json()).record);
+  }
+
+  /**
+   * Load the user configured through the environment, if any. Called once at startup with the transport being served.
+   */
+  async init(transport: 'stdio' | 'http' = 'stdio'): Promise<UserIdentity | null> {
+    const { userToken, userEmail, userPassword } = config.identity;
+    this.transport = transport;
+
+    if (userToken) {
+      this.configured = await this.verifyToken(userToken);
+    } else if (userEmail && userPassword) {
+      this.configured = await this.signIn(userEmail, userPassword);
+    } else {
+      this.configured = null;
+      if (!this.allowsAdminFallback()) {
+        logger.info('No PocketBase user configured; MCP calls without their own credentials are refused');
+      } else {
+        logger.warn('No PocketBase user configured; MCP calls without their own credentials see every incident');
+      }
+    }
+
+    return this.configured;
+  }
+
+  /**
+   * The caller of one request: the session's user if the transport signed one in,
+   * else the configured user, else the admin fallback over stdio unless MCP_REQUIRE_USER is set.
+   * Pass the scope the request needs to refuse API keys issued without it.
+   */
+  resolve(sessionUser?: UserIdentity | null, scope?: ApiKeyScope): UserIdentity {
+    const user = sessionUser ?? this.configured ?? (this.allowsAdminFallback() ? ADMIN_IDENTITY : null);
+    if (!user) {
+      throw new Error('Sign in required: send a PocketBase user token in the X-PocketBase-Token header');
+    }
+    if (scope && user.scopes && !user.scopes.includes(scope)) {
+      throw new Error(`This API key lacks the ${scope} scope`);
+    }
+    return user;
+  }
+
+  private allowsAdminFallback(): boolean {
+    return this.transport === 'stdio' && !config.identity.requireUser;
+  }
+}
+
+export const identityService = new IdentityService();
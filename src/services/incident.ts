@@ -0,0 +1,162 @@
+/**
+ * Incident merging: folds duplicate reports, their solutions and lessons into one surviving incident
+ */
+
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { Filter, filterParam } from '../db/queries.js';
+import { INCIDENT_SEVERITIES } from '../db/schema.js';
+import { taggingService } from './tagging.js';
+import { planTransition } from '../shared/incidentStatus.js';
+import { config } from '../config.js';
+
+export interface MergeResult {
+  incident: any;
+  merged: any[];
+  solutions: any[];
+  lessons: any[];
+}
+
+export const MAX_MERGE_SOURCES = 10;
+
+/**
+ * Symptoms are free text (one per line) or a JSON array, depending on who wrote them
+ */
+export function symptomLines(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Union of symptoms in first-seen order, keeping the target's array or text shape
+ */
+export function mergeSymptoms(target: unknown, ...others: unknown[]): string | string[] {
+  const lines = [...new Set([target, ...others].flatMap(symptomLines))];
+  return Array.isArray(target) ? lines : lines.join('\n');
+}
+
+export function higherSeverity(a: string, b: string): string {
+  return INCIDENT_SEVERITIES.indexOf(b) > INCIDENT_SEVERITIES.indexOf(a) ? b : a;
+}
+
+export class IncidentService {
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * Fold a new report into an existing incident instead of creating a duplicate:
+   * its symptoms are added and the severity is raised if the report is more severe.
+   */
+  async foldReport(targetId: string, report: { severity: string; symptoms?: unknown }): Promise<any> {
+    const target = await this.getIncident(targetId);
+
+    await this.patch('incidents', target.id, {
+      symptoms: mergeSymptoms(target.symptoms, report.symptoms),
+      severity: higherSeverity(target.severity, report.severity),
+    });
+
+    return this.getIncident(target.id);
+  }
+
+  /**
+   * Move the solutions and lessons of each source onto the target, merge symptoms, tags and
+   * severity, then archive the sources with duplicate_of pointing at the target. Sources are
+   * archived last, so a failure part-way leaves them active and the merge can be retried.
+   */
+  async mergeIncidents(targetId: string, sourceIds: string[]): Promise<MergeResult> {
+    const target = await this.getIncident(targetId);
+    if (target.duplicate_of) {
+      throw new Error(`Incident ${target.id} was already merged into ${target.duplicate_of}`);
+    }
+
+    const sources = [];
+    for (const id of sourceIds) {
+      sources.push(await this.getIncident(id));
+    }
+
+    const solutions = [];
+    const lessons = [];
+    for (const source of sources) {
+      for (const solution of await this.listChildren('solutions', source.id)) {
+        solutions.push(await this.patch('solutions', solution.id, { incident_id: target.id }));
+      }
+      for (const lesson of await this.listChildren('lessons_learned', source.id)) {
+        lessons.push(await this.patch('lessons_learned', lesson.id, { incident_id: target.id }));
+      }
+    }
+
+    await this.patch('incidents', target.id, {
+      symptoms: mergeSymptoms(target.symptoms, ...sources.map(source => source.symptoms)),
+      severity: sources.reduce((severity, source) => higherSeverity(severity, source.severity), target.severity),
+    });
+
+    const tagNames = [...new Set(sources.flatMap(source => (source.expand?.tags ?? []).map((tag: any) => tag.tag_name)))];
+    if (tagNames.length > 0) {
+      await taggingService.addTags(target.id, tagNames as string[]);
+    }
+
+    const merged = [];
+    for (const source of sources) {
+      // Duplicates are archived through the shared state machine; already archived ones only get the link
+      const archive = source.status === 'archived'
+        ? {}
+        : planTransition(source.status, 'archived', { reason: `Duplicate of ${target.id}` }).changes;
+      merged.push(await this.patch('incidents', source.id, { ...archive, duplicate_of: target.id }));
+    }
+
+    return { incident: await this.getIncident(target.id), merged, solutions, lessons };
+  }
+
+  private async getIncident(id: string): Promise<any> {
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/incidents/records/${encodeURIComponent(id)}?expand=tags`
+    );
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? `Incident ${id} not found` : `Failed to load incident ${id}`);
+    }
+    return response.json();
+  }
+
+  private async listChildren(collection: string, incidentId: string): Promise<any[]> {
+    const items: any[] = [];
+    const filter = filterParam(Filter.eq('incident_id', incidentId));
+
+    for (let page = 1; ; page++) {
+      const response = await makeAuthenticatedRequest(
+        `${this.baseUrl}/api/collections/${collection}/records?${filter}&page=${page}&perPage=500&skipTotal=1`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to load ${collection} for incident ${incidentId}`);
+      }
+
+      const data = await response.json();
+      items.push(...data.items);
+      if (data.items.length < 500) {
+        return items;
+      }
+    }
+  }
+
+  private async patch(collection: string, id: string, body: Record<string, unknown>): Promise<any> {
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/${collection}/records/${encodeURIComponent(id)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(`Failed to update ${collection} record ${id}: ${error.message || 'Unknown error'}`);
+    }
+    return response.json();
+  }
+}
+
+export const incidentService = new IncidentService();
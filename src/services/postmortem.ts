@@ -0,0 +1,340 @@
+/**
+ * Blameless postmortems: assembles an incident, its solutions, lessons and feedback into
+ * summary, impact, timeline, root cause, what went well or badly, and action items,
+ * rendered as markdown through a section template.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { isAbsolute, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { IncidentQueries, SolutionQueries, LessonQueries, FeedbackQueries, TimelineQueries } from '../db/queries.js';
+import { canView, type UserIdentity } from './identity.js';
+import { symptomLines } from './incident.js';
+import { computeTimeMetrics, sortEvents } from './timeline.js';
+import { config } from '../config.js';
+
+export interface PostmortemData {
+  incident: any;
+  solutions: any[];
+  lessons: any[];
+  feedback: any[];
+  // Timeline events; incidents from before timelines existed have none
+  events?: any[];
+}
+
+export interface TimelineEntry {
+  at: string;
+  event: string;
+}
+
+export interface PostmortemSection {
+  heading: string;
+  markdown: string;
+}
+
+export interface Postmortem {
+  incident_id: string;
+  title: string;
+  status: string;
+  generated_at: string;
+  summary: string;
+  impact: {
+    severity: string;
+    category: string;
+    frequency: string;
+    environment: string;
+    symptoms: string[];
+    duration_minutes: number | null;
+    time_to_acknowledge_minutes: number | null;
+  };
+  timeline: TimelineEntry[];
+  root_cause: string | null;
+  went_well: string[];
+  went_badly: string[];
+  action_items: string[];
+  sections: PostmortemSection[];
+}
+
+const PostmortemTemplateSchema = z.object({
+  title: z.string().default('Postmortem: {{incident.title}}'),
+  sections: z
+    .array(z.object({ heading: z.string().min(1), body: z.string() }))
+    .min(1, 'A postmortem template needs at least one section'),
+});
+
+export type PostmortemTemplate = z.infer<typeof PostmortemTemplateSchema>;
+
+export const DEFAULT_POSTMORTEM_TEMPLATE: PostmortemTemplate = {
+  title: 'Postmortem: {{incident.title}}',
+  sections: [
+    { heading: 'Summary', body: '{{summary}}' },
+    { heading: 'Impact', body: '{{impact}}' },
+    { heading: 'Timeline', body: '{{timeline}}' },
+    { heading: 'Root Cause', body: '{{root_cause}}' },
+    { heading: 'What Went Well', body: '{{went_well}}' },
+    { heading: "What Didn't Go Well", body: '{{went_badly}}' },
+    { heading: 'Action Items', body: '{{action_items}}' },
+  ],
+};
+
+// Placeholders a template may use besides {{incident.<field>}}
+const PLACEHOLDERS = [
+  'summary', 'impact', 'timeline', 'root_cause', 'went_well', 'went_badly',
+  'action_items', 'solutions', 'lessons', 'duration', 'generated_at',
+];
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Lesson types that describe something to change rather than something that happened
+const ACTIONABLE_LESSON_TYPES = new Set(['prevention', 'detection']);
+const GOOD_RATING = 4;
+const POOR_RATING = 3;
+
+const PROJECT_ROOT = fileURLToPath(new URL('../../', import.meta.url));
+
+function text(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'string' ? value.trim() : JSON.stringify(value);
+}
+
+function bulletList(items: string[], empty: string): string {
+  return items.length > 0 ? items.map(item => `- ${item}`).join('\n') : `_${empty}_`;
+}
+
+export function formatDuration(minutes: number | null): string {
+  if (minutes === null) {
+    return 'ongoing';
+  }
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) {
+    return `${hours} h ${minutes % 60} min`;
+  }
+  return `${Math.floor(hours / 24)} days ${hours % 24} h`;
+}
+
+/**
+ * Parse and check a template; unknown placeholders are rejected so typos do not end up in the document
+ */
+export function parsePostmortemTemplate(raw: unknown): PostmortemTemplate {
+  const template = PostmortemTemplateSchema.parse(raw);
+
+  for (const source of [template.title, ...template.sections.map(section => section.body)]) {
+    for (const [, name] of source.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!PLACEHOLDERS.includes(name) && !name.startsWith('incident.')) {
+        throw new Error(`Unknown postmortem placeholder {{${name}}}. Use one of ${PLACEHOLDERS.join(', ')} or incident.<field>`);
+      }
+    }
+  }
+  return template;
+}
+
+/**
+ * The template at POSTMORTEM_TEMPLATE (relative to the project root), or the built-in one when the file does not exist
+ */
+export function loadPostmortemTemplate(path: string = config.postmortem.templatePath): PostmortemTemplate {
+  const file = isAbsolute(path) ? path : join(PROJECT_ROOT, path);
+  if (!existsSync(file)) {
+    return DEFAULT_POSTMORTEM_TEMPLATE;
+  }
+
+  try {
+    return parsePostmortemTemplate(JSON.parse(readFileSync(file, 'utf8')));
+  } catch (error) {
+    throw new Error(`Invalid postmortem template ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function averageRating(feedback: any[]): number | null {
+  const ratings = feedback.map(entry => Number(entry.rating)).filter(rating => Number.isFinite(rating));
+  return ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null;
+}
+
+/**
+ * The recorded timeline events plus feedback ratings; without events the timeline is
+ * reconstructed from when the records were created
+ */
+export function buildTimeline({ incident, solutions, lessons, feedback, events = [] }: PostmortemData): TimelineEntry[] {
+  const titles = new Map(solutions.map(solution => [solution.id, solution.solution_title]));
+  const ratings = feedback.map(entry => ({
+    at: entry.created,
+    event: `"${titles.get(entry.solution_id) ?? entry.solution_id}" rated ${entry.rating}/5${entry.worked === false ? ', did not work' : ''}`,
+  }));
+
+  const entries: TimelineEntry[] = events.length > 0
+    ? [...sortEvents(events).map(event => ({ at: event.occurred_at, event: event.message || event.event_type })), ...ratings]
+    : [
+        { at: incident.created, event: `Incident reported (${incident.severity}, ${incident.category})` },
+        ...solutions.map(solution => ({ at: solution.created, event: `Solution documented: ${solution.solution_title}` })),
+        ...lessons.map(lesson => ({ at: lesson.created, event: `Lesson recorded (${lesson.lesson_type || 'general'})` })),
+        ...ratings,
+        ...(incident.resolved_at ? [{ at: incident.resolved_at, event: 'Incident resolved' }] : []),
+      ];
+
+  return entries
+    .filter(entry => entry.at)
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * Assemble the postmortem. Pure: all records are passed in, so it can be rendered from any source.
+ */
+export function buildPostmortem(
+  data: PostmortemData,
+  template: PostmortemTemplate = DEFAULT_POSTMORTEM_TEMPLATE,
+  now: Date = new Date()
+): { postmortem: Postmortem; markdown: string } {
+  const { incident, solutions, lessons, feedback } = data;
+
+  const metrics = data.events?.length ? computeTimeMetrics(incident, data.events) : null;
+  const durationMinutes = metrics
+    ? metrics.time_to_resolve_minutes
+    : incident.resolved_at
+      ? Math.max(0, Math.round((new Date(incident.resolved_at).getTime() - new Date(incident.created).getTime()) / 60000))
+      : null;
+  const acknowledgeMinutes = metrics?.time_to_acknowledge_minutes ?? null;
+  const symptoms = symptomLines(incident.symptoms);
+  const timeline = buildTimeline(data);
+
+  const wentWell: string[] = [];
+  const wentBadly: string[] = [];
+
+  for (const solution of solutions) {
+    const ratings = feedback.filter(entry => entry.solution_id === solution.id);
+    const average = averageRating(ratings);
+    const rated = average === null ? '' : ` (rated ${average.toFixed(1)}/5 from ${ratings.length} rating(s))`;
+
+    if ((average !== null && average >= GOOD_RATING) || (average === null && solution.is_verified)) {
+      wentWell.push(`"${solution.solution_title}" fixed the problem${rated || ' (verified)'}`);
+    } else if (average !== null && (average < POOR_RATING || ratings.some(entry => entry.worked === false))) {
+      wentBadly.push(`"${solution.solution_title}" did not reliably fix the problem${rated}`);
+    }
+  }
+
+  if (durationMinutes !== null) {
+    wentWell.push(`Resolved ${formatDuration(durationMinutes)} after it was reported`);
+  }
+  if (solutions.length === 0) {
+    wentBadly.push('No solution was documented');
+  }
+  if (!text(incident.root_cause)) {
+    wentBadly.push('The root cause was not identified');
+  }
+  if (['frequent', 'recurring'].includes(incident.frequency)) {
+    wentBadly.push(`The problem is ${incident.frequency}: it has happened before`);
+  }
+
+  const actionItems = [
+    ...lessons
+      .filter(lesson => ACTIONABLE_LESSON_TYPES.has(lesson.lesson_type))
+      .map(lesson => `[${lesson.lesson_type}] ${text(lesson.lesson_text)}`),
+    ...solutions.flatMap(solution => symptomLines(solution.warnings).map(warning => `[follow-up] ${warning}`)),
+  ];
+
+  const rootCause = text(incident.root_cause) || null;
+  const summary = `${incident.title}: a ${incident.severity} ${incident.category} incident, ${
+    durationMinutes === null ? `still ${incident.status}` : `resolved after ${formatDuration(durationMinutes)}`
+  }. ${text(incident.description)}`;
+  const impact = {
+    severity: incident.severity,
+    category: incident.category,
+    frequency: incident.frequency || 'one-time',
+    environment: text(incident.environment),
+    symptoms,
+    duration_minutes: durationMinutes,
+    time_to_acknowledge_minutes: acknowledgeMinutes,
+  };
+
+  const values: Record<string, string> = {
+    summary,
+    impact: [
+      `- **Severity:** ${impact.severity}`,
+      `- **Category:** ${impact.category}`,
+      ...(acknowledgeMinutes !== null ? [`- **Time to acknowledge:** ${formatDuration(acknowledgeMinutes)}`] : []),
+      `- **Duration:** ${formatDuration(durationMinutes)}`,
+      `- **Frequency:** ${impact.frequency}`,
+      ...(impact.environment ? [`- **Environment:** ${impact.environment}`] : []),
+      ...(symptoms.length > 0 ? [`- **Symptoms:**\n${symptoms.map(symptom => `  - ${symptom}`).join('\n')}`] : []),
+    ].join('\n'),
+    timeline: bulletList(timeline.map(entry => `**${new Date(entry.at).toISOString()}** ${entry.event}`), 'No events recorded'),
+    root_cause: rootCause ?? '_Not yet identified_',
+    went_well: bulletList(wentWell, 'Nothing recorded'),
+    went_badly: bulletList(wentBadly, 'Nothing recorded'),
+    action_items: bulletList(actionItems, 'No action items recorded'),
+    solutions: bulletList(solutions.map(solution => `**${solution.solution_title}**: ${text(solution.solution_description)}`), 'No solutions documented'),
+    lessons: bulletList(lessons.map(lesson => `**${lesson.lesson_type || 'general'}**: ${text(lesson.lesson_text)}`), 'No lessons recorded'),
+    duration: formatDuration(durationMinutes),
+    generated_at: now.toISOString(),
+  };
+
+  const render = (source: string) =>
+    source.replace(PLACEHOLDER_PATTERN, (_match, name: string) =>
+      name.startsWith('incident.') ? text(incident[name.slice('incident.'.length)]) : values[name]
+    );
+
+  const sections = template.sections.map(section => ({ heading: section.heading, markdown: render(section.body) }));
+  const title = render(template.title);
+  const markdown = [
+    `# ${title}`,
+    `_Blameless postmortem for incident ${incident.id} (${incident.status}), generated ${values.generated_at}_`,
+    ...sections.map(section => `## ${section.heading}\n\n${section.markdown}`),
+  ].join('\n\n');
+
+  return {
+    markdown,
+    postmortem: {
+      incident_id: incident.id,
+      title,
+      status: incident.status,
+      generated_at: values.generated_at,
+      summary,
+      impact,
+      timeline,
+      root_cause: rootCause,
+      went_well: wentWell,
+      went_badly: wentBadly,
+      action_items: actionItems,
+      sections,
+    },
+  };
+}
+
+export class PostmortemService {
+  /**
+   * Load everything a postmortem is built from; hidden incidents are reported as missing
+   */
+  async gather(incidentId: string, user: UserIdentity): Promise<PostmortemData> {
+    const incident = await IncidentQueries.getIncidentById(incidentId, true)
+      .noCache()
+      .execute()
+      .catch(() => null);
+    if (!incident || !canView(user, incident)) {
+      throw new Error('Incident not found');
+    }
+
+    const [solutionsData, lessonsData, eventsData] = await Promise.all([
+      SolutionQueries.getSolutionsByIncident(incidentId).noCache().execute(),
+      LessonQueries.getLessonsByIncident(incidentId).noCache().execute(),
+      // Deployments that have not run the timeline migration yet fall back to record dates
+      TimelineQueries.getEventsByIncident(incidentId).execute().catch(() => ({ items: [] })),
+    ]);
+    const solutions = solutionsData.items || [];
+
+    const feedback = solutions.length > 0
+      ? (await FeedbackQueries.getFeedbackBySolutions(solutions.map((solution: any) => solution.id)).noCache().execute()).items || []
+      : [];
+
+    return { incident, solutions, lessons: lessonsData.items || [], feedback, events: eventsData.items || [] };
+  }
+
+  async generate(incidentId: string, user: UserIdentity): Promise<{ postmortem: Postmortem; markdown: string }> {
+    const template = loadPostmortemTemplate();
+    return buildPostmortem(await this.gather(incidentId, user), template);
+  }
+}
+
+export const postmortemService = new PostmortemService();
@@ -0,0 +1,194 @@
+/**
+ * PocketBase realtime feed: one shared SSE connection to /api/realtime that reports record
+ * changes of the knowledge base collections to any number of listeners.
+ * Bun has no EventSource, so the stream is read with fetch.
+ */
+
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export type RecordAction = 'create' | 'update' | 'delete';
+
+export interface RecordChange {
+  collection: string;
+  action: RecordAction;
+  record: any;
+}
+
+export type ChangeListener = (change: RecordChange) => void;
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+export const REALTIME_COLLECTIONS = ['incidents', 'solutions', 'lessons_learned', 'timeline_events', 'action_items', 'tags', 'knowledge_base'];
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+/**
+ * Split buffered SSE text into complete events; `rest` is the unfinished tail to prepend to the next chunk
+ */
+export function parseSseEvents(text: string): { events: SseEvent[]; rest: string } {
+  const blocks = text.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+
+  const events = blocks
+    .map(block => {
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        const separator = line.indexOf(':');
+        // Lines starting with ':' are comments (keep-alives)
+        if (separator === 0) {
+          continue;
+        }
+        const field = separator > 0 ? line.slice(0, separator) : line;
+        const value = separator > 0 ? line.slice(separator + 1).replace(/^ /, '') : '';
+        if (field === 'event') {
+          event = value;
+        } else if (field === 'data') {
+          data.push(value);
+        }
+      }
+      return { event, data: data.join('\n') };
+    })
+    .filter(event => event.data !== '');
+
+  return { events, rest };
+}
+
+export class RealtimeService {
+  private listeners = new Set<ChangeListener>();
+  private controller: AbortController | null = null;
+  private running = false;
+  private connected = false;
+  private attempts = 0;
+
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * Receive every change; the connection is opened for the first listener and closed after the last one leaves
+   */
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    this.start();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  stop(): void {
+    this.running = false;
+    this.connected = false;
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    void this.run();
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      try {
+        await this.connect();
+      } catch (error) {
+        if (!this.running) {
+          break;
+        }
+        logger.warn('PocketBase realtime connection lost', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      this.connected = false;
+
+      if (this.running) {
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.attempts++, RECONNECT_MAX_MS);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // Resolves when PocketBase ends the stream
+  private async connect(): Promise<void> {
+    this.controller = new AbortController();
+    const response = await fetch(`${this.baseUrl}/api/realtime`, {
+      headers: { Accept: 'text/event-stream' },
+      signal: this.controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`PocketBase realtime responded with ${response.status}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      const parsed = parseSseEvents(buffer + value);
+      buffer = parsed.rest;
+      for (const event of parsed.events) {
+        await this.handle(event);
+      }
+    }
+  }
+
+  private async handle(event: SseEvent): Promise<void> {
+    if (event.event === 'PB_CONNECT') {
+      await this.authorize(JSON.parse(event.data).clientId);
+      this.connected = true;
+      this.attempts = 0;
+      logger.info('PocketBase realtime connected', { collections: REALTIME_COLLECTIONS });
+      return;
+    }
+
+    if (!REALTIME_COLLECTIONS.includes(event.event)) {
+      return;
+    }
+
+    const { action, record } = JSON.parse(event.data);
+    for (const listener of this.listeners) {
+      try {
+        listener({ collection: event.event, action, record });
+      } catch (error) {
+        logger.warn('Realtime listener failed', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  // Subscriptions are set for the connection's client ID; the admin token lets it see every record
+  private async authorize(clientId: string): Promise<void> {
+    const response = await makeAuthenticatedRequest(`${this.baseUrl}/api/realtime`, {
+      method: 'POST',
+      body: JSON.stringify({ clientId, subscriptions: REALTIME_COLLECTIONS }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`PocketBase rejected the realtime subscription (${response.status})`);
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
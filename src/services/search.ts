@@ -0,0 +1,1103 @@
+/**
+ * In-memory search over the knowledge base: BM25 and embedding indexes for incident
+ * similarity and full-text search
+ */
+
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { INCIDENT_CATEGORIES, INCIDENT_SEVERITIES, INCIDENT_STATUSES } from '../db/schema.js';
+import { normalizeTag } from './tagging.js';
+import { stem, tokenize } from './text.js';
+import { canView, type UserIdentity } from './identity.js';
+import { NEUTRAL_EFFECTIVENESS, effectivenessOf } from '../shared/solutionEffectiveness.js';
+import {
+  EmbeddingStore,
+  contentHash,
+  cosineSimilarity,
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  type StoredEmbedding,
+} from './embeddings.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export { stem, tokenize };
+
+export interface SearchDocument {
+  id: string;
+  category: string;
+  title: string;
+  description: string;
+  symptoms: string;
+  tags: string[];
+}
+
+export interface SimilarityMatch {
+  id: string;
+  score: number;
+  matched_terms: string[];
+}
+
+export interface SimilarityOptions {
+  limit?: number;
+  crossCategory?: boolean;
+  minScore?: number;
+  mode?: SearchMode;
+  // Leave out incidents this user may not see
+  viewer?: UserIdentity;
+}
+
+export interface DuplicateOptions {
+  threshold: number;
+  windowHours: number;
+  limit?: number;
+  viewer?: UserIdentity;
+}
+
+export interface DuplicateCandidate extends SimilarityMatch {
+  title: string;
+  status: string;
+  created: string;
+}
+
+export type SearchHitType = 'incident' | 'solution' | 'lesson' | 'knowledge';
+
+export const SEARCH_QUALIFIERS = ['category', 'severity', 'status', 'tag', 'type'] as const;
+export type SearchQualifier = typeof SEARCH_QUALIFIERS[number];
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  qualifiers: Partial<Record<SearchQualifier, string>>;
+  excludedQualifiers: Partial<Record<SearchQualifier, string[]>>;
+}
+
+export interface SearchHit {
+  type: SearchHitType;
+  id: string;
+  incident_id: string | null;
+  title: string;
+  category: string | null;
+  severity: string | null;
+  status: string | null;
+  tags: string[];
+  created: string;
+  score: number;
+  snippet: string;
+  matched_terms: string[];
+  // Solutions only, see src/shared/solutionEffectiveness.ts
+  effectiveness_score?: number;
+}
+
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+export const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+export interface SearchOptions {
+  limit: number;
+  page: number;
+  mode?: SearchMode;
+  viewer?: UserIdentity;
+}
+
+export interface SearchResult {
+  total: number;
+  hits: SearchHit[];
+}
+
+interface IndexedDocument<TMeta> {
+  id: string;
+  meta: TMeta;
+  terms: Map<string, number>;
+  length: number;
+  // First surface form seen for each stem, so matched terms read naturally
+  surface: Map<string, string>;
+}
+
+interface FullTextMeta {
+  type: SearchHitType;
+  id: string;
+  incident_id: string | null;
+  title: string;
+  text: string;
+  created: string;
+  category: string | null;
+  severity: string | null;
+  status: string | null;
+  tags: string[];
+  // Solutions and lessons take these from their incident; knowledge base articles are public
+  visibility: string | null;
+  created_by: string | null;
+  team: string | null;
+  // Solutions only: the stored effectiveness_score
+  effectiveness?: number;
+}
+
+// Title and tags say more about a record than a long description does
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  symptoms: 1.5,
+  body: 1,
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const DEFAULT_MIN_SCORE = 0.05;
+// Cosine similarity below this is noise for the hashing provider
+const MIN_SEMANTIC_SCORE = 0.15;
+// Share of the hybrid score that comes from BM25; the rest is cosine similarity
+const HYBRID_KEYWORD_WEIGHT = 0.5;
+const EMBEDDING_BATCH_SIZE = 64;
+const MAX_MATCHED_TERMS = 10;
+const SNIPPET_LENGTH = 200;
+// A solution's score is scaled by up to this share either way by its effectiveness; unrated solutions are unchanged
+const EFFECTIVENESS_BOOST = 0.3;
+
+// Statuses that count as "still open" when looking for duplicates
+const ACTIVE_STATUSES = ['open', 'investigating'];
+
+const HIT_TYPES: SearchHitType[] = ['incident', 'solution', 'lesson', 'knowledge'];
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+function textOf(value: unknown): string {
+  if (typeof value === 'string') return value;
+  return value ? JSON.stringify(value) : '';
+}
+
+/**
+ * Map an incident record (optionally with expanded tags) onto the indexed fields
+ */
+export function toSearchDocument(record: any): SearchDocument {
+  return {
+    id: record.id,
+    category: record.category || '',
+    title: record.title || '',
+    description: record.description || '',
+    symptoms: textOf(record.symptoms),
+    tags: (record.expand?.tags ?? []).map((tag: any) => tag.tag_name),
+  };
+}
+
+/**
+ * Parse a search string into terms, "quoted phrases", -exclusions and field:value qualifiers.
+ * Explicit qualifiers (e.g. from tool arguments) override the same qualifier in the text.
+ */
+export function parseQuery(query: string, qualifiers: Partial<Record<SearchQualifier, string>> = {}): ParsedQuery {
+  const parsed: ParsedQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    qualifiers: {},
+    excludedQualifiers: {},
+  };
+
+  const pattern = /(-)?(?:([A-Za-z_]+):)?(?:"([^"]*)"?|(\S+))/g;
+  for (const match of query.matchAll(pattern)) {
+    const [, negated, key, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    const qualifier = key?.toLowerCase() as SearchQualifier | undefined;
+
+    if (qualifier && SEARCH_QUALIFIERS.includes(qualifier)) {
+      if (!value) {
+        throw new Error(`Qualifier ${qualifier}: needs a value`);
+      }
+      const normalized = normalizeQualifier(qualifier, value);
+      if (negated) {
+        (parsed.excludedQualifiers[qualifier] ??= []).push(normalized);
+      } else {
+        parsed.qualifiers[qualifier] = normalized;
+      }
+      continue;
+    }
+
+    // Unknown keys such as "error:500" are plain text
+    const text = key ? `${key}:${value}` : value;
+    if (quoted !== undefined) {
+      if (value) {
+        (negated ? parsed.excludedPhrases : parsed.phrases).push(normalizeText(text));
+      }
+    } else {
+      (negated ? parsed.excludedTerms : parsed.terms).push(...tokenize(text));
+    }
+  }
+
+  for (const [qualifier, value] of Object.entries(qualifiers) as Array<[SearchQualifier, string | undefined]>) {
+    if (value) {
+      parsed.qualifiers[qualifier] = normalizeQualifier(qualifier, value);
+    }
+  }
+
+  return parsed;
+}
+
+function normalizeQualifier(qualifier: SearchQualifier, value: string): string {
+  const allowed: Partial<Record<SearchQualifier, string[]>> = {
+    category: INCIDENT_CATEGORIES,
+    severity: INCIDENT_SEVERITIES,
+    status: INCIDENT_STATUSES,
+    type: HIT_TYPES,
+  };
+
+  const values = allowed[qualifier];
+  if (!values) {
+    return normalizeTag(value);
+  }
+
+  const match = values.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+  if (!match) {
+    throw new Error(`${qualifier} must be one of: ${values.join(', ')}`);
+  }
+  return match;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Cut a window of text around the first match and wrap matches in **bold**
+ */
+export function highlight(text: string, words: string[], maxLength: number = SNIPPET_LENGTH): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (words.length === 0) {
+    return clean.length > maxLength ? `${clean.slice(0, maxLength).trimEnd()}…` : clean;
+  }
+
+  const alternatives = [...new Set(words)].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`\\b(?:${alternatives.join('|')})\\w*`, 'gi');
+
+  const first = clean.search(pattern);
+  let start = Math.max(0, first - Math.floor(maxLength / 4));
+  if (start > 0) {
+    const space = clean.indexOf(' ', start);
+    start = space === -1 || space > first ? start : space + 1;
+  }
+  const end = Math.min(clean.length, start + maxLength);
+
+  const window = clean.slice(start, end);
+  return `${start > 0 ? '…' : ''}${window.replace(pattern, '**$&**')}${end < clean.length ? '…' : ''}`;
+}
+
+/**
+ * Weighted-field BM25 core shared by the similarity and full-text indexes
+ */
+class TermIndex<TMeta> {
+  protected documents = new Map<string, IndexedDocument<TMeta>>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  protected add(id: string, fields: Array<[string, number]>, meta: TMeta): void {
+    this.remove(id);
+
+    const document = this.build(id, fields, meta);
+    for (const term of document.terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+
+    this.documents.set(id, document);
+    this.totalLength += document.length;
+  }
+
+  /**
+   * Tokenize weighted fields into a document without adding it to the index
+   */
+  protected build(id: string, fields: Array<[string, number]>, meta: TMeta): IndexedDocument<TMeta> {
+    const terms = new Map<string, number>();
+    const surface = new Map<string, string>();
+    let length = 0;
+
+    for (const [text, weight] of fields) {
+      for (const token of tokenize(text)) {
+        const term = stem(token);
+        terms.set(term, (terms.get(term) ?? 0) + weight);
+        if (!surface.has(term)) {
+          surface.set(term, token);
+        }
+        length += weight;
+      }
+    }
+
+    return { id, meta, terms, length, surface };
+  }
+
+  remove(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) {
+      return;
+    }
+
+    for (const term of existing.terms.keys()) {
+      const frequency = (this.documentFrequency.get(term) ?? 1) - 1;
+      if (frequency > 0) {
+        this.documentFrequency.set(term, frequency);
+      } else {
+        this.documentFrequency.delete(term);
+      }
+    }
+
+    this.totalLength -= existing.length;
+    this.documents.delete(id);
+  }
+
+  protected score(
+    queryTerms: Map<string, number>,
+    document: IndexedDocument<TMeta>
+  ): { total: number; contributions: Array<[string, number]> } {
+    const averageLength = this.totalLength / Math.max(this.documents.size, 1);
+    const contributions: Array<[string, number]> = [];
+    let total = 0;
+
+    for (const [term, queryWeight] of queryTerms) {
+      const frequency = document.terms.get(term);
+      if (!frequency) {
+        continue;
+      }
+
+      const documentFrequency = this.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const saturation = (frequency * (BM25_K1 + 1)) /
+        (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (document.length / averageLength)));
+      const contribution = idf * saturation * queryWeight;
+
+      contributions.push([term, contribution]);
+      total += contribution;
+    }
+
+    return { total, contributions };
+  }
+
+  protected topTerms(document: IndexedDocument<TMeta>, contributions: Array<[string, number]>): string[] {
+    return contributions
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_MATCHED_TERMS)
+      .map(([term]) => document.surface.get(term) ?? term);
+  }
+}
+
+/**
+ * Incident-to-incident similarity over title, description, symptoms and tags
+ */
+export class Bm25Index extends TermIndex<{ category: string }> {
+  upsert(document: SearchDocument): void {
+    this.add(document.id, this.fields(document), { category: document.category });
+  }
+
+  categoryOf(id: string): string | undefined {
+    return this.documents.get(id)?.meta.category;
+  }
+
+  /**
+   * Rank indexed documents against an indexed source document. Scores are normalized by
+   * the source's score against itself, so 1 means "as similar as the incident to itself".
+   */
+  similarTo(id: string, options: SimilarityOptions = {}): SimilarityMatch[] {
+    const source = this.documents.get(id);
+    return source ? this.rank(source, options) : [];
+  }
+
+  /**
+   * Same as similarTo, for a document that has not been indexed (e.g. an incident about to be created)
+   */
+  similarToDocument(document: SearchDocument, options: SimilarityOptions = {}): SimilarityMatch[] {
+    return this.rank(this.build(document.id, this.fields(document), { category: document.category }), options);
+  }
+
+  private fields(document: SearchDocument): Array<[string, number]> {
+    return [
+      [document.title, FIELD_WEIGHTS.title],
+      [document.tags.join(' '), FIELD_WEIGHTS.tags],
+      [document.symptoms, FIELD_WEIGHTS.symptoms],
+      [document.description, FIELD_WEIGHTS.body],
+    ];
+  }
+
+  private rank(source: IndexedDocument<{ category: string }>, options: SimilarityOptions): SimilarityMatch[] {
+    const { limit = 5, crossCategory = false, minScore = DEFAULT_MIN_SCORE } = options;
+    const selfScore = this.score(source.terms, source).total;
+    if (selfScore === 0) {
+      return [];
+    }
+
+    const matches: SimilarityMatch[] = [];
+    for (const candidate of this.documents.values()) {
+      if (candidate.id === source.id || (!crossCategory && candidate.meta.category !== source.meta.category)) {
+        continue;
+      }
+
+      const { total, contributions } = this.score(source.terms, candidate);
+      const score = Math.min(1, total / selfScore);
+      if (score < minScore) {
+        continue;
+      }
+
+      matches.push({
+        id: candidate.id,
+        score: Math.round(score * 1000) / 1000,
+        matched_terms: this.topTerms(source, contributions),
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+/**
+ * Full-text search across incidents, solutions, lessons and knowledge base articles.
+ * Solutions and lessons take category/severity/status/tags from their parent incident.
+ */
+export class FullTextIndex extends TermIndex<FullTextMeta> {
+  upsert(meta: FullTextMeta, fields: { title: string; tags: string[]; body: string }): void {
+    this.add(
+      `${meta.type}:${meta.id}`,
+      [
+        [fields.title, FIELD_WEIGHTS.title],
+        [fields.tags.join(' '), FIELD_WEIGHTS.tags],
+        [fields.body, FIELD_WEIGHTS.body],
+      ],
+      { ...meta, text: normalizeText(`${fields.title}\n${fields.body}`) }
+    );
+  }
+
+  removeRecord(type: SearchHitType, id: string): void {
+    this.remove(`${type}:${id}`);
+  }
+
+  /**
+   * Drop an incident together with its solutions and lessons; returns the removed keys
+   */
+  removeIncident(id: string): string[] {
+    const removed = [`incident:${id}`];
+    for (const document of this.documents.values()) {
+      if (document.meta.incident_id === id) {
+        removed.push(document.id);
+      }
+    }
+    removed.forEach(key => this.remove(key));
+    return removed;
+  }
+
+  keys(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  /**
+   * Normalized title and body of a document, as used for phrase matching and embeddings
+   */
+  textOf(key: string): string {
+    return this.documents.get(key)?.meta.text ?? '';
+  }
+
+  metaOf(key: string): FullTextMeta | undefined {
+    return this.documents.get(key)?.meta;
+  }
+
+  /**
+   * Rank documents for a parsed query. Semantic and hybrid modes take cosine similarities
+   * keyed like the index (`${type}:${id}`); documents below the threshold are left out.
+   */
+  search(query: ParsedQuery, options: SearchOptions & { semanticScores?: Map<string, number> }): SearchResult {
+    const mode = options.mode ?? 'keyword';
+    const queryTerms = new Map<string, number>();
+    for (const token of [...query.terms, ...query.phrases.flatMap(phrase => tokenize(phrase))]) {
+      const term = stem(token);
+      queryTerms.set(term, (queryTerms.get(term) ?? 0) + 1);
+    }
+    const excluded = new Set(query.excludedTerms.map(stem));
+
+    const ranked: Array<{ document: IndexedDocument<FullTextMeta>; facets: FullTextMeta; keyword: number; semantic: number; score: number; contributions: Array<[string, number]> }> = [];
+
+    for (const document of this.documents.values()) {
+      const facets = this.facets(document.meta);
+      if (options.viewer && !canView(options.viewer, facets)) {
+        continue;
+      }
+      if (!this.matchesQualifiers(facets, query)) {
+        continue;
+      }
+      if ([...excluded].some(term => document.terms.has(term))) {
+        continue;
+      }
+      if (query.excludedPhrases.some(phrase => document.meta.text.includes(phrase))) {
+        continue;
+      }
+      if (!query.phrases.every(phrase => document.meta.text.includes(phrase))) {
+        continue;
+      }
+
+      const { total, contributions } = this.score(queryTerms, document);
+      const semantic = options.semanticScores?.get(document.id) ?? 0;
+      const matches = mode === 'keyword' ? total > 0 : mode === 'semantic' ? semantic > 0 : total > 0 || semantic > 0;
+      if (queryTerms.size > 0 && !matches) {
+        continue;
+      }
+      ranked.push({ document, facets, keyword: total, semantic, score: 0, contributions });
+    }
+
+    const topKeyword = Math.max(...ranked.map(entry => entry.keyword), 0) || 1;
+    for (const entry of ranked) {
+      const keyword = entry.keyword / topKeyword;
+      entry.score = mode === 'keyword' ? keyword
+        : mode === 'semantic' ? entry.semantic
+        : HYBRID_KEYWORD_WEIGHT * keyword + (1 - HYBRID_KEYWORD_WEIGHT) * entry.semantic;
+      if (entry.facets.effectiveness !== undefined) {
+        entry.score *= 1 + EFFECTIVENESS_BOOST * 2 * (entry.facets.effectiveness - NEUTRAL_EFFECTIVENESS);
+      }
+    }
+
+    // Qualifier-only queries have nothing to rank by, so the best-rated solutions and then the newest records come first
+    ranked.sort((a, b) =>
+      b.score - a.score
+      || (b.facets.effectiveness ?? NEUTRAL_EFFECTIVENESS) - (a.facets.effectiveness ?? NEUTRAL_EFFECTIVENESS)
+      || b.facets.created.localeCompare(a.facets.created)
+    );
+
+    const topScore = ranked[0]?.score || 1;
+    const start = (options.page - 1) * options.limit;
+
+    return {
+      total: ranked.length,
+      hits: ranked.slice(start, start + options.limit).map(({ document, facets, score, contributions }) => {
+        const matched = this.topTerms(document, contributions);
+        const body = document.meta.text.slice(document.meta.title.length).trim() || document.meta.title;
+        return {
+          type: facets.type,
+          id: facets.id,
+          incident_id: facets.incident_id,
+          title: facets.title,
+          category: facets.category,
+          severity: facets.severity,
+          status: facets.status,
+          tags: facets.tags,
+          created: facets.created,
+          score: Math.round((score / topScore) * 1000) / 1000,
+          snippet: highlight(body, [...matched, ...contributions.map(([term]) => term), ...query.phrases]),
+          matched_terms: matched,
+          ...(facets.effectiveness !== undefined ? { effectiveness_score: facets.effectiveness } : {}),
+        };
+      }),
+    };
+  }
+
+  private facets(meta: FullTextMeta): FullTextMeta {
+    if (!meta.incident_id) {
+      return meta;
+    }
+
+    const parent = this.documents.get(`incident:${meta.incident_id}`)?.meta;
+    return parent
+      ? {
+          ...meta,
+          category: parent.category,
+          severity: parent.severity,
+          status: parent.status,
+          tags: parent.tags,
+          visibility: parent.visibility,
+          created_by: parent.created_by,
+          team: parent.team,
+        }
+      : meta;
+  }
+
+  private matchesQualifiers(facets: FullTextMeta, query: ParsedQuery): boolean {
+    const value = (qualifier: SearchQualifier): string[] => {
+      switch (qualifier) {
+        case 'type': return [facets.type];
+        case 'tag': return facets.tags;
+        default: return facets[qualifier] ? [facets[qualifier] as string] : [];
+      }
+    };
+
+    for (const [qualifier, wanted] of Object.entries(query.qualifiers) as Array<[SearchQualifier, string]>) {
+      if (!value(qualifier).includes(wanted)) {
+        return false;
+      }
+    }
+
+    for (const [qualifier, unwanted] of Object.entries(query.excludedQualifiers) as Array<[SearchQualifier, string[]]>) {
+      if (value(qualifier).some(candidate => unwanted.includes(candidate))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Keeps the BM25 indexes and embedding vectors in memory. They are loaded lazily, updated
+ * incrementally by the MCP handlers, and rebuilt periodically to pick up edits made elsewhere.
+ * Vectors are computed on the first semantic query and cached in the `embeddings` collection.
+ */
+export class SearchService {
+  private similarity = new Bm25Index();
+  private fullText = new FullTextIndex();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private readonly refreshIntervalMs = 10 * 60 * 1000;
+
+  private provider: EmbeddingProvider | null = null;
+  private embeddingStore = new EmbeddingStore();
+  private vectors = new Map<string, { hash: string; vector: number[] }>();
+  private stored: Map<string, StoredEmbedding> | null = null;
+  private pendingEmbeddings = new Map<string, string>();
+  private embedding: Promise<void> = Promise.resolve();
+
+  async search(query: ParsedQuery, options: SearchOptions): Promise<SearchResult> {
+    await this.ensureFresh();
+
+    const mode = options.mode ?? config.search.mode;
+    const semanticScores = mode === 'keyword'
+      ? undefined
+      : await this.semanticScores([...query.terms, ...query.phrases].join(' '));
+
+    return this.fullText.search(query, { ...options, mode, semanticScores });
+  }
+
+  async findSimilar(incident: any, options: SimilarityOptions = {}): Promise<SimilarityMatch[]> {
+    await this.ensureFresh();
+    this.indexIncidentRecord(incident);
+
+    const mode = options.mode ?? config.search.mode;
+    const { limit = 5, crossCategory = false, minScore = DEFAULT_MIN_SCORE, viewer } = options;
+    if (mode === 'keyword') {
+      return this.similarity
+        .similarTo(incident.id, { ...options, limit: Infinity })
+        .filter(match => this.visibleTo(viewer, match.id))
+        .slice(0, limit);
+    }
+
+    await this.flushEmbeddings();
+    const source = this.vectors.get(`incident:${incident.id}`);
+    const keyword = new Map(
+      this.similarity
+        .similarTo(incident.id, { crossCategory, limit: Infinity, minScore: 0 })
+        .map(match => [match.id, match])
+    );
+    const category = this.similarity.categoryOf(incident.id);
+    const matches: SimilarityMatch[] = [];
+
+    for (const [key, { vector }] of this.vectors) {
+      const [type, id] = splitKey(key);
+      if (type !== 'incident' || id === incident.id || (!crossCategory && this.similarity.categoryOf(id) !== category)) {
+        continue;
+      }
+      if (!this.visibleTo(viewer, id)) {
+        continue;
+      }
+
+      const semantic = source ? Math.max(0, cosineSimilarity(source.vector, vector)) : 0;
+      const match = keyword.get(id);
+      const score = mode === 'semantic'
+        ? semantic
+        : HYBRID_KEYWORD_WEIGHT * (match?.score ?? 0) + (1 - HYBRID_KEYWORD_WEIGHT) * semantic;
+      if (mode === 'semantic' ? semantic < MIN_SEMANTIC_SCORE : score < minScore) {
+        continue;
+      }
+
+      matches.push({ id, score: Math.round(score * 1000) / 1000, matched_terms: match?.matched_terms ?? [] });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Active incidents in the same category, created within the time window, whose
+   * title/description/symptoms score at least `threshold` against a new report
+   */
+  async findDuplicates(
+    report: { title: string; description: string; symptoms?: unknown; category: string },
+    options: DuplicateOptions
+  ): Promise<DuplicateCandidate[]> {
+    await this.ensureFresh();
+
+    const since = Date.now() - options.windowHours * 60 * 60 * 1000;
+    const matches = this.similarity.similarToDocument(toSearchDocument({ ...report, id: '' }), {
+      limit: Infinity,
+      minScore: options.threshold,
+    });
+
+    return matches
+      .flatMap(match => {
+        const meta = this.fullText.metaOf(`incident:${match.id}`);
+        if (!meta || !ACTIVE_STATUSES.includes(meta.status ?? '') || parseTimestamp(meta.created) < since) {
+          return [];
+        }
+        if (options.viewer && !canView(options.viewer, meta)) {
+          return [];
+        }
+        return [{ ...match, title: meta.title, status: meta.status!, created: meta.created }];
+      })
+      .slice(0, options.limit ?? 5);
+  }
+
+  /**
+   * Swap the embedding provider; vectors from the previous provider are discarded
+   */
+  setEmbeddingProvider(provider: EmbeddingProvider): void {
+    this.provider = provider;
+    this.vectors.clear();
+    this.stored = null;
+    for (const key of this.fullText.keys()) {
+      this.pendingEmbeddings.set(key, this.fullText.textOf(key));
+    }
+  }
+
+  /**
+   * Add or replace an incident. Like the other index* methods, a no-op until the indexes are loaded.
+   */
+  indexIncident(record: any): void {
+    if (this.loadedAt > 0) {
+      this.indexIncidentRecord(record);
+    }
+  }
+
+  indexSolution(record: any): void {
+    if (this.loadedAt > 0) {
+      this.indexSolutionRecord(record);
+    }
+  }
+
+  indexLesson(record: any): void {
+    if (this.loadedAt > 0) {
+      this.indexLessonRecord(record);
+    }
+  }
+
+  removeIncident(id: string): void {
+    this.similarity.remove(id);
+    this.forgetEmbeddings(this.fullText.removeIncident(id));
+  }
+
+  /**
+   * Re-read one incident (with tags) and re-index it
+   */
+  async refreshIncident(id: string): Promise<void> {
+    if (this.loadedAt === 0) {
+      return;
+    }
+
+    const response = await makeAuthenticatedRequest(
+      `${config.pocketbase.url}/api/collections/incidents/records/${encodeURIComponent(id)}?expand=tags`
+    );
+    if (response.status === 404) {
+      this.removeIncident(id);
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to load incident ${id} for indexing`);
+    }
+    this.indexIncidentRecord(await response.json());
+  }
+
+  private visibleTo(viewer: UserIdentity | undefined, incidentId: string): boolean {
+    const meta = this.fullText.metaOf(`incident:${incidentId}`);
+    return !viewer || (meta !== undefined && canView(viewer, meta));
+  }
+
+  private get embeddingProvider(): EmbeddingProvider {
+    return this.provider ??= createEmbeddingProvider();
+  }
+
+  private upsertDocument(meta: FullTextMeta, fields: { title: string; tags: string[]; body: string }): void {
+    this.fullText.upsert(meta, fields);
+    this.pendingEmbeddings.set(`${meta.type}:${meta.id}`, this.fullText.textOf(`${meta.type}:${meta.id}`));
+  }
+
+  private indexIncidentRecord(record: any): void {
+    const document = toSearchDocument(record);
+    this.similarity.upsert(document);
+    this.upsertDocument(
+      {
+        type: 'incident',
+        id: record.id,
+        incident_id: null,
+        title: document.title,
+        text: '',
+        created: record.created || '',
+        category: record.category || null,
+        severity: record.severity || null,
+        status: record.status || null,
+        tags: document.tags,
+        visibility: record.visibility || null,
+        created_by: record.created_by || null,
+        team: record.team || null,
+      },
+      {
+        title: document.title,
+        tags: document.tags,
+        body: [document.description, document.symptoms, textOf(record.root_cause)].filter(Boolean).join('\n'),
+      }
+    );
+  }
+
+  private indexSolutionRecord(record: any): void {
+    this.upsertDocument(
+      { ...this.childMeta('solution', record, record.solution_title || ''), effectiveness: effectivenessOf(record) },
+      {
+        title: record.solution_title || '',
+        tags: [],
+        body: [record.solution_description, textOf(record.steps)].filter(Boolean).join('\n'),
+      }
+    );
+  }
+
+  private indexLessonRecord(record: any): void {
+    const title = `Lesson learned (${record.lesson_type || 'general'})`;
+    this.upsertDocument(this.childMeta('lesson', record, title), {
+      title,
+      tags: [],
+      body: record.lesson_text || '',
+    });
+  }
+
+  private indexKnowledgeRecord(record: any): void {
+    const tags = Array.isArray(record.tags) ? record.tags.map((tag: unknown) => String(tag).toLowerCase()) : [];
+    this.upsertDocument(
+      {
+        type: 'knowledge',
+        id: record.id,
+        incident_id: null,
+        title: record.title || '',
+        text: '',
+        created: record.created || '',
+        category: null,
+        severity: null,
+        status: null,
+        tags,
+        visibility: 'public',
+        created_by: null,
+        team: null,
+      },
+      { title: record.title || '', tags, body: record.content || '' }
+    );
+  }
+
+  private childMeta(type: 'solution' | 'lesson', record: any, title: string): FullTextMeta {
+    return {
+      type,
+      id: record.id,
+      incident_id: record.incident_id || null,
+      title,
+      text: '',
+      created: record.created || '',
+      category: null,
+      severity: null,
+      status: null,
+      tags: [],
+      // Hidden from non-admins until the parent incident is indexed
+      visibility: null,
+      created_by: null,
+      team: null,
+    };
+  }
+
+  private async semanticScores(text: string): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    if (!text.trim()) {
+      return scores;
+    }
+
+    await this.flushEmbeddings();
+    const [queryVector] = await this.embeddingProvider.embed([text]);
+    for (const [key, { vector }] of this.vectors) {
+      const score = cosineSimilarity(queryVector, vector);
+      if (score >= MIN_SEMANTIC_SCORE) {
+        scores.set(key, score);
+      }
+    }
+    return scores;
+  }
+
+  /**
+   * Embed everything indexed since the last flush. Batches run one at a time; a failed
+   * batch is logged and its documents simply have no vector until they change again.
+   */
+  private flushEmbeddings(): Promise<void> {
+    const batch = this.pendingEmbeddings;
+    this.pendingEmbeddings = new Map();
+
+    this.embedding = this.embedding
+      .then(() => this.embedBatch(batch))
+      .catch((error: any) => {
+        logger.warn('Failed to compute embeddings', { error: error.message });
+      });
+    return this.embedding;
+  }
+
+  private async embedBatch(batch: Map<string, string>): Promise<void> {
+    const provider = this.embeddingProvider;
+    const stored = this.stored ??= await this.loadStoredEmbeddings(provider);
+    const missing: Array<{ key: string; hash: string; text: string }> = [];
+
+    for (const [key, text] of batch) {
+      const hash = contentHash(text);
+      if (this.vectors.get(key)?.hash === hash) {
+        continue;
+      }
+
+      const existing = stored.get(key);
+      if (existing?.content_hash === hash) {
+        this.vectors.set(key, { hash, vector: existing.vector });
+      } else {
+        missing.push({ key, hash, text });
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+      const chunk = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const vectors = await provider.embed(chunk.map(entry => entry.text));
+
+      for (const [index, { key, hash }] of chunk.entries()) {
+        this.vectors.set(key, { hash, vector: vectors[index] });
+        const [record_type, record_id] = splitKey(key);
+
+        try {
+          const saved = await this.embeddingStore.save(
+            provider.name,
+            { record_type, record_id, content_hash: hash, vector: vectors[index] },
+            stored.get(key)?.id
+          );
+          if (saved) {
+            stored.set(key, saved);
+          }
+        } catch (error: any) {
+          logger.warn('Failed to store embedding', { key, error: error.message });
+        }
+      }
+    }
+  }
+
+  private async loadStoredEmbeddings(provider: EmbeddingProvider): Promise<Map<string, StoredEmbedding>> {
+    const stored = await this.embeddingStore.load(provider.name);
+    this.pruneStoredEmbeddings(stored);
+    return stored;
+  }
+
+  private forgetEmbeddings(keys: string[]): void {
+    const ids: string[] = [];
+    for (const key of keys) {
+      this.vectors.delete(key);
+      this.pendingEmbeddings.delete(key);
+      const stored = this.stored?.get(key);
+      if (stored) {
+        ids.push(stored.id);
+        this.stored!.delete(key);
+      }
+    }
+
+    this.embeddingStore.delete(ids).catch((error: any) => {
+      logger.warn('Failed to delete stored embeddings', { error: error.message });
+    });
+  }
+
+  // Rows for records deleted outside this server would otherwise linger
+  private pruneStoredEmbeddings(stored: Map<string, StoredEmbedding>): void {
+    const current = new Set(this.fullText.keys());
+    const orphaned = [...stored.keys()].filter(key => !current.has(key));
+    const ids = orphaned.map(key => stored.get(key)!.id);
+    orphaned.forEach(key => stored.delete(key));
+
+    this.embeddingStore.delete(ids).catch((error: any) => {
+      logger.warn('Failed to delete stored embeddings', { error: error.message });
+    });
+  }
+
+  private async ensureFresh(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.refreshIntervalMs) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = this.rebuild().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  private async rebuild(): Promise<void> {
+    const previous = { similarity: this.similarity, fullText: this.fullText };
+    this.similarity = new Bm25Index();
+    this.fullText = new FullTextIndex();
+
+    try {
+      for (const record of await this.loadAll('incidents', 'expand=tags')) {
+        this.indexIncidentRecord(record);
+      }
+      for (const record of await this.loadAll('solutions')) {
+        this.indexSolutionRecord(record);
+      }
+      for (const record of await this.loadAll('lessons_learned')) {
+        this.indexLessonRecord(record);
+      }
+      for (const record of await this.loadAll('knowledge_base', '', true)) {
+        this.indexKnowledgeRecord(record);
+      }
+    } catch (error) {
+      this.similarity = previous.similarity;
+      this.fullText = previous.fullText;
+      throw error;
+    }
+
+    const current = new Set(this.fullText.keys());
+    for (const key of this.vectors.keys()) {
+      if (!current.has(key)) {
+        this.vectors.delete(key);
+      }
+    }
+    if (this.stored) {
+      this.pruneStoredEmbeddings(this.stored);
+    }
+
+    this.loadedAt = Date.now();
+    logger.info('Search indexes rebuilt', { incidents: this.similarity.size, documents: this.fullText.size });
+  }
+
+  private async loadAll(collection: string, extraParams: string = '', optional: boolean = false): Promise<any[]> {
+    const items: any[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await makeAuthenticatedRequest(
+        `${config.pocketbase.url}/api/collections/${collection}/records?page=${page}&perPage=500&skipTotal=1${extraParams ? `&${extraParams}` : ''}`
+      );
+      if (!response.ok) {
+        if (optional && response.status === 404) {
+          return items;
+        }
+        throw new Error(`Failed to load ${collection} for the search index`);
+      }
+
+      const data = await response.json();
+      items.push(...data.items);
+      if (data.items.length < 500) {
+        return items;
+      }
+    }
+  }
+}
+
+// PocketBase timestamps use a space between date and time
+function parseTimestamp(value: string): number {
+  const time = Date.parse(value.replace(' ', 'T'));
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function splitKey(key: string): [string, string] {
+  const separator = key.indexOf(':');
+  return [key.slice(0, separator), key.slice(separator + 1)];
+}
+
+export const searchService = new SearchService();
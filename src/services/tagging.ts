@@ -0,0 +1,272 @@
+/**
+ * Incident tagging: keyword extraction and tag bookkeeping in the `tags` collection
+ */
+
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { Filter, filterParam } from '../db/queries.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export type TagType = 'symptom' | 'technology' | 'skill' | 'emotion' | 'context';
+
+export interface TagRecord {
+  id: string;
+  tag_name: string;
+  tag_type: TagType;
+  usage_count: number;
+}
+
+export interface TagChange {
+  incident_id: string;
+  tags: TagRecord[];
+  changed: TagRecord[];
+}
+
+const MAX_TAG_LENGTH = 50;
+const MAX_TAGS_PER_CALL = 20;
+
+// Known tags and the phrases that imply them. Order decides extraction order.
+const TAG_VOCABULARY: Array<{ tag: string; type: TagType; pattern: RegExp }> = [
+  { tag: 'postgres', type: 'technology', pattern: /\b(postgres(ql)?|psql|pgbouncer)\b/i },
+  { tag: 'mysql', type: 'technology', pattern: /\b(mysql|mariadb)\b/i },
+  { tag: 'mongodb', type: 'technology', pattern: /\b(mongo(db)?)\b/i },
+  { tag: 'redis', type: 'technology', pattern: /\bredis\b/i },
+  { tag: 'kafka', type: 'technology', pattern: /\bkafka\b/i },
+  { tag: 'rabbitmq', type: 'technology', pattern: /\brabbit(mq)?\b/i },
+  { tag: 'elasticsearch', type: 'technology', pattern: /\b(elastic(search)?|opensearch)\b/i },
+  { tag: 'nginx', type: 'technology', pattern: /\bnginx\b/i },
+  { tag: 'docker', type: 'technology', pattern: /\bdocker\b/i },
+  { tag: 'kubernetes', type: 'technology', pattern: /\b(kubernetes|k8s|kubectl)\b/i },
+  { tag: 'aws', type: 'technology', pattern: /\b(aws|ec2|s3|lambda|rds|dynamodb)\b/i },
+  { tag: 'gcp', type: 'technology', pattern: /\b(gcp|google cloud|bigquery|gke)\b/i },
+  { tag: 'azure', type: 'technology', pattern: /\bazure\b/i },
+  { tag: 'nodejs', type: 'technology', pattern: /\b(node(\.?js)?|npm)\b/i },
+  { tag: 'react', type: 'technology', pattern: /\breact\b/i },
+  { tag: 'ios', type: 'technology', pattern: /\b(ios|iphone|ipad|swift)\b/i },
+  { tag: 'android', type: 'technology', pattern: /\b(android|kotlin)\b/i },
+  { tag: 'graphql', type: 'technology', pattern: /\bgraphql\b/i },
+  { tag: 'dns', type: 'technology', pattern: /\bdns\b/i },
+  { tag: 'tls', type: 'technology', pattern: /\b(tls|ssl|certificate|cert)\b/i },
+  { tag: 'oom', type: 'symptom', pattern: /\b(oom|out of memory|outofmemory|oomkilled)\b/i },
+  { tag: 'memory-leak', type: 'symptom', pattern: /\bmemory leak\b/i },
+  { tag: 'timeout', type: 'symptom', pattern: /\b(time ?outs?|timed out)\b/i },
+  { tag: 'high-latency', type: 'symptom', pattern: /\b(latency|slow(ness)?|sluggish)\b/i },
+  { tag: 'high-cpu', type: 'symptom', pattern: /\b(high cpu|cpu spike|cpu usage)\b/i },
+  { tag: 'crash', type: 'symptom', pattern: /\b(crash(es|ed|ing)?|segfault|panic)\b/i },
+  { tag: 'deadlock', type: 'symptom', pattern: /\bdeadlocks?\b/i },
+  { tag: 'connection-refused', type: 'symptom', pattern: /\b(connection refused|econnrefused)\b/i },
+  { tag: 'disk-full', type: 'symptom', pattern: /\b(disk full|no space left|enospc)\b/i },
+  { tag: 'rate-limit', type: 'symptom', pattern: /\b(rate limit(ed|ing)?|too many requests|429)\b/i },
+  { tag: 'auth-failure', type: 'symptom', pattern: /\b(unauthori[sz]ed|401|403|forbidden|login fail(s|ed|ure)?)\b/i },
+  { tag: '5xx', type: 'symptom', pattern: /\b((http )?5\d\d errors?|internal server error|bad gateway|service unavailable)\b/i },
+  { tag: 'data-loss', type: 'symptom', pattern: /\b(data loss|lost data|data corruption|corrupted)\b/i },
+];
+
+/**
+ * Lower-case a tag and collapse anything other than [a-z0-9.+#_] into single dashes
+ */
+export function normalizeTag(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9.+#_]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalize and de-duplicate user-supplied tag names
+ */
+export function normalizeTags(names: unknown): string[] {
+  if (!Array.isArray(names) || names.length === 0) {
+    throw new Error('tags must be a non-empty array of strings');
+  }
+  if (names.length > MAX_TAGS_PER_CALL) {
+    throw new Error(`At most ${MAX_TAGS_PER_CALL} tags can be changed at once`);
+  }
+
+  const normalized = names.map(name => {
+    if (typeof name !== 'string' || !normalizeTag(name)) {
+      throw new Error(`Invalid tag: ${JSON.stringify(name)}`);
+    }
+    return normalizeTag(name);
+  });
+
+  return [...new Set(normalized)];
+}
+
+/**
+ * Suggest tags for an incident from its title, description and symptoms
+ */
+export function extractTags(incident: { title?: string; description?: string; symptoms?: unknown }): string[] {
+  const text = [incident.title, incident.description, typeof incident.symptoms === 'string' ? incident.symptoms : JSON.stringify(incident.symptoms ?? '')]
+    .filter(Boolean)
+    .join('\n');
+
+  return TAG_VOCABULARY.filter(entry => entry.pattern.test(text)).map(entry => entry.tag);
+}
+
+/**
+ * Tag type for a normalized name; manual tags outside the vocabulary count as context
+ */
+export function inferTagType(name: string): TagType {
+  return TAG_VOCABULARY.find(entry => entry.tag === name)?.type ?? 'context';
+}
+
+export class TaggingService {
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * Look up tag records by name, creating any that do not exist yet
+   */
+  async ensureTags(names: string[]): Promise<TagRecord[]> {
+    const existing = await this.findTags(names);
+    const missing = names.filter(name => !existing.some(tag => tag.tag_name === name));
+
+    for (const name of missing) {
+      const response = await makeAuthenticatedRequest(`${this.baseUrl}/api/collections/tags/records`, {
+        method: 'POST',
+        body: JSON.stringify({ tag_name: name, tag_type: inferTagType(name), usage_count: 0 }),
+      });
+
+      if (response.ok) {
+        existing.push(await response.json());
+        continue;
+      }
+
+      // A concurrent call may have created it first (tag_name is unique)
+      const [created] = await this.findTags([name]);
+      if (!created) {
+        const error = await response.json();
+        throw new Error(`Failed to create tag "${name}": ${error.message || 'Unknown error'}`);
+      }
+      existing.push(created);
+    }
+
+    return names.map(name => existing.find(tag => tag.tag_name === name)!);
+  }
+
+  async findTags(names: string[]): Promise<TagRecord[]> {
+    if (names.length === 0) {
+      return [];
+    }
+
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/tags/records?${filterParam(Filter.in('tag_name', names))}&perPage=${names.length}`
+    );
+    if (!response.ok) {
+      throw new Error('Failed to look up tags');
+    }
+
+    const data = await response.json();
+    return data.items;
+  }
+
+  /**
+   * Attach tags to an incident. Only tags that were not already attached are reported as changed.
+   */
+  async addTags(incidentId: string, names: string[]): Promise<TagChange> {
+    const currentIds = await this.getIncidentTagIds(incidentId);
+    const tags = await this.ensureTags(names);
+    const added = tags.filter(tag => !currentIds.includes(tag.id));
+
+    await this.applyChange(incidentId, 'tags+', added);
+
+    return { incident_id: incidentId, tags: await this.getIncidentTags(incidentId), changed: added };
+  }
+
+  /**
+   * Detach tags from an incident. Names that are not attached are ignored.
+   */
+  async removeTags(incidentId: string, names: string[]): Promise<TagChange> {
+    const currentIds = await this.getIncidentTagIds(incidentId);
+    const removed = (await this.findTags(names)).filter(tag => currentIds.includes(tag.id));
+
+    await this.applyChange(incidentId, 'tags-', removed);
+
+    return { incident_id: incidentId, tags: await this.getIncidentTags(incidentId), changed: removed };
+  }
+
+  /**
+   * Set usage_count of each tag to the number of incidents that carry it. Counting from the
+   * relation rather than applying deltas keeps concurrent changes from drifting the counters,
+   * and a count that could not be written is corrected by the next change to that tag.
+   */
+  async recountUsage(tagIds: string[]): Promise<void> {
+    for (const id of tagIds) {
+      const count = await this.countIncidents(id);
+      const response = await makeAuthenticatedRequest(`${this.baseUrl}/api/collections/tags/records/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ usage_count: count }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to update usage count for tag ${id}`);
+      }
+    }
+  }
+
+  async getIncidentTags(incidentId: string): Promise<TagRecord[]> {
+    const incident = await this.getIncident(incidentId, true);
+    return incident.expand?.tags ?? [];
+  }
+
+  private async getIncidentTagIds(incidentId: string): Promise<string[]> {
+    const incident = await this.getIncident(incidentId, false);
+    return incident.tags ?? [];
+  }
+
+  private async getIncident(incidentId: string, expand: boolean): Promise<any> {
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/incidents/records/${encodeURIComponent(incidentId)}${expand ? '?expand=tags' : ''}`
+    );
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'Incident not found' : 'Failed to load incident');
+    }
+    return response.json();
+  }
+
+  /**
+   * Change the incident relation, then recount the affected tags. The relation is the source of
+   * truth, so a failed recount is logged rather than failing a change that already happened.
+   */
+  private async applyChange(incidentId: string, modifier: 'tags+' | 'tags-', tags: TagRecord[]): Promise<void> {
+    if (tags.length === 0) {
+      return;
+    }
+
+    const ids = tags.map(tag => tag.id);
+    await this.patchIncidentTags(incidentId, modifier, ids);
+
+    await this.recountUsage(ids).catch(error => {
+      logger.warn('Failed to recount tag usage', { incidentId, tagIds: ids, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+
+  private async patchIncidentTags(incidentId: string, modifier: 'tags+' | 'tags-', ids: string[]): Promise<void> {
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/incidents/records/${encodeURIComponent(incidentId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ [modifier]: ids }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'Incident not found' : 'Failed to update incident tags');
+    }
+  }
+
+  private async countIncidents(tagId: string): Promise<number> {
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/incidents/records?${filterParam(Filter.anyEq('tags', tagId))}&perPage=1&fields=id`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to count incidents for tag ${tagId}`);
+    }
+    return (await response.json()).totalItems;
+  }
+}
+
+export const taggingService = new TaggingService();
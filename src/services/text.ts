@@ -0,0 +1,31 @@
+/**
+ * Tokenization shared by the keyword and embedding indexes
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'did', 'do', 'does', 'for',
+  'from', 'had', 'has', 'have', 'if', 'in', 'into', 'is', 'it', 'its', 'not', 'of', 'on', 'or', 'our',
+  'so', 'than', 'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were',
+  'when', 'which', 'while', 'with', 'after', 'before', 'all', 'also', 'any', 'some', 'very', 'will',
+]);
+
+/**
+ * Reduce common English inflections so "timeouts"/"timeout" and "failing"/"failed" match
+ */
+export function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Split text into lower-case word tokens without stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
@@ -0,0 +1,157 @@
+/**
+ * Incident timelines: an append-only log of what happened to each incident. The mutating
+ * tools record their own events; people add notes and actions through add_timeline_event.
+ * Time to acknowledge and time to resolve are derived from the log.
+ */
+
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { TimelineQueries } from '../db/queries.js';
+import { ownership, type UserIdentity } from './identity.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export type TimelineEventType =
+  | 'created'
+  | 'note'
+  | 'status_change'
+  | 'severity_change'
+  | 'updated'
+  | 'solution_added'
+  | 'lesson_extracted'
+  | 'tags_changed'
+  | 'merged'
+  | 'action_taken';
+
+// Event types people may add by hand; the others are only recorded by the tools themselves.
+// Status and severity changes drive the metrics, so they must come from the change itself.
+export const MANUAL_EVENT_TYPES: TimelineEventType[] = [
+  'note',
+  'solution_added',
+  'lesson_extracted',
+  'action_taken',
+];
+
+export interface NewTimelineEvent {
+  event_type: TimelineEventType;
+  message?: string;
+  from_value?: string;
+  to_value?: string;
+  data?: Record<string, unknown>;
+  // Defaults to now; set it to backfill something that happened earlier
+  occurred_at?: string;
+}
+
+export interface TimeMetrics {
+  reported_at: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  time_to_acknowledge_minutes: number | null;
+  time_to_resolve_minutes: number | null;
+}
+
+// Events that show someone started working on the incident
+const ACKNOWLEDGING_EVENTS = new Set(['note', 'action_taken', 'solution_added', 'lesson_extracted']);
+const RESOLVED_STATUSES = new Set(['resolved', 'archived']);
+
+function minutesBetween(from: string, to: string | null): number | null {
+  if (!to) {
+    return null;
+  }
+  return Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+}
+
+export function sortEvents<T extends { occurred_at: string }>(events: T[]): T[] {
+  return [...events].sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+}
+
+/**
+ * Acknowledged: the first status change away from open, or the first note, action, solution or lesson.
+ * Resolved: the last move to resolved that was not followed by a reopen. Incidents without
+ * status events (created before timelines existed) fall back to resolved_at.
+ */
+export function computeTimeMetrics(incident: any, events: any[]): TimeMetrics {
+  const reportedAt = incident.created;
+  const sorted = sortEvents(events);
+
+  const acknowledged = sorted.find(event =>
+    ACKNOWLEDGING_EVENTS.has(event.event_type) || (event.event_type === 'status_change' && event.to_value !== 'open')
+  );
+
+  let resolvedAt: string | null = null;
+  const statusChanges = sorted.filter(event => event.event_type === 'status_change');
+  if (statusChanges.length > 0) {
+    for (const event of statusChanges) {
+      if (RESOLVED_STATUSES.has(event.to_value)) {
+        resolvedAt ??= event.occurred_at;
+      } else {
+        resolvedAt = null;
+      }
+    }
+  } else if (RESOLVED_STATUSES.has(incident.status)) {
+    resolvedAt = incident.resolved_at || null;
+  }
+
+  const acknowledgedAt = acknowledged?.occurred_at ?? resolvedAt;
+
+  return {
+    reported_at: reportedAt,
+    acknowledged_at: acknowledgedAt,
+    resolved_at: resolvedAt,
+    time_to_acknowledge_minutes: minutesBetween(reportedAt, acknowledgedAt),
+    time_to_resolve_minutes: minutesBetween(reportedAt, resolvedAt),
+  };
+}
+
+export class TimelineService {
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * Append an event; throws when PocketBase rejects it
+   */
+  async add(incidentId: string, event: NewTimelineEvent, user: UserIdentity): Promise<any> {
+    const response = await makeAuthenticatedRequest(`${this.baseUrl}/api/collections/timeline_events/records`, {
+      method: 'POST',
+      body: JSON.stringify({
+        incident_id: incidentId,
+        event_type: event.event_type,
+        message: event.message ?? '',
+        from_value: event.from_value ?? '',
+        to_value: event.to_value ?? '',
+        data: event.data ?? {},
+        occurred_at: event.occurred_at ?? new Date().toISOString(),
+        ...ownership(user),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to record timeline event: ${response.status} ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Append an event on behalf of a mutating tool; the history must never fail the change it describes
+   */
+  async record(incidentId: string, event: NewTimelineEvent, user: UserIdentity): Promise<void> {
+    await this.add(incidentId, event, user).catch((error: any) => {
+      logger.warn('Failed to record timeline event', { incidentId, eventType: event.event_type, error: error.message });
+    });
+  }
+
+  async list(incidentId: string): Promise<any[]> {
+    const data = await TimelineQueries.getEventsByIncident(incidentId).execute();
+    return sortEvents(data.items || []);
+  }
+
+  /**
+   * The events of an incident with the metrics derived from them
+   */
+  async get(incident: any): Promise<{ events: any[]; metrics: TimeMetrics }> {
+    const events = await this.list(incident.id);
+    return { events, metrics: computeTimeMetrics(incident, events) };
+  }
+}
+
+export const timelineService = new TimelineService();
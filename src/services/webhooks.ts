@@ -0,0 +1,218 @@
+/**
+ * Outbound webhooks: events are queued as webhook_deliveries records, one per matching webhook, and a
+ * worker POSTs the due ones, retrying failures with backoff until they are delivered or dead.
+ * Subscriptions are managed through the REST API (api/), which queues its own events the same way.
+ * Run a single worker per PocketBase: two would both pick up the same due deliveries.
+ */
+
+import { createHmac, randomUUID } from 'node:crypto';
+import { makeAuthenticatedRequest } from '../db/pocketbase.js';
+import { Filter, filterParam } from '../db/queries.js';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  formatSignature,
+  matchesEvent,
+  nextAttemptAt,
+  signedContent,
+  type WebhookEvent,
+  type WebhookPayload,
+} from '../shared/webhooks.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+
+export interface DeliveryRunSummary {
+  delivered: number;
+  retrying: number;
+  dead: number;
+}
+
+// Due deliveries handled per run; the rest wait for the next one
+const BATCH_SIZE = 50;
+
+// Response bodies kept in last_error are cut to this length
+const MAX_ERROR_LENGTH = 500;
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return formatSignature(createHmac('sha256', secret).update(signedContent(timestamp, body)).digest('hex'));
+}
+
+export class WebhookService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  private get baseUrl(): string {
+    return config.pocketbase.url;
+  }
+
+  /**
+   * Queue an event for every active webhook subscribed to it. Best effort: a failure is logged and
+   * reported as 0 queued deliveries, so it never fails the change that caused the event.
+   */
+  async emit(event: WebhookEvent, data: unknown, now: Date = new Date()): Promise<number> {
+    try {
+      const webhooks = (await this.activeWebhooks()).filter(webhook => matchesEvent(webhook.events, event));
+      if (webhooks.length === 0) {
+        return 0;
+      }
+
+      const payload: WebhookPayload = { id: randomUUID(), event, created: now.toISOString(), data };
+      await Promise.all(webhooks.map(webhook => this.enqueue(webhook.id, payload, now)));
+      return webhooks.length;
+    } catch (error) {
+      logger.warn('Failed to queue webhook event', { event, error: error instanceof Error ? error.message : String(error) });
+      return 0;
+    }
+  }
+
+  /**
+   * Attempt every due delivery once. Runs do not overlap: a call made while one is going returns empty.
+   */
+  async deliverDue(now: Date = new Date()): Promise<DeliveryRunSummary> {
+    const summary: DeliveryRunSummary = { delivered: 0, retrying: 0, dead: 0 };
+    if (this.running) {
+      return summary;
+    }
+
+    this.running = true;
+    try {
+      const filter = filterParam(Filter.and(Filter.eq('status', 'pending'), Filter.lte('next_attempt_at', now)));
+      const response = await makeAuthenticatedRequest(
+        `${this.baseUrl}/api/collections/webhook_deliveries/records?${filter}&sort=next_attempt_at&expand=webhook&perPage=${BATCH_SIZE}&skipTotal=1`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to list webhook deliveries: ${response.status}`);
+      }
+
+      for (const delivery of (await response.json()).items ?? []) {
+        const status = await this.attempt(delivery, now);
+        summary[status === 'pending' ? 'retrying' : status]++;
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Deliver due webhooks every `intervalMs` until stop() is called
+   */
+  start(intervalMs: number = config.webhooks.pollIntervalMs): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.deliverDue().catch(error => {
+        logger.warn('Webhook delivery run failed', { error: error instanceof Error ? error.message : String(error) });
+      });
+    }, intervalMs);
+    logger.info('Webhook delivery worker started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async activeWebhooks(): Promise<any[]> {
+    const response = await makeAuthenticatedRequest(
+      `${this.baseUrl}/api/collections/webhooks/records?${filterParam(Filter.eq('active', true))}&perPage=200&skipTotal=1`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to list webhooks: ${response.status}`);
+    }
+    return (await response.json()).items ?? [];
+  }
+
+  private async enqueue(webhookId: string, payload: WebhookPayload, now: Date): Promise<void> {
+    const response = await makeAuthenticatedRequest(`${this.baseUrl}/api/collections/webhook_deliveries/records`, {
+      method: 'POST',
+      body: JSON.stringify({
+        webhook: webhookId,
+        event: payload.event,
+        event_id: payload.id,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: now.toISOString(),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to queue webhook delivery: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  /**
+   * POST one delivery and record the outcome; returns the delivery's new status
+   */
+  private async attempt(delivery: any, now: Date): Promise<'delivered' | 'pending' | 'dead'> {
+    const webhook = delivery.expand?.webhook;
+    const attempts = (delivery.attempts || 0) + 1;
+    const result = webhook?.active
+      ? await this.post(webhook, delivery, now)
+      : { ok: false, statusCode: 0, error: 'Webhook is disabled' };
+
+    const next = result.ok || !webhook?.active ? null : nextAttemptAt(attempts, now);
+    const status = result.ok ? 'delivered' : next ? 'pending' : 'dead';
+
+    await this.update(delivery.id, {
+      status,
+      attempts,
+      last_attempt_at: now.toISOString(),
+      last_status_code: result.statusCode,
+      last_error: result.error,
+      next_attempt_at: next ? next.toISOString() : '',
+      delivered_at: result.ok ? now.toISOString() : '',
+    });
+
+    if (status === 'dead') {
+      logger.warn('Webhook delivery moved to dead letters', { deliveryId: delivery.id, webhookId: delivery.webhook, attempts, error: result.error });
+    }
+    return status;
+  }
+
+  private async post(webhook: any, delivery: any, now: Date): Promise<{ ok: boolean; statusCode: number; error: string }> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'NoteByPine-Webhooks/1.0',
+          [WEBHOOK_EVENT_HEADER]: delivery.event,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+      });
+      const text = await response.text().catch(() => '');
+
+      return response.ok
+        ? { ok: true, statusCode: response.status, error: '' }
+        : { ok: false, statusCode: response.status, error: `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ''}` };
+    } catch (error) {
+      return { ok: false, statusCode: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async update(id: string, changes: Record<string, unknown>): Promise<void> {
+    const response = await makeAuthenticatedRequest(`${this.baseUrl}/api/collections/webhook_deliveries/records/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to update webhook delivery: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,49 @@
+/**
+ * API keys of service accounts, shared by the REST API (api/), which issues and accepts them, and the
+ * MCP HTTP transport, which accepts them.
+ *
+ * A key is API_KEY_PREFIX followed by a random secret. Only a SHA-256 hash of it is stored, together
+ * with its first characters so people can tell keys apart; the plaintext is shown once, when issued.
+ */
+
+export const API_KEY_PREFIX = 'nbp_';
+
+// Random bytes in the secret part of a key
+export const API_KEY_SECRET_BYTES = 32;
+
+// Characters of a key kept in plain text to identify it in listings
+export const API_KEY_DISPLAY_LENGTH = API_KEY_PREFIX.length + 8;
+
+// last_used_at is only rewritten when it is older than this, so busy keys do not write on every request
+export const LAST_USED_RESOLUTION_MS = 60_000;
+
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked';
+
+export interface ApiKeyDates {
+  // PocketBase stores an unset date as an empty string
+  expires_at?: string | null;
+  revoked_at?: string | null;
+  last_used_at?: string | null;
+}
+
+export function isApiKey(token: unknown): token is string {
+  return typeof token === 'string' && token.startsWith(API_KEY_PREFIX) && token.length > API_KEY_DISPLAY_LENGTH;
+}
+
+export function apiKeyDisplayPrefix(key: string): string {
+  return key.slice(0, API_KEY_DISPLAY_LENGTH);
+}
+
+export function apiKeyStatus(key: ApiKeyDates, now: Date = new Date()): ApiKeyStatus {
+  if (key.revoked_at) {
+    return 'revoked';
+  }
+  if (key.expires_at && new Date(key.expires_at).getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+export function shouldTouchLastUsed(key: ApiKeyDates, now: Date = new Date()): boolean {
+  return !key.last_used_at || now.getTime() - new Date(key.last_used_at).getTime() >= LAST_USED_RESOLUTION_MS;
+}
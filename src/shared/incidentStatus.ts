@@ -0,0 +1,156 @@
+/**
+ * Incident status state machine shared by the MCP server, the REST API (api/) and the web admin
+ * (web-admin-react/).
+ *
+ * open ⇄ investigating → resolved → archived. A resolved incident can be reopened, and an open or
+ * investigating one archived without being resolved (a duplicate, a false alarm).
+ * Archived is final. Resolving needs a resolution summary; reopening and early archiving need a reason.
+ */
+
+export const INCIDENT_STATUSES = ['open', 'investigating', 'resolved', 'archived'] as const;
+
+export type IncidentStatus = (typeof INCIDENT_STATUSES)[number];
+
+// Status names used by older versions of the REST API and web admin
+export const LEGACY_STATUSES: Record<string, IncidentStatus> = {
+  new: 'open',
+  closed: 'archived',
+};
+
+// Statuses a new incident may start in
+export const INITIAL_STATUSES: IncidentStatus[] = ['open', 'investigating'];
+
+export type TransitionField = 'resolution_summary' | 'reason';
+
+export interface TransitionInput {
+  resolution_summary?: string;
+  reason?: string;
+}
+
+export interface StatusTransition {
+  from: IncidentStatus;
+  to: IncidentStatus;
+  label: string;
+  // Inputs that must be non-empty for the transition
+  requires: TransitionField[];
+  // Extra field changes written together with the new status
+  hook?: (input: TransitionInput, now: Date) => Record<string, unknown>;
+}
+
+export interface TransitionPlan {
+  from: IncidentStatus;
+  to: IncidentStatus;
+  transition: StatusTransition;
+  // Every field to write, status included
+  changes: Record<string, unknown>;
+  // Why the move happened: the reason, or the resolution summary when resolving
+  note: string;
+}
+
+export type StatusTransitionErrorCode = 'invalid_status' | 'not_allowed' | 'missing_field';
+
+// Plain fields rather than parameter properties: the web admin compiles with erasableSyntaxOnly
+export class StatusTransitionError extends Error {
+  readonly code: StatusTransitionErrorCode;
+  readonly field?: TransitionField;
+
+  constructor(message: string, code: StatusTransitionErrorCode, field?: TransitionField) {
+    super(message);
+    this.name = 'StatusTransitionError';
+    this.code = code;
+    this.field = field;
+  }
+}
+
+const resolve = (input: TransitionInput, now: Date) => ({
+  resolved_at: now.toISOString(),
+  resolution_summary: input.resolution_summary?.trim(),
+});
+
+// A reopened incident is no longer resolved
+const reopen = () => ({ resolved_at: null });
+
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  { from: 'open', to: 'investigating', label: 'Start investigating', requires: [] },
+  { from: 'open', to: 'resolved', label: 'Resolve', requires: ['resolution_summary'], hook: resolve },
+  { from: 'open', to: 'archived', label: 'Archive', requires: ['reason'] },
+  { from: 'investigating', to: 'open', label: 'Back to open', requires: [] },
+  { from: 'investigating', to: 'resolved', label: 'Resolve', requires: ['resolution_summary'], hook: resolve },
+  { from: 'investigating', to: 'archived', label: 'Archive', requires: ['reason'] },
+  { from: 'resolved', to: 'open', label: 'Reopen', requires: ['reason'], hook: reopen },
+  { from: 'resolved', to: 'investigating', label: 'Reopen and investigate', requires: ['reason'], hook: reopen },
+  { from: 'resolved', to: 'archived', label: 'Archive', requires: [] },
+];
+
+const FIELD_LABELS: Record<TransitionField, string> = {
+  resolution_summary: 'a resolution summary',
+  reason: 'a reason',
+};
+
+export function isIncidentStatus(value: unknown): value is IncidentStatus {
+  return typeof value === 'string' && (INCIDENT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a status, including the legacy names, to the shared vocabulary; null for anything else
+ */
+export function normalizeStatus(value: unknown): IncidentStatus | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const status = value.trim().toLowerCase();
+  return isIncidentStatus(status) ? status : LEGACY_STATUSES[status] ?? null;
+}
+
+export function findTransition(from: IncidentStatus, to: IncidentStatus): StatusTransition | undefined {
+  return STATUS_TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+}
+
+/**
+ * The transitions available from a status, in table order
+ */
+export function nextTransitions(from: unknown): StatusTransition[] {
+  const status = normalizeStatus(from) ?? 'open';
+  return STATUS_TRANSITIONS.filter(transition => transition.from === status);
+}
+
+/**
+ * Check a status change and work out everything it writes. Throws StatusTransitionError when the
+ * target is unknown, the move is not allowed, or a required input is missing.
+ */
+export function planTransition(current: unknown, target: unknown, input: TransitionInput = {}, now: Date = new Date()): TransitionPlan {
+  const to = normalizeStatus(target);
+  if (!to) {
+    throw new StatusTransitionError(`Status must be one of: ${INCIDENT_STATUSES.join(', ')}`, 'invalid_status');
+  }
+
+  // Records written before the vocabularies were reconciled may still carry a legacy or empty status
+  const from = normalizeStatus(current) ?? 'open';
+  if (from === to) {
+    throw new StatusTransitionError(`Incident is already ${to}`, 'not_allowed');
+  }
+
+  const transition = findTransition(from, to);
+  if (!transition) {
+    const allowed = nextTransitions(from).map(next => next.to);
+    throw new StatusTransitionError(
+      `Cannot move an incident from ${from} to ${to}. ${allowed.length > 0 ? `Allowed: ${allowed.join(', ')}` : `${from} is final`}`,
+      'not_allowed'
+    );
+  }
+
+  for (const field of transition.requires) {
+    const value = input[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new StatusTransitionError(`${transition.label} (${from} → ${to}) requires ${FIELD_LABELS[field]} (${field})`, 'missing_field', field);
+    }
+  }
+
+  return {
+    from,
+    to,
+    transition,
+    changes: { status: to, ...transition.hook?.(input, now) },
+    note: (to === 'resolved' ? input.resolution_summary : input.reason)?.trim() || '',
+  };
+}
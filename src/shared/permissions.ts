@@ -0,0 +1,148 @@
+/**
+ * Role-based permissions of the REST API (api/), shared with the web admin (web-admin-react/) so it
+ * can hide what the signed-in user may not do.
+ *
+ * Roles are ordered: each one may do everything the previous one may. A rule names the lowest role
+ * allowed to act on any record and, for edits and deletes, the lowest role allowed to act on records
+ * it created itself.
+ *
+ * API keys (see apiKeys.ts) act as their service account's role, but only within the scopes they were
+ * issued with; a permission without a scope cannot be used through an API key at all.
+ */
+
+export const ROLES = ['viewer', 'responder', 'editor', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Users whose record has no role keep what every signed-in user could do before roles existed
+export const DEFAULT_ROLE: Role = 'responder';
+
+// Role names issued by older tokens
+export const LEGACY_ROLES: Record<string, Role> = {
+  user: 'responder',
+};
+
+export type Permission =
+  | 'incidents:read'
+  | 'incidents:create'
+  | 'incidents:update'
+  | 'incidents:delete'
+  | 'solutions:read'
+  | 'solutions:create'
+  | 'solutions:update'
+  | 'solutions:delete'
+  | 'solutions:rate'
+  | 'knowledge:read'
+  | 'knowledge:create'
+  | 'knowledge:update'
+  | 'knowledge:delete'
+  | 'uploads:read'
+  | 'uploads:create'
+  | 'uploads:delete'
+  | 'search:read'
+  | 'chat:use'
+  | 'service_accounts:manage'
+  | 'webhooks:manage';
+
+export const API_KEY_SCOPES = [
+  'incidents:read',
+  'incidents:write',
+  'solutions:read',
+  'solutions:write',
+  'knowledge:read',
+  'knowledge:write',
+  'uploads:read',
+  'uploads:write',
+  'search:read',
+  'chat:use',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface PermissionRule {
+  // Lowest role that may act on any record
+  any: Role;
+  // Lowest role that may act on records it created
+  own?: Role;
+  // Scope an API key needs for it
+  scope?: ApiKeyScope;
+}
+
+export type Access = 'any' | 'own' | 'none';
+
+export const PERMISSIONS: Record<Permission, PermissionRule> = {
+  'incidents:read': { any: 'viewer', scope: 'incidents:read' },
+  'incidents:create': { any: 'responder', scope: 'incidents:write' },
+  'incidents:update': { own: 'responder', any: 'editor', scope: 'incidents:write' },
+  'incidents:delete': { own: 'responder', any: 'admin', scope: 'incidents:write' },
+  'solutions:read': { any: 'viewer', scope: 'solutions:read' },
+  'solutions:create': { any: 'responder', scope: 'solutions:write' },
+  'solutions:update': { own: 'responder', any: 'editor', scope: 'solutions:write' },
+  'solutions:delete': { own: 'responder', any: 'admin', scope: 'solutions:write' },
+  'solutions:rate': { any: 'responder', scope: 'solutions:write' },
+  'knowledge:read': { any: 'viewer', scope: 'knowledge:read' },
+  'knowledge:create': { any: 'responder', scope: 'knowledge:write' },
+  'knowledge:update': { own: 'responder', any: 'editor', scope: 'knowledge:write' },
+  'knowledge:delete': { own: 'responder', any: 'admin', scope: 'knowledge:write' },
+  'uploads:read': { any: 'viewer', scope: 'uploads:read' },
+  'uploads:create': { any: 'responder', scope: 'uploads:write' },
+  // Uploaded files do not record who uploaded them
+  'uploads:delete': { any: 'admin', scope: 'uploads:write' },
+  'search:read': { any: 'viewer', scope: 'search:read' },
+  // Chat commands create incidents and solutions
+  'chat:use': { any: 'responder', scope: 'chat:use' },
+  // Only people manage service accounts; a leaked key must not be able to mint more
+  'service_accounts:manage': { any: 'admin' },
+  // Webhooks receive every event, whatever its visibility, so only admins point them somewhere
+  'webhooks:manage': { any: 'admin' },
+};
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a role claim to the shared roles: a missing role gets DEFAULT_ROLE, an unknown one the least privileged
+ */
+export function normalizeRole(value: unknown): Role {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_ROLE;
+  }
+  const role = String(value).trim().toLowerCase();
+  return isRole(role) ? role : LEGACY_ROLES[role] ?? 'viewer';
+}
+
+export function roleAtLeast(role: unknown, minimum: Role): boolean {
+  return ROLES.indexOf(normalizeRole(role)) >= ROLES.indexOf(minimum);
+}
+
+export function accessFor(role: unknown, permission: Permission): Access {
+  const rule = PERMISSIONS[permission];
+  if (roleAtLeast(role, rule.any)) {
+    return 'any';
+  }
+  return rule.own && roleAtLeast(role, rule.own) ? 'own' : 'none';
+}
+
+/**
+ * Whether a role may perform an action; pass isOwner for edits and deletes of an existing record
+ */
+export function isAllowed(role: unknown, permission: Permission, isOwner: boolean = false): boolean {
+  const access = accessFor(role, permission);
+  return access === 'any' || (access === 'own' && isOwner);
+}
+
+/**
+ * Whether an API key with these scopes may be used for an action; callers without scopes (people) always may
+ */
+export function scopeAllows(scopes: readonly string[] | undefined, permission: Permission): boolean {
+  if (!scopes) {
+    return true;
+  }
+  const scope = PERMISSIONS[permission].scope;
+  return !!scope && scopes.includes(scope);
+}
@@ -0,0 +1,64 @@
+/**
+ * Solution effectiveness shared by the MCP server and the REST API (api/).
+ *
+ * Ratings (1-5) and "did it work" answers are each shrunk towards a neutral prior with a
+ * Bayesian average, so one enthusiastic rating does not put a solution above one that ten
+ * people found useful. The two are blended into a score from 0 to 1; an unrated solution
+ * scores exactly the neutral 0.5.
+ */
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+// The prior counts as this many imaginary votes
+export const PRIOR_WEIGHT = 5;
+export const PRIOR_RATING = 3;
+export const PRIOR_WORKED_RATIO = 0.5;
+// Share of the score that comes from ratings; the rest comes from the worked ratio
+export const RATING_WEIGHT = 0.6;
+export const NEUTRAL_EFFECTIVENESS = 0.5;
+
+export interface FeedbackEntry {
+  rating: number;
+  // Missing when the person did not say whether it worked
+  worked?: boolean | null;
+}
+
+export interface EffectivenessSummary {
+  ratings: number;
+  // Plain averages, null without any feedback
+  average_rating: number | null;
+  worked_ratio: number | null;
+  effectiveness_score: number;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export function isValidRating(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= MIN_RATING && value <= MAX_RATING;
+}
+
+export function summarizeFeedback(feedback: FeedbackEntry[]): EffectivenessSummary {
+  const ratings = feedback.filter(entry => isValidRating(entry.rating));
+  const answered = feedback.filter(entry => typeof entry.worked === 'boolean');
+  const ratingSum = ratings.reduce((sum, entry) => sum + entry.rating, 0);
+  const workedCount = answered.filter(entry => entry.worked).length;
+
+  const bayesRating = (PRIOR_WEIGHT * PRIOR_RATING + ratingSum) / (PRIOR_WEIGHT + ratings.length);
+  const bayesWorked = (PRIOR_WEIGHT * PRIOR_WORKED_RATIO + workedCount) / (PRIOR_WEIGHT + answered.length);
+  const ratingScore = (bayesRating - MIN_RATING) / (MAX_RATING - MIN_RATING);
+
+  return {
+    ratings: feedback.length,
+    average_rating: ratings.length > 0 ? round(ratingSum / ratings.length) : null,
+    worked_ratio: answered.length > 0 ? round(workedCount / answered.length) : null,
+    effectiveness_score: round(RATING_WEIGHT * ratingScore + (1 - RATING_WEIGHT) * bayesWorked),
+  };
+}
+
+/**
+ * The stored score of a solution; PocketBase reads an unset number as 0, which the prior keeps a computed score above
+ */
+export function effectivenessOf(solution: { effectiveness_score?: number | null }): number {
+  return solution.effectiveness_score || NEUTRAL_EFFECTIVENESS;
+}
@@ -0,0 +1,32 @@
+/**
+ * Incident visibility, shared by the MCP server and the REST API (api/).
+ *
+ * public: everyone; team: the creator's team; private (and records without a visibility): the creator only.
+ * Admins see everything.
+ */
+
+export interface VisibleRecord {
+  visibility?: string | null;
+  created_by?: string | null;
+  team?: string | null;
+}
+
+// Who is looking: a PocketBase users record ID and its team, or an admin
+export interface IncidentReader {
+  id: string;
+  team: string;
+  admin: boolean;
+}
+
+export function canView(reader: IncidentReader, record: VisibleRecord): boolean {
+  if (reader.admin) {
+    return true;
+  }
+  if (record.visibility === 'public') {
+    return true;
+  }
+  if (record.created_by && record.created_by === reader.id) {
+    return true;
+  }
+  return record.visibility === 'team' && reader.team !== '' && record.team === reader.team;
+}
@@ -0,0 +1,113 @@
+/**
+ * Outbound webhooks, shared by the REST API (api/), which manages subscriptions and queues its own
+ * events, and the MCP server, which queues its events and runs the delivery worker.
+ *
+ * Each event becomes one delivery per matching webhook. A delivery is POSTed as JSON and signed with
+ * the webhook's secret: the signature header holds `sha256=` and the hex HMAC-SHA256 of
+ * `{timestamp}.{body}`, where timestamp is the value of the timestamp header (Unix seconds).
+ * Failed deliveries are retried with exponential backoff and end up dead after MAX_DELIVERY_ATTEMPTS.
+ */
+
+export const WEBHOOK_EVENTS = [
+  'incident.created',
+  'incident.status_changed',
+  'solution.added',
+  'lesson.extracted',
+  'knowledge.updated',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent only by the "send test event" endpoint, whatever the webhook subscribes to
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+// Subscribes to every event, including ones added later
+export const WEBHOOK_ALL_EVENTS = '*';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'dead'] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-NoteByPine-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-NoteByPine-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-NoteByPine-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-NoteByPine-Delivery';
+
+// Prefix of generated webhook secrets, followed by WEBHOOK_SECRET_BYTES random bytes in hex
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+export const WEBHOOK_SECRET_BYTES = 24;
+
+// Attempts before a delivery is moved to the dead-letter list; the last retry waits the longest
+export const MAX_DELIVERY_ATTEMPTS = 8;
+export const RETRY_BASE_MS = 30_000;
+export const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+// Receivers should reject signatures older than this to stop replays
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookPayload<T = unknown> {
+  // Same for every webhook the event is delivered to, so receivers can drop duplicates
+  id: string;
+  event: WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+  created: string;
+  data: T;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a webhook's event filters match an event. A filter is an event name, `*`, or a
+ * resource wildcard such as `incident.*`.
+ */
+export function matchesEvent(filters: unknown, event: string): boolean {
+  if (!Array.isArray(filters)) {
+    return false;
+  }
+  return filters.some(filter =>
+    filter === WEBHOOK_ALL_EVENTS
+    || filter === event
+    || (typeof filter === 'string' && filter.endsWith('.*') && event.startsWith(filter.slice(0, -1)))
+  );
+}
+
+/**
+ * Whether a string is usable as an event filter
+ */
+export function isEventFilter(value: unknown): value is string {
+  if (value === WEBHOOK_ALL_EVENTS || isWebhookEvent(value)) {
+    return true;
+  }
+  return typeof value === 'string'
+    && value.endsWith('.*')
+    && WEBHOOK_EVENTS.some(event => event.startsWith(value.slice(0, -1)));
+}
+
+/**
+ * Wait before the next attempt once `attempts` deliveries have failed: 30 s, 1 min, 2 min... capped at 6 h
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+/**
+ * When to try again after `attempts` failures, or null when the delivery is dead
+ */
+export function nextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    return null;
+  }
+  return new Date(now.getTime() + retryDelayMs(attempts));
+}
+
+/**
+ * The string the HMAC is computed over
+ */
+export function signedContent(timestamp: string | number, body: string): string {
+  return `${timestamp}.${body}`;
+}
+
+export function formatSignature(hexDigest: string): string {
+  return `sha256=${hexDigest}`;
+}
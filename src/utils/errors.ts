@@ -267,6 +267,35 @@ export const ErrorFactory = {
     });
   },
 
+  /**
+   * Create service unavailable error
+   */
+  serviceUnavailable(message: string, context?: ErrorContext): AppError {
+    return new AppError({
+      code: ErrorCode.SERVICE_UNAVAILABLE,
+      message: `Service unavailable: ${message}`,
+      userMessage: 'The service is temporarily unavailable. Please try again shortly.',
+      severity: ErrorSeverity.HIGH,
+      retryable: false,
+      context,
+    });
+  },
+
+  /**
+   * Create network error
+   */
+  network(message: string, cause?: Error, context?: ErrorContext): AppError {
+    return new AppError({
+      code: ErrorCode.NETWORK_ERROR,
+      message: `Network error: ${message}`,
+      userMessage: 'Could not reach a backing service. Please try again.',
+      severity: ErrorSeverity.HIGH,
+      retryable: true,
+      context,
+      cause,
+    });
+  },
+
   /**
    * Create timeout error
    */
@@ -509,7 +538,9 @@ export class CircuitBreaker {
     private options: {
       failureThreshold: number;
       recoveryTime: number;
+      // Failures further apart than this do not add up towards the threshold
       monitoringPeriod: number;
+      name?: string;
     }
   ) {}
 
@@ -518,8 +549,11 @@ export class CircuitBreaker {
    */
   async execute<T>(fn: () => Promise<T>): Promise<T> {
     if (this.state === 'OPEN') {
-      if (Date.now() - this.lastFailureTime < this.options.recoveryTime) {
-        throw ErrorFactory.serviceUnavailable('Circuit breaker is OPEN');
+      const remaining = this.options.recoveryTime - (Date.now() - this.lastFailureTime);
+      if (remaining > 0) {
+        throw ErrorFactory.serviceUnavailable(
+          `${this.options.name ?? 'Circuit breaker'} is OPEN, retry in ${Math.ceil(remaining / 1000)}s`
+        );
       }
       this.state = 'HALF_OPEN';
     }
@@ -540,10 +574,15 @@ export class CircuitBreaker {
   }
 
   private onFailure(): void {
+    const now = Date.now();
+    if (now - this.lastFailureTime > this.options.monitoringPeriod) {
+      this.failures = 0;
+    }
     this.failures++;
-    this.lastFailureTime = Date.now();
+    this.lastFailureTime = now;
 
-    if (this.failures >= this.options.failureThreshold) {
+    // A failed probe while HALF_OPEN reopens the circuit straight away
+    if (this.state === 'HALF_OPEN' || this.failures >= this.options.failureThreshold) {
       this.state = 'OPEN';
     }
   }
@@ -551,4 +590,12 @@ export class CircuitBreaker {
   getState(): string {
     return this.state;
   }
+
+  getStats(): { state: string; failures: number; lastFailureTime: number | null } {
+    return {
+      state: this.state,
+      failures: this.failures,
+      lastFailureTime: this.lastFailureTime || null,
+    };
+  }
 }
\ No newline at end of file
@@ -201,6 +201,9 @@ export const ValidationSchemas = {
 
     visibility: z.enum(['private', 'team', 'public'])
       .default('private'),
+
+    dedupe: z.enum(['warn', 'block', 'merge'])
+      .optional(),
   }),
 
   // Search validation
@@ -224,6 +227,9 @@ export const ValidationSchemas = {
       .min(1, 'Limit must be at least 1')
       .max(100, 'Limit cannot exceed 100')
       .default(10),
+
+    mode: z.enum(['keyword', 'semantic', 'hybrid'])
+      .optional(),
   }),
 
   // Solution validation
@@ -307,6 +313,11 @@ export const ValidationSchemas = {
       .min(1, 'Limit must be at least 1')
       .max(20, 'Limit cannot exceed 20')
       .default(5),
+
+    cross_category: z.boolean().default(false),
+
+    mode: z.enum(['keyword', 'semantic', 'hybrid'])
+      .optional(),
   }),
 
   // Update incident status validation
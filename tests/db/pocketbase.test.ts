@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterAll } from 'bun:test';
+import {
+  initPocketBase,
+  makeAuthenticatedRequest,
+  getAdminToken,
+  getPocketBaseHealth,
+  probePocketBase,
+} from '../../src/db/pocketbase.js';
+import { AppError, ErrorCode } from '../../src/utils/errors.js';
+
+const realFetch = globalThis.fetch;
+
+type Route = (url: string, init: RequestInit) => Response | Promise<Response>;
+
+let calls: Array<{ url: string; method: string; authorization: string | null }>;
+let authCount: number;
+let recordRoute: Route;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Fake PocketBase: every admin login issues a new token, records go through recordRoute
+function installFetch(): void {
+  globalThis.fetch = (async (input: any, init: RequestInit = {}) => {
+    const url = typeof input === 'string' ? input : input.url;
+    const headers = new Headers(init.headers);
+    calls.push({ url, method: (init.method ?? 'GET').toUpperCase(), authorization: headers.get('Authorization') });
+
+    if (url.endsWith('/api/health')) {
+      return json({ code: 200, message: 'API is healthy.' });
+    }
+    if (url.endsWith('/api/admins/auth-with-password')) {
+      authCount++;
+      return json({ token: `token-${authCount}` });
+    }
+    return recordRoute(url, init);
+  }) as typeof fetch;
+}
+
+describe('makeAuthenticatedRequest', () => {
+  beforeEach(async () => {
+    calls = [];
+    authCount = 0;
+    recordRoute = () => json({ ok: true });
+    installFetch();
+    await initPocketBase();
+  });
+
+  afterAll(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('sends the admin token', async () => {
+    const response = await makeAuthenticatedRequest('http://localhost:8090/api/collections/incidents/records');
+    expect(response.status).toBe(200);
+    expect(calls.at(-1)?.authorization).toBe('Bearer token-1');
+  });
+
+  it('re-authenticates once on 401 and replays the request', async () => {
+    recordRoute = (_url, init) =>
+      new Headers(init.headers).get('Authorization') === 'Bearer token-1' ? json({}, 401) : json({ id: 'abc' });
+
+    const response = await makeAuthenticatedRequest('http://localhost:8090/api/collections/incidents/records/abc', {
+      method: 'PATCH',
+      body: JSON.stringify({ title: 'x' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 'abc' });
+    expect(getAdminToken()).toBe('token-2');
+    expect(calls.filter(call => call.method === 'PATCH').map(call => call.authorization)).toEqual([
+      'Bearer token-1',
+      'Bearer token-2',
+    ]);
+    expect(getPocketBaseHealth().tokenRefreshes).toBeGreaterThanOrEqual(1);
+  });
+
+  it('shares one re-authentication between concurrent 401s', async () => {
+    recordRoute = (_url, init) =>
+      new Headers(init.headers).get('Authorization') === 'Bearer token-1' ? json({}, 401) : json({ ok: true });
+
+    const responses = await Promise.all(
+      [1, 2, 3].map(() => makeAuthenticatedRequest('http://localhost:8090/api/collections/tags/records'))
+    );
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(authCount).toBe(2);
+  });
+
+  it('returns a second 401 instead of looping', async () => {
+    recordRoute = () => json({}, 401);
+    const response = await makeAuthenticatedRequest('http://localhost:8090/api/collections/tags/records');
+    expect(response.status).toBe(401);
+    expect(authCount).toBe(2);
+  });
+
+  it('retries reads that hit a gateway error', async () => {
+    let attempts = 0;
+    recordRoute = () => (++attempts < 3 ? json({}, 503) : json({ items: [] }));
+
+    const response = await makeAuthenticatedRequest('http://localhost:8090/api/collections/incidents/records');
+    expect(response.status).toBe(200);
+    expect(attempts).toBe(3);
+  });
+
+  it('does not replay writes after a gateway error', async () => {
+    let attempts = 0;
+    recordRoute = () => {
+      attempts++;
+      return json({}, 502);
+    };
+
+    const response = await makeAuthenticatedRequest('http://localhost:8090/api/collections/incidents/records', {
+      method: 'POST',
+      body: '{}',
+    });
+    expect(response.status).toBe(502);
+    expect(attempts).toBe(1);
+  });
+
+  it('turns connection failures into network errors and records them', async () => {
+    recordRoute = () => {
+      throw new TypeError('Unable to connect');
+    };
+
+    const error = await makeAuthenticatedRequest('http://localhost:8090/api/collections/incidents/records', {
+      method: 'DELETE',
+    }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe(ErrorCode.NETWORK_ERROR);
+    expect(error.message).toContain('DELETE /api/collections/incidents/records');
+
+    const health = getPocketBaseHealth();
+    expect(health.status).toBe('degraded');
+    expect(health.lastError).toContain('Unable to connect');
+  });
+
+  it('probes /api/health directly', async () => {
+    const probe = await probePocketBase();
+    expect(probe.reachable).toBe(true);
+    expect(calls.at(-1)?.url).toEndWith('/api/health');
+  });
+});
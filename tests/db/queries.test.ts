@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  Filter,
+  compileFilter,
+  bindFilter,
+  escapeFilterValue,
+  QueryBuilder,
+} from '../../src/db/queries.js';
+
+describe('Filter builder', () => {
+  describe('escapeFilterValue', () => {
+    it('should quote strings and escape quotes and backslashes', () => {
+      expect(escapeFilterValue(`it's "quoted"`)).toBe(`'it\\'s "quoted"'`);
+      expect(escapeFilterValue('C:\\temp')).toBe(`'C:\\\\temp'`);
+      // A trailing backslash must not escape the closing quote
+      expect(escapeFilterValue('foo\\')).toBe(`'foo\\\\'`);
+      expect(escapeFilterValue(`\\' || id != '`)).toBe(`'\\\\\\' || id != \\''`);
+    });
+
+    it('should render numbers, booleans, null and dates as literals', () => {
+      expect(escapeFilterValue(3)).toBe('3');
+      expect(escapeFilterValue(false)).toBe('false');
+      expect(escapeFilterValue(null)).toBe('null');
+      expect(escapeFilterValue(new Date('2025-01-02T03:04:05.000Z'))).toBe(`'2025-01-02 03:04:05.000Z'`);
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(() => escapeFilterValue(NaN)).toThrow('finite number');
+    });
+  });
+
+  describe('bindFilter', () => {
+    it('should substitute {:param} placeholders', () => {
+      expect(bindFilter('status = {:status} && created >= {:since}', { status: 'open', since: '2025-01-01' }))
+        .toBe(`status = 'open' && created >= '2025-01-01'`);
+    });
+
+    it('should throw when a parameter is missing', () => {
+      expect(() => bindFilter('status = {:status}')).toThrow('Missing filter parameter: status');
+    });
+  });
+
+  describe('compileFilter', () => {
+    it('should keep injected operators inside the string literal', () => {
+      const filter = compileFilter(
+        Filter.and(
+          Filter.search(['title', 'description'], `x" || visibility = "private`),
+          Filter.eq('visibility', 'public')
+        )
+      );
+
+      expect(filter).toBe(
+        `((title ~ 'x" || visibility = "private') || (description ~ 'x" || visibility = "private')) && (visibility = 'public')`
+      );
+    });
+
+    it('should drop empty clauses', () => {
+      expect(compileFilter(Filter.and(undefined, false, Filter.eq('status', 'open')))).toBe(`status = 'open'`);
+      expect(compileFilter(Filter.and())).toBe('');
+    });
+
+    it('should match nothing for an empty IN list', () => {
+      expect(compileFilter(Filter.in('incident_id', []))).toBe(`id = ''`);
+    });
+
+    it('should reject invalid field names', () => {
+      expect(() => Filter.eq('status = "open" || id', 'x')).toThrow('Invalid filter field name');
+    });
+  });
+
+  describe('QueryBuilder.filter', () => {
+    it('should group each filter call so OR clauses do not leak', () => {
+      const builder = new QueryBuilder('/api/collections/incidents/records')
+        .filter(Filter.search(['title', 'description'], 'timeout'))
+        .filter('category = {:category}', { category: 'Backend' });
+
+      const params = new URLSearchParams((builder as any).params.toString());
+      expect(params.get('filter')).toBe(
+        `((title ~ 'timeout') || (description ~ 'timeout')) && (category = 'Backend')`
+      );
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import {
+  handleAddTags,
+  handleAddTimelineEvent,
+  handleCreateActionItem,
+  handleDeleteIncident,
+  handleMergeIncidents,
+  handleUpdateIncident,
+  handleUpdateIncidentStatus,
+} from '../../src/mcp/handlers.js';
+import { initPocketBase } from '../../src/db/pocketbase.js';
+import type { UserIdentity } from '../../src/services/identity.js';
+
+const realFetch = globalThis.fetch;
+
+const alice: UserIdentity = { id: 'alice1', email: 'alice@example.com', name: 'Alice', team: 'payments', admin: false };
+const bob: UserIdentity = { id: 'bob1', email: 'bob@example.com', name: 'Bob', team: 'payments', admin: false };
+const carol: UserIdentity = { id: 'carol1', email: 'carol@example.com', name: 'Carol', team: 'search', admin: false };
+
+const INCIDENTS: Record<string, any> = {
+  shared: { id: 'shared', title: 'Checkout timeouts', status: 'open', visibility: 'team', team: 'payments', created_by: 'alice1', tags: [] },
+  open: { id: 'open', title: 'Status page down', visibility: 'public', team: '', created_by: 'alice1', tags: [] },
+  report: { id: 'report', title: 'Status page 503', visibility: 'public', team: 'search', created_by: 'carol1', tags: [] },
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('incident write access', () => {
+  let deletes: string[];
+  let posts: string[];
+  let patches: string[];
+
+  beforeAll(async () => {
+    globalThis.fetch = (async (input: any, init?: RequestInit) => {
+      const url = new URL(typeof input === 'string' ? input : input.url);
+      if (url.pathname.endsWith('/api/health')) {
+        return json({ code: 200 });
+      }
+      if (url.pathname.endsWith('/api/admins/auth-with-password')) {
+        return json({ token: 'admin-token' });
+      }
+      if (init?.method === 'DELETE') {
+        deletes.push(url.pathname);
+        return new Response(null, { status: 204 });
+      }
+      if (init?.method === 'PATCH') {
+        patches.push(url.pathname);
+      }
+      if (init?.method === 'POST') {
+        posts.push(url.pathname);
+        return json({ id: 'evt1', ...JSON.parse(String(init.body)) });
+      }
+
+      const record = /^\/api\/collections\/incidents\/records\/(\w+)$/.exec(url.pathname);
+      if (record) {
+        return INCIDENTS[record[1]] ? json(INCIDENTS[record[1]]) : json({ message: 'Not found' }, 404);
+      }
+      return json({ page: 1, perPage: 20, totalItems: 0, items: [] });
+    }) as typeof fetch;
+    await initPocketBase();
+  });
+
+  afterAll(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  beforeEach(() => {
+    deletes = [];
+    posts = [];
+    patches = [];
+  });
+
+  it('refuses team members who may see but do not own the incident', async () => {
+    const result = await handleDeleteIncident({ incident_id: 'shared', confirm: true, cascade: true }, bob);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Only the creator of an incident can delete it');
+    expect(deletes).toEqual([]);
+  });
+
+  it('refuses anyone but the creator on public incidents', async () => {
+    const result = await handleDeleteIncident({ incident_id: 'open', confirm: true }, bob);
+
+    expect(result.isError).toBe(true);
+    expect(deletes).toEqual([]);
+  });
+
+  it('lets the creator delete', async () => {
+    const result = await handleDeleteIncident({ incident_id: 'shared', confirm: true }, alice);
+
+    expect(result.isError).toBeUndefined();
+    expect(deletes).toContain('/api/collections/incidents/records/shared');
+  });
+
+  it('does not let add_timeline_event fake a resolution', async () => {
+    const args = { incident_id: 'shared', event_type: 'status_change', to_value: 'resolved', message: 'Fixed', occurred_at: '2026-03-01T10:05:00Z' };
+
+    await expect(handleAddTimelineEvent(args, alice)).rejects.toThrow('event_type must be one of');
+    expect(posts).toEqual([]);
+  });
+
+  it('still records notes', async () => {
+    const result = await handleAddTimelineEvent({ incident_id: 'shared', event_type: 'note', message: 'Paged the DBA' }, alice);
+
+    expect(result.isError).toBeUndefined();
+    expect(posts).toEqual(['/api/collections/timeline_events/records']);
+  });
+
+  it('refuses changes from readers outside the owner and their team', async () => {
+    const attempts = [
+      handleUpdateIncidentStatus({ incident_id: 'open', status: 'resolved', resolution_summary: 'Fixed' }, carol),
+      handleUpdateIncident({ incident_id: 'open', title: 'Renamed' }, carol),
+      handleAddTags({ incident_id: 'open', tags: ['dns'] }, carol),
+      handleMergeIncidents({ target_id: 'open', source_ids: ['report'] }, carol),
+      handleAddTimelineEvent({ incident_id: 'open', event_type: 'note', message: 'Hi' }, carol),
+      handleCreateActionItem({ incident_id: 'open', title: 'Add alerting' }, carol),
+    ];
+
+    for (const result of await Promise.all(attempts)) {
+      expect(result.isError).toBe(true);
+    }
+    expect((await attempts[0]).content[0].text).toContain('Only the creator of an incident, their team or an admin can change it');
+    expect(patches).toEqual([]);
+    expect(posts).toEqual([]);
+  });
+
+  it('does not send an update that changes nothing', async () => {
+    const result = await handleUpdateIncident({ incident_id: 'shared', status: 'open', title: 'Checkout timeouts' }, alice);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Nothing to update');
+    expect(patches).toEqual([]);
+  });
+
+  it('lets the team change a shared incident', async () => {
+    const result = await handleUpdateIncidentStatus({ incident_id: 'shared', status: 'investigating' }, bob);
+
+    expect(result.isError).toBeUndefined();
+    expect(patches).toEqual(['/api/collections/incidents/records/shared']);
+  });
+});
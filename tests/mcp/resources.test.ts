@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { registerResources } from '../../src/mcp/resources.js';
+import { registerCompletions } from '../../src/mcp/completions.js';
+import { initPocketBase } from '../../src/db/pocketbase.js';
+import type { UserIdentity } from '../../src/services/identity.js';
+
+const realFetch = globalThis.fetch;
+
+const INCIDENTS: Record<string, any> = {
+  inc1: {
+    id: 'inc1',
+    title: 'Postgres pool exhausted',
+    category: 'Backend',
+    severity: 'high',
+    status: 'open',
+    visibility: 'public',
+    created_by: null,
+    team: '',
+    expand: { tags: [{ id: 't1', tag_name: 'postgres' }] },
+  },
+  secret: { id: 'secret', title: 'Payroll leak', category: 'Finance', visibility: 'private', created_by: 'someone' },
+};
+
+let requests: URL[];
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function page(items: any[]): Response {
+  return json({ page: 1, perPage: 20, totalItems: items.length, items });
+}
+
+// Fake PocketBase serving just enough records for the templates
+function installFetch(): void {
+  globalThis.fetch = (async (input: any) => {
+    const url = new URL(typeof input === 'string' ? input : input.url);
+    requests.push(url);
+
+    if (url.pathname.endsWith('/api/admins/auth-with-password')) {
+      return json({ token: 'admin-token' });
+    }
+
+    const record = /^\/api\/collections\/(\w+)\/records\/(\w+)$/.exec(url.pathname);
+    if (record) {
+      const found = record[1] === 'incidents' ? INCIDENTS[record[2]] : undefined;
+      return found ? json(found) : json({ message: 'Not found' }, 404);
+    }
+
+    if (url.pathname.endsWith('/solutions/records')) {
+      return page([{ id: 'sol1', incident_id: 'inc1', solution_title: 'Raise the pool size' }]);
+    }
+    if (url.pathname.endsWith('/timeline_events/records')) {
+      return page([
+        { id: 'ev2', incident_id: 'inc1', event_type: 'note', occurred_at: '2026-03-01T10:20:00Z' },
+        { id: 'ev1', incident_id: 'inc1', event_type: 'created', to_value: 'open', occurred_at: '2026-03-01T10:00:00Z' },
+      ]);
+    }
+    if (url.pathname.endsWith('/tags/records')) {
+      return page([{ tag_name: 'postgres' }, { tag_name: 'pool' }]);
+    }
+    if (url.pathname.endsWith('/incidents/records')) {
+      return page([{ id: 'inc1' }]);
+    }
+    return page([]);
+  }) as typeof fetch;
+}
+
+const carol: UserIdentity = { id: 'carol1', email: 'carol@example.com', name: 'Carol', team: '', admin: false };
+
+// Every request of the client carries `user` the way the HTTP transport attaches session users
+async function connect(user?: UserIdentity): Promise<Client> {
+  const server = new Server(
+    { name: 'test', version: '1.0.0' },
+    { capabilities: { resources: {}, completions: {} } }
+  );
+  registerResources(server);
+  registerCompletions(server);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  if (user) {
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) =>
+      send(message, { ...options, authInfo: { token: '', clientId: 'test', scopes: [], extra: { user } } });
+  }
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+const read = async (client: Client, uri: string) => (await client.readResource({ uri })).contents[0].text as string;
+
+describe('Resource templates', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    requests = [];
+    installFetch();
+    await initPocketBase();
+    client = await connect();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    globalThis.fetch = realFetch;
+  });
+
+  it('lists the templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'incident://{id}',
+      'incident://{id}/solutions',
+      'incident://{id}/lessons',
+      'incident://{id}/timeline',
+      'category://{name}',
+      'tag://{name}',
+      'knowledge://{id}',
+    ]);
+  });
+
+  it('reads one incident with its tag names', async () => {
+    const incident = JSON.parse(await read(client, 'incident://inc1'));
+    expect(incident.title).toBe('Postgres pool exhausted');
+    expect(incident.tags).toEqual(['postgres']);
+  });
+
+  it('reads the solutions of an incident', async () => {
+    const data = JSON.parse(await read(client, 'incident://inc1/solutions'));
+    expect(data.solutions.map((solution: any) => solution.id)).toEqual(['sol1']);
+  });
+
+  it('reads the timeline of an incident with its metrics', async () => {
+    const data = JSON.parse(await read(client, 'incident://inc1/timeline'));
+    expect(data.events.map((event: any) => event.id)).toEqual(['ev1', 'ev2']);
+    expect(data.metrics.acknowledged_at).toBe('2026-03-01T10:20:00Z');
+    expect(data.metrics.resolved_at).toBeNull();
+  });
+
+  it('reports hidden and missing incidents the same way', async () => {
+    expect(await read(client, 'incident://missing')).toContain('Incident not found: missing');
+    expect(JSON.parse(await read(client, 'incident://secret')).id).toBe('secret');
+
+    const asCarol = await connect(carol);
+    expect(await read(asCarol, 'incident://secret')).toContain('Incident not found: secret');
+    expect(await read(asCarol, 'incident://secret/solutions')).toContain('Incident not found: secret');
+    await asCarol.close();
+  });
+
+  it('filters incidents by tag and category', async () => {
+    requests = [];
+    const tagged = JSON.parse(await read(client, 'tag://Postgres'));
+    expect(tagged.tag).toBe('postgres');
+    expect(requests.at(-1)?.searchParams.get('filter')).toBe("tags.tag_name ?= 'postgres'");
+
+    const category = JSON.parse(await read(client, 'category://backend'));
+    expect(category.category).toBe('Backend');
+    expect(Object.keys(category.by_status)).toEqual(['open', 'investigating', 'resolved', 'archived']);
+
+    expect(await read(client, 'category://Sales')).toContain('Unknown category: Sales');
+  });
+
+  it('keeps the fixed resources ahead of the incident template', async () => {
+    const recent = JSON.parse(await read(client, 'incident://recent'));
+    expect(recent.incidents).toBeArray();
+  });
+});
+
+describe('Completions', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    requests = [];
+    installFetch();
+    await initPocketBase();
+    client = await connect();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    globalThis.fetch = realFetch;
+  });
+
+  it('completes category names locally', async () => {
+    const result = await client.complete({
+      ref: { type: 'ref/resource', uri: 'category://{name}' },
+      argument: { name: 'name', value: 'f' },
+    });
+    expect(result.completion.values).toEqual(['Frontend', 'Finance']);
+  });
+
+  it('completes incident IDs by ID or title', async () => {
+    const result = await client.complete({
+      ref: { type: 'ref/resource', uri: 'incident://{id}/lessons' },
+      argument: { name: 'id', value: 'pool' },
+    });
+    expect(result.completion.values).toEqual(['inc1']);
+    expect(requests.at(-1)?.searchParams.get('filter')).toBe("(id ~ 'pool') || (title ~ 'pool')");
+
+    const asCarol = await connect(carol);
+    await asCarol.complete({
+      ref: { type: 'ref/prompt', name: 'document_solution' },
+      argument: { name: 'incident_id', value: 'pool' },
+    });
+    expect(requests.at(-1)?.searchParams.get('filter')).toStartWith("((visibility = 'public') || (created_by = 'carol1'))");
+    await asCarol.close();
+  });
+
+  it('completes tags and prompt arguments', async () => {
+    const tags = await client.complete({
+      ref: { type: 'ref/resource', uri: 'tag://{name}' },
+      argument: { name: 'name', value: 'po' },
+    });
+    expect(tags.completion.values).toEqual(['postgres', 'pool']);
+
+    const prompt = await client.complete({
+      ref: { type: 'ref/prompt', name: 'analyze_pattern' },
+      argument: { name: 'category', value: 'Dev' },
+    });
+    expect(prompt.completion.values).toEqual(['DevOps']);
+  });
+
+  it('returns nothing for arguments without a source', async () => {
+    const result = await client.complete({
+      ref: { type: 'ref/prompt', name: 'troubleshoot' },
+      argument: { name: 'problem_description', value: 'x' },
+    });
+    expect(result.completion.values).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { changedResources, registerSubscriptions, type ChangeFeed } from '../../src/mcp/subscriptions.js';
+import { initPocketBase } from '../../src/db/pocketbase.js';
+import type { ChangeListener, RecordChange } from '../../src/services/realtime.js';
+import type { UserIdentity } from '../../src/services/identity.js';
+
+const realFetch = globalThis.fetch;
+
+// Stands in for the PocketBase realtime feed
+class FakeFeed implements ChangeFeed {
+  listeners = new Set<ChangeListener>();
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  emit(change: RecordChange): void {
+    this.listeners.forEach(listener => listener(change));
+  }
+}
+
+const carol: UserIdentity = { id: 'carol1', email: 'carol@example.com', name: 'Carol', team: '', admin: false };
+
+async function connect(feed: FakeFeed, user?: UserIdentity) {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { resources: { subscribe: true, listChanged: true } } });
+  registerSubscriptions(server, feed);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  if (user) {
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) =>
+      send(message, { ...options, authInfo: { token: '', clientId: 'test', scopes: [], extra: { user } } });
+  }
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const updated: string[] = [];
+  let listChanges = 0;
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+    updated.push(notification.params.uri);
+  });
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+    listChanges++;
+  });
+
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return { client, updated, listChanges: () => listChanges };
+}
+
+const INCIDENTS: Record<string, any> = {
+  pub: { id: 'pub', category: 'Backend', visibility: 'public', created_by: 'dave1' },
+  secret: { id: 'secret', category: 'Backend', visibility: 'private', created_by: 'dave1' },
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('changedResources', () => {
+  it('maps an incident update to its views', () => {
+    const { uris, prefixes } = changedResources({
+      collection: 'incidents',
+      action: 'update',
+      record: { id: 'inc1', category: 'Backend' },
+    });
+    expect(uris).toEqual(['incident://inc1', 'incident://recent', 'incident://by-category', 'incident://stats', 'category://Backend']);
+    expect(prefixes).toEqual(['category://', 'tag://']);
+  });
+
+  it('maps solutions and lessons to their incident', () => {
+    expect(changedResources({ collection: 'solutions', action: 'create', record: { id: 's1', incident_id: 'inc1' } }).uris)
+      .toEqual(['incident://inc1/solutions', 'incident://stats']);
+    expect(changedResources({ collection: 'lessons_learned', action: 'delete', record: { id: 'l1', incident_id: 'inc1' } }).uris)
+      .toEqual(['incident://inc1/lessons', 'incident://stats']);
+    expect(changedResources({ collection: 'timeline_events', action: 'create', record: { id: 'e1', incident_id: 'inc1' } }).uris)
+      .toEqual(['incident://inc1/timeline']);
+    expect(changedResources({ collection: 'action_items', action: 'update', record: { id: 'a1', incident_id: 'inc1' } }).uris)
+      .toEqual(['incident://stats']);
+  });
+});
+
+describe('registerSubscriptions', () => {
+  const feed = new FakeFeed();
+
+  beforeAll(async () => {
+    // PocketBase serves the INCIDENTS above and the incident categories lookup, where Backend already has incidents
+    globalThis.fetch = (async (input: any) => {
+      const url = new URL(typeof input === 'string' ? input : input.url);
+      if (url.pathname.endsWith('/api/admins/auth-with-password')) {
+        return Response.json({ token: 'admin-token' });
+      }
+      const record = /\/incidents\/records\/(\w+)$/.exec(url.pathname);
+      if (record) {
+        return INCIDENTS[record[1]] ? Response.json(INCIDENTS[record[1]]) : Response.json({ message: 'Not found' }, { status: 404 });
+      }
+      const backend = url.searchParams.get('filter')?.includes("'Backend'");
+      return Response.json({ page: 1, perPage: 1, totalItems: backend ? 1 : 0, items: [] });
+    }) as typeof fetch;
+    await initPocketBase();
+  });
+
+  afterAll(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('notifies subscribed URIs only, until unsubscribed', async () => {
+    const { client, updated } = await connect(feed);
+    await client.subscribeResource({ uri: 'incident://inc1' });
+    await client.subscribeResource({ uri: 'incident://inc2/solutions' });
+
+    feed.emit({ collection: 'incidents', action: 'update', record: { id: 'inc1', category: 'Backend', visibility: 'public' } });
+    feed.emit({ collection: 'solutions', action: 'create', record: { id: 's1', incident_id: 'inc2' } });
+    feed.emit({ collection: 'solutions', action: 'create', record: { id: 's2', incident_id: 'inc3' } });
+    await settle();
+    expect(updated).toEqual(['incident://inc1', 'incident://inc2/solutions']);
+
+    await client.unsubscribeResource({ uri: 'incident://inc1' });
+    feed.emit({ collection: 'incidents', action: 'update', record: { id: 'inc1', category: 'Backend', visibility: 'public' } });
+    await settle();
+    expect(updated).toHaveLength(2);
+    await client.close();
+  });
+
+  it('does not announce changes to incidents the subscriber cannot see', async () => {
+    const { client, updated } = await connect(feed, carol);
+    await client.subscribeResource({ uri: 'incident://recent' });
+
+    feed.emit({ collection: 'incidents', action: 'create', record: { id: 'hidden', category: 'Backend', visibility: 'private', created_by: 'dave1' } });
+    feed.emit({ collection: 'incidents', action: 'create', record: { id: 'mine', category: 'Backend', visibility: 'private', created_by: 'carol1' } });
+    await settle();
+    expect(updated).toEqual(['incident://recent']);
+    await client.close();
+  });
+
+  it('refuses subscriptions to incidents the subscriber cannot see', async () => {
+    const { client } = await connect(feed, carol);
+
+    await expect(client.subscribeResource({ uri: 'incident://secret/solutions' })).rejects.toThrow('Incident not found: secret');
+    await expect(client.subscribeResource({ uri: 'incident://missing' })).rejects.toThrow('Incident not found: missing');
+    await client.subscribeResource({ uri: 'incident://pub/timeline' });
+    await client.close();
+  });
+
+  it('does not announce changes to solutions and events of hidden incidents', async () => {
+    const { client, updated } = await connect(feed, carol);
+    await client.subscribeResource({ uri: 'incident://stats' });
+    await client.subscribeResource({ uri: 'incident://pub/solutions' });
+
+    feed.emit({ collection: 'solutions', action: 'create', record: { id: 's1', incident_id: 'secret' } });
+    feed.emit({ collection: 'action_items', action: 'update', record: { id: 'a1', incident_id: 'secret' } });
+    await settle();
+    expect(updated).toEqual([]);
+
+    feed.emit({ collection: 'solutions', action: 'create', record: { id: 's2', incident_id: 'pub' } });
+    await settle();
+    expect(updated.sort()).toEqual(['incident://pub/solutions', 'incident://stats']);
+    await client.close();
+  });
+
+  it('announces new tags and the first incident of a category', async () => {
+    const { client, listChanges } = await connect(feed);
+    await settle();
+
+    feed.emit({ collection: 'incidents', action: 'create', record: { id: 'i1', category: 'Backend' } });
+    feed.emit({ collection: 'incidents', action: 'create', record: { id: 'i2', category: 'Mobile' } });
+    feed.emit({ collection: 'incidents', action: 'create', record: { id: 'i3', category: 'Mobile' } });
+    feed.emit({ collection: 'tags', action: 'create', record: { id: 't1', tag_name: 'ios' } });
+    feed.emit({ collection: 'tags', action: 'update', record: { id: 't1', tag_name: 'ios' } });
+    await settle();
+
+    expect(listChanges()).toBe(2);
+    await client.close();
+  });
+
+  it('lets go of the feed when the last server closes', async () => {
+    const { client } = await connect(feed);
+    expect(feed.listeners.size).toBe(1);
+    await client.close();
+    expect(feed.listeners.size).toBe(0);
+  });
+});
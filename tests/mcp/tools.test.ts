@@ -1,5 +1,13 @@
 import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
-import { handleCreateIncident, handleSearchIncidents, handleAddSolution } from '../../src/mcp/handlers.js';
+import {
+  handleCreateIncident,
+  handleSearchIncidents,
+  handleAddSolution,
+  handleGetIncident,
+  handleUpdateIncident,
+  handleDeleteIncident,
+  handleMergeIncidents,
+} from '../../src/mcp/handlers.js';
 import { initPocketBase } from '../../src/db/pocketbase.js';
 
 describe('MCP Tools', () => {
@@ -24,6 +32,19 @@ describe('MCP Tools', () => {
       expect(result.isError).toBeUndefined();
     });
 
+    it('should return the new record as structured content', async () => {
+      const result = await handleCreateIncident({
+        title: 'Structured Test Incident',
+        category: 'Backend',
+        description: 'Checks the machine-readable result',
+        severity: 'low'
+      });
+
+      expect(result.structuredContent?.id).toBeTruthy();
+      expect(result.structuredContent?.incident.title).toBe('Structured Test Incident');
+      expect(result.content[0].text).toContain(result.structuredContent?.id);
+    });
+
     it('should reject invalid category', async () => {
       const result = await handleCreateIncident({
         title: 'Test Incident',
@@ -57,6 +78,14 @@ describe('MCP Tools', () => {
       expect(result.content).toHaveLength(1);
       expect(result.content[0].type).toBe('text');
       expect(result.isError).toBeUndefined();
+      expect(Array.isArray(result.structuredContent?.items)).toBe(true);
+    });
+
+    it('should reject an invalid cursor', async () => {
+      await expect(handleSearchIncidents({
+        query: 'Test',
+        cursor: 'not-a-cursor'
+      })).rejects.toThrow('Cursor is invalid');
     });
 
     it('should reject empty query', async () => {
@@ -150,6 +179,118 @@ describe('MCP Tools', () => {
     });
   });
 
+  describe('Incident lifecycle tools', () => {
+    let lifecycleIncidentId: string;
+
+    beforeAll(async () => {
+      const incidentResult = await handleCreateIncident({
+        title: 'Lifecycle Test Incident',
+        category: 'Backend',
+        description: 'Incident used to exercise get/update/delete',
+        severity: 'low'
+      });
+
+      lifecycleIncidentId = incidentResult.structuredContent?.id;
+    });
+
+    it('should get an incident with its relations', async () => {
+      await handleAddSolution({
+        incident_id: lifecycleIncidentId,
+        solution_title: 'Lifecycle Solution',
+        solution_description: 'Solution attached before reading',
+        steps: 'Step 1: Restart'
+      });
+
+      const result = await handleGetIncident({ incident_id: lifecycleIncidentId });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('Lifecycle Test Incident');
+      expect(result.content[0].text).toContain('Lifecycle Solution');
+    });
+
+    it('should partially update an incident', async () => {
+      const result = await handleUpdateIncident({
+        incident_id: lifecycleIncidentId,
+        severity: 'high'
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('**severity:** high');
+    });
+
+    it('should reject an update without fields', async () => {
+      await expect(handleUpdateIncident({ incident_id: lifecycleIncidentId })).rejects.toThrow('At least one field');
+    });
+
+    it('should reject an update with an invalid enum value', async () => {
+      await expect(handleUpdateIncident({
+        incident_id: lifecycleIncidentId,
+        category: 'Marketing'
+      })).rejects.toThrow('category must be one of');
+    });
+
+    it('should refuse to delete without confirmation', async () => {
+      await expect(handleDeleteIncident({ incident_id: lifecycleIncidentId })).rejects.toThrow('confirm');
+    });
+
+    it('should refuse to delete an incident with solutions unless cascading', async () => {
+      const result = await handleDeleteIncident({ incident_id: lifecycleIncidentId, confirm: true });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('cascade');
+    });
+
+    it('should delete an incident and its relations when cascading', async () => {
+      const result = await handleDeleteIncident({ incident_id: lifecycleIncidentId, confirm: true, cascade: true });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('Solutions removed:** 1');
+
+      const lookup = await handleGetIncident({ incident_id: lifecycleIncidentId });
+      expect(lookup.isError).toBe(true);
+    });
+  });
+
+  describe('handleMergeIncidents', () => {
+    it('should reject a merge without sources', async () => {
+      await expect(handleMergeIncidents({ target_id: 'abc', source_ids: [] })).rejects.toThrow('source_ids');
+    });
+
+    it('should reject merging an incident into itself', async () => {
+      await expect(handleMergeIncidents({ target_id: 'abc', source_ids: ['abc'] })).rejects.toThrow('cannot also be a source');
+    });
+  });
+
+  describe('duplicate detection', () => {
+    it('should reject an unknown dedupe mode', async () => {
+      await expect(handleCreateIncident({
+        title: 'Duplicate check',
+        category: 'Backend',
+        description: 'Testing dedupe validation',
+        severity: 'low',
+        dedupe: 'ignore'
+      })).rejects.toThrow('dedupe must be one of');
+    });
+
+    it('should block a near-duplicate of an open incident', async () => {
+      const report = {
+        title: 'Ledger reconciliation worker stuck on batch lock',
+        category: 'Finance',
+        description: 'Reconciliation worker waits forever on the ledger batch lock',
+        severity: 'medium'
+      };
+
+      const first = await handleCreateIncident({ ...report, dedupe: 'block' });
+      expect(first.isError).toBeUndefined();
+
+      const second = await handleCreateIncident({ ...report, dedupe: 'block' });
+      expect(second.isError).toBe(true);
+      expect(second.content[0].text).toContain(first.structuredContent!.id);
+
+      await handleDeleteIncident({ incident_id: first.structuredContent!.id, confirm: true, cascade: true });
+    });
+  });
+
   describe('Integration Tests', () => {
     it('should handle complete workflow', async () => {
       // 1. Create incident
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { ActionItemService, isOverdue, overdueFilter } from '../../src/services/actionItems.js';
+import { compileFilter } from '../../src/db/queries.js';
+import { initPocketBase } from '../../src/db/pocketbase.js';
+import type { UserIdentity } from '../../src/services/identity.js';
+
+const realFetch = globalThis.fetch;
+const now = new Date('2026-03-10T12:00:00Z');
+
+describe('isOverdue', () => {
+  it('only counts pending items past their due date', () => {
+    expect(isOverdue({ status: 'open', due_date: '2026-03-09 12:00:00.000Z' }, now)).toBe(true);
+    expect(isOverdue({ status: 'in_progress', due_date: '2026-03-09T12:00:00Z' }, now)).toBe(true);
+    expect(isOverdue({ status: 'open', due_date: '2026-03-11T12:00:00Z' }, now)).toBe(false);
+    expect(isOverdue({ status: 'done', due_date: '2026-03-01T12:00:00Z' }, now)).toBe(false);
+    expect(isOverdue({ status: 'open', due_date: '' }, now)).toBe(false);
+  });
+
+  it('has a matching PocketBase filter', () => {
+    expect(compileFilter(overdueFilter(now))).toBe(
+      "((status = 'open') || (status = 'in_progress')) && (due_date != '') && (due_date < '2026-03-10 12:00:00.000Z')"
+    );
+  });
+});
+
+describe('ActionItemService', () => {
+  const service = new ActionItemService();
+  const alice: UserIdentity = { id: 'alice1', email: 'alice@example.com', name: 'Alice', team: '', admin: false };
+  let requests: { method: string; url: URL; body: any }[];
+
+  beforeAll(async () => {
+    globalThis.fetch = (async (input: any, init?: RequestInit) => {
+      const url = new URL(typeof input === 'string' ? input : input.url);
+      if (url.pathname.endsWith('/api/health')) {
+        return new Response(JSON.stringify({ code: 200 }));
+      }
+      if (url.pathname.endsWith('/api/admins/auth-with-password')) {
+        return new Response(JSON.stringify({ token: 'admin-token' }));
+      }
+      const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+      requests.push({ method: init?.method ?? 'GET', url, body });
+      if (init?.method === 'POST' || init?.method === 'PATCH') {
+        return new Response(JSON.stringify({ id: 'act1', ...body }));
+      }
+      return new Response(JSON.stringify({
+        items: [
+          { id: 'a2', status: 'open', due_date: '' },
+          { id: 'a1', status: 'open', due_date: '2026-03-01 00:00:00.000Z' },
+        ],
+        totalItems: 7,
+      }));
+    }) as typeof fetch;
+    await initPocketBase();
+  });
+
+  afterAll(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('creates open items owned by the caller', async () => {
+    requests = [];
+    await service.create('inc1', { title: 'Add pool alert', owner: 'db-oncall', lesson_id: 'les1' }, alice);
+
+    expect(requests[0].body).toMatchObject({
+      incident_id: 'inc1',
+      lesson_id: 'les1',
+      title: 'Add pool alert',
+      owner: 'db-oncall',
+      status: 'open',
+      priority: 'medium',
+      created_by: 'alice1',
+    });
+  });
+
+  it('stamps completed_at when an item is done and clears it when reopened', async () => {
+    requests = [];
+    await service.update({ id: 'act1', status: 'open' }, { status: 'done', due_date: null }, now);
+    await service.update({ id: 'act1', status: 'done' }, { status: 'in_progress' }, now);
+    await service.update({ id: 'act1', status: 'open' }, { owner: 'bob' }, now);
+
+    expect(requests[0].body).toEqual({ status: 'done', due_date: '', completed_at: '2026-03-10T12:00:00.000Z' });
+    expect(requests[1].body).toEqual({ status: 'in_progress', completed_at: '' });
+    expect(requests[2].body).toEqual({ owner: 'bob' });
+  });
+
+  it('lists visible items with due dates first', async () => {
+    requests = [];
+    const { items, total } = await service.list({ owner: 'db-oncall', overdue: true }, alice, now);
+
+    expect(items.map(item => item.id)).toEqual(['a1', 'a2']);
+    expect(total).toBe(7);
+    const filter = requests[0].url.searchParams.get('filter')!;
+    expect(filter).toContain("incident_id.created_by = 'alice1'");
+    expect(filter).toContain("owner = 'db-oncall'");
+    expect(filter).toContain("due_date < '2026-03-10 12:00:00.000Z'");
+  });
+
+  it('counts open and overdue items', async () => {
+    requests = [];
+    expect(await service.counts(alice, now)).toEqual({ open: 7, overdue: 7 });
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  HashingEmbeddingProvider,
+  contentHash,
+  cosineSimilarity,
+  createEmbeddingProvider,
+  registerEmbeddingProvider,
+} from '../../src/services/embeddings.js';
+
+describe('Embeddings', () => {
+  describe('HashingEmbeddingProvider', () => {
+    const provider = new HashingEmbeddingProvider();
+
+    it('should produce unit vectors of the configured size', async () => {
+      const [vector] = await provider.embed(['Postgres connection pool exhausted']);
+
+      expect(vector).toHaveLength(provider.dimensions);
+      expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 6);
+    });
+
+    it('should place differently worded descriptions of one failure close together', async () => {
+      const [oom, exhaustion, layout] = await provider.embed([
+        'Worker pod OOM killed',
+        'API servers crash from memory exhaustion',
+        'Checkout button misaligned on mobile',
+      ]);
+
+      expect(cosineSimilarity(oom, exhaustion)).toBeGreaterThan(0.3);
+      expect(cosineSimilarity(oom, layout)).toBeLessThan(0.1);
+    });
+
+    it('should match spelling variants through character trigrams', async () => {
+      const [short, long] = await provider.embed(['postgres replica', 'postgresql replicas']);
+
+      expect(cosineSimilarity(short, long)).toBeGreaterThan(0.5);
+    });
+
+    it('should return a zero vector for text without tokens', async () => {
+      const [vector] = await provider.embed(['   ']);
+
+      expect(vector.every(value => value === 0)).toBe(true);
+      expect(cosineSimilarity(vector, vector)).toBe(0);
+    });
+  });
+
+  describe('provider registry', () => {
+    it('should create registered providers and reject unknown names', () => {
+      registerEmbeddingProvider('test-fixed', () => ({
+        name: 'test-fixed',
+        dimensions: 2,
+        embed: async texts => texts.map(() => [1, 0]),
+      }));
+
+      expect(createEmbeddingProvider('hashing')).toBeInstanceOf(HashingEmbeddingProvider);
+      expect(createEmbeddingProvider('test-fixed').name).toBe('test-fixed');
+      expect(() => createEmbeddingProvider('missing')).toThrow('Unknown embedding provider "missing"');
+    });
+  });
+
+  describe('contentHash', () => {
+    it('should be stable and change with the text', () => {
+      expect(contentHash('a')).toBe(contentHash('a'));
+      expect(contentHash('a')).not.toBe(contentHash('b'));
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import {
+  ADMIN_IDENTITY,
+  IdentityService,
+  canView,
+  canEdit,
+  isOwner,
+  ownership,
+  toIdentity,
+  visibilityFilter,
+  type UserIdentity,
+} from '../../src/services/identity.js';
+import { compileFilter } from '../../src/db/queries.js';
+import { config } from '../../src/config.js';
+
+const alice: UserIdentity = { id: 'alice1', email: 'alice@example.com', name: 'Alice', team: 'payments', admin: false };
+const bob: UserIdentity = { id: 'bob1', email: 'bob@example.com', name: 'Bob', team: 'payments', admin: false };
+const carol: UserIdentity = { id: 'carol1', email: 'carol@example.com', name: 'Carol', team: '', admin: false };
+
+describe('Incident visibility', () => {
+  it('shows public incidents to everyone', () => {
+    expect(canView(carol, { visibility: 'public', created_by: 'alice1', team: 'payments' })).toBe(true);
+  });
+
+  it('shows team incidents to the creator team only', () => {
+    const record = { visibility: 'team', created_by: 'alice1', team: 'payments' };
+    expect(canView(bob, record)).toBe(true);
+    expect(canView(carol, record)).toBe(false);
+    // A user without a team never matches an incident without one
+    expect(canView(carol, { visibility: 'team', created_by: 'alice1', team: '' })).toBe(false);
+  });
+
+  it('shows private incidents to their creator and admin only', () => {
+    const record = { visibility: 'private', created_by: 'alice1', team: 'payments' };
+    expect(canView(alice, record)).toBe(true);
+    expect(canView(bob, record)).toBe(false);
+    expect(canView(ADMIN_IDENTITY, record)).toBe(true);
+    expect(canView(alice, { visibility: 'private', created_by: null })).toBe(false);
+  });
+
+  it('leaves ownership to the creator and admins, whoever else may see the incident', () => {
+    const record = { visibility: 'team', created_by: 'alice1', team: 'payments' };
+    expect(isOwner(alice, record)).toBe(true);
+    expect(isOwner(bob, record)).toBe(false);
+    expect(isOwner(ADMIN_IDENTITY, record)).toBe(true);
+    expect(isOwner(carol, { visibility: 'public', created_by: null })).toBe(false);
+  });
+
+  it('lets owners, their team and admins edit, but not other readers', () => {
+    const shared = { visibility: 'public', created_by: 'alice1', team: 'payments' };
+
+    expect(canEdit(alice, shared)).toBe(true);
+    expect(canEdit(bob, shared)).toBe(true);
+    expect(canEdit(ADMIN_IDENTITY, shared)).toBe(true);
+    expect(canEdit(carol, shared)).toBe(false);
+    // A private incident stays with its creator, even within the team
+    expect(canEdit(bob, { ...shared, visibility: 'private' })).toBe(false);
+  });
+
+  it('compiles the same rule into a PocketBase filter', () => {
+    expect(visibilityFilter(ADMIN_IDENTITY)).toBeNull();
+    expect(compileFilter(visibilityFilter(carol)!)).toBe("(visibility = 'public') || (created_by = 'carol1')");
+    expect(compileFilter(visibilityFilter(alice, 'incident_id')!)).toBe(
+      "(incident_id.visibility = 'public') || (incident_id.created_by = 'alice1') || " +
+        "((incident_id.visibility = 'team') && (incident_id.team = 'payments'))"
+    );
+  });
+
+  it('records the creator unless acting as admin', () => {
+    expect(ownership(alice, true)).toEqual({ created_by: 'alice1', team: 'payments' });
+    expect(ownership(alice)).toEqual({ created_by: 'alice1' });
+    expect(ownership(ADMIN_IDENTITY, true)).toEqual({});
+  });
+
+  it('maps a PocketBase users record', () => {
+    expect(toIdentity({ id: 'u1', email: 'u@example.com', team: 'core' })).toEqual({
+      id: 'u1',
+      email: 'u@example.com',
+      name: 'u@example.com',
+      team: 'core',
+      admin: false,
+    });
+  });
+});
+
+describe('IdentityService.resolve', () => {
+  const requireUser = config.identity.requireUser;
+
+  afterEach(() => {
+    config.identity.requireUser = requireUser;
+  });
+
+  it('prefers the session user and falls back to admin', () => {
+    const service = new IdentityService();
+    config.identity.requireUser = false;
+    expect(service.resolve(alice)).toBe(alice);
+    expect(service.resolve()).toBe(ADMIN_IDENTITY);
+  });
+
+  it('requires a user when MCP_REQUIRE_USER is set', () => {
+    const service = new IdentityService();
+    config.identity.requireUser = true;
+    expect(() => service.resolve()).toThrow('Sign in required');
+    expect(service.resolve(bob)).toBe(bob);
+  });
+
+  it('never falls back to admin over HTTP', async () => {
+    const service = new IdentityService();
+    config.identity.requireUser = false;
+    await service.init('http');
+    expect(() => service.resolve()).toThrow('Sign in required');
+    expect(service.resolve(alice)).toBe(alice);
+  });
+
+  it('holds API key callers to the scope a request needs', () => {
+    const service = new IdentityService();
+    const ci = { ...alice, scopes: ['incidents:read'] };
+    expect(service.resolve(ci, 'incidents:read')).toBe(ci);
+    expect(() => service.resolve(ci, 'incidents:write')).toThrow('lacks the incidents:write scope');
+    expect(service.resolve(alice, 'incidents:write')).toBe(alice);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'bun:test';
+import { symptomLines, mergeSymptoms, higherSeverity } from '../../src/services/incident.js';
+
+describe('Incident merging', () => {
+  describe('symptomLines', () => {
+    it('should read text and array symptoms', () => {
+      expect(symptomLines('502s from gateway\n\n  pods restarting ')).toEqual(['502s from gateway', 'pods restarting']);
+      expect(symptomLines(['OOMKilled', ''])).toEqual(['OOMKilled']);
+      expect(symptomLines(null)).toEqual([]);
+    });
+  });
+
+  describe('mergeSymptoms', () => {
+    it('should union symptoms and keep the target shape', () => {
+      expect(mergeSymptoms('pods restarting', 'pods restarting\nlatency spike', ['OOMKilled']))
+        .toBe('pods restarting\nlatency spike\nOOMKilled');
+      expect(mergeSymptoms(['pods restarting'], 'OOMKilled')).toEqual(['pods restarting', 'OOMKilled']);
+    });
+  });
+
+  describe('higherSeverity', () => {
+    it('should keep the more severe level', () => {
+      expect(higherSeverity('low', 'critical')).toBe('critical');
+      expect(higherSeverity('high', 'medium')).toBe('high');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  buildPostmortem,
+  formatDuration,
+  loadPostmortemTemplate,
+  parsePostmortemTemplate,
+  DEFAULT_POSTMORTEM_TEMPLATE,
+  type PostmortemData,
+} from '../../src/services/postmortem.js';
+
+function data(overrides: Partial<PostmortemData['incident']> = {}): PostmortemData {
+  return {
+    incident: {
+      id: 'inc1',
+      title: 'Checkout API returns 502',
+      category: 'Backend',
+      severity: 'high',
+      status: 'resolved',
+      frequency: 'recurring',
+      description: 'Checkout requests failed behind the load balancer.',
+      symptoms: ['502 from nginx', 'p99 latency above 10s'],
+      root_cause: 'Connection pool too small for the new traffic',
+      created: '2026-03-01T10:00:00Z',
+      resolved_at: '2026-03-01T11:30:00Z',
+      ...overrides,
+    },
+    solutions: [
+      { id: 's1', solution_title: 'Raise the pool size', solution_description: 'Set max connections to 50', created: '2026-03-01T11:00:00Z', warnings: ['Watch database CPU'] },
+      { id: 's2', solution_title: 'Restart the pods', solution_description: 'kubectl rollout restart', created: '2026-03-01T10:30:00Z' },
+    ],
+    lessons: [
+      { id: 'l1', lesson_type: 'detection', lesson_text: 'Alert on pool saturation', created: '2026-03-01T12:00:00Z' },
+      { id: 'l2', lesson_type: 'general', lesson_text: 'Load test before launches', created: '2026-03-01T12:05:00Z' },
+    ],
+    feedback: [
+      { solution_id: 's1', rating: 5, worked: true, created: '2026-03-01T11:20:00Z' },
+      { solution_id: 's2', rating: 2, worked: false, created: '2026-03-01T10:40:00Z' },
+    ],
+  };
+}
+
+describe('buildPostmortem', () => {
+  it('fills every section from the records', () => {
+    const { postmortem, markdown } = buildPostmortem(data(), DEFAULT_POSTMORTEM_TEMPLATE, new Date('2026-03-02T00:00:00Z'));
+
+    expect(postmortem.impact.duration_minutes).toBe(90);
+    expect(postmortem.impact.symptoms).toEqual(['502 from nginx', 'p99 latency above 10s']);
+    expect(postmortem.root_cause).toBe('Connection pool too small for the new traffic');
+    expect(postmortem.went_well).toContain('"Raise the pool size" fixed the problem (rated 5.0/5 from 1 rating(s))');
+    expect(postmortem.went_badly).toContain('"Restart the pods" did not reliably fix the problem (rated 2.0/5 from 1 rating(s))');
+    expect(postmortem.went_badly).toContain('The problem is recurring: it has happened before');
+    expect(postmortem.action_items).toEqual(['[detection] Alert on pool saturation', '[follow-up] Watch database CPU']);
+
+    expect(markdown).toStartWith('# Postmortem: Checkout API returns 502');
+    expect(postmortem.sections.map(section => section.heading)).toEqual([
+      'Summary', 'Impact', 'Timeline', 'Root Cause', 'What Went Well', "What Didn't Go Well", 'Action Items',
+    ]);
+    expect(markdown).toContain('- **Duration:** 1 h 30 min');
+  });
+
+  it('orders the timeline by time', () => {
+    const { postmortem } = buildPostmortem(data());
+    expect(postmortem.timeline.map(entry => entry.event)).toEqual([
+      'Incident reported (high, Backend)',
+      'Solution documented: Restart the pods',
+      '"Restart the pods" rated 2/5, did not work',
+      'Solution documented: Raise the pool size',
+      '"Raise the pool size" rated 5/5',
+      'Incident resolved',
+      'Lesson recorded (detection)',
+      'Lesson recorded (general)',
+    ]);
+  });
+
+  it('uses the timeline events when the incident has them', () => {
+    const { postmortem } = buildPostmortem({
+      ...data(),
+      events: [
+        { event_type: 'status_change', message: 'Resolved after the pool change', to_value: 'resolved', occurred_at: '2026-03-01T11:15:00Z' },
+        { event_type: 'created', message: 'Incident reported (high, Backend)', to_value: 'open', occurred_at: '2026-03-01T10:00:00Z' },
+        { event_type: 'action_taken', message: 'Restarted the pods', occurred_at: '2026-03-01T10:25:00Z' },
+      ],
+    });
+
+    expect(postmortem.impact.time_to_acknowledge_minutes).toBe(25);
+    expect(postmortem.impact.duration_minutes).toBe(75);
+    expect(postmortem.timeline.map(entry => entry.event)).toEqual([
+      'Incident reported (high, Backend)',
+      'Restarted the pods',
+      '"Restart the pods" rated 2/5, did not work',
+      'Resolved after the pool change',
+      '"Raise the pool size" rated 5/5',
+    ]);
+  });
+
+  it('treats unresolved incidents without a root cause as open questions', () => {
+    const { postmortem, markdown } = buildPostmortem(data({ status: 'investigating', resolved_at: null, root_cause: '' }));
+    expect(postmortem.impact.duration_minutes).toBeNull();
+    expect(postmortem.summary).toContain('still investigating');
+    expect(postmortem.went_badly).toContain('The root cause was not identified');
+    expect(markdown).toContain('_Not yet identified_');
+  });
+
+  it('renders custom templates', () => {
+    const template = parsePostmortemTemplate({
+      title: 'PM-{{incident.id}} {{incident.title}}',
+      sections: [{ heading: 'Overview', body: 'Lasted {{duration}}.\n\n{{lessons}}' }],
+    });
+    const { markdown, postmortem } = buildPostmortem(data(), template);
+
+    expect(postmortem.title).toBe('PM-inc1 Checkout API returns 502');
+    expect(postmortem.sections).toEqual([
+      { heading: 'Overview', markdown: 'Lasted 1 h 30 min.\n\n- **detection**: Alert on pool saturation\n- **general**: Load test before launches' },
+    ]);
+    expect(markdown).not.toContain('## Summary');
+  });
+});
+
+describe('postmortem templates', () => {
+  it('rejects unknown placeholders and empty templates', () => {
+    expect(() => parsePostmortemTemplate({ sections: [{ heading: 'Impact', body: '{{impcat}}' }] })).toThrow('{{impcat}}');
+    expect(() => parsePostmortemTemplate({ sections: [] })).toThrow();
+  });
+
+  it('falls back to the built-in template when the file is missing', () => {
+    expect(loadPostmortemTemplate('/nonexistent/postmortem.json')).toBe(DEFAULT_POSTMORTEM_TEMPLATE);
+  });
+
+  it('loads a template file', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'postmortem-')), 'template.json');
+    writeFileSync(file, JSON.stringify({ sections: [{ heading: 'Only', body: '{{summary}}' }] }));
+    expect(loadPostmortemTemplate(file).title).toBe('Postmortem: {{incident.title}}');
+
+    writeFileSync(file, '{ not json');
+    expect(() => loadPostmortemTemplate(file)).toThrow('Invalid postmortem template');
+  });
+
+  it('ships an example that matches the placeholders', () => {
+    expect(loadPostmortemTemplate('postmortem.template.example.json').sections).toHaveLength(9);
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(45)).toBe('45 min');
+    expect(formatDuration(60 * 50)).toBe('2 days 2 h');
+  });
+});
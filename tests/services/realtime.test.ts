@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { RealtimeService, parseSseEvents, type RecordChange } from '../../src/services/realtime.js';
+import { initPocketBase } from '../../src/db/pocketbase.js';
+
+const realFetch = globalThis.fetch;
+
+describe('parseSseEvents', () => {
+  it('splits complete events and keeps the unfinished tail', () => {
+    const { events, rest } = parseSseEvents(
+      'id:abc\r\nevent:PB_CONNECT\r\ndata:{"clientId":"abc"}\r\n\r\n: keep-alive\n\nevent: incidents\ndata: {"action"'
+    );
+    expect(events).toEqual([{ event: 'PB_CONNECT', data: '{"clientId":"abc"}' }]);
+    expect(rest).toBe('event: incidents\ndata: {"action"');
+  });
+
+  it('joins multi-line data and defaults the event name', () => {
+    expect(parseSseEvents('data: a\ndata: b\n\n').events).toEqual([{ event: 'message', data: 'a\nb' }]);
+  });
+});
+
+describe('RealtimeService', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('subscribes with the PocketBase client ID and reports record changes', async () => {
+    const posted: any[] = [];
+    const encoder = new TextEncoder();
+
+    globalThis.fetch = (async (input: any, init: RequestInit = {}) => {
+      const url = typeof input === 'string' ? input : input.url;
+      if (url.endsWith('/api/health')) {
+        return Response.json({ code: 200 });
+      }
+      if (url.endsWith('/api/admins/auth-with-password')) {
+        return Response.json({ token: 'admin-token' });
+      }
+      if (init.method === 'POST') {
+        posted.push(JSON.parse(String(init.body)));
+        return new Response(null, { status: 204 });
+      }
+
+      // The stream arrives in pieces that do not line up with event boundaries
+      const chunks = [
+        'event:PB_CONNECT\ndata:{"clientId":"client-1"}\n\nevent:incid',
+        'ents\ndata:{"action":"update","record":{"id":"inc1","status":"resolved"}}\n\n',
+        'event:users\ndata:{"action":"create","record":{"id":"u1"}}\n\n',
+      ];
+      const body = new ReadableStream({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+          init.signal?.addEventListener('abort', () => controller.error(new Error('aborted')));
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    }) as typeof fetch;
+    await initPocketBase();
+
+    const service = new RealtimeService();
+    const changes: RecordChange[] = [];
+    const received = new Promise<void>(resolve => {
+      const unsubscribe = service.subscribe(change => {
+        changes.push(change);
+        unsubscribe();
+        resolve();
+      });
+    });
+    await received;
+
+    expect(posted[0].clientId).toBe('client-1');
+    expect(posted[0].subscriptions).toContain('incidents');
+    expect(changes).toEqual([{ collection: 'incidents', action: 'update', record: { id: 'inc1', status: 'resolved' } }]);
+    expect(service.isConnected()).toBe(false);
+  });
+});
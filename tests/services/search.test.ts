@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'bun:test';
+import { Bm25Index, FullTextIndex, tokenize, stem, toSearchDocument, parseQuery, highlight } from '../../src/services/search.js';
+
+function doc(id: string, title: string, description: string, extra: { category?: string; tags?: string[]; symptoms?: string } = {}) {
+  return {
+    id,
+    category: extra.category ?? 'Backend',
+    title,
+    description,
+    symptoms: extra.symptoms ?? '',
+    tags: extra.tags ?? [],
+  };
+}
+
+describe('Similarity search', () => {
+  describe('tokenize', () => {
+    it('should lower-case, split and drop stop words', () => {
+      expect(tokenize('The Postgres pool was exhausted, and requests timed-out')).toEqual([
+        'postgres', 'pool', 'exhausted', 'requests', 'timed', 'out',
+      ]);
+    });
+
+    it('should reduce simple inflections', () => {
+      expect(stem('timeouts')).toBe('timeout');
+      expect(stem('failing')).toBe('fail');
+      expect(stem('queries')).toBe('query');
+      expect(stem('process')).toBe('process');
+    });
+  });
+
+  describe('Bm25Index', () => {
+    const buildIndex = () => {
+      const index = new Bm25Index();
+      index.upsert(doc('a', 'Postgres connection pool exhausted', 'API requests time out waiting for a Postgres connection', { tags: ['postgres'] }));
+      index.upsert(doc('b', 'Postgres pool exhausted during deploy', 'Connection pool ran out of connections while migrations ran', { tags: ['postgres'] }));
+      index.upsert(doc('c', 'Checkout button misaligned', 'CSS regression on the checkout page', { category: 'Frontend' }));
+      index.upsert(doc('d', 'Redis eviction storm', 'Cache misses spiked after maxmemory was reached'));
+      index.upsert(doc('e', 'Postgres replica lag', 'Read replica fell behind primary', { category: 'DevOps' }));
+      return index;
+    };
+
+    it('should rank incidents with shared terms first and report them', () => {
+      const [best] = buildIndex().similarTo('a');
+
+      expect(best.id).toBe('b');
+      expect(best.score).toBeGreaterThan(0);
+      expect(best.score).toBeLessThanOrEqual(1);
+      expect(best.matched_terms).toContain('postgres');
+      expect(best.matched_terms).toContain('pool');
+    });
+
+    it('should stay within the source category unless asked not to', () => {
+      const index = buildIndex();
+
+      expect(index.similarTo('a').map(match => match.id)).not.toContain('e');
+      expect(index.similarTo('a', { crossCategory: true }).map(match => match.id)).toContain('e');
+    });
+
+    it('should drop matches below the minimum score', () => {
+      expect(buildIndex().similarTo('a').map(match => match.id)).not.toContain('d');
+    });
+
+    it('should score an unindexed report against the index', () => {
+      const index = buildIndex();
+      const [best] = index.similarToDocument(doc('', 'Postgres pool exhausted', 'Requests waiting for a connection from the pool'));
+
+      expect(best.id).toBe('a');
+      expect(best.score).toBeGreaterThan(0.5);
+      expect(index.size).toBe(5);
+    });
+
+    it('should update incrementally on upsert and remove', () => {
+      const index = buildIndex();
+
+      index.upsert(doc('d', 'Postgres pool exhausted again', 'Connection pool exhausted by a leaking worker'));
+      expect(index.similarTo('a').map(match => match.id)).toContain('d');
+
+      index.remove('b');
+      expect(index.size).toBe(4);
+      expect(index.similarTo('a').map(match => match.id)).not.toContain('b');
+    });
+  });
+
+  describe('toSearchDocument', () => {
+    it('should read expanded tag names and stringify JSON symptoms', () => {
+      const document = toSearchDocument({
+        id: 'x',
+        title: 'OOM',
+        category: 'Backend',
+        description: 'Worker killed',
+        symptoms: ['oomkilled'],
+        expand: { tags: [{ tag_name: 'oom' }] },
+      });
+
+      expect(document.tags).toEqual(['oom']);
+      expect(document.symptoms).toBe('["oomkilled"]');
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('should split terms, phrases, exclusions and qualifiers', () => {
+      const query = parseQuery('"connection pool" timeouts -staging -"load test" severity:CRITICAL -status:archived error:500');
+
+      expect(query.phrases).toEqual(['connection pool']);
+      expect(query.terms).toEqual(['timeouts', 'error', '500']);
+      expect(query.excludedTerms).toEqual(['staging']);
+      expect(query.excludedPhrases).toEqual(['load test']);
+      expect(query.qualifiers).toEqual({ severity: 'critical' });
+      expect(query.excludedQualifiers).toEqual({ status: ['archived'] });
+    });
+
+    it('should let explicit qualifiers override the query text', () => {
+      const query = parseQuery('category:Frontend tag:"Memory Leak"', { category: 'backend', status: undefined });
+
+      expect(query.qualifiers).toEqual({ category: 'Backend', tag: 'memory-leak' });
+    });
+
+    it('should reject unknown qualifier values', () => {
+      expect(() => parseQuery('severity:urgent')).toThrow('severity must be one of');
+      expect(() => parseQuery('type:""')).toThrow('needs a value');
+    });
+  });
+
+  describe('highlight', () => {
+    it('should bold matches and trim around the first one', () => {
+      const text = `${'filler '.repeat(60)}the pool timed out under load ${'tail '.repeat(60)}`;
+      const snippet = highlight(text, ['pool', 'tim'], 80);
+
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet).toContain('**pool**');
+      expect(snippet).toContain('**timed**');
+    });
+  });
+
+  describe('FullTextIndex', () => {
+    const meta = (type: 'incident' | 'solution' | 'lesson' | 'knowledge', id: string, extra: Record<string, any> = {}) => ({
+      type,
+      id,
+      incident_id: null,
+      title: '',
+      text: '',
+      created: '2025-01-01 00:00:00.000Z',
+      category: null,
+      severity: null,
+      status: null,
+      tags: [],
+      visibility: 'public',
+      created_by: null,
+      team: null,
+      ...extra,
+    });
+
+    const buildIndex = () => {
+      const index = new FullTextIndex();
+      index.upsert(
+        meta('incident', 'i1', { title: 'Postgres connection pool exhausted', category: 'Backend', severity: 'critical', status: 'open', tags: ['postgres'] }),
+        { title: 'Postgres connection pool exhausted', tags: ['postgres'], body: 'API requests time out waiting for a connection' }
+      );
+      index.upsert(
+        meta('incident', 'i2', { title: 'Checkout timeouts', category: 'Frontend', severity: 'low', status: 'resolved', created: '2025-02-01 00:00:00.000Z' }),
+        { title: 'Checkout timeouts', tags: [], body: 'Staging checkout page timed out during a load test' }
+      );
+      index.upsert(
+        meta('solution', 's1', { incident_id: 'i1', title: 'Raise pool size' }),
+        { title: 'Raise pool size', tags: [], body: 'Increase max connections in pgbouncer and restart the pool' }
+      );
+      index.upsert(
+        meta('knowledge', 'k1', { title: 'Connection pooling guide' }),
+        { title: 'Connection pooling guide', tags: [], body: 'How connection pool sizing works' }
+      );
+      return index;
+    };
+
+    it('should rank across record types and highlight snippets', () => {
+      const { total, hits } = buildIndex().search(parseQuery('pool'), { limit: 10, page: 1 });
+
+      expect(total).toBe(3);
+      expect(hits.map(hit => hit.type).sort()).toEqual(['incident', 'knowledge', 'solution']);
+      expect(hits[0].score).toBe(1);
+      const solution = hits.find(hit => hit.type === 'solution')!;
+      expect(solution.snippet).toContain('**pool**');
+      expect(solution.matched_terms).toEqual(['pool']);
+    });
+
+    it('should let solutions inherit qualifiers from their incident', () => {
+      const { hits } = buildIndex().search(parseQuery('pool severity:critical'), { limit: 10, page: 1 });
+
+      expect(hits.map(hit => hit.id).sort()).toEqual(['i1', 's1']);
+      expect(hits.find(hit => hit.id === 's1')!.tags).toEqual(['postgres']);
+    });
+
+    it('should require phrases and drop exclusions', () => {
+      const index = buildIndex();
+
+      expect(index.search(parseQuery('"connection pool" -pgbouncer'), { limit: 10, page: 1 }).hits.map(hit => hit.id).sort())
+        .toEqual(['i1', 'k1']);
+      expect(index.search(parseQuery('checkout'), { limit: 10, page: 1 }).total).toBe(1);
+      expect(index.search(parseQuery('checkout -"load test"'), { limit: 10, page: 1 }).total).toBe(0);
+    });
+
+    it('should list qualifier-only queries newest first and paginate', () => {
+      const index = buildIndex();
+      const first = index.search(parseQuery('type:incident'), { limit: 1, page: 1 });
+      const second = index.search(parseQuery('type:incident'), { limit: 1, page: 2 });
+
+      expect(first.total).toBe(2);
+      expect(first.hits[0].id).toBe('i2');
+      expect(second.hits[0].id).toBe('i1');
+    });
+
+    it('should rank by semantic scores and blend them in hybrid mode', () => {
+      const index = buildIndex();
+      const semanticScores = new Map([['incident:i2', 0.6], ['knowledge:k1', 0.3]]);
+
+      const semantic = index.search(parseQuery('pool'), { limit: 10, page: 1, mode: 'semantic', semanticScores });
+      expect(semantic.hits.map(hit => hit.id)).toEqual(['i2', 'k1']);
+      expect(semantic.hits[0].matched_terms).toEqual([]);
+
+      const hybrid = index.search(parseQuery('pool'), { limit: 10, page: 1, mode: 'hybrid', semanticScores });
+      expect(hybrid.total).toBe(4);
+      expect(hybrid.hits.map(hit => hit.id)).toContain('i2');
+    });
+
+    it('should rank well-rated solutions above equally relevant unrated ones', () => {
+      const index = new FullTextIndex();
+      index.upsert(
+        meta('solution', 's1', { incident_id: 'i1', title: 'Restart pool', effectiveness: 0.5 }),
+        { title: 'Restart pool', tags: [], body: 'pool' }
+      );
+      index.upsert(
+        meta('solution', 's2', { incident_id: 'i1', title: 'Resize pool', effectiveness: 0.85 }),
+        { title: 'Resize pool', tags: [], body: 'pool' }
+      );
+
+      const { hits } = index.search(parseQuery('pool'), { limit: 10, page: 1 });
+      expect(hits.map(hit => hit.id)).toEqual(['s2', 's1']);
+      expect(hits[0].effectiveness_score).toBe(0.85);
+      expect(hits[1].effectiveness_score).toBe(0.5);
+    });
+
+    it('should only return records the viewer may see', () => {
+      const index = new FullTextIndex();
+      const user = (id: string, team: string) => ({ id, email: '', name: id, team, admin: false });
+      index.upsert(
+        meta('incident', 'i1', { title: 'Pool exhausted', visibility: 'private', created_by: 'u1', team: 'payments' }),
+        { title: 'Pool exhausted', tags: [], body: 'pool' }
+      );
+      index.upsert(
+        meta('incident', 'i2', { title: 'Pool leak', visibility: 'team', created_by: 'u2', team: 'payments' }),
+        { title: 'Pool leak', tags: [], body: 'pool' }
+      );
+      index.upsert(meta('solution', 's1', { incident_id: 'i1', title: 'Raise pool size' }), { title: 'Raise pool size', tags: [], body: 'pool' });
+      index.upsert(meta('knowledge', 'k1', { title: 'Pool guide' }), { title: 'Pool guide', tags: [], body: 'pool' });
+
+      const ids = (viewer: ReturnType<typeof user>) =>
+        index.search(parseQuery('pool'), { limit: 10, page: 1, viewer }).hits.map(hit => hit.id).sort();
+
+      expect(ids(user('u1', 'payments'))).toEqual(['i1', 'i2', 'k1', 's1']);
+      expect(ids(user('u3', 'payments'))).toEqual(['i2', 'k1']);
+      expect(ids(user('u4', 'search'))).toEqual(['k1']);
+      expect(index.search(parseQuery('pool'), { limit: 10, page: 1 }).total).toBe(4);
+    });
+
+    it('should remove an incident together with its solutions', () => {
+      const index = buildIndex();
+      index.removeIncident('i1');
+
+      expect(index.search(parseQuery('pool'), { limit: 10, page: 1 }).hits.map(hit => hit.id)).toEqual(['k1']);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { TaggingService, extractTags, normalizeTag, normalizeTags, inferTagType } from '../../src/services/tagging.js';
+import { initPocketBase } from '../../src/db/pocketbase.js';
+
+const realFetch = globalThis.fetch;
+
+describe('Tagging service', () => {
+  describe('normalizeTag', () => {
+    it('should lower-case and dash-separate tag names', () => {
+      expect(normalizeTag('  Out of Memory ')).toBe('out-of-memory');
+      expect(normalizeTag('C#/.NET')).toBe('c#-.net');
+    });
+  });
+
+  describe('normalizeTags', () => {
+    it('should de-duplicate after normalizing', () => {
+      expect(normalizeTags(['Postgres', 'postgres ', 'OOM'])).toEqual(['postgres', 'oom']);
+    });
+
+    it('should reject empty or non-string tags', () => {
+      expect(() => normalizeTags([])).toThrow('non-empty array');
+      expect(() => normalizeTags(['  '])).toThrow('Invalid tag');
+      expect(() => normalizeTags([42])).toThrow('Invalid tag');
+    });
+
+    it('should cap the number of tags per call', () => {
+      expect(() => normalizeTags(Array.from({ length: 21 }, (_, i) => `tag-${i}`))).toThrow('At most 20');
+    });
+  });
+
+  describe('extractTags', () => {
+    it('should find technologies and symptoms in incident text', () => {
+      const tags = extractTags({
+        title: 'PostgreSQL connection timeout',
+        description: 'Pods were OOMKilled after the pgbouncer pool filled up',
+        symptoms: 'ECONNREFUSED from the API',
+      });
+
+      expect(tags).toEqual(['postgres', 'oom', 'timeout', 'connection-refused']);
+    });
+
+    it('should return nothing for unrelated text', () => {
+      expect(extractTags({ title: 'Typo on landing page', description: 'Wrong copy' })).toEqual([]);
+    });
+  });
+
+  describe('inferTagType', () => {
+    it('should use the vocabulary type and fall back to context', () => {
+      expect(inferTagType('redis')).toBe('technology');
+      expect(inferTagType('oom')).toBe('symptom');
+      expect(inferTagType('billing-team')).toBe('context');
+    });
+  });
+
+  describe('TaggingService', () => {
+    const service = new TaggingService();
+
+    // In-memory PocketBase collections
+    let incidents: Record<string, { id: string; tags: string[] }>;
+    let tags: Array<{ id: string; tag_name: string; tag_type: string; usage_count: number }>;
+
+    function json(body: unknown, status = 200): Response {
+      return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+    }
+
+    beforeAll(async () => {
+      globalThis.fetch = (async (input: any, init?: RequestInit) => {
+        const url = new URL(typeof input === 'string' ? input : input.url);
+        const body = init?.body ? JSON.parse(String(init.body)) : {};
+        const filter = url.searchParams.get('filter') ?? '';
+
+        if (url.pathname.endsWith('/api/health')) {
+          return json({ code: 200 });
+        }
+        if (url.pathname.endsWith('/api/admins/auth-with-password')) {
+          return json({ token: 'admin-token' });
+        }
+
+        if (url.pathname.endsWith('/collections/tags/records')) {
+          if (init?.method === 'POST') {
+            // tag_name is unique
+            if (tags.some(tag => tag.tag_name === body.tag_name)) {
+              return json({ message: 'Failed to create record.' }, 400);
+            }
+            const tag = { id: `tag${tags.length + 1}`, ...body };
+            tags.push(tag);
+            return json(tag);
+          }
+          const names = [...filter.matchAll(/tag_name = '([^']+)'/g)].map(match => match[1]);
+          return json({ items: tags.filter(tag => names.includes(tag.tag_name)) });
+        }
+        const tagRecord = /\/collections\/tags\/records\/(\w+)$/.exec(url.pathname);
+        if (tagRecord) {
+          const tag = tags.find(item => item.id === tagRecord[1])!;
+          Object.assign(tag, body);
+          return json(tag);
+        }
+
+        if (url.pathname.endsWith('/collections/incidents/records')) {
+          const tagId = /tags \?= '(\w+)'/.exec(filter)![1];
+          const matching = Object.values(incidents).filter(incident => incident.tags.includes(tagId));
+          return json({ items: matching.slice(0, 1), totalItems: matching.length });
+        }
+        const incident = incidents[url.pathname.split('/').pop()!];
+        if (init?.method === 'PATCH') {
+          if (body['tags+']) {
+            incident.tags = [...new Set([...incident.tags, ...body['tags+']])];
+          }
+          if (body['tags-']) {
+            incident.tags = incident.tags.filter(id => !body['tags-'].includes(id));
+          }
+        }
+        return json({ ...incident, expand: { tags: tags.filter(tag => incident.tags.includes(tag.id)) } });
+      }) as typeof fetch;
+      await initPocketBase();
+    });
+
+    afterAll(() => {
+      globalThis.fetch = realFetch;
+    });
+
+    beforeEach(() => {
+      incidents = { inc1: { id: 'inc1', tags: [] }, inc2: { id: 'inc2', tags: [] } };
+      tags = [];
+    });
+
+    it('should count each incident once, however often or concurrently it is tagged', async () => {
+      await Promise.all([
+        service.addTags('inc1', ['redis']),
+        service.addTags('inc2', ['redis']),
+      ]);
+      const change = await service.addTags('inc1', ['redis']);
+
+      expect(change.changed).toEqual([]);
+      expect(tags.find(tag => tag.tag_name === 'redis')!.usage_count).toBe(2);
+    });
+
+    it('should recount from the incidents, correcting a stale counter', async () => {
+      await service.addTags('inc1', ['oom', 'redis']);
+      tags.find(tag => tag.tag_name === 'redis')!.usage_count = 7;
+
+      await service.removeTags('inc1', ['redis']);
+
+      expect(tags.map(tag => [tag.tag_name, tag.usage_count])).toEqual([['oom', 1], ['redis', 0]]);
+    });
+  });
+});
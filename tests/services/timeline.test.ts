@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { TimelineService, computeTimeMetrics } from '../../src/services/timeline.js';
+import { initPocketBase } from '../../src/db/pocketbase.js';
+import type { UserIdentity } from '../../src/services/identity.js';
+
+const realFetch = globalThis.fetch;
+
+const incident = { id: 'inc1', status: 'resolved', created: '2026-03-01T10:00:00Z', resolved_at: '2026-03-01T12:00:00Z' };
+
+function event(event_type: string, occurred_at: string, to_value = '') {
+  return { event_type, occurred_at, to_value, message: '' };
+}
+
+describe('computeTimeMetrics', () => {
+  it('measures acknowledge and resolve times from the events', () => {
+    const metrics = computeTimeMetrics(incident, [
+      event('status_change', '2026-03-01T11:30:00Z', 'resolved'),
+      event('created', '2026-03-01T10:00:00Z', 'open'),
+      event('note', '2026-03-01T10:12:00Z'),
+    ]);
+
+    expect(metrics.acknowledged_at).toBe('2026-03-01T10:12:00Z');
+    expect(metrics.time_to_acknowledge_minutes).toBe(12);
+    // The event wins over resolved_at
+    expect(metrics.time_to_resolve_minutes).toBe(90);
+  });
+
+  it('ignores tag and field edits and moves back to open', () => {
+    const metrics = computeTimeMetrics({ ...incident, status: 'open', resolved_at: null }, [
+      event('tags_changed', '2026-03-01T10:01:00Z'),
+      event('status_change', '2026-03-01T10:02:00Z', 'open'),
+    ]);
+
+    expect(metrics.acknowledged_at).toBeNull();
+    expect(metrics.time_to_resolve_minutes).toBeNull();
+  });
+
+  it('counts the last resolution after a reopen', () => {
+    const metrics = computeTimeMetrics(incident, [
+      event('status_change', '2026-03-01T10:05:00Z', 'investigating'),
+      event('status_change', '2026-03-01T10:30:00Z', 'resolved'),
+      event('status_change', '2026-03-01T10:45:00Z', 'open'),
+      event('status_change', '2026-03-01T11:00:00Z', 'resolved'),
+      event('status_change', '2026-03-01T11:10:00Z', 'archived'),
+    ]);
+
+    expect(metrics.time_to_acknowledge_minutes).toBe(5);
+    expect(metrics.time_to_resolve_minutes).toBe(60);
+  });
+
+  it('falls back to resolved_at for incidents without status events', () => {
+    const metrics = computeTimeMetrics(incident, []);
+    expect(metrics.time_to_resolve_minutes).toBe(120);
+    expect(metrics.time_to_acknowledge_minutes).toBe(120);
+
+    expect(computeTimeMetrics({ ...incident, status: 'investigating' }, []).resolved_at).toBeNull();
+  });
+});
+
+describe('TimelineService', () => {
+  const service = new TimelineService();
+  const alice: UserIdentity = { id: 'alice1', email: 'alice@example.com', name: 'Alice', team: '', admin: false };
+  let posted: any[];
+  let failing: boolean;
+
+  beforeAll(async () => {
+    globalThis.fetch = (async (input: any, init?: RequestInit) => {
+      const url = new URL(typeof input === 'string' ? input : input.url);
+      if (url.pathname.endsWith('/api/health')) {
+        return new Response(JSON.stringify({ code: 200 }));
+      }
+      if (url.pathname.endsWith('/api/admins/auth-with-password')) {
+        return new Response(JSON.stringify({ token: 'admin-token' }));
+      }
+      if (failing) {
+        return new Response('{"message":"Missing collection"}', { status: 404 });
+      }
+      const body = JSON.parse(String(init?.body));
+      posted.push(body);
+      return new Response(JSON.stringify({ id: 'ev1', ...body }));
+    }) as typeof fetch;
+    await initPocketBase();
+  });
+
+  afterAll(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('stores the event with its author and time', async () => {
+    posted = [];
+    failing = false;
+    const stored = await service.add('inc1', { event_type: 'note', message: 'Paged the DBA' }, alice);
+
+    expect(stored.id).toBe('ev1');
+    expect(posted[0]).toMatchObject({ incident_id: 'inc1', event_type: 'note', message: 'Paged the DBA', created_by: 'alice1' });
+    expect(new Date(posted[0].occurred_at).getTime()).not.toBeNaN();
+  });
+
+  it('never fails the change it records', async () => {
+    failing = true;
+    await expect(service.record('inc1', { event_type: 'created' }, alice)).resolves.toBeUndefined();
+    await expect(service.add('inc1', { event_type: 'created' }, alice)).rejects.toThrow('Failed to record timeline event: 404');
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { createHmac } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { WebhookService } from '../../src/services/webhooks.js';
+import { initPocketBase } from '../../src/db/pocketbase.js';
+import { MAX_DELIVERY_ATTEMPTS } from '../../src/shared/webhooks.js';
+import { config } from '../../src/config.js';
+
+const realFetch = globalThis.fetch;
+
+interface ReceivedRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  const service = new WebhookService();
+  const secret = 'whsec_test';
+
+  // Local receiver standing in for a subscriber; answers with the queued status codes, then 200
+  let stub: Server;
+  let stubUrl: string;
+  let received: ReceivedRequest[];
+  let responses: number[];
+
+  // In-memory PocketBase collections
+  let webhooks: any[];
+  let deliveries: any[];
+
+  beforeAll(async () => {
+    stub = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end(res.statusCode >= 400 ? 'receiver error' : 'ok');
+      });
+    });
+    await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+    stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/hooks`;
+
+    globalThis.fetch = (async (input: any, init?: RequestInit) => {
+      const url = new URL(typeof input === 'string' ? input : input.url);
+      if (url.origin === new URL(config.pocketbase.url).origin) {
+        return pocketBase(url, init);
+      }
+      return realFetch(input, init);
+    }) as typeof fetch;
+    await initPocketBase();
+  });
+
+  afterAll(async () => {
+    globalThis.fetch = realFetch;
+    await new Promise(resolve => stub.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responses = [];
+    webhooks = [
+      { id: 'wh1', url: stubUrl, events: ['incident.*'], secret, active: true },
+      { id: 'wh2', url: stubUrl, events: ['knowledge.updated'], secret, active: true },
+    ];
+    deliveries = [];
+  });
+
+  function pocketBase(url: URL, init?: RequestInit): Response {
+    if (url.pathname.endsWith('/api/health')) {
+      return new Response(JSON.stringify({ code: 200 }));
+    }
+    if (url.pathname.endsWith('/api/admins/auth-with-password')) {
+      return new Response(JSON.stringify({ token: 'admin-token' }));
+    }
+
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    if (url.pathname.endsWith('/collections/webhooks/records')) {
+      return new Response(JSON.stringify({ items: webhooks.filter(webhook => webhook.active) }));
+    }
+    if (url.pathname.endsWith('/collections/webhook_deliveries/records')) {
+      if (init?.method === 'POST') {
+        const delivery = { id: `del${deliveries.length + 1}`, ...body };
+        deliveries.push(delivery);
+        return new Response(JSON.stringify(delivery));
+      }
+      // The service asks for pending deliveries due by the time in its filter
+      const due = new Date(url.searchParams.get('filter')!.match(/next_attempt_at <= '([^']+)'/)![1].replace(' ', 'T'));
+      const items = deliveries
+        .filter(delivery => delivery.status === 'pending' && new Date(delivery.next_attempt_at) <= due)
+        .map(delivery => ({ ...delivery, expand: { webhook: webhooks.find(webhook => webhook.id === delivery.webhook) } }));
+      return new Response(JSON.stringify({ items }));
+    }
+
+    const id = url.pathname.split('/').pop();
+    const delivery = deliveries.find(item => item.id === id);
+    Object.assign(delivery, body);
+    return new Response(JSON.stringify(delivery));
+  }
+
+  it('queues one delivery per subscribed webhook, sharing the event ID', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    webhooks.push({ id: 'wh3', url: stubUrl, events: ['*'], secret, active: true });
+    webhooks.push({ id: 'wh4', url: stubUrl, events: ['*'], secret, active: false });
+
+    expect(await service.emit('incident.created', { incident: { id: 'inc1' } }, now)).toBe(2);
+
+    expect(deliveries.map(delivery => delivery.webhook)).toEqual(['wh1', 'wh3']);
+    expect(deliveries[0]).toMatchObject({
+      event: 'incident.created',
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: '2026-03-01T12:00:00.000Z',
+      payload: { event: 'incident.created', created: '2026-03-01T12:00:00.000Z', data: { incident: { id: 'inc1' } } },
+    });
+    expect(deliveries[1].event_id).toBe(deliveries[0].event_id);
+    expect(received).toHaveLength(0);
+  });
+
+  it('POSTs signed payloads to the receiver', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    await service.emit('knowledge.updated', { action: 'updated', entry: { id: 'kb1' } }, now);
+
+    expect(await service.deliverDue(now)).toEqual({ delivered: 1, retrying: 0, dead: 0 });
+
+    const [request] = received;
+    expect(JSON.parse(request.body)).toMatchObject({ event: 'knowledge.updated', data: { entry: { id: 'kb1' } } });
+    expect(request.headers['x-notebypine-event']).toBe('knowledge.updated');
+    expect(request.headers['x-notebypine-delivery']).toBe('del1');
+    expect(request.headers['x-notebypine-timestamp']).toBe('1772366400');
+    const expected = createHmac('sha256', secret).update(`1772366400.${request.body}`).digest('hex');
+    expect(request.headers['x-notebypine-signature']).toBe(`sha256=${expected}`);
+
+    expect(deliveries[0]).toMatchObject({ status: 'delivered', attempts: 1, last_status_code: 200, delivered_at: now.toISOString() });
+  });
+
+  it('retries failed deliveries with backoff', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    responses = [500, 503];
+    await service.emit('incident.status_changed', { incident: { id: 'inc1' }, from: 'open', to: 'resolved' }, now);
+
+    expect(await service.deliverDue(now)).toEqual({ delivered: 0, retrying: 1, dead: 0 });
+    expect(deliveries[0]).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      last_status_code: 500,
+      last_error: 'HTTP 500: receiver error',
+      next_attempt_at: '2026-03-01T12:00:30.000Z',
+    });
+
+    // Not due yet
+    expect(await service.deliverDue(new Date('2026-03-01T12:00:10Z'))).toEqual({ delivered: 0, retrying: 0, dead: 0 });
+
+    await service.deliverDue(new Date('2026-03-01T12:00:30Z'));
+    expect(deliveries[0].next_attempt_at).toBe('2026-03-01T12:01:30.000Z');
+
+    await service.deliverDue(new Date('2026-03-01T12:01:30Z'));
+    expect(deliveries[0]).toMatchObject({ status: 'delivered', attempts: 3, last_error: '' });
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map(request => JSON.parse(request.body).id)).size).toBe(1);
+  });
+
+  it('moves deliveries to the dead letters after the last attempt', async () => {
+    let now = new Date('2026-03-01T12:00:00Z');
+    responses = Array(MAX_DELIVERY_ATTEMPTS).fill(500);
+    await service.emit('incident.created', { incident: { id: 'inc1' } }, now);
+
+    for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+      await service.deliverDue(now);
+      now = new Date(deliveries[0].next_attempt_at || now);
+    }
+
+    expect(deliveries[0]).toMatchObject({ status: 'dead', attempts: MAX_DELIVERY_ATTEMPTS, next_attempt_at: '' });
+    expect(received).toHaveLength(MAX_DELIVERY_ATTEMPTS);
+  });
+
+  it('gives up on deliveries of disabled webhooks without calling them', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    await service.emit('incident.created', { incident: { id: 'inc1' } }, now);
+    webhooks[0].active = false;
+
+    expect(await service.deliverDue(now)).toEqual({ delivered: 0, retrying: 0, dead: 1 });
+    expect(deliveries[0]).toMatchObject({ status: 'dead', last_error: 'Webhook is disabled' });
+    expect(received).toHaveLength(0);
+  });
+
+  it('reports receivers that cannot be reached', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    webhooks[0].url = 'http://127.0.0.1:1/unreachable';
+    await service.emit('incident.created', { incident: { id: 'inc1' } }, now);
+
+    expect(await service.deliverDue(now)).toEqual({ delivered: 0, retrying: 1, dead: 0 });
+    expect(deliveries[0]).toMatchObject({ status: 'pending', attempts: 1, last_status_code: 0 });
+    expect(deliveries[0].last_error).not.toBe('');
+  });
+});
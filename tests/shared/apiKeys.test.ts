@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'bun:test';
+import { apiKeyDisplayPrefix, apiKeyStatus, isApiKey, shouldTouchLastUsed } from '../../src/shared/apiKeys.js';
+
+describe('API keys', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('recognizes keys by their prefix', () => {
+    expect(isApiKey('nbp_0123456789abcdef')).toBe(true);
+    expect(isApiKey('nbp_')).toBe(false);
+    expect(isApiKey('eyJhbGciOiJIUzI1NiJ9.payload.sig')).toBe(false);
+    expect(isApiKey(undefined)).toBe(false);
+    expect(apiKeyDisplayPrefix('nbp_0123456789abcdef')).toBe('nbp_01234567');
+  });
+
+  it('reports revoked and expired keys', () => {
+    expect(apiKeyStatus({ expires_at: '', revoked_at: '' }, now)).toBe('active');
+    expect(apiKeyStatus({ expires_at: '2026-04-01T00:00:00Z' }, now)).toBe('active');
+    expect(apiKeyStatus({ expires_at: '2026-02-01T00:00:00Z' }, now)).toBe('expired');
+    expect(apiKeyStatus({ expires_at: '2026-04-01T00:00:00Z', revoked_at: '2026-02-15T00:00:00Z' }, now)).toBe('revoked');
+  });
+
+  it('records use at most once a minute', () => {
+    expect(shouldTouchLastUsed({ last_used_at: '' }, now)).toBe(true);
+    expect(shouldTouchLastUsed({ last_used_at: '2026-03-01T11:59:30Z' }, now)).toBe(false);
+    expect(shouldTouchLastUsed({ last_used_at: '2026-03-01T11:58:00Z' }, now)).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  StatusTransitionError,
+  nextTransitions,
+  normalizeStatus,
+  planTransition,
+} from '../../src/shared/incidentStatus.js';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function failure(run: () => unknown): StatusTransitionError {
+  try {
+    run();
+  } catch (error) {
+    return error as StatusTransitionError;
+  }
+  throw new Error('Expected the transition to be rejected');
+}
+
+describe('incident status state machine', () => {
+  it('maps the legacy REST API statuses onto the shared ones', () => {
+    expect(normalizeStatus('new')).toBe('open');
+    expect(normalizeStatus('Closed')).toBe('archived');
+    expect(normalizeStatus('investigating')).toBe('investigating');
+    expect(normalizeStatus('pending')).toBeNull();
+  });
+
+  it('resolves with a summary and stamps resolved_at', () => {
+    const plan = planTransition('investigating', 'resolved', { resolution_summary: ' Rolled back the deploy ' }, now);
+
+    expect(plan.changes).toEqual({
+      status: 'resolved',
+      resolved_at: '2026-03-01T12:00:00.000Z',
+      resolution_summary: 'Rolled back the deploy',
+    });
+    expect(plan.note).toBe('Rolled back the deploy');
+
+    const error = failure(() => planTransition('open', 'resolved', { resolution_summary: '  ' }));
+    expect(error).toBeInstanceOf(StatusTransitionError);
+    expect(error.code).toBe('missing_field');
+    expect(error.field).toBe('resolution_summary');
+  });
+
+  it('needs a reason to reopen and clears resolved_at', () => {
+    expect(failure(() => planTransition('resolved', 'open')).field).toBe('reason');
+
+    const plan = planTransition('resolved', 'investigating', { reason: 'Errors are back' }, now);
+    expect(plan.changes).toEqual({ status: 'investigating', resolved_at: null });
+    expect(plan.note).toBe('Errors are back');
+  });
+
+  it('rejects moves out of archived and to the current status', () => {
+    const archived = failure(() => planTransition('archived', 'open', { reason: 'Oops' }));
+    expect(archived.code).toBe('not_allowed');
+    expect(archived.message).toContain('archived is final');
+    expect(nextTransitions('archived')).toEqual([]);
+
+    expect(failure(() => planTransition('open', 'open')).code).toBe('not_allowed');
+    expect(failure(() => planTransition('open', 'done')).code).toBe('invalid_status');
+  });
+
+  it('treats legacy current statuses by their new names', () => {
+    expect(planTransition('new', 'investigating').from).toBe('open');
+    expect(nextTransitions('closed')).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'bun:test';
+import { accessFor, isAllowed, normalizeRole, scopeAllows } from '../../src/shared/permissions.js';
+
+describe('role permissions', () => {
+  it('maps missing, legacy and unknown roles', () => {
+    expect(normalizeRole(undefined)).toBe('responder');
+    expect(normalizeRole('user')).toBe('responder');
+    expect(normalizeRole('Editor')).toBe('editor');
+    expect(normalizeRole('superuser')).toBe('viewer');
+  });
+
+  it('lets viewers read but not write', () => {
+    expect(isAllowed('viewer', 'incidents:read')).toBe(true);
+    expect(isAllowed('viewer', 'search:read')).toBe(true);
+    expect(isAllowed('viewer', 'incidents:create')).toBe(false);
+    expect(isAllowed('viewer', 'incidents:update', true)).toBe(false);
+    expect(isAllowed('viewer', 'chat:use')).toBe(false);
+  });
+
+  it('limits responders to their own records for edits and deletes', () => {
+    expect(accessFor('responder', 'incidents:update')).toBe('own');
+    expect(isAllowed('responder', 'incidents:update', true)).toBe(true);
+    expect(isAllowed('responder', 'incidents:update', false)).toBe(false);
+    expect(isAllowed('responder', 'solutions:rate')).toBe(true);
+  });
+
+  it('lets editors edit anything and keeps deleting others\' records for admins', () => {
+    expect(accessFor('editor', 'solutions:update')).toBe('any');
+    expect(accessFor('editor', 'solutions:delete')).toBe('own');
+    expect(accessFor('editor', 'uploads:delete')).toBe('none');
+    expect(accessFor('admin', 'uploads:delete')).toBe('any');
+    expect(accessFor('admin', 'incidents:delete')).toBe('any');
+  });
+
+  it('limits API keys to the scopes they were issued with', () => {
+    expect(scopeAllows(undefined, 'incidents:delete')).toBe(true);
+    expect(scopeAllows(['incidents:write'], 'incidents:create')).toBe(true);
+    expect(scopeAllows(['incidents:write'], 'incidents:read')).toBe(false);
+    expect(scopeAllows(['knowledge:read'], 'knowledge:read')).toBe(true);
+    expect(scopeAllows(['incidents:write', 'chat:use'], 'service_accounts:manage')).toBe(false);
+    expect(scopeAllows(['incidents:read', 'incidents:write'], 'webhooks:manage')).toBe(false);
+  });
+});
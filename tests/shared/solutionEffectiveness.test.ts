@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'bun:test';
+import { effectivenessOf, isValidRating, summarizeFeedback } from '../../src/shared/solutionEffectiveness.js';
+
+const ratings = (count: number, rating: number, worked: boolean) =>
+  Array.from({ length: count }, () => ({ rating, worked }));
+
+describe('solution effectiveness', () => {
+  it('scores an unrated solution as neutral', () => {
+    expect(summarizeFeedback([])).toEqual({
+      ratings: 0,
+      average_rating: null,
+      worked_ratio: null,
+      effectiveness_score: 0.5,
+    });
+    expect(effectivenessOf({ effectiveness_score: 0 })).toBe(0.5);
+    expect(effectivenessOf({})).toBe(0.5);
+  });
+
+  it('shrinks a few ratings towards the prior', () => {
+    const one = summarizeFeedback(ratings(1, 5, true));
+    const ten = summarizeFeedback(ratings(10, 5, true));
+
+    expect(one.average_rating).toBe(5);
+    expect(one.effectiveness_score).toBe(0.583);
+    expect(ten.effectiveness_score).toBe(0.833);
+    expect(summarizeFeedback(ratings(10, 1, false)).effectiveness_score).toBeLessThan(0.5);
+  });
+
+  it('blends in the share of feedback that says the solution worked', () => {
+    const worked = summarizeFeedback(ratings(4, 4, true));
+    const failed = summarizeFeedback(ratings(4, 4, false));
+
+    expect(worked.worked_ratio).toBe(1);
+    expect(failed.worked_ratio).toBe(0);
+    expect(worked.effectiveness_score).toBeGreaterThan(failed.effectiveness_score);
+  });
+
+  it('accepts only whole ratings from 1 to 5', () => {
+    expect(isValidRating(3)).toBe(true);
+    expect(isValidRating(0)).toBe(false);
+    expect(isValidRating(4.5)).toBe(false);
+    expect(isValidRating('5')).toBe(false);
+  });
+});
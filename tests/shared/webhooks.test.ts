@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_MAX_MS,
+  formatSignature,
+  isEventFilter,
+  matchesEvent,
+  nextAttemptAt,
+  retryDelayMs,
+  signedContent,
+} from '../../src/shared/webhooks.js';
+
+describe('Webhooks', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('matches event names, resource wildcards and *', () => {
+    expect(matchesEvent(['incident.created'], 'incident.created')).toBe(true);
+    expect(matchesEvent(['incident.created'], 'incident.status_changed')).toBe(false);
+    expect(matchesEvent(['incident.*'], 'incident.status_changed')).toBe(true);
+    expect(matchesEvent(['incident.*'], 'solution.added')).toBe(false);
+    expect(matchesEvent(['*'], 'knowledge.updated')).toBe(true);
+    expect(matchesEvent(undefined, 'knowledge.updated')).toBe(false);
+  });
+
+  it('only accepts filters that can match an event', () => {
+    expect(isEventFilter('lesson.extracted')).toBe(true);
+    expect(isEventFilter('solution.*')).toBe(true);
+    expect(isEventFilter('*')).toBe(true);
+    expect(isEventFilter('lesson.deleted')).toBe(false);
+    expect(isEventFilter('user.*')).toBe(false);
+    expect(isEventFilter(42)).toBe(false);
+  });
+
+  it('backs off exponentially up to a cap', () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(60_000);
+    expect(retryDelayMs(4)).toBe(240_000);
+    expect(retryDelayMs(30)).toBe(RETRY_MAX_MS);
+  });
+
+  it('gives up after the last attempt', () => {
+    expect(nextAttemptAt(1, now)?.toISOString()).toBe('2026-03-01T12:00:30.000Z');
+    expect(nextAttemptAt(MAX_DELIVERY_ATTEMPTS - 1, now)).not.toBeNull();
+    expect(nextAttemptAt(MAX_DELIVERY_ATTEMPTS, now)).toBeNull();
+  });
+
+  it('signs the timestamp together with the body', () => {
+    expect(signedContent(1772366400, '{"id":"evt1"}')).toBe('1772366400.{"id":"evt1"}');
+    expect(formatSignature('abc123')).toBe('sha256=abc123');
+  });
+});
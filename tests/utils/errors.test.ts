@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'bun:test';
+import { AppError, CircuitBreaker, ErrorCode, ErrorFactory, RetryHandler } from '../../src/utils/errors.js';
+
+const fail = () => Promise.reject(new Error('boom'));
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold and fails fast', async () => {
+    const breaker = new CircuitBreaker({ name: 'Test breaker', failureThreshold: 2, recoveryTime: 60000, monitoringPeriod: 60000 });
+    let calls = 0;
+    const counted = () => {
+      calls++;
+      return fail();
+    };
+
+    await expect(breaker.execute(counted)).rejects.toThrow('boom');
+    await expect(breaker.execute(counted)).rejects.toThrow('boom');
+    expect(breaker.getState()).toBe('OPEN');
+
+    const error = await breaker.execute(counted).catch(caught => caught);
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe(ErrorCode.SERVICE_UNAVAILABLE);
+    expect(error.message).toContain('Test breaker is OPEN');
+    expect(calls).toBe(2);
+  });
+
+  it('closes again after a successful probe once the recovery time passed', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, recoveryTime: 10, monitoringPeriod: 60000 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(await breaker.execute(async () => 'ok')).toBe('ok');
+    expect(breaker.getStats()).toEqual({ state: 'CLOSED', failures: 0, lastFailureTime: expect.any(Number) });
+  });
+
+  it('reopens when the half-open probe fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, recoveryTime: 10, monitoringPeriod: 60000 });
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await expect(breaker.execute(fail)).rejects.toThrow('boom');
+    expect(breaker.getState()).toBe('OPEN');
+  });
+
+  it('does not add up failures further apart than the monitoring period', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, recoveryTime: 60000, monitoringPeriod: 5 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    expect(breaker.getState()).toBe('CLOSED');
+  });
+});
+
+describe('RetryHandler', () => {
+  it('retries retryable errors only', async () => {
+    let attempts = 0;
+    const result = await RetryHandler.execute(
+      async () => {
+        if (++attempts < 3) {
+          throw ErrorFactory.network('flaky');
+        }
+        return attempts;
+      },
+      { baseDelay: 1 }
+    );
+    expect(result).toBe(3);
+
+    attempts = 0;
+    await expect(
+      RetryHandler.execute(async () => {
+        attempts++;
+        throw ErrorFactory.serviceUnavailable('down');
+      }, { baseDelay: 1 })
+    ).rejects.toThrow('Service unavailable: down');
+    expect(attempts).toBe(1);
+  });
+});
@@ -9,6 +9,7 @@ import {
   Server
 } from 'lucide-react';
 import type { DashboardStats, SystemHealth } from '@/types';
+import { normalizeStatus } from '@shared/incidentStatus';
 import { repositoryService } from '@/services/repository.service';
 
 export const Dashboard: FC = () => {
@@ -48,11 +49,11 @@ export const Dashboard: FC = () => {
   };
 
   const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'new': return 'text-blue-600 bg-blue-50 border-blue-200';
+    switch (normalizeStatus(status)) {
+      case 'open': return 'text-blue-600 bg-blue-50 border-blue-200';
       case 'investigating': return 'text-yellow-600 bg-yellow-50 border-yellow-200';
       case 'resolved': return 'text-green-600 bg-green-50 border-green-200';
-      case 'closed': return 'text-gray-600 bg-gray-50 border-gray-200';
+      case 'archived': return 'text-gray-600 bg-gray-50 border-gray-200';
       default: return 'text-gray-600 bg-gray-50 border-gray-200';
     }
   };
@@ -212,7 +213,7 @@ export const Dashboard: FC = () => {
                           {incident.severity}
                         </span>
                         <span className={`text-xs px-2 py-1 rounded-full border ${getStatusColor(incident.status)}`}>
-                          {incident.status}
+                          {normalizeStatus(incident.status) ?? incident.status}
                         </span>
                       </div>
                     </div>
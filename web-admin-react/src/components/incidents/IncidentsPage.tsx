@@ -24,16 +24,33 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { repositoryService } from '@/services/repository.service';
 import type { Incident } from '@/types';
+import {
+  INITIAL_STATUSES,
+  findTransition,
+  nextTransitions,
+  normalizeStatus,
+  planTransition,
+  type IncidentStatus,
+} from '@shared/incidentStatus';
 import { Plus, Search, Edit, Trash2, AlertCircle, CheckCircle, Clock, XCircle } from 'lucide-react';
 
 interface IncidentFormData {
   title: string;
   description: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'new' | 'open' | 'investigating' | 'resolved' | 'closed';
+  status: IncidentStatus;
   assigned_to?: string;
+  resolution_summary?: string;
+  reason?: string;
 }
 
+const STATUS_LABELS: Record<IncidentStatus, string> = {
+  open: 'Open',
+  investigating: 'Investigating',
+  resolved: 'Resolved',
+  archived: 'Archived',
+};
+
 const IncidentsPage: FC = () => {
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [loading, setLoading] = useState(true);
@@ -41,11 +58,12 @@ const IncidentsPage: FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingIncident, setEditingIncident] = useState<Incident | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
   const [formData, setFormData] = useState<IncidentFormData>({
     title: '',
     description: '',
     severity: 'medium',
-    status: 'new',
+    status: 'open',
   });
 
   useEffect(() => {
@@ -76,6 +94,7 @@ const IncidentsPage: FC = () => {
     
     console.log('Form submit - editingIncident:', currentEditingIncident);
     console.log('Form submit - formData:', formData);
+    setFormError(null);
     
     try {
       if (currentEditingIncident && currentEditingIncident.id) {
@@ -87,8 +106,16 @@ const IncidentsPage: FC = () => {
           title: formData.title,
           description: formData.description,
           severity: formData.severity,
-          status: formData.status,
         };
+
+        // Only send the status when it changed; the API rejects a move the state machine does not allow,
+        // so check it here first and keep the dialog open with the reason
+        if (formData.status !== normalizeStatus(currentEditingIncident.status)) {
+          planTransition(currentEditingIncident.status, formData.status, formData);
+          updateData.status = formData.status;
+          updateData.resolution_summary = formData.resolution_summary;
+          updateData.reason = formData.reason;
+        }
         
         // Only include assigned_to if it's defined
         if (formData.assigned_to !== undefined) {
@@ -137,10 +164,11 @@ const IncidentsPage: FC = () => {
         title: '',
         description: '',
         severity: 'medium',
-        status: 'new',
+        status: 'open',
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error('❌ Failed to save incident:', error);
+      setFormError(error?.message || 'Failed to save incident');
       // Refresh list to revert optimistic update if it failed
       await fetchIncidents();
       // Keep dialog open on error so user can retry
@@ -155,9 +183,10 @@ const IncidentsPage: FC = () => {
       title: incident.title || '',
       description: incident.description || '',
       severity: (incident.severity || 'medium') as 'low' | 'medium' | 'high' | 'critical',
-      status: (incident.status || 'new') as 'new' | 'open' | 'investigating' | 'resolved' | 'closed',
+      status: normalizeStatus(incident.status) ?? 'open',
       assigned_to: incident.assigned_to,
     });
+    setFormError(null);
     setIsCreateDialogOpen(true);
     console.log('✅ Edit mode activated, editingIncident set to:', incident.id);
   };
@@ -174,16 +203,14 @@ const IncidentsPage: FC = () => {
   };
 
   const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'new':
-        return <AlertCircle className="h-4 w-4" />;
+    switch (normalizeStatus(status)) {
       case 'open':
         return <AlertCircle className="h-4 w-4" />;
       case 'investigating':
         return <Clock className="h-4 w-4" />;
       case 'resolved':
         return <CheckCircle className="h-4 w-4" />;
-      case 'closed':
+      case 'archived':
         return <XCircle className="h-4 w-4" />;
       default:
         return <AlertCircle className="h-4 w-4" />;
@@ -191,16 +218,14 @@ const IncidentsPage: FC = () => {
   };
 
   const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'new':
-        return 'destructive';
+    switch (normalizeStatus(status)) {
       case 'open':
         return 'destructive';
       case 'investigating':
         return 'default';
       case 'resolved':
         return 'secondary';
-      case 'closed':
+      case 'archived':
         return 'outline';
       default:
         return 'default';
@@ -222,6 +247,15 @@ const IncidentsPage: FC = () => {
     }
   };
 
+  // A new incident may only start open or investigating; an existing one offers its allowed moves
+  const currentStatus = editingIncident ? normalizeStatus(editingIncident.status) ?? 'open' : null;
+  const statusOptions: IncidentStatus[] = currentStatus
+    ? [currentStatus, ...nextTransitions(currentStatus).map(transition => transition.to)]
+    : INITIAL_STATUSES;
+  const requiredFields = currentStatus && formData.status !== currentStatus
+    ? findTransition(currentStatus, formData.status)?.requires ?? []
+    : [];
+
   const filteredIncidents = incidents.filter(incident =>
     incident.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     incident.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -246,11 +280,12 @@ const IncidentsPage: FC = () => {
               // This ensures editingIncident is preserved during the dialog lifecycle
               console.log('Dialog closing, resetting form. Was editing:', editingIncident?.id);
               setEditingIncident(null);
+              setFormError(null);
               setFormData({
                 title: '',
                 description: '',
                 severity: 'medium',
-                status: 'new',
+                status: 'open',
               });
             } else {
               // Dialog is opening - log what mode we're in
@@ -261,11 +296,12 @@ const IncidentsPage: FC = () => {
           <DialogTrigger asChild>
             <Button onClick={() => {
               setEditingIncident(null);
+              setFormError(null);
               setFormData({
                 title: '',
                 description: '',
                 severity: 'medium',
-                status: 'new',
+                status: 'open',
               });
             }}>
               <Plus className="h-4 w-4 mr-2" />
@@ -342,8 +378,8 @@ const IncidentsPage: FC = () => {
                   <Label htmlFor="status">Status</Label>
                   <Select
                     name="status"
-                    value={formData.status || 'new'}
-                    onValueChange={(value: 'new' | 'open' | 'investigating' | 'resolved' | 'closed') =>
+                    value={formData.status || 'open'}
+                    onValueChange={(value: IncidentStatus) =>
                       setFormData({ ...formData, status: value })
                     }
                   >
@@ -351,16 +387,48 @@ const IncidentsPage: FC = () => {
                       <SelectValue placeholder="Select status" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="new">New</SelectItem>
-                      <SelectItem value="open">Open</SelectItem>
-                      <SelectItem value="investigating">Investigating</SelectItem>
-                      <SelectItem value="resolved">Resolved</SelectItem>
-                      <SelectItem value="closed">Closed</SelectItem>
+                      {statusOptions.map((status) => (
+                        <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
+              {requiredFields.includes('resolution_summary') && (
+                <div className="space-y-2">
+                  <Label htmlFor="resolution_summary">Resolution summary</Label>
+                  <Textarea
+                    id="resolution_summary"
+                    name="resolution_summary"
+                    value={formData.resolution_summary || ''}
+                    onChange={(e) => setFormData({ ...formData, resolution_summary: e.target.value })}
+                    placeholder="How was the incident resolved?"
+                    rows={2}
+                    required
+                  />
+                </div>
+              )}
+
+              {requiredFields.includes('reason') && (
+                <div className="space-y-2">
+                  <Label htmlFor="reason">Reason</Label>
+                  <Textarea
+                    id="reason"
+                    name="reason"
+                    value={formData.reason || ''}
+                    onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                    placeholder="Why is the status changing?"
+                    rows={2}
+                    required
+                  />
+                </div>
+              )}
+
+              {formError && (
+                <p className="text-sm text-destructive">{formError}</p>
+              )}
+
               <div className="flex justify-end space-x-2">
                 <Button
                   type="button"
@@ -372,7 +440,7 @@ const IncidentsPage: FC = () => {
                       title: '',
                       description: '',
                       severity: 'medium',
-                      status: 'new',
+                      status: 'open',
                     });
                   }}
                 >
@@ -464,7 +532,7 @@ const IncidentsPage: FC = () => {
                       <TableCell>
                         <Badge variant={getStatusColor(incident.status)} className="flex items-center w-fit">
                           {getStatusIcon(incident.status)}
-                          <span className="ml-1">{incident.status}</span>
+                          <span className="ml-1">{normalizeStatus(incident.status) ?? incident.status}</span>
                         </Badge>
                       </TableCell>
                       <TableCell>
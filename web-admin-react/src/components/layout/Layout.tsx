@@ -16,8 +16,16 @@ export const Layout: FC<LayoutProps> = ({ children }) => {
   const currentPage = pathToPage(location.pathname) || 'dashboard';
   const user = repositoryService.auth.getCurrentUser();
 
-  const handleLogout = () => {
-    repositoryService.auth.logout();
+  const handleLogout = async () => {
+    await repositoryService.auth.logout();
+    navigate(ROUTES.LOGIN, { replace: true });
+  };
+
+  const handleLogoutAll = async () => {
+    if (!window.confirm('Log out of every session, on all devices?')) {
+      return;
+    }
+    await repositoryService.auth.logoutAll();
     navigate(ROUTES.LOGIN, { replace: true });
   };
 
@@ -27,6 +35,7 @@ export const Layout: FC<LayoutProps> = ({ children }) => {
         user={user}
         currentPage={currentPage}
         onLogout={handleLogout}
+        onLogoutAll={handleLogoutAll}
         isCollapsed={isCollapsed}
         onToggleCollapse={() => setIsCollapsed(!isCollapsed)}
       />
@@ -20,6 +20,7 @@ interface SidebarProps {
   user: User | null;
   currentPage: PageType;
   onLogout: () => void;
+  onLogoutAll: () => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
 }
@@ -65,6 +66,7 @@ export const Sidebar: FC<SidebarProps> = ({
   user,
   currentPage,
   onLogout,
+  onLogoutAll,
   isCollapsed,
   onToggleCollapse,
 }) => {
@@ -137,6 +139,15 @@ export const Sidebar: FC<SidebarProps> = ({
           <LogOut className="h-4 w-4" />
           {!isCollapsed && <span className="ml-3">Logout</span>}
         </Button>
+        {!isCollapsed && (
+          <Button
+            variant="ghost"
+            className="w-full justify-start px-3 text-xs text-muted-foreground hover:text-destructive"
+            onClick={onLogoutAll}
+          >
+            Log out all sessions
+          </Button>
+        )}
       </div>
     </div>
   );
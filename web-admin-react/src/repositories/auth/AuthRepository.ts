@@ -1,10 +1,14 @@
 import type { IHttpClient } from '../base/IHttpClient.js';
-import type { IAuthRepository, LoginCredentials, LoginResponse } from './IAuthRepository.js';
+import type { IAuthRepository, LoginCredentials, LoginResponse, SessionTokens } from './IAuthRepository.js';
 import type { ApiResponse, User } from '@/types/index.js';
 import { HttpClient } from '../http/HttpClient.js';
 
 export class AuthRepository implements IAuthRepository {
-  constructor(private httpClient: IHttpClient) {}
+  constructor(private httpClient: IHttpClient) {
+    if (this.httpClient instanceof HttpClient) {
+      this.httpClient.setRefreshHandler(() => this.refresh());
+    }
+  }
 
   async login(credentials: LoginCredentials): Promise<ApiResponse<LoginResponse>> {
     const response = await this.httpClient.post<ApiResponse<LoginResponse>>(
@@ -13,26 +17,51 @@ export class AuthRepository implements IAuthRepository {
     );
 
     if (response.success && response.data?.token) {
-      // Update HTTP client token
-      if (this.httpClient instanceof HttpClient) {
-        this.httpClient.setToken(response.data.token);
-      }
-      
-      // Store in localStorage
-      localStorage.setItem('authToken', response.data.token);
+      this.storeTokens(response.data);
       localStorage.setItem('user', JSON.stringify(response.data.user));
     }
 
     return response;
   }
 
-  logout(): void {
-    if (this.httpClient instanceof HttpClient) {
-      this.httpClient.setToken(null);
+  /**
+   * Trade the refresh token for new tokens; returns the new access token, or null after signing out
+   */
+  async refresh(): Promise<string | null> {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (!refreshToken) {
+      return null;
     }
-    
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('user');
+
+    try {
+      const response = await this.httpClient.post<ApiResponse<SessionTokens>>(
+        '/api/auth/refresh',
+        { refreshToken }
+      );
+      if (response.success && response.data?.token) {
+        this.storeTokens(response.data);
+        return response.data.token;
+      }
+    } catch (error) {
+      // Another tab may have refreshed first and stored the next tokens
+      const latest = localStorage.getItem('refreshToken');
+      const token = localStorage.getItem('authToken');
+      if (latest && latest !== refreshToken && token) {
+        this.httpClient.setToken(token);
+        return token;
+      }
+    }
+
+    this.clearSession();
+    return null;
+  }
+
+  async logout(): Promise<void> {
+    await this.endSessions('/api/auth/logout');
+  }
+
+  async logoutAll(): Promise<void> {
+    await this.endSessions('/api/auth/logout-all');
   }
 
   getCurrentUser(): User | null {
@@ -44,5 +73,30 @@ export class AuthRepository implements IAuthRepository {
     const token = localStorage.getItem('authToken');
     return !!token;
   }
-}
 
+  // Signing out locally must not depend on the server being reachable
+  private async endSessions(url: string): Promise<void> {
+    try {
+      if (this.isAuthenticated()) {
+        await this.httpClient.post(url);
+      }
+    } catch (error) {
+      console.warn('Failed to end the session on the server:', error);
+    } finally {
+      this.clearSession();
+    }
+  }
+
+  private storeTokens(tokens: SessionTokens): void {
+    // Also stores authToken in localStorage
+    this.httpClient.setToken(tokens.token);
+    localStorage.setItem('refreshToken', tokens.refreshToken);
+  }
+
+  private clearSession(): void {
+    this.httpClient.setToken(null);
+    localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('user');
+  }
+}
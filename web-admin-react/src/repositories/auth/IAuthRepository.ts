@@ -6,15 +6,24 @@ export interface LoginCredentials {
   password: string;
 }
 
-export interface LoginResponse {
+export interface SessionTokens {
+  // Short-lived access token sent as the bearer token
   token: string;
+  // Exchanged for new tokens when the access token expires; each one works once
+  refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
+}
+
+export interface LoginResponse extends SessionTokens {
   user: User;
 }
 
 export interface IAuthRepository {
   login(credentials: LoginCredentials): Promise<ApiResponse<LoginResponse>>;
-  logout(): void;
+  refresh(): Promise<string | null>;
+  logout(): Promise<void>;
+  logoutAll(): Promise<void>;
   getCurrentUser(): User | null;
   isAuthenticated(): boolean;
 }
-
@@ -2,8 +2,19 @@ import type { IHttpClient, RequestConfig } from './IHttpClient.js';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
 
+// Resolves to a fresh access token, or null when the session cannot be refreshed
+export type RefreshHandler = () => Promise<string | null>;
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+// These answer 401 for bad credentials and refresh tokens; retrying them after a refresh would loop
+const NO_REFRESH_URLS = ['/api/auth/login', '/api/auth/refresh'];
+
 export class HttpClient implements IHttpClient {
   private token: string | null = null;
+  private refreshHandler: RefreshHandler | null = null;
+  // Requests failing together share one refresh
+  private refreshing: Promise<string | null> | null = null;
 
   constructor() {
     this.token = localStorage.getItem('authToken');
@@ -65,62 +76,58 @@ export class HttpClient implements IHttpClient {
     return payload as T;
   }
 
-  async get<T>(url: string, config?: RequestConfig): Promise<T> {
-    const fullUrl = this.buildUrl(url, config?.params);
-    const response = await fetch(fullUrl, {
-      method: 'GET',
+  /**
+   * Send a request; when an expired access token gets a 401, refresh it once and retry
+   */
+  private async send<T>(method: Method, url: string, data?: unknown, config?: RequestConfig): Promise<T> {
+    const request = () => fetch(this.buildUrl(url, config?.params), {
+      method,
       headers: this.getHeaders(config?.headers),
+      body: data ? JSON.stringify(data) : undefined,
       signal: config?.signal,
     });
 
+    let response = await request();
+    if (response.status === 401 && this.token && this.refreshHandler && !NO_REFRESH_URLS.includes(url)) {
+      if (await this.refreshToken()) {
+        response = await request();
+      }
+    }
+
     return this.handleResponse<T>(response);
   }
 
-  async post<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
-    const fullUrl = this.buildUrl(url, config?.params);
-    const response = await fetch(fullUrl, {
-      method: 'POST',
-      headers: this.getHeaders(config?.headers),
-      body: data ? JSON.stringify(data) : undefined,
-      signal: config?.signal,
-    });
+  private refreshToken(): Promise<string | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshHandler!().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
 
-    return this.handleResponse<T>(response);
+  async get<T>(url: string, config?: RequestConfig): Promise<T> {
+    return this.send<T>('GET', url, undefined, config);
   }
 
-  async put<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
-    const fullUrl = this.buildUrl(url, config?.params);
-    const response = await fetch(fullUrl, {
-      method: 'PUT',
-      headers: this.getHeaders(config?.headers),
-      body: data ? JSON.stringify(data) : undefined,
-      signal: config?.signal,
-    });
+  async post<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
+    return this.send<T>('POST', url, data, config);
+  }
 
-    return this.handleResponse<T>(response);
+  async put<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
+    return this.send<T>('PUT', url, data, config);
   }
 
   async delete<T>(url: string, config?: RequestConfig): Promise<T> {
-    const fullUrl = this.buildUrl(url, config?.params);
-    const response = await fetch(fullUrl, {
-      method: 'DELETE',
-      headers: this.getHeaders(config?.headers),
-      signal: config?.signal,
-    });
-
-    return this.handleResponse<T>(response);
+    return this.send<T>('DELETE', url, undefined, config);
   }
 
   async patch<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
-    const fullUrl = this.buildUrl(url, config?.params);
-    const response = await fetch(fullUrl, {
-      method: 'PATCH',
-      headers: this.getHeaders(config?.headers),
-      body: data ? JSON.stringify(data) : undefined,
-      signal: config?.signal,
-    });
+    return this.send<T>('PATCH', url, data, config);
+  }
 
-    return this.handleResponse<T>(response);
+  setRefreshHandler(handler: RefreshHandler | null): void {
+    this.refreshHandler = handler;
   }
 
   setToken(token: string | null): void {
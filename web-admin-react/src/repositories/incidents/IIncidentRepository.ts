@@ -1,16 +1,20 @@
-import type { Incident } from '@/types/index.js';
+import type { Incident, IncidentStatus } from '@/types/index.js';
 import type { PaginationParams, PaginatedResponse } from '../base/BaseRepository.js';
 
 export interface CreateIncidentDto {
   title: string;
   description: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'new' | 'open' | 'investigating' | 'resolved' | 'closed';
+  status: IncidentStatus;
   tags?: string[];
   assigned_to?: string;
 }
 
-export interface UpdateIncidentDto extends Partial<CreateIncidentDto> {}
+export interface UpdateIncidentDto extends Partial<CreateIncidentDto> {
+  // Required by some status transitions, see @shared/incidentStatus
+  resolution_summary?: string;
+  reason?: string;
+}
 
 export interface IIncidentRepository {
   findAll(params?: PaginationParams): Promise<PaginatedResponse<Incident>>;
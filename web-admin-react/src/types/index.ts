@@ -1,7 +1,12 @@
+import type { IncidentStatus } from '@shared/incidentStatus';
+import type { Role } from '@shared/permissions';
+
+export type { IncidentStatus, Role };
+
 export interface User {
   id: string;
   email: string;
-  role: 'admin' | 'user';
+  role: Role;
   name: string;
 }
 
@@ -25,9 +30,11 @@ export interface Incident {
   title: string;
   description: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'new' | 'open' | 'investigating' | 'resolved' | 'closed';
+  status: IncidentStatus;
   tags: string[];
   assigned_to?: string;
+  resolution_summary?: string;
+  resolved_at?: string | null;
   created: string;
   updated: string;
   created_at?: string;
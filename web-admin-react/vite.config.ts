@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 
@@ -8,6 +8,13 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Modules shared with the MCP server and the REST API, see ../src/shared/README.md
+      "@shared": path.resolve(__dirname, "../src/shared"),
+    },
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, "../src/shared")],
     },
   },
 })